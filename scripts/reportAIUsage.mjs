@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * Report the heaviest AI spenders over a recent window
+ *
+ * Aggregates the aiusages ledger per user (calls, tokens, images, estimated cost)
+ * and prints the top N, with each user's plan, to spot runaway usage and
+ * compare real cost against plan pricing.
+ *
+ * Run with: node scripts/reportAIUsage.mjs [days=30] [limit=20]
+ */
+
+import mongoose from 'mongoose';
+import 'dotenv/config';
+
+const MONGODB_URI = process.env.MONGO_URI || process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  console.error('❌ MONGO_URI environment variable is not set');
+  process.exit(1);
+}
+
+const days = parseInt(process.argv[2] || '30', 10);
+const limit = parseInt(process.argv[3] || '20', 10);
+
+async function reportAIUsage() {
+  try {
+    console.log('🔌 Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB\n');
+
+    const AIUsage = mongoose.connection.collection('aiusages');
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const rows = await AIUsage.aggregate([
+      { $match: { createdAt: { $gte: since }, userId: { $exists: true } } },
+      {
+        $group: {
+          _id: '$userId',
+          calls: { $sum: 1 },
+          failedCalls: { $sum: { $cond: ['$success', 0, 1] } },
+          inputTokens: { $sum: '$inputTokens' },
+          outputTokens: { $sum: '$outputTokens' },
+          images: { $sum: '$imageCount' },
+          costUsd: { $sum: '$costUsd' },
+          leadMagnets: { $addToSet: '$leadMagnetId' },
+        },
+      },
+      { $sort: { costUsd: -1 } },
+      { $limit: limit },
+      { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'user' } },
+      { $lookup: { from: 'subscriptions', localField: 'user.currentSubscriptionId', foreignField: '_id', as: 'subscription' } },
+    ]).toArray();
+
+    console.log(`📊 Top ${rows.length} AI spenders over the last ${days} days\n`);
+
+    for (const row of rows) {
+      const email = row.user[0]?.email || row._id.toString();
+      const plan = row.subscription[0]?.plan || 'unknown';
+      const perMagnet = row.leadMagnets.length > 0 ? row.costUsd / row.leadMagnets.length : row.costUsd;
+
+      console.log(`${email} (${plan})`);
+      console.log(`   - Cost: $${row.costUsd.toFixed(2)} ($${perMagnet.toFixed(2)} per lead magnet, ${row.leadMagnets.length} lead magnets)`);
+      console.log(`   - Calls: ${row.calls} (${row.failedCalls} failed)`);
+      console.log(`   - Tokens: ${row.inputTokens} in / ${row.outputTokens} out, ${row.images} images`);
+    }
+  } catch (error) {
+    console.error('❌ Report failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('\n🔌 Disconnected from MongoDB');
+  }
+}
+
+reportAIUsage();
@@ -5,6 +5,9 @@ import morgan from 'morgan';
 import session from 'express-session';
 import { config } from './config/index.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { apiKeyAuth } from './middleware/auth.js';
+import { apiKeyLimiter } from './middleware/rateLimiter.js';
+import { resolveWorkspace } from './middleware/workspace.js';
 import { logger } from './utils/logger.js';
 import { getSessionConfig, getCorsConfig } from './utils/config.js';
 
@@ -22,6 +25,16 @@ import analyticsRoutes from './routes/analytics.js';
 import billingRoutes from './routes/billing.js';
 import sentryRoutes from './routes/sentry.js';
 import exploreRoutes from './routes/explore.js';
+import jobRoutes from './routes/jobs.js';
+import usageRoutes from './routes/usage.js';
+import domainRoutes from './routes/domains.js';
+import webhookRoutes from './routes/webhooks.js';
+import integrationRoutes from './routes/integrations.js';
+import suppressionRoutes from './routes/suppressions.js';
+import privacyRoutes from './routes/privacy.js';
+import accountRoutes from './routes/account.js';
+import workspaceRoutes from './routes/workspaces.js';
+import agencyRoutes from './routes/agency.js';
 
 const app: express.Application = express();
 
@@ -110,6 +123,14 @@ app.use(session(getSessionConfig()));
 app.use(passport.initialize());
 app.use(passport.session());
 
+// ============================================
+// API Keys
+// ============================================
+
+// Scripts and integrations authenticate with a personal API key instead of the session cookie.
+// Authenticated requests then act in the workspace named by X-Workspace-Id (default: their own).
+app.use('/api', apiKeyAuth, apiKeyLimiter, resolveWorkspace);
+
 // ============================================
 // Health Check
 // ============================================
@@ -137,11 +158,22 @@ app.use('/api/analytics', analyticsRoutes);
 app.use('/api/billing', billingRoutes);
 app.use('/api/sentry', sentryRoutes);
 app.use('/api/explore', exploreRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/domains', domainRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/integrations', integrationRoutes);
+app.use('/api/suppressions', suppressionRoutes);
+app.use('/api/privacy', privacyRoutes);
+app.use('/api/account', accountRoutes);
+app.use('/api/workspaces', workspaceRoutes);
+app.use('/api/agency', agencyRoutes);
 
 // Public routes (landing pages and lead capture)
 app.use('/public', publicRoutes);
 // Public routes on username subdomains: https://{username}.<PUBLIC_ROOT_DOMAIN>/{slug}
-// Guarded router; it no-ops unless hostname matches a non-reserved subdomain.
+// Also serves verified custom domains (https://{custom-domain}/{slug}).
+// Guarded router; it no-ops unless hostname matches a non-reserved subdomain or a custom domain.
 app.use('/', publicSubdomainRoutes);
 
 // API info route
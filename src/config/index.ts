@@ -27,6 +27,27 @@ export const config = {
   // Gemini (Google AI)
   geminiApiKey: process.env.GEMINI_API_KEY || '',
 
+  // Text LLM provider selection: openai | gemini | local | fake
+  // 'local' is any OpenAI-compatible endpoint (Ollama, vLLM, LM Studio...).
+  // 'fake' returns deterministic fixtures so the pipeline runs offline.
+  llm: {
+    provider: process.env.LLM_PROVIDER || (process.env.NODE_ENV === 'test' ? 'fake' : 'openai'),
+    // Optional per-plan overrides (empty = use the default provider)
+    planProviders: {
+      free: process.env.LLM_PROVIDER_FREE || '',
+      starter: process.env.LLM_PROVIDER_STARTER || '',
+      pro: process.env.LLM_PROVIDER_PRO || '',
+      agency: process.env.LLM_PROVIDER_AGENCY || '',
+    },
+    openaiModel: process.env.OPENAI_MODEL || 'gpt-5.1',
+    geminiModel: process.env.GEMINI_TEXT_MODEL || 'gemini-2.5-flash',
+    local: {
+      baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LOCAL_LLM_API_KEY || '',
+      model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    },
+  },
+
   // Stripe
   stripe: {
     secretKey: process.env.STRIPE_SECRET_KEY || '',
@@ -55,6 +76,104 @@ export const config = {
     fromEmail: process.env.MAILGUN_FROM_EMAIL || 'Stefano from MagnetHub <hello@magnethubai.com>',
   },
 
+  // Background jobs (lead magnet generation)
+  jobs: {
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10),
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '1', 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+    retryBaseDelayMs: parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '30000', 10),
+    // Running jobs not updated for this long are assumed lost (crash/restart) and re-queued
+    lockTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '900000', 10),
+  },
+
+  // Estimated AI pricing in USD (per 1M tokens / per generated image) used by the usage ledger.
+  // Models not listed (local, fake) are recorded at zero cost.
+  aiPricing: {
+    'gpt-5.1': { inputPerMillion: 1.25, outputPerMillion: 10, perImage: 0 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+    'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 12, perImage: 0.134 },
+  } as Record<string, { inputPerMillion: number; outputPerMillion: number; perImage: number }>,
+
+  // Outbound webhooks
+  webhooks: {
+    pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '15000', 10),
+    batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || '50', 10),
+    // Retries back off exponentially: 1m, 2m, 4m, ... capped at maxRetryDelayMs
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+    retryBaseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '60000', 10),
+    maxRetryDelayMs: 6 * 60 * 60 * 1000,
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    maxEndpointsPerUser: 10,
+  },
+
+  // Pushing captured leads into customers' own ESP / CRM lists
+  crm: {
+    pollIntervalMs: parseInt(process.env.CRM_SYNC_POLL_INTERVAL_MS || '30000', 10),
+    batchSize: parseInt(process.env.CRM_SYNC_BATCH_SIZE || '50', 10),
+    maxAttempts: parseInt(process.env.CRM_SYNC_MAX_ATTEMPTS || '6', 10),
+    retryBaseDelayMs: 60 * 1000,
+    maxRetryDelayMs: 6 * 60 * 60 * 1000,
+    timeoutMs: 10000,
+    maxConnectionsPerUser: 5,
+  },
+
+  // Personal API keys (Authorization: Bearer mh_...)
+  apiKeys: {
+    prefix: 'mh_',
+    maxKeysPerUser: 10,
+    // Per-key request limit; users may lower it for a key but not raise it above the max
+    defaultRateLimitPerMinute: parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE || '60', 10),
+    maxRateLimitPerMinute: 600,
+    // lastUsedAt is written at most this often per key
+    lastUsedUpdateIntervalMs: 60 * 1000,
+  },
+
+  // Double opt-in confirmation links
+  doubleOptIn: {
+    tokenTtlHours: parseInt(process.env.DOUBLE_OPT_IN_TOKEN_TTL_HOURS || '48', 10),
+    // Re-submitting the form resends the confirmation email at most this often
+    resendIntervalMs: 10 * 60 * 1000,
+  },
+
+  // Two-factor authentication (TOTP)
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'MagnetHub',
+    recoveryCodeCount: 10,
+    // Time allowed between the password and the second-factor step
+    loginTtlMinutes: 5,
+    // Wrong codes in a row before the account's second factor is locked
+    maxFailedAttempts: 5,
+    lockoutMinutes: 15,
+  },
+
+  // Team workspaces
+  workspaces: {
+    inviteTtlDays: 7,
+    // Members including the owner and pending invitations
+    maxMembers: parseInt(process.env.WORKSPACE_MAX_MEMBERS || '25', 10),
+  },
+
+  // Account data export (zip) downloads
+  accountExport: {
+    // Exports can be downloaded for this long, then a new one has to be requested
+    availableDays: 7,
+    downloadUrlTtlSeconds: 15 * 60,
+  },
+
+  // Signed unsubscribe links in lead emails
+  unsubscribe: {
+    secret: process.env.UNSUBSCRIBE_SECRET || process.env.SESSION_SECRET || 'dev-secret-change-in-production',
+  },
+
+  // Follow-up email sequences
+  sequence: {
+    // Default day offsets (from signup) for emails 2..n of a generated sequence
+    defaultDelayDays: [1, 3, 5, 7],
+    pollIntervalMs: parseInt(process.env.SEQUENCE_POLL_INTERVAL_MS || '60000', 10),
+    batchSize: parseInt(process.env.SEQUENCE_BATCH_SIZE || '50', 10),
+    maxAttempts: parseInt(process.env.SEQUENCE_MAX_ATTEMPTS || '5', 10),
+  },
+
   // URLs
   clientUrl: process.env.CLIENT_URL || 'http://localhost:8080',
   landingUrl: process.env.LANDING_URL || 'http://localhost:3000',
@@ -70,6 +189,12 @@ export const config = {
   // Optional debug key for troubleshooting public subdomain routing.
   // If set, GET /__debug/host?key=... will return effective host/header info.
   publicDebugKey: process.env.PUBLIC_DEBUG_KEY || '',
+  // Custom domains for public pages: customers point a CNAME at cnameTarget and
+  // prove ownership with a TXT record at {verificationPrefix}.{hostname}
+  customDomains: {
+    cnameTarget: process.env.CUSTOM_DOMAIN_CNAME_TARGET || 'domains.magnethubai.com',
+    verificationPrefix: '_magnethub-verify',
+  },
   // Email/image assets
   // Public URL to the isotype stored in magnethub-landing/public/MagnetHub Isotype.png
   isotypeUrl: process.env.ISOTYPE_URL || 'https://magnethubai.com/MagnetHub%20Isotype.png',
@@ -96,21 +221,33 @@ export const config = {
       leadMagnetsTotal: 1, // lifetime limit
       leadsPerMagnet: 100,
       brands: 1,
+      customDomains: 0,
+      clientAccounts: 0,
+      whiteLabel: false,
     },
     starter: {
       leadMagnetsPerMonth: 10,
       leadsPerMagnet: Infinity,
       brands: 1,
+      customDomains: 0,
+      clientAccounts: 0,
+      whiteLabel: false,
     },
     pro: {
       leadMagnetsPerMonth: 30,
       leadsPerMagnet: Infinity,
       brands: 3,
+      customDomains: 1,
+      clientAccounts: 0,
+      whiteLabel: false,
     },
     agency: {
       leadMagnetsPerMonth: 100,
       leadsPerMagnet: Infinity,
       brands: Infinity,
+      customDomains: Infinity,
+      clientAccounts: Infinity,
+      whiteLabel: true,
     },
   },
 } as const;
@@ -123,9 +260,15 @@ export function validateConfig(): void {
   const required = [
     'MONGO_URI',
     'SESSION_SECRET',
-    'OPENAI_API_KEY',
   ];
 
+  // Only require credentials for the default text LLM provider actually in use
+  if (config.llm.provider === 'openai') {
+    required.push('OPENAI_API_KEY');
+  } else if (config.llm.provider === 'gemini') {
+    required.push('GEMINI_API_KEY');
+  }
+
   if (config.isProd) {
     required.push(
       'GOOGLE_CLIENT_ID',
@@ -0,0 +1,104 @@
+import type { Response, NextFunction } from 'express';
+import { User } from '../models/User.js';
+import { requestAccountExport, getAccountExportDownloadUrl, deleteAccount } from '../services/accountService.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import { clearSentryUser } from '../utils/sentry.js';
+import type { AuthenticatedRequest, ApiResponse, IJob } from '../types/index.js';
+
+// ============================================
+// Data Export
+// ============================================
+
+export async function requestExport(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ job: IJob }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const job = await requestAccountExport(req.user._id);
+
+    res.status(202).json({
+      success: true,
+      data: { job },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getExportDownload(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ url: string; expiresAt: Date }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const download = await getAccountExportDownloadUrl(req.user._id, req.params.jobId);
+
+    res.json({
+      success: true,
+      data: download,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Delete Account
+// ============================================
+
+export async function remove(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const user = await User.findById(req.user._id).select('+password');
+    if (!user) {
+      throw AppError.unauthorized();
+    }
+
+    if (req.body.confirmUsername !== user.username) {
+      throw AppError.badRequest('Type your username to confirm', 'CONFIRMATION_MISMATCH');
+    }
+    // Google-only accounts have no password to check
+    if (user.password && !(await user.comparePassword(req.body.password || ''))) {
+      throw AppError.unauthorized('Incorrect password', 'INVALID_PASSWORD');
+    }
+
+    await deleteAccount(user);
+
+    // The account is gone; a failure to end the session is only logged
+    req.logout((logoutError) => {
+      if (logoutError) {
+        logger.error('Error logging out deleted user', logoutError);
+      }
+      req.session.destroy((sessionError) => {
+        if (sessionError) {
+          logger.error('Error destroying session of deleted user', sessionError);
+        }
+        clearSentryUser();
+
+        res.json({
+          success: true,
+          data: { message: 'Your account has been deleted' },
+        });
+      });
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,170 @@
+import type { Response, NextFunction } from 'express';
+import {
+  getAgencyAccount,
+  listClientAccounts,
+  createClientAccount,
+  updateClientAccount,
+  deleteClientAccount,
+  inviteClientLogin,
+  setHideBranding,
+  type ClientAccount,
+} from '../services/agencyService.js';
+import { getAccountId } from '../middleware/workspace.js';
+import { AppError } from '../utils/AppError.js';
+import type { AuthenticatedRequest, ApiResponse, IWorkspaceInvite } from '../types/index.js';
+
+// ============================================
+// List Client Accounts
+// ============================================
+
+export async function getClients(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ clients: ClientAccount[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const agency = await getAgencyAccount(getAccountId(req));
+    const clients = await listClientAccounts(agency._id);
+
+    res.json({
+      success: true,
+      data: { clients },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Create Client Account
+// ============================================
+
+export async function createClient(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ client: ClientAccount }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const agency = await getAgencyAccount(getAccountId(req));
+    const client = await createClientAccount(agency, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: { client },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Update Client Account
+// ============================================
+
+export async function updateClient(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ client: ClientAccount }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const agency = await getAgencyAccount(getAccountId(req));
+    const client = await updateClientAccount(agency._id, req.params.id, req.body);
+
+    res.json({
+      success: true,
+      data: { client },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Delete Client Account
+// ============================================
+
+export async function removeClient(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const agency = await getAgencyAccount(getAccountId(req));
+    await deleteClientAccount(agency._id, req.params.id);
+
+    res.json({
+      success: true,
+      data: { message: 'Client account deleted' },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Client Logins
+// ============================================
+
+export async function inviteClient(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ invite: IWorkspaceInvite }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const agency = await getAgencyAccount(getAccountId(req));
+    const invite = await inviteClientLogin(agency, req.params.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: { invite },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// White-Label
+// ============================================
+
+export async function updateWhiteLabel(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ hideBranding: boolean }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const agency = await getAgencyAccount(getAccountId(req));
+    await setHideBranding(agency, req.body.hideBranding);
+
+    res.json({
+      success: true,
+      data: { hideBranding: !!agency.hideBranding },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -4,6 +4,7 @@ import { Lead } from '../models/Lead.js';
 import { PageView } from '../models/PageView.js';
 import { Quiz } from '../models/Quiz.js';
 import { QuizResponse } from '../models/QuizResponse.js';
+import { getAccountId } from '../middleware/workspace.js';
 import { AppError } from '../utils/AppError.js';
 import type { AuthenticatedRequest, ApiResponse } from '../types/index.js';
 
@@ -94,11 +95,11 @@ export async function getOverview(
     }
 
     // Get all user's lead magnets
-    const leadMagnets = await LeadMagnet.find({ userId: req.user._id }).select('_id');
+    const leadMagnets = await LeadMagnet.find({ userId: getAccountId(req) }).select('_id');
     const leadMagnetIds = leadMagnets.map((lm) => lm._id);
 
     // Get all user's quizzes
-    const quizzes = await Quiz.find({ userId: req.user._id }).select('_id stats');
+    const quizzes = await Quiz.find({ userId: getAccountId(req) }).select('_id stats');
     const quizIds = quizzes.map((q) => q._id);
 
     if (leadMagnetIds.length === 0 && quizIds.length === 0) {
@@ -257,10 +258,10 @@ export async function getTimeSeries(
     const timezone = (req.query.timezone as string) || 'UTC';
     const startDate = getDaysAgo(days);
 
-    const leadMagnets = await LeadMagnet.find({ userId: req.user._id }).select('_id');
+    const leadMagnets = await LeadMagnet.find({ userId: getAccountId(req) }).select('_id');
     const leadMagnetIds = leadMagnets.map((lm) => lm._id);
 
-    const quizzes = await Quiz.find({ userId: req.user._id }).select('_id');
+    const quizzes = await Quiz.find({ userId: getAccountId(req) }).select('_id');
     const quizIds = quizzes.map((q) => q._id);
 
     if (leadMagnetIds.length === 0 && quizIds.length === 0) {
@@ -404,10 +405,10 @@ export async function getSourceBreakdown(
       throw AppError.unauthorized();
     }
 
-    const leadMagnets = await LeadMagnet.find({ userId: req.user._id }).select('_id');
+    const leadMagnets = await LeadMagnet.find({ userId: getAccountId(req) }).select('_id');
     const leadMagnetIds = leadMagnets.map((lm) => lm._id);
 
-    const quizzes = await Quiz.find({ userId: req.user._id }).select('_id');
+    const quizzes = await Quiz.find({ userId: getAccountId(req) }).select('_id');
     const quizIds = quizzes.map((q) => q._id);
 
     if (leadMagnetIds.length === 0 && quizIds.length === 0) {
@@ -501,11 +502,11 @@ export async function getFunnelPerformance(
       throw AppError.unauthorized();
     }
 
-    const leadMagnets = await LeadMagnet.find({ userId: req.user._id })
+    const leadMagnets = await LeadMagnet.find({ userId: getAccountId(req) })
       .select('_id title slug type')
       .lean();
 
-    const quizzes = await Quiz.find({ userId: req.user._id })
+    const quizzes = await Quiz.find({ userId: getAccountId(req) })
       .select('_id title slug stats')
       .lean();
 
@@ -590,11 +591,11 @@ export async function getRecentActivity(
 
     const limit = parseInt(req.query.limit as string) || 20;
 
-    const leadMagnets = await LeadMagnet.find({ userId: req.user._id })
+    const leadMagnets = await LeadMagnet.find({ userId: getAccountId(req) })
       .select('_id title')
       .lean();
 
-    const quizzes = await Quiz.find({ userId: req.user._id })
+    const quizzes = await Quiz.find({ userId: getAccountId(req) })
       .select('_id title')
       .lean();
 
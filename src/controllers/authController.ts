@@ -11,7 +11,17 @@ import { BrevoService } from '../services/brevoService.js';
 import { welcomeEmail } from '../templates/emailTemplates.js';
 import { sendEmail } from '../services/emailService.js';
 import { setSentryUser, clearSentryUser } from '../utils/sentry.js';
-import type { AuthenticatedRequest, IUserPublic, ApiResponse, IBrandSettings, IUser, LeadMagnetPrivacy } from '../types/index.js';
+import { listApiKeys, getApiKey, createApiKey, updateApiKey, revokeApiKey, API_KEY_SCOPES } from '../services/apiKeyService.js';
+import {
+  getTwoFactorStatus,
+  beginEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifyLoginSecondFactor,
+  type TwoFactorStatus,
+} from '../services/twoFactorService.js';
+import type { AuthenticatedRequest, IUserPublic, ApiResponse, IBrandSettings, IUser, LeadMagnetPrivacy, IApiKey, ApiKeyScope } from '../types/index.js';
 
 // ============================================
 // Helper Functions
@@ -24,6 +34,8 @@ function sanitizeUser(user: {
   username: string; 
   brandSettings?: IBrandSettings;
   hasCompletedOnboarding?: boolean;
+  hideBranding?: boolean;
+  twoFactor?: { enabled?: boolean };
   createdAt: Date;
 }): IUserPublic {
   return {
@@ -33,10 +45,22 @@ function sanitizeUser(user: {
     username: user.username,
     brandSettings: user.brandSettings,
     hasCompletedOnboarding: user.hasCompletedOnboarding,
+    hideBranding: user.hideBranding,
+    twoFactorEnabled: !!user.twoFactor?.enabled,
     createdAt: user.createdAt,
   };
 }
 
+/**
+ * Remember a user whose first factor was accepted; the login is completed by POST /api/auth/2fa/verify
+ */
+function startTwoFactorChallenge(req: Request, userId: string): void {
+  req.session.pendingTwoFactor = {
+    userId,
+    expiresAt: Date.now() + config.twoFactor.loginTtlMinutes * 60 * 1000,
+  };
+}
+
 async function generateUniqueUsername(base: string): Promise<string> {
   let username = slugify(base, { lower: true, strict: true });
   
@@ -165,7 +189,7 @@ export async function register(
 
 export function login(
   req: Request,
-  res: Response<ApiResponse<{ user: IUserPublic }>>,
+  res: Response<ApiResponse<{ user?: IUserPublic; twoFactorRequired?: boolean }>>,
   next: NextFunction
 ): void {
   passport.authenticate('local', (err: Error | null, user: AuthenticatedRequest['user'], info: { message?: string }) => {
@@ -177,6 +201,17 @@ export function login(
       return next(AppError.unauthorized(info?.message || 'Invalid credentials'));
     }
 
+    // Password accepted; the session stays anonymous until the second factor is verified
+    if (user.twoFactor?.enabled) {
+      startTwoFactorChallenge(req, user._id.toString());
+      logger.info('Two-factor code requested at login', { userId: user._id });
+      res.json({
+        success: true,
+        data: { twoFactorRequired: true },
+      });
+      return;
+    }
+
     req.login(user, (loginErr) => {
       if (loginErr) {
         return next(loginErr);
@@ -286,11 +321,25 @@ export function getCurrentUser(
 
 export function googleCallback(
   req: Request,
-  res: Response
+  res: Response,
+  next: NextFunction
 ): void {
   // Successful authentication, redirect to client
   const authReq = req as AuthenticatedRequest;
   logger.info('User authenticated via Google', { userId: authReq.user?._id });
+
+  // Undo the session login and ask for the second factor first
+  if (authReq.user?.twoFactor?.enabled) {
+    const userId = authReq.user._id.toString();
+    req.logout((err) => {
+      if (err) {
+        return next(err);
+      }
+      startTwoFactorChallenge(req, userId);
+      res.redirect(`${config.clientUrl}/login/two-factor`);
+    });
+    return;
+  }
   
   // Set Sentry user context
   if (authReq.user) {
@@ -300,6 +349,155 @@ export function googleCallback(
   res.redirect(`${config.clientUrl}/dashboard`);
 }
 
+// ============================================
+// Two-Factor Login Step
+// ============================================
+
+export async function verifyTwoFactor(
+  req: Request,
+  res: Response<ApiResponse<{ user: IUserPublic }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      throw AppError.unauthorized('Your login has expired. Please log in again.', 'TWO_FACTOR_LOGIN_EXPIRED');
+    }
+
+    // Wrong codes are counted on the user, so logging in again does not reset the limit
+    const user = await verifyLoginSecondFactor(pending.userId, req.body);
+    delete req.session.pendingTwoFactor;
+
+    req.login(user, (loginErr) => {
+      if (loginErr) {
+        return next(loginErr);
+      }
+
+      logger.info('User logged in with two-factor authentication', { userId: user._id });
+
+      // Set Sentry user context
+      setSentryUser({ id: user._id.toString(), email: user.email });
+
+      res.json({
+        success: true,
+        data: { user: sanitizeUser(user) },
+      });
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Two-Factor Settings
+// ============================================
+
+export async function getTwoFactor(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ twoFactor: TwoFactorStatus }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const twoFactor = await getTwoFactorStatus(req.user._id);
+
+    res.json({
+      success: true,
+      data: { twoFactor },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function setupTwoFactor(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ secret: string; otpauthUri: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { secret, otpauthUri } = await beginEnrollment(req.user._id);
+
+    res.json({
+      success: true,
+      data: { secret, otpauthUri },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function enableTwoFactor(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ recoveryCodes: string[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const recoveryCodes = await confirmEnrollment(req.user._id, req.body.code);
+
+    res.json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function disableTwoFactorHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    await disableTwoFactor(req.user._id, req.body);
+
+    res.json({
+      success: true,
+      data: { message: 'Two-factor authentication disabled' },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function regenerateRecoveryCodesHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ recoveryCodes: string[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(req.user._id, req.body.code);
+
+    res.json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 // ============================================
 // Update Profile
 // ============================================
@@ -530,3 +728,92 @@ export async function updatePrivacySettings(
   }
 }
 
+// ============================================
+// API Keys
+// ============================================
+
+export async function getApiKeys(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ apiKeys: IApiKey[]; scopes: ApiKeyScope[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const apiKeys = await listApiKeys(req.user._id);
+
+    res.json({
+      success: true,
+      data: { apiKeys, scopes: API_KEY_SCOPES },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createApiKeyHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ apiKey: IApiKey; key: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { apiKey, key } = await createApiKey(req.user._id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: { apiKey, key },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateApiKeyHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ apiKey: IApiKey }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const apiKey = await getApiKey(req.user._id, req.params.id);
+    await updateApiKey(apiKey, req.body);
+
+    res.json({
+      success: true,
+      data: { apiKey },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeApiKeyHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const apiKey = await getApiKey(req.user._id, req.params.id);
+    await revokeApiKey(apiKey);
+
+    res.json({
+      success: true,
+      data: { message: 'API key revoked' },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -5,6 +5,7 @@ import { stripeService } from '../services/stripeService.js';
 import { billingService } from '../services/billingService.js';
 import { SlackService } from '../services/slackService.js';
 import { sendPaymentFailureEmail } from '../services/emailService.js';
+import { getAccountId } from '../middleware/workspace.js';
 import { AppError } from '../utils/AppError.js';
 import { logger } from '../utils/logger.js';
 import { config, PlanType } from '../config/index.js';
@@ -30,13 +31,13 @@ export async function createCheckoutSession(
       throw AppError.badRequest('Invalid plan. Must be starter, pro, or agency.');
     }
 
-    const user = await User.findById(req.user._id);
+    const user = await User.findById(getAccountId(req));
     if (!user) {
       throw AppError.notFound('User not found');
     }
 
     // Check if user already has an active paid subscription
-    const activeSubscription = await Subscription.findActiveByUserId(req.user._id.toString());
+    const activeSubscription = await Subscription.findActiveByUserId(getAccountId(req).toString());
     if (activeSubscription && activeSubscription.isPaid()) {
       throw AppError.badRequest('You already have an active subscription. Please manage it from the billing settings.');
     }
@@ -98,14 +99,14 @@ export async function getSubscriptionStatus(
       throw AppError.unauthorized();
     }
 
-    const subscriptionStatus = await billingService.getUserSubscriptionStatus(req.user._id.toString());
+    const subscriptionStatus = await billingService.getUserSubscriptionStatus(getAccountId(req).toString());
 
     // Get payment method from the latest subscription with a customer ID (even if past_due/unpaid)
     let paymentMethod = null;
     const latestSubscription =
-      (await Subscription.findActiveByUserId(req.user._id.toString())) ||
+      (await Subscription.findActiveByUserId(getAccountId(req).toString())) ||
       (await Subscription.findOne({
-        userId: req.user._id,
+        userId: getAccountId(req),
         stripeCustomerId: { $exists: true, $ne: null },
       }).sort({ createdAt: -1 }));
 
@@ -156,9 +157,9 @@ export async function createPortalSession(
 
     // Prefer an active subscription, otherwise fallback to most recent paid/past_due subscription
     let subscription =
-      (await Subscription.findActiveByUserId(req.user._id.toString())) ||
+      (await Subscription.findActiveByUserId(getAccountId(req).toString())) ||
       (await Subscription.findOne({
-        userId: req.user._id,
+        userId: getAccountId(req),
         stripeCustomerId: { $exists: true, $ne: null },
       }).sort({ createdAt: -1 }));
 
@@ -194,7 +195,7 @@ export async function getInvoices(
       throw AppError.unauthorized();
     }
 
-    const activeSubscription = await Subscription.findActiveByUserId(req.user._id.toString());
+    const activeSubscription = await Subscription.findActiveByUserId(getAccountId(req).toString());
 
     if (!activeSubscription?.stripeCustomerId) {
       res.json({
@@ -238,7 +239,7 @@ export async function cancelSubscription(
       throw AppError.unauthorized();
     }
 
-    const activeSubscription = await Subscription.findActiveByUserId(req.user._id.toString());
+    const activeSubscription = await Subscription.findActiveByUserId(getAccountId(req).toString());
 
     if (!activeSubscription?.stripeSubscriptionId) {
       throw AppError.notFound('No active subscription found');
@@ -259,7 +260,7 @@ export async function cancelSubscription(
     };
     await activeSubscription.save();
 
-    logger.info(`Subscription canceled at period end for user: ${req.user._id}`);
+    logger.info(`Subscription canceled at period end for user: ${getAccountId(req)}`);
 
     res.json({
       success: true,
@@ -288,7 +289,7 @@ export async function reactivateSubscription(
       throw AppError.unauthorized();
     }
 
-    const activeSubscription = await Subscription.findActiveByUserId(req.user._id.toString());
+    const activeSubscription = await Subscription.findActiveByUserId(getAccountId(req).toString());
 
     if (!activeSubscription?.stripeSubscriptionId) {
       throw AppError.notFound('No active subscription found');
@@ -308,7 +309,7 @@ export async function reactivateSubscription(
     }
     await activeSubscription.save();
 
-    logger.info(`Subscription reactivated for user: ${req.user._id}`);
+    logger.info(`Subscription reactivated for user: ${getAccountId(req)}`);
 
     res.json({
       success: true,
@@ -342,7 +343,7 @@ export async function changePlan(
       throw AppError.badRequest('Invalid plan. Must be starter, pro, or agency.');
     }
 
-    const activeSubscription = await Subscription.findActiveByUserId(req.user._id.toString());
+    const activeSubscription = await Subscription.findActiveByUserId(getAccountId(req).toString());
 
     if (!activeSubscription?.stripeSubscriptionId) {
       throw AppError.notFound('No active subscription found. Please subscribe first.');
@@ -362,11 +363,11 @@ export async function changePlan(
     activeSubscription.stripePriceId = stripeService.getPriceIdForPlan(plan);
     await activeSubscription.save();
 
-    logger.info(`Plan changed for user ${req.user._id}: ${oldPlan} -> ${plan}`);
+    logger.info(`Plan changed for user ${getAccountId(req)}: ${oldPlan} -> ${plan}`);
 
     // Send Slack notification for plan change
     try {
-      const user = await User.findById(req.user._id);
+      const user = await User.findById(getAccountId(req));
       if (user) {
         await SlackService.sendPlanChangeNotification(
           user.email,
@@ -1,5 +1,6 @@
 import type { Response, NextFunction } from 'express';
 import { Brand } from '../models/Brand.js';
+import { getAccountId } from '../middleware/workspace.js';
 import { AppError } from '../utils/AppError.js';
 import { logger } from '../utils/logger.js';
 import { scrapeBrand } from '../services/brandScrapingService.js';
@@ -21,7 +22,7 @@ export async function getAll(
       throw AppError.unauthorized();
     }
 
-    const brands = await Brand.find({ userId: req.user._id })
+    const brands = await Brand.find({ userId: getAccountId(req) })
       .sort({ isDefault: -1, createdAt: -1 }); // Default first, then newest
 
     res.json({
@@ -51,7 +52,7 @@ export async function getOne(
 
     const brand = await Brand.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!brand) {
@@ -94,7 +95,7 @@ export async function create(
 
     // Check if brand with same source already exists
     const existingBrand = await Brand.findOne({
-      userId: req.user._id,
+      userId: getAccountId(req),
       sourceUrl: normalizedSourceUrl,
     });
 
@@ -103,7 +104,7 @@ export async function create(
     }
 
     // If this is the first brand or isDefault is true, make it default
-    const brandCount = await Brand.countDocuments({ userId: req.user._id });
+    const brandCount = await Brand.countDocuments({ userId: getAccountId(req) });
     const shouldBeDefault = isDefault || brandCount === 0;
 
     // Scrape and analyze the brand source
@@ -148,7 +149,7 @@ export async function create(
     }
 
     const brand = await Brand.create({
-      userId: req.user._id,
+      userId: getAccountId(req),
       name,
       description: scrapedData?.description,
       sourceType,
@@ -177,7 +178,7 @@ export async function create(
     }
 
     logger.info('Brand created', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       brandId: brand._id,
       name,
       sourceType,
@@ -213,7 +214,7 @@ export async function update(
 
     const brand = await Brand.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!brand) {
@@ -234,7 +235,7 @@ export async function update(
     // If sourceUrl is being updated, check for duplicates
     if (normalizedSourceUrl !== undefined && normalizedSourceUrl !== brand.sourceUrl) {
       const existingBrand = await Brand.findOne({
-        userId: req.user._id,
+        userId: getAccountId(req),
         sourceUrl: normalizedSourceUrl,
         _id: { $ne: id }, // Exclude current brand from check
       });
@@ -255,7 +256,7 @@ export async function update(
     await brand.save();
 
     logger.info('Brand updated', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       brandId: brand._id,
       updatedFields: { 
         name: name !== undefined, 
@@ -293,7 +294,7 @@ export async function remove(
 
     const brand = await Brand.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!brand) {
@@ -305,7 +306,7 @@ export async function remove(
 
     // If deleted brand was default, make the oldest remaining brand default
     if (wasDefault) {
-      const nextBrand = await Brand.findOne({ userId: req.user._id })
+      const nextBrand = await Brand.findOne({ userId: getAccountId(req) })
         .sort({ createdAt: 1 });
       if (nextBrand) {
         nextBrand.isDefault = true;
@@ -314,7 +315,7 @@ export async function remove(
     }
 
     logger.info('Brand deleted', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       brandId: id,
     });
 
@@ -345,7 +346,7 @@ export async function setDefault(
 
     const brand = await Brand.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!brand) {
@@ -356,7 +357,7 @@ export async function setDefault(
     await brand.save(); // Pre-save hook will unset other defaults
 
     logger.info('Brand set as default', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       brandId: brand._id,
     });
 
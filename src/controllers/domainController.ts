@@ -0,0 +1,172 @@
+import type { Response, NextFunction } from 'express';
+import {
+  listCustomDomains,
+  getCustomDomain,
+  getCustomDomainDetails,
+  getCustomDomainLimit,
+  addCustomDomain,
+  updateCustomDomainBrand,
+  removeCustomDomain,
+  verifyCustomDomain,
+  type CustomDomainDetails,
+} from '../services/customDomainService.js';
+import { getAccountId } from '../middleware/workspace.js';
+import { AppError } from '../utils/AppError.js';
+import type { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+// ============================================
+// List Domains
+// ============================================
+
+export async function getAll(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ domains: CustomDomainDetails[]; limit: number | null }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const [domains, limit] = await Promise.all([
+      listCustomDomains(getAccountId(req)),
+      getCustomDomainLimit(getAccountId(req)),
+    ]);
+
+    res.json({
+      success: true,
+      // null means unlimited
+      data: { domains, limit: Number.isFinite(limit) ? limit : null },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Get Single Domain
+// ============================================
+
+export async function getOne(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<CustomDomainDetails>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const details = await getCustomDomainDetails(getAccountId(req), req.params.id);
+
+    res.json({
+      success: true,
+      data: details,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Add Domain
+// ============================================
+
+export async function create(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<CustomDomainDetails>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { hostname, brandId } = req.body as { hostname: string; brandId?: string };
+    const details = await addCustomDomain(getAccountId(req), { hostname, brandId });
+
+    res.status(201).json({
+      success: true,
+      data: details,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Update Domain
+// ============================================
+
+export async function update(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<CustomDomainDetails>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { brandId } = req.body as { brandId: string | null };
+    const details = await updateCustomDomainBrand(getAccountId(req), req.params.id, brandId);
+
+    res.json({
+      success: true,
+      data: details,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Verify Domain
+// ============================================
+
+export async function verify(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<CustomDomainDetails>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const domain = await getCustomDomain(getAccountId(req), req.params.id);
+    const details = await verifyCustomDomain(domain);
+
+    res.json({
+      success: true,
+      data: details,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Remove Domain
+// ============================================
+
+export async function remove(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    await removeCustomDomain(getAccountId(req), req.params.id);
+
+    res.json({
+      success: true,
+      data: { message: 'Domain removed' },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
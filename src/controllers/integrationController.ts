@@ -0,0 +1,256 @@
+import type { Response, NextFunction } from 'express';
+import {
+  getCrmProviders,
+  fetchCrmLists,
+  listCrmConnections,
+  getCrmConnection,
+  getCrmConnectionLists,
+  createCrmConnection,
+  updateCrmConnection,
+  deleteCrmConnection,
+  listCrmSyncs,
+  retryCrmSync,
+  type CrmList,
+} from '../services/crmService.js';
+import { getAccountId } from '../middleware/workspace.js';
+import { AppError } from '../utils/AppError.js';
+import type {
+  AuthenticatedRequest,
+  ApiResponse,
+  CrmProvider,
+  CrmSyncStatus,
+  ICrmConnection,
+  ICrmFieldMapping,
+  ICrmSync,
+} from '../types/index.js';
+
+// ============================================
+// List Integrations
+// ============================================
+
+export async function getAll(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{
+    connections: ICrmConnection[];
+    providers: Array<{ provider: CrmProvider; label: string; defaultFieldMapping: ICrmFieldMapping }>;
+  }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const connections = await listCrmConnections(getAccountId(req));
+
+    res.json({
+      success: true,
+      data: { connections, providers: getCrmProviders() },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Browse Lists (before connecting)
+// ============================================
+
+export async function previewLists(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ lists: CrmList[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const lists = await fetchCrmLists(req.body.provider, req.body.apiKey);
+
+    res.json({
+      success: true,
+      data: { lists },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Connect
+// ============================================
+
+export async function create(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ connection: ICrmConnection }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const connection = await createCrmConnection(getAccountId(req), req.body);
+
+    res.status(201).json({
+      success: true,
+      data: { connection },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Get Single Integration
+// ============================================
+
+export async function getOne(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ connection: ICrmConnection }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const connection = await getCrmConnection(getAccountId(req), req.params.id);
+
+    res.json({
+      success: true,
+      data: { connection },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getLists(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ lists: CrmList[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const connection = await getCrmConnection(getAccountId(req), req.params.id);
+    const lists = await getCrmConnectionLists(connection);
+
+    res.json({
+      success: true,
+      data: { lists },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Update Integration
+// ============================================
+
+export async function update(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ connection: ICrmConnection }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const connection = await getCrmConnection(getAccountId(req), req.params.id);
+    await updateCrmConnection(connection, req.body);
+
+    res.json({
+      success: true,
+      data: { connection },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Disconnect
+// ============================================
+
+export async function remove(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const connection = await getCrmConnection(getAccountId(req), req.params.id);
+    await deleteCrmConnection(connection);
+
+    res.json({
+      success: true,
+      data: { message: 'Integration removed' },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Sync Status
+// ============================================
+
+export async function getSyncs(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ syncs: ICrmSync[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const syncs = await listCrmSyncs(getAccountId(req), {
+      limit,
+      connectionId: req.query.connectionId as string | undefined,
+      leadId: req.query.leadId as string | undefined,
+      quizResponseId: req.query.quizResponseId as string | undefined,
+      status: req.query.status as CrmSyncStatus | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: { syncs },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function retrySync(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ sync: ICrmSync }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const sync = await retryCrmSync(getAccountId(req), req.params.syncId);
+
+    res.json({
+      success: true,
+      data: { sync },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,39 @@
+import type { Response, NextFunction } from 'express';
+import { Job } from '../models/Job.js';
+import { getAccountId } from '../middleware/workspace.js';
+import { AppError } from '../utils/AppError.js';
+import type { AuthenticatedRequest, ApiResponse, IJob } from '../types/index.js';
+
+// ============================================
+// Get Job Status
+// ============================================
+
+export async function getOne(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ job: IJob }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { id } = req.params;
+
+    const job = await Job.findOne({
+      _id: id,
+      userId: getAccountId(req),
+    });
+
+    if (!job) {
+      throw AppError.notFound('Job not found');
+    }
+
+    res.json({
+      success: true,
+      data: { job },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
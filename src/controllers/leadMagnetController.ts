@@ -1,53 +1,59 @@
 import type { Response, NextFunction } from 'express';
 import slugify from 'slugify';
-import { v4 as uuidv4 } from 'uuid';
 import { LeadMagnet } from '../models/LeadMagnet.js';
-import { Quiz } from '../models/Quiz.js';
 import { Lead } from '../models/Lead.js';
+import { SequenceEmail } from '../models/SequenceEmail.js';
+import { Job } from '../models/Job.js';
 import { Brand } from '../models/Brand.js';
 import { User } from '../models/User.js';
-import { runPipelineToContent, generateLandingPageCopy, generateEmailSequence } from '../services/aiService.js';
-import { generateQuiz } from '../services/quizGenerationService.js';
-import { generateInfographic } from '../services/infographicService.js';
-import { generatePdf } from '../services/pdfService.js';
-import { uploadPdf, getSignedPdfUrl, getSignedImageUrl, uploadFile, getSignedFileUrl, deleteFile } from '../services/storageService.js';
+import { getSignedPdfUrl, getSignedImageUrl, uploadFile, getSignedFileUrl, deleteFile } from '../services/storageService.js';
 import { renderLandingPage } from '../services/templateService.js';
+import { getSequenceSettings, getSequenceStats, rescheduleSequence } from '../services/sequenceService.js';
+import {
+  captureRevision,
+  ensureBaselineRevision,
+  listRevisions,
+  getRevision,
+  restoreRevision,
+  deleteRevisions,
+  type RevisionSummary,
+} from '../services/revisionService.js';
+import {
+  editContent,
+  applySectionOperation,
+  rewriteSectionWithAI,
+  editLandingCopy,
+  editEmail,
+  rebuildLeadMagnetPdf,
+  type SectionOperation,
+} from '../services/contentEditService.js';
+import {
+  createExperiment,
+  listExperiments,
+  getExperiment,
+  getExperimentResults,
+  stopExperiment,
+  promoteVariant,
+  deleteExperiments,
+  type CreateExperimentInput,
+  type ExperimentResults,
+} from '../services/experimentService.js';
 import { getRemainingGenerations } from '../middleware/rateLimit.js';
 import { billingService } from '../services/billingService.js';
+import { enqueueJob } from '../services/jobService.js';
+import { subscribeToGenerationEvents } from '../services/generationEvents.js';
+import { generatePlaceholderSlug, type GenerateJobPayload, type GenerateUnifiedJobPayload } from '../services/generationService.js';
 import { isInstagramUrl, extractUsername, normalizeInstagramUrl } from '../services/instagramService.js';
 import { isYouTubeUrl, extractYouTubeHandle, normalizeYouTubeUrl } from '../services/youtubeService.js';
+import { getAccountId } from '../middleware/workspace.js';
 import { AppError } from '../utils/AppError.js';
 import { logger } from '../utils/logger.js';
-import type { AuthenticatedRequest, ApiResponse, ILeadMagnet, IQuiz, IBrandSettings, SourceType, IBrand, UploadedFileType, LeadMagnetType } from '../types/index.js';
+import type { AuthenticatedRequest, ApiResponse, ILeadMagnet, ILeadMagnetRevision, ILandingExperiment, IContentSection, IJob, SourceType, UploadedFileType, LeadMagnetType, ISequenceStep, SequenceEmailStatus } from '../types/index.js';
 
 // ============================================
 // Helper Functions
 // ============================================
 
-/**
- * Generate a clean, short slug from a title
- * Takes first 60 characters or first 7 words (whichever is shorter)
- */
-function generateSlugFromTitle(title: string): string {
-  // Handle empty/invalid titles (edge case from AI)
-  if (!title || !title.trim()) {
-    return `generated-${Date.now()}`;
-  }
-  
-  // Take first 7 words or first 60 chars, whichever is shorter
-  const words = title.split(/\s+/);
-  const truncated = words.length > 7 
-    ? words.slice(0, 7).join(' ')
-    : title;
-  
-  const limited = truncated.length > 60 ? truncated.substring(0, 60) : truncated;
-  
-  const slug = slugify(limited, { lower: true, strict: true });
-  
-  // Fallback if slugify returns empty string
-  return slug || `generated-${Date.now()}`;
-}
-
 async function attachSignedPdfUrl<T extends { pdfUrl?: string }>(
   leadMagnet: T
 ): Promise<T> {
@@ -109,21 +115,41 @@ async function attachSignedUrls<T extends { pdfUrl?: string; infographicUrl?: st
   return result;
 }
 
+/**
+ * Hold one lead magnet of the plan's allowance for a generation job; the job gives it
+ * back if it fails for good
+ */
+async function reserveGenerationUsage(req: AuthenticatedRequest): Promise<void> {
+  const accountId = getAccountId(req).toString();
+  if (await billingService.reserveLeadMagnetUsage(accountId)) {
+    return;
+  }
+
+  const { reason } = await billingService.canUserCreateLeadMagnet(accountId);
+  throw AppError.tooManyRequests(
+    reason || 'You have reached your lead magnet limit. Please upgrade your plan.',
+    'LIMIT_EXCEEDED'
+  );
+}
+
 // ============================================
 // Generate Lead Magnet (New Unified Flow)
 // ============================================
 
 export async function generateUnified(
   req: AuthenticatedRequest,
-  res: Response<ApiResponse<{ leadMagnet?: ILeadMagnet; quiz?: IQuiz }>>,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet; job: IJob }>>,
   next: NextFunction
 ): Promise<void> {
+  // Set while this request holds the reservation; the queued job owns it afterwards
+  let usageReserved = false;
+
   try {
     if (!req.user) {
       throw AppError.unauthorized();
     }
 
-    const { brandId, topic, type, numQuestions, numResults, infographicStyle, infographicOrientation } = req.body;
+    const { brandId, topic, type, numQuestions, numResults, quizBranching, infographicStyle, infographicOrientation } = req.body;
 
     // Validate required fields
     if (!brandId) {
@@ -136,15 +162,20 @@ export async function generateUnified(
       throw AppError.badRequest('Lead magnet type is required');
     }
 
+    if (type !== 'quiz' && type !== 'infographic') {
+      // Other lead magnet types (coming soon)
+      throw AppError.badRequest(`Lead magnet type "${type}" is not yet supported. Only "quiz" and "infographic" are available.`);
+    }
+
     // Get brand
-    const brand = await Brand.findOne({ _id: brandId, userId: req.user._id });
+    const brand = await Brand.findOne({ _id: brandId, userId: getAccountId(req) });
     if (!brand) {
       throw AppError.badRequest('Brand not found');
     }
 
     // Get user's subscription to determine privacy setting
-    const subscription = await billingService.getOrCreateSubscription(req.user._id.toString());
-    const userDoc = await User.findById(req.user._id);
+    const subscription = await billingService.getOrCreateSubscription(getAccountId(req).toString());
+    const userDoc = await User.findById(getAccountId(req));
 
     // Determine if lead magnet should be public
     // Free plans: always public
@@ -153,8 +184,8 @@ export async function generateUnified(
       ? true
       : (userDoc?.defaultLeadMagnetPrivacy !== 'private');
 
-    logger.info('Starting unified lead magnet generation', {
-      userId: req.user._id,
+    logger.info('Queueing unified lead magnet generation', {
+      userId: getAccountId(req),
       brandId: brand._id,
       type,
       topic,
@@ -162,305 +193,62 @@ export async function generateUnified(
       plan: subscription.plan,
     });
 
-    // Branch based on type
-    if (type === 'quiz') {
-      // ============================================
-      // QUIZ GENERATION PATH
-      // ============================================
-
-      const quizNumQuestions = numQuestions || 10;
-      const quizNumResults = numResults || 4;
-
-      // Generate quiz content
-      const generatedQuiz = await generateQuiz({
-        topic,
-        brand,
-        numQuestions: quizNumQuestions,
-        numResults: quizNumResults,
-      });
-
-      // Generate unique slug from title (not the full topic)
-      const baseSlug = generateSlugFromTitle(generatedQuiz.title);
-      let slug = baseSlug;
-      let counter = 1;
-      while (await Quiz.findOne({ userId: req.user._id, slug })) {
-        slug = `${baseSlug}-${counter}`;
-        counter++;
-      }
-
-      // Create LeadMagnet record first (quiz is a type of lead magnet)
-      const leadMagnet = await LeadMagnet.create({
-        userId: req.user._id,
-        brandId: brand._id,
-        sourceType: brand.sourceType,
-        sourceUrl: brand.sourceUrl,
-        goal: 'get_leads',
-        type: 'quiz',
-        tone: 'professional',
-        title: generatedQuiz.title,
-        slug,
-        isPublished: true,
-        isPublic,
-        generationStatus: 'complete',
-        landingStatus: 'ready', // Quiz has its own landing page
-        emailsStatus: 'ready',
-      });
-
-      // Map generated quiz to Quiz model structure
-      const quiz = await Quiz.create({
-        userId: req.user._id,
-        brandId: brand._id,
-        leadMagnetId: leadMagnet._id,
-        title: generatedQuiz.title,
-        subtitle: generatedQuiz.subtitle,
-        slug,
-        questions: generatedQuiz.questions.map((q, idx) => ({
-          questionText: q.questionText,
-          order: idx,
-          answers: q.answers.map(a => ({
-            answerText: a.answerText,
-            // resultMapping will be set after results are created (see lines 134-139)
-          })),
-        })),
-        results: generatedQuiz.results.map(r => ({
-          name: r.name,
-          emoji: r.emoji,
-          summary: r.summary,
-          traits: r.traits,
-          recommendation: r.recommendation,
-        })),
-        primaryColor: brand.settings.primaryColor,
-        accentColor: brand.settings.accentColor,
-        logoUrl: brand.settings.logoUrl,
-        theme: brand.settings.theme === 'dark' ? 'dark' : 'light',
-        status: 'published',
-        isPublic,
-      });
-
-      // Link quiz back to lead magnet
-      leadMagnet.quizId = quiz._id;
-      await leadMagnet.save();
-
-      // Map result IDs back to answers
-      quiz.questions.forEach((question, qIdx) => {
-        question.answers.forEach((answer, aIdx) => {
-          const originalAnswer = generatedQuiz.questions[qIdx].answers[aIdx];
-          answer.resultMapping = quiz.results[originalAnswer.resultIndex]._id;
-        });
-      });
-      await quiz.save();
-
-      // Record usage for billing
-      await billingService.recordLeadMagnetUsage(req.user._id.toString());
-
-      logger.info('Quiz generated successfully', {
-        userId: req.user._id,
-        quizId: quiz._id,
-        slug: quiz.slug,
-      });
-
-      res.status(201).json({
-        success: true,
-        data: { quiz },
-      });
-    } else if (type === 'infographic') {
-      // ============================================
-      // INFOGRAPHIC GENERATION PATH
-      // ============================================
-
-      const style = infographicStyle || 'modern';
-      const orientation = infographicOrientation || 'square';
-
-      // Generate infographic using Gemini
-      const generatedInfographic = await generateInfographic({
-        topic,
-        brand,
-        style,
-        orientation,
-      });
-
-      // Generate unique slug from title (not the full topic)
-      const baseSlug = generateSlugFromTitle(generatedInfographic.title);
-      let slug = baseSlug;
-      let counter = 1;
-      while (await LeadMagnet.findOne({ userId: req.user._id, slug })) {
-        slug = `${baseSlug}-${counter}`;
-        counter++;
-      }
-
-      // Create lead magnet record for infographic
-      const leadMagnet = await LeadMagnet.create({
-        userId: req.user._id,
-        brandId: brand._id,
-        sourceType: brand.sourceType,
-        sourceUrl: brand.sourceUrl,
-        goal: 'get_leads', // Default goal for infographics
-        type: 'infographic',
-        tone: 'professional', // Default tone
-        title: generatedInfographic.title,
-        infographicUrl: generatedInfographic.imageUrl,
-        infographicStyle: style,
-        infographicOrientation: orientation,
-        slug,
-        isPublished: true,
-        isPublic,
-        generationStatus: 'complete',
-        landingStatus: 'pending', // Landing page generated async
-        emailsStatus: 'ready', // Not generating emails for MVP
-      });
+    await reserveGenerationUsage(req);
+    usageReserved = true;
 
-      // Record usage for billing
-      await billingService.recordLeadMagnetUsage(req.user._id.toString());
+    // Placeholder record the worker fills in; hidden until generation publishes it
+    const leadMagnet = await LeadMagnet.create({
+      userId: getAccountId(req),
+      brandId: brand._id,
+      sourceType: brand.sourceType,
+      sourceUrl: brand.sourceUrl,
+      goal: 'get_leads',
+      type,
+      tone: 'professional',
+      slug: generatePlaceholderSlug(),
+      isPublished: false,
+      isPublic,
+      generationStatus: 'queued',
+      landingStatus: 'pending',
+      emailsStatus: 'pending',
+      ...(type === 'infographic' ? {
+        infographicStyle: infographicStyle || 'modern',
+        infographicOrientation: infographicOrientation || 'square',
+      } : {}),
+    });
 
-      logger.info('Infographic generated successfully', {
-        userId: req.user._id,
-        leadMagnetId: leadMagnet._id,
-        slug: leadMagnet.slug,
-      });
+    const payload: GenerateUnifiedJobPayload = {
+      brandId: brand._id.toString(),
+      topic,
+      type,
+      numQuestions,
+      numResults,
+      quizBranching,
+      infographicStyle,
+      infographicOrientation,
+    };
+
+    const job = await enqueueJob({
+      type: 'lead_magnet.generate_unified',
+      userId: getAccountId(req),
+      leadMagnetId: leadMagnet._id,
+      payload: { ...payload },
+    });
 
-      res.status(201).json({
-        success: true,
-        data: { leadMagnet },
-      });
+    usageReserved = false;
+    leadMagnet.generationJobId = job._id;
+    await leadMagnet.save();
 
-      // ============================================
-      // Async landing page generation for infographic
-      // ============================================
-      const formAction = `/public/${req.user.username}/${slug}/subscribe`;
-      const finalBrandSettings = brand.settings;
-
-      setImmediate(() => {
-        void (async () => {
-          const leadMagnetId = leadMagnet._id;
-          try {
-            // Create landing page copy for infographic
-            const landingPageCopy = {
-              headline: generatedInfographic.title,
-              subheadline: `Get this beautiful infographic delivered to your inbox`,
-              benefit_bullets: [
-                'High-quality infographic design',
-                'Perfect for sharing on social media',
-                'Download and use for presentations',
-              ],
-              cta: 'Get Free Infographic',
-              short_description: `Download your ${generatedInfographic.title} infographic`,
-              html: '',
-            };
-
-            // Render landing page HTML with brand settings
-            const landingPageHtml = await renderLandingPage(finalBrandSettings, landingPageCopy, formAction);
-
-            // Create delivery email for infographic
-            const deliveryEmail = {
-              title: 'Delivery Email',
-              subject: `Your Infographic: ${generatedInfographic.title}`,
-              body_text: `Hi there!\n\nThanks for your interest in "${generatedInfographic.title}"!\n\nYou can download your infographic here:\n{{INFOGRAPHIC_URL}}\n\nFeel free to share it on social media or use it in your presentations!\n\nEnjoy!\n\n, Powered by MagnetHub`,
-              body_html: `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-</head>
-<body style="margin: 0; padding: 0; background-color: #f9fafb; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
-  <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;">
-    <tr>
-      <td style="padding: 40px 20px;">
-        ${finalBrandSettings.logoUrl ? `
-        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
-          <tr>
-            <td style="text-align: center; padding-bottom: 30px;">
-              <img src="${finalBrandSettings.logoUrl}" alt="" style="max-height: 50px; max-width: 150px;">
-            </td>
-          </tr>
-        </table>
-        ` : ''}
-        
-        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #ffffff; border-radius: 16px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
-          <tr>
-            <td style="padding: 40px 30px;">
-              <p style="margin: 0 0 20px; font-size: 16px; color: #374151;">Hi there!</p>
-              
-              <p style="margin: 0 0 30px; font-size: 16px; color: #374151;">
-                Thanks for your interest in "<strong>${generatedInfographic.title}</strong>"!
-              </p>
-
-              <div style="text-align: center; margin: 30px 0;">
-                <a href="{{INFOGRAPHIC_URL}}" target="_blank" rel="noopener noreferrer">
-                  <img src="{{INFOGRAPHIC_URL}}" alt="${generatedInfographic.title}" style="max-width: 100%; height: auto; border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
-                </a>
-              </div>
-
-              <div style="text-align: center; padding: 30px 0;">
-                <a href="{{INFOGRAPHIC_URL}}" target="_blank" rel="noopener noreferrer" style="display: inline-block; padding: 16px 32px; background-color: ${finalBrandSettings.primaryColor || '#10B981'}; color: #ffffff; font-size: 16px; font-weight: 600; text-decoration: none; border-radius: 8px;">
-                  Download Infographic
-                </a>
-              </div>
-
-              <p style="margin: 30px 0 0; font-size: 14px; color: #6b7280; text-align: center;">
-                Feel free to share it on social media or use it in your presentations!
-              </p>
-            </td>
-          </tr>
-        </table>
-
-        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
-          <tr>
-            <td style="text-align: center; padding-top: 30px;">
-              <p style="margin: 0; font-size: 12px; color: #9ca3af;">
-                Powered by <a href="https://magnethubai.com" target="_blank" rel="noopener noreferrer" style="color: #6b7280;">MagnetHub</a>
-              </p>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-              `.trim(),
-            };
-
-            await LeadMagnet.updateOne(
-              { _id: leadMagnetId },
-              {
-                landingPageHtml,
-                landingPageCopyJson: landingPageCopy,
-                emailsJson: { emails: [deliveryEmail] },
-                landingStatus: 'ready',
-                emailsStatus: 'ready',
-              }
-            );
-
-            logger.info('Infographic landing page and email generated', {
-              leadMagnetId: leadMagnetId.toString(),
-              landingStatus: 'ready',
-              emailsStatus: 'ready',
-            });
-          } catch (error) {
-            logger.error('Infographic landing page generation failed', { 
-              leadMagnetId: leadMagnetId.toString(), 
-              error 
-            });
-            await LeadMagnet.updateOne(
-              { _id: leadMagnetId },
-              {
-                landingStatus: 'failed',
-                emailsStatus: 'failed',
-                generationError: error instanceof Error ? error.message : 'landing_generation_failed',
-              }
-            );
-          }
-        })();
+    res.status(202).json({
+      success: true,
+      data: { leadMagnet, job },
+    });
+  } catch (error) {
+    if (usageReserved) {
+      await billingService.releaseLeadMagnetUsage(getAccountId(req).toString()).catch((releaseError) => {
+        logger.error('Failed to release lead magnet usage', releaseError);
       });
-    } else {
-      // ============================================
-      // OTHER LEAD MAGNET TYPES (Coming Soon)
-      // ============================================
-
-      throw AppError.badRequest(`Lead magnet type "${type}" is not yet supported. Only "quiz" and "infographic" are available.`);
     }
-  } catch (error) {
     next(error);
   }
 }
@@ -471,9 +259,12 @@ export async function generateUnified(
 
 export async function generate(
   req: AuthenticatedRequest,
-  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet; job: IJob }>>,
   next: NextFunction
 ): Promise<void> {
+  // Set while this request holds the reservation; the queued job owns it afterwards
+  let usageReserved = false;
+
   try {
     if (!req.user) {
       throw AppError.unauthorized();
@@ -501,8 +292,8 @@ export async function generate(
       sourceUrl = normalizeYouTubeUrl(inputUrl);
     }
 
-    logger.info('Starting lead magnet generation', {
-      userId: req.user._id,
+    logger.info('Queueing lead magnet generation', {
+      userId: getAccountId(req),
       sourceUrl,
       sourceType,
       type,
@@ -531,128 +322,35 @@ export async function generate(
     let counter = 1;
 
     // Ensure slug is unique for this user
-    while (await LeadMagnet.findOne({ userId: req.user._id, slug })) {
+    while (await LeadMagnet.findOne({ userId: getAccountId(req), slug })) {
       slug = `${baseSlug}-${counter}`;
       counter++;
     }
 
-    // ============================================
-    // Brand Management (Multi-Brand Support)
-    // ============================================
-
-    let brand: IBrand | null = null;
-    let brandToUse: IBrandSettings | null = null;
-    let useCachedData = false;
-
+    // Fail fast on a bad brand selection instead of inside the worker
     if (brandId) {
-      // User specified a brand - use it
-      brand = await Brand.findOne({ _id: brandId, userId: req.user._id });
+      const brand = await Brand.findOne({ _id: brandId, userId: getAccountId(req) });
       if (!brand) {
         throw AppError.badRequest('Selected brand not found');
       }
-      brandToUse = brand.settings;
-      useCachedData = !!brand.description; // Use cache if we have description
-      logger.info('Using specified brand', {
-        brandId: brand._id,
-        brandName: brand.name,
-        hasCache: useCachedData,
-      });
-    } else {
-      // Find existing brand based on source URL
-      brand = await Brand.findOne({ userId: req.user._id, sourceUrl });
-
-      if (brand) {
-        // Existing brand found - use its settings
-        brandToUse = brand.settings;
-        useCachedData = !!brand.description; // Use cache if we have description
-        logger.info('Using existing brand for source', {
-          brandId: brand._id,
-          brandName: brand.name,
-          hasCache: useCachedData,
-        });
-      }
-    }
-
-    // Run the AI pipeline (skip scraping if we have cached brand data)
-    const phase1 = await runPipelineToContent(sourceUrl, {
-      audience,
-      type,
-      tone,
-      goal,
-      sourceType,
-      cachedData: useCachedData && brand?.description ? {
-        description: brand.description,
-        logoUrl: brand.settings.logoUrl,
-        brandSettings: brand.settings,
-      } : undefined,
-    });
-
-    // Create brand if it doesn't exist
-    if (!brand) {
-      const brandSettings: IBrandSettings = { ...phase1.extractedBrand };
-
-      // For Instagram, use profile picture as logo
-      if (sourceType === 'instagram' && phase1.instagramProfilePic) {
-        brandSettings.logoUrl = phase1.instagramProfilePic;
-      }
-
-      // For YouTube, use channel thumbnail as logo
-      if (sourceType === 'youtube' && phase1.youtubeThumbnail) {
-        brandSettings.logoUrl = phase1.youtubeThumbnail;
-      }
-
-      // Check if this is the first brand
-      const brandCount = await Brand.countDocuments({ userId: req.user._id });
-
-      brand = await Brand.create({
-        userId: req.user._id,
-        name: brandName,
-        description: phase1.sourceDescription,
-        sourceType,
-        sourceUrl,
-        settings: brandSettings,
-        isDefault: brandCount === 0, // First brand is default
-      });
-
-      brandToUse = brandSettings;
-      logger.info('Created new brand from source', {
-        brandId: brand._id,
-        brandName: brand.name,
-        sourceType,
-        hasLogo: !!brandSettings.logoUrl,
-        hasDescription: !!phase1.sourceDescription,
-      });
-    } else if (!brand.description && phase1.sourceDescription) {
-      // Update existing brand with description if missing
-      brand.description = phase1.sourceDescription;
-      await brand.save();
-      logger.info('Updated brand with description', { brandId: brand._id });
     }
 
-    // We'll generate landing page + emails asynchronously after responding.
-    const formAction = `/public/${req.user.username}/${slug}/subscribe`;
-    const finalBrandSettings = brandToUse || brand!.settings;
-
-    // Generate PDF with brand settings
-    const pdfBuffer = await generatePdf(phase1.content, type, finalBrandSettings, brand!.name);
-
-    // Upload PDF to storage (local or cloud)
-    const filename = `pdfs/${req.user._id}/${slug}-${uuidv4().slice(0, 8)}.pdf`;
-    const pdfUrl = await uploadPdf(pdfBuffer, filename);
-
     // Get user's subscription to determine privacy setting
-    const subscription = await billingService.getOrCreateSubscription(req.user._id.toString());
-    const userDoc = await User.findById(req.user._id);
+    const subscription = await billingService.getOrCreateSubscription(getAccountId(req).toString());
+    const userDoc = await User.findById(getAccountId(req));
 
     // Determine if lead magnet should be public
     const isPublic = subscription.plan === 'free'
       ? true
       : (userDoc?.defaultLeadMagnetPrivacy !== 'private');
 
-    // Create lead magnet record with brand reference
+    await reserveGenerationUsage(req);
+    usageReserved = true;
+
+    // Placeholder record the worker fills in; hidden until the PDF is ready
     const leadMagnet = await LeadMagnet.create({
-      userId: req.user._id,
-      brandId: brand._id,
+      userId: getAccountId(req),
+      brandId: brandId || undefined,
       sourceType,
       sourceUrl,
       websiteUrl: sourceType === 'website' ? sourceUrl : undefined, // backward compatibility
@@ -660,117 +358,46 @@ export async function generate(
       goal,
       type,
       tone,
-      title: phase1.content.title,
-      pdfUrl,
-      // landingPageHtml/landingPageCopyJson/emailsJson will be filled async
-      outlineJson: phase1.outline,
-      metaJson: phase1.meta,
-      contentJson: phase1.content,
       slug,
-      isPublished: true,
+      isPublished: false,
       isPublic,
-      generationStatus: 'pdf_ready',
+      generationStatus: 'queued',
       landingStatus: 'pending',
       emailsStatus: 'pending',
     });
 
-    const leadMagnetWithSignedUrl = await attachSignedUrls(leadMagnet.toObject());
-
-    // Record usage for billing
-    await billingService.recordLeadMagnetUsage(req.user._id.toString());
-
-    logger.info('Lead magnet generated successfully', {
-      userId: req.user._id,
-      leadMagnetId: leadMagnet._id,
-      brandId: brand._id,
-      slug,
+    const payload: GenerateJobPayload = {
       sourceType,
-    });
+      sourceUrl,
+      brandName,
+      brandId,
+      audience,
+      goal,
+      type,
+      tone,
+    };
 
-    res.status(201).json({
-      success: true,
-      data: { leadMagnet: leadMagnetWithSignedUrl },
+    const job = await enqueueJob({
+      type: 'lead_magnet.generate',
+      userId: getAccountId(req),
+      leadMagnetId: leadMagnet._id,
+      payload: { ...payload },
     });
 
-    // ============================================
-    // Async completion (landing page + emails)
-    // ============================================
-    // NOTE: In-process async. If the server restarts, these may remain pending.
-    // Workspace UI will show "Generating..." and we can later add a queue/worker.
-    setImmediate(() => {
-      void (async () => {
-        const leadMagnetId = leadMagnet._id;
-        try {
-          const landingCopyPromise = generateLandingPageCopy(phase1.meta, phase1.content, sourceType);
-          const emailsPromise = generateEmailSequence(phase1.meta, phase1.content, pdfUrl, tone, goal, sourceType);
-
-          const [landingCopyRes, emailsRes] = await Promise.allSettled([landingCopyPromise, emailsPromise]);
-
-          let landingPageCopy: any | undefined;
-          let emailsJson: any | undefined;
-          let landingStatus: 'ready' | 'failed' = 'failed';
-          let emailsStatus: 'ready' | 'failed' = 'failed';
-
-          if (landingCopyRes.status === 'fulfilled') {
-            landingPageCopy = landingCopyRes.value;
-            landingStatus = 'ready';
-          }
-
-          if (emailsRes.status === 'fulfilled') {
-            emailsJson = emailsRes.value;
-            emailsStatus = 'ready';
-          }
-
-          let landingPageHtml: string | undefined;
-          if (landingPageCopy) {
-            landingPageHtml = await renderLandingPage(finalBrandSettings, landingPageCopy, formAction);
-          }
-
-          const generationStatus =
-            landingStatus === 'ready' && emailsStatus === 'ready' ? 'complete' : 'needs_attention';
-
-          const generationError =
-            generationStatus === 'needs_attention'
-              ? [
-                landingStatus === 'failed' ? 'landing_failed' : null,
-                emailsStatus === 'failed' ? 'emails_failed' : null,
-              ].filter(Boolean).join(',')
-              : undefined;
-
-          await LeadMagnet.updateOne(
-            { _id: leadMagnetId },
-            {
-              landingPageHtml,
-              landingPageCopyJson: landingPageCopy,
-              emailsJson,
-              landingStatus,
-              emailsStatus,
-              generationStatus,
-              generationError,
-            }
-          );
+    usageReserved = false;
+    leadMagnet.generationJobId = job._id;
+    await leadMagnet.save();
 
-          logger.info('Lead magnet async completion finished', {
-            leadMagnetId: leadMagnetId.toString(),
-            landingStatus,
-            emailsStatus,
-            generationStatus,
-          });
-        } catch (error) {
-          logger.error('Lead magnet async completion failed', { leadMagnetId: leadMagnetId.toString(), error });
-          await LeadMagnet.updateOne(
-            { _id: leadMagnetId },
-            {
-              generationStatus: 'needs_attention',
-              landingStatus: 'failed',
-              emailsStatus: 'failed',
-              generationError: error instanceof Error ? error.message : 'async_completion_failed',
-            }
-          );
-        }
-      })();
+    res.status(202).json({
+      success: true,
+      data: { leadMagnet, job },
     });
   } catch (error) {
+    if (usageReserved) {
+      await billingService.releaseLeadMagnetUsage(getAccountId(req).toString()).catch((releaseError) => {
+        logger.error('Failed to release lead magnet usage', releaseError);
+      });
+    }
     next(error);
   }
 }
@@ -789,7 +416,7 @@ export async function getAll(
       throw AppError.unauthorized();
     }
 
-    const leadMagnets = await LeadMagnet.find({ userId: req.user._id })
+    const leadMagnets = await LeadMagnet.find({ userId: getAccountId(req) })
       .sort({ createdAt: -1 })
       .populate('leadCount');
 
@@ -797,7 +424,7 @@ export async function getAll(
       leadMagnets.map(async (lm) => attachSignedUrls(lm.toObject()))
     );
 
-    const remaining = await getRemainingGenerations(req.user._id.toString());
+    const remaining = await getRemainingGenerations(getAccountId(req).toString());
 
     res.json({
       success: true,
@@ -826,7 +453,7 @@ export async function getOne(
 
     const leadMagnet = await LeadMagnet.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     }).populate('leadCount');
 
     if (!leadMagnet) {
@@ -859,30 +486,45 @@ export async function update(
     }
 
     const { id } = req.params;
-    const { title } = req.body;
+    const { title, doubleOptIn, consentText } = req.body;
 
     const leadMagnet = await LeadMagnet.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!leadMagnet) {
       throw AppError.notFound('Lead magnet not found');
     }
 
+    const titleChanged = title !== undefined && title !== leadMagnet.title;
+    if (titleChanged) {
+      await ensureBaselineRevision(leadMagnet);
+    }
+
     // Update fields
     if (title !== undefined) {
       leadMagnet.title = title;
     }
+    if (doubleOptIn !== undefined) {
+      leadMagnet.doubleOptIn = doubleOptIn;
+    }
+    if (consentText !== undefined) {
+      leadMagnet.consentText = consentText || undefined;
+    }
 
     await leadMagnet.save();
 
+    if (titleChanged) {
+      await captureRevision(leadMagnet, 'updated');
+    }
+
     const leadMagnetWithSignedUrl = await attachSignedUrls(leadMagnet.toObject());
 
     logger.info('Lead magnet updated', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       leadMagnetId: id,
-      updates: { title },
+      updates: { title, doubleOptIn, consentText },
     });
 
     res.json({
@@ -912,7 +554,7 @@ export async function remove(
 
     const leadMagnet = await LeadMagnet.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!leadMagnet) {
@@ -961,14 +603,19 @@ export async function remove(
       }
     }
 
-    // Delete associated leads
+    // Delete revision history (and PDFs only older revisions point to)
+    await deleteRevisions(leadMagnet);
+    await deleteExperiments(leadMagnet._id);
+
+    // Delete associated leads and their scheduled sequence emails
     await Lead.deleteMany({ leadMagnetId: id });
+    await SequenceEmail.deleteMany({ leadMagnetId: id });
 
     // Delete the lead magnet
     await leadMagnet.deleteOne();
 
     logger.info('Lead magnet deleted', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       leadMagnetId: id,
     });
 
@@ -1000,7 +647,7 @@ export async function getLeads(
     // Verify ownership
     const leadMagnet = await LeadMagnet.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!leadMagnet) {
@@ -1048,13 +695,13 @@ export async function getAllLeads(
     }
 
     // Get all lead magnets for this user
-    const userLeadMagnets = await LeadMagnet.find({ userId: req.user._id }).select('_id title slug type');
+    const userLeadMagnets = await LeadMagnet.find({ userId: getAccountId(req) }).select('_id title slug type');
     const leadMagnetIds = userLeadMagnets.map(lm => lm._id);
 
     // Get all quizzes for this user
     const { Quiz } = await import('../models/Quiz.js');
     const { QuizResponse } = await import('../models/QuizResponse.js');
-    const userQuizzes = await Quiz.find({ userId: req.user._id }).select('_id title slug');
+    const userQuizzes = await Quiz.find({ userId: getAccountId(req) }).select('_id title slug');
     const quizIds = userQuizzes.map(q => q._id);
 
     // Get all leads for lead magnets
@@ -1131,13 +778,13 @@ export async function exportAllLeadsCsv(
     }
 
     // Get all lead magnets for this user
-    const userLeadMagnets = await LeadMagnet.find({ userId: req.user._id }).select('_id title slug');
+    const userLeadMagnets = await LeadMagnet.find({ userId: getAccountId(req) }).select('_id title slug');
     const leadMagnetIds = userLeadMagnets.map(lm => lm._id);
 
     // Get all quizzes for this user
     const { Quiz } = await import('../models/Quiz.js');
     const { QuizResponse } = await import('../models/QuizResponse.js');
-    const userQuizzes = await Quiz.find({ userId: req.user._id }).select('_id title slug');
+    const userQuizzes = await Quiz.find({ userId: getAccountId(req) }).select('_id title slug');
     const quizIds = userQuizzes.map(q => q._id);
 
     // Create maps for quick lookup
@@ -1201,7 +848,7 @@ export async function exportLeadsCsv(
     // Verify ownership
     const leadMagnet = await LeadMagnet.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!leadMagnet) {
@@ -1228,12 +875,200 @@ export async function exportLeadsCsv(
 }
 
 // ============================================
-// Regenerate PDF
+// Generation Events (SSE)
 // ============================================
 
-export async function regeneratePdf(
+const SSE_HEARTBEAT_MS = 15000;
+const SSE_POLL_MS = 5000;
+
+function isGenerationSettled(leadMagnet: Pick<ILeadMagnet, 'generationStatus'>, job: IJob | null): boolean {
+  if (job) {
+    return job.status === 'completed' || job.status === 'failed';
+  }
+  // Lead magnets generated before the job queue have no job to wait on
+  return leadMagnet.generationStatus !== 'queued' && leadMagnet.generationStatus !== 'generating';
+}
+
+function buildGenerationSnapshot(leadMagnet: ILeadMagnet, job: IJob | null) {
+  return {
+    leadMagnet: {
+      id: leadMagnet._id.toString(),
+      title: leadMagnet.title,
+      slug: leadMagnet.slug,
+      generationStatus: leadMagnet.generationStatus,
+      landingStatus: leadMagnet.landingStatus,
+      emailsStatus: leadMagnet.emailsStatus,
+      generationError: leadMagnet.generationError,
+    },
+    job: job ? {
+      id: job._id.toString(),
+      status: job.status,
+      progress: job.progress,
+      attempts: job.attempts,
+      lastError: job.lastError,
+    } : null,
+  };
+}
+
+/**
+ * Stream generation progress for a lead magnet as Server-Sent Events.
+ * Events: `snapshot` (current state on connect), `step` (live worker steps),
+ * `progress` (job progress seen by polling, e.g. from another instance), `done`.
+ */
+export async function streamEvents(
   req: AuthenticatedRequest,
-  res: Response<ApiResponse<{ pdfUrl: string }>>,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { id } = req.params;
+    const userId = getAccountId(req);
+
+    const leadMagnet = await LeadMagnet.findOne({ _id: id, userId });
+    if (!leadMagnet) {
+      throw AppError.notFound('Lead magnet not found');
+    }
+
+    const loadJob = () => (leadMagnet.generationJobId
+      ? Job.findOne({ _id: leadMagnet.generationJobId, userId })
+      : Promise.resolve(null));
+
+    const job = await loadJob();
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // disable proxy buffering
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    let lastProgressKey = job ? `${job.progress?.step}:${job.progress?.percent}` : '';
+
+    const send = (event: string, data: unknown) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('snapshot', buildGenerationSnapshot(leadMagnet, job));
+
+    if (isGenerationSettled(leadMagnet, job)) {
+      send('done', buildGenerationSnapshot(leadMagnet, job));
+      res.end();
+      return;
+    }
+
+    // The terminal event and the poll can both see the end; only the first one finishes
+    let finished = false;
+    const finish = async () => {
+      if (closed || finished) return;
+      finished = true;
+      try {
+        const [latest, latestJob] = await Promise.all([LeadMagnet.findById(id), loadJob()]);
+        if (latest) {
+          send('done', buildGenerationSnapshot(latest, latestJob));
+        }
+      } finally {
+        cleanup();
+        res.end();
+      }
+    };
+
+    const unsubscribe = subscribeToGenerationEvents(leadMagnet._id, (event) => {
+      send('step', event);
+      lastProgressKey = `${event.step}:${event.percent}`;
+      // Published after the job is marked finished, so the final snapshot is settled
+      if (event.step === 'complete' || event.step === 'failed') {
+        finish().catch((error: unknown) => logger.error('Failed to finish generation stream', error));
+      }
+    });
+
+    // Poll as a fallback when the worker runs on another instance
+    const poll = setInterval(() => {
+      void (async () => {
+        try {
+          const [latest, latestJob] = await Promise.all([LeadMagnet.findById(id), loadJob()]);
+          if (!latest) {
+            await finish();
+            return;
+          }
+          const progressKey = latestJob ? `${latestJob.progress?.step}:${latestJob.progress?.percent}` : '';
+          if (latestJob && progressKey !== lastProgressKey) {
+            lastProgressKey = progressKey;
+            send('progress', buildGenerationSnapshot(latest, latestJob));
+          }
+          if (isGenerationSettled(latest, latestJob)) {
+            await finish();
+          }
+        } catch (error) {
+          logger.error('Generation stream poll failed', { leadMagnetId: id, error });
+        }
+      })();
+    }, SSE_POLL_MS);
+
+    const heartbeat = setInterval(() => {
+      if (!closed) res.write(': ping\n\n');
+    }, SSE_HEARTBEAT_MS);
+
+    const cleanup = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(poll);
+      clearInterval(heartbeat);
+    };
+
+    req.on('close', cleanup);
+  } catch (error) {
+    if (res.headersSent) {
+      logger.error('Generation stream failed', error);
+      res.end();
+      return;
+    }
+    next(error);
+  }
+}
+
+// ============================================
+// Email Sequence
+// ============================================
+
+interface SequenceStepView extends ISequenceStep {
+  subject: string;
+  title: string;
+}
+
+interface SequenceView {
+  enabled: boolean;
+  deliveryEmail: { subject: string; title: string } | null;
+  steps: SequenceStepView[];
+  stats: Record<SequenceEmailStatus, number>;
+}
+
+async function buildSequenceView(leadMagnet: ILeadMagnet): Promise<SequenceView> {
+  const emails = leadMagnet.emailsJson?.emails ?? [];
+  const settings = getSequenceSettings(leadMagnet);
+
+  return {
+    enabled: settings.enabled,
+    deliveryEmail: emails[0] ? { subject: emails[0].subject, title: emails[0].title } : null,
+    steps: settings.steps.map((step) => ({
+      ...step,
+      subject: emails[step.emailIndex]?.subject ?? '',
+      title: emails[step.emailIndex]?.title ?? '',
+    })),
+    stats: await getSequenceStats(leadMagnet._id),
+  };
+}
+
+export async function getSequence(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ sequence: SequenceView }>>,
   next: NextFunction
 ): Promise<void> {
   try {
@@ -1245,41 +1080,510 @@ export async function regeneratePdf(
 
     const leadMagnet = await LeadMagnet.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!leadMagnet) {
       throw AppError.notFound('Lead magnet not found');
     }
 
-    if (!leadMagnet.contentJson) {
-      throw AppError.badRequest('No content available for PDF regeneration');
+    res.json({
+      success: true,
+      data: { sequence: await buildSequenceView(leadMagnet) },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateSequence(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ sequence: SequenceView }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { id } = req.params;
+    const { enabled, steps } = req.body as {
+      enabled?: boolean;
+      steps?: Array<{ emailIndex: number; delayDays?: number; enabled?: boolean }>;
+    };
+
+    const leadMagnet = await LeadMagnet.findOne({
+      _id: id,
+      userId: getAccountId(req),
+    });
+
+    if (!leadMagnet) {
+      throw AppError.notFound('Lead magnet not found');
     }
 
-    // Get brand settings if available
-    let brandSettings: IBrandSettings | undefined;
-    let brandName: string | undefined;
+    const current = getSequenceSettings(leadMagnet);
+    if (current.steps.length === 0) {
+      throw AppError.badRequest('This lead magnet has no follow-up emails to schedule');
+    }
 
-    if (leadMagnet.brandId) {
-      const brand = await Brand.findById(leadMagnet.brandId);
-      if (brand) {
-        brandSettings = brand.settings;
-        brandName = brand.name;
+    const updatesByIndex = new Map((steps ?? []).map((step) => [step.emailIndex, step]));
+    for (const emailIndex of updatesByIndex.keys()) {
+      if (!current.steps.some((step) => step.emailIndex === emailIndex)) {
+        throw AppError.badRequest(`Email #${emailIndex + 1} does not exist in this sequence`);
       }
     }
 
-    // Regenerate PDF with brand
-    const pdfBuffer = await generatePdf(leadMagnet.contentJson, leadMagnet.type, brandSettings, brandName);
+    leadMagnet.sequenceSettings = {
+      enabled: enabled ?? current.enabled,
+      steps: current.steps.map((step) => {
+        const update = updatesByIndex.get(step.emailIndex);
+        return {
+          emailIndex: step.emailIndex,
+          delayDays: update?.delayDays ?? step.delayDays,
+          enabled: update?.enabled ?? step.enabled,
+        };
+      }),
+    };
+
+    await leadMagnet.save();
+
+    // Apply the new schedule to emails that haven't gone out yet
+    await rescheduleSequence(leadMagnet);
+
+    logger.info('Lead magnet sequence updated', {
+      userId: getAccountId(req),
+      leadMagnetId: id,
+      enabled: leadMagnet.sequenceSettings.enabled,
+    });
+
+    res.json({
+      success: true,
+      data: { sequence: await buildSequenceView(leadMagnet) },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Content Editing
+// ============================================
+
+async function findUserLeadMagnet(req: AuthenticatedRequest): Promise<ILeadMagnet> {
+  if (!req.user) {
+    throw AppError.unauthorized();
+  }
+
+  const leadMagnet = await LeadMagnet.findOne({
+    _id: req.params.id,
+    userId: getAccountId(req),
+  });
+
+  if (!leadMagnet) {
+    throw AppError.notFound('Lead magnet not found');
+  }
+
+  return leadMagnet;
+}
+
+async function sendEditedLeadMagnet(
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  leadMagnet: ILeadMagnet
+): Promise<void> {
+  const leadMagnetWithSignedUrl = await attachSignedUrls(leadMagnet.toObject());
+  res.json({
+    success: true,
+    data: { leadMagnet: leadMagnetWithSignedUrl },
+  });
+}
+
+export async function updateContent(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const { rebuildPdf, ...edit } = req.body;
+
+    await editContent(leadMagnet, edit, { rebuildPdf });
+    await sendEditedLeadMagnet(res, leadMagnet);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addSection(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const { title, content, index, rebuildPdf } = req.body;
+
+    await applySectionOperation(leadMagnet, { op: 'add', section: { title, content }, index }, { rebuildPdf });
+    await sendEditedLeadMagnet(res, leadMagnet);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateSection(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const { title, content, rebuildPdf } = req.body;
+    const operation: SectionOperation = { op: 'update', index: parseInt(req.params.index, 10), title, content };
+
+    await applySectionOperation(leadMagnet, operation, { rebuildPdf });
+    await sendEditedLeadMagnet(res, leadMagnet);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteSection(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const rebuildPdf = req.query.rebuildPdf === 'true';
+
+    await applySectionOperation(leadMagnet, { op: 'delete', index: parseInt(req.params.index, 10) }, { rebuildPdf });
+    await sendEditedLeadMagnet(res, leadMagnet);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reorderSections(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const { order, rebuildPdf } = req.body;
+
+    await applySectionOperation(leadMagnet, { op: 'reorder', order }, { rebuildPdf });
+    await sendEditedLeadMagnet(res, leadMagnet);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function rewriteSectionHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ section: IContentSection; leadMagnet?: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const { instruction, apply = true, rebuildPdf } = req.body;
+
+    const section = await rewriteSectionWithAI(leadMagnet, parseInt(req.params.index, 10), instruction, {
+      apply,
+      rebuildPdf,
+    });
+
+    res.json({
+      success: true,
+      data: apply ? { section, leadMagnet: await attachSignedUrls(leadMagnet.toObject()) } : { section },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateLandingCopy(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+
+    await editLandingCopy(leadMagnet, req.body);
+    await sendEditedLeadMagnet(res, leadMagnet);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateEmail(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+
+    await editEmail(leadMagnet, parseInt(req.params.index, 10), req.body);
+    await sendEditedLeadMagnet(res, leadMagnet);
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Revisions
+// ============================================
+
+export async function getRevisions(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ revisions: RevisionSummary[]; currentRevision: number | null }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { id } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const before = parseInt(req.query.before as string) || undefined;
+
+    const leadMagnet = await LeadMagnet.findOne({
+      _id: id,
+      userId: getAccountId(req),
+    });
+
+    if (!leadMagnet) {
+      throw AppError.notFound('Lead magnet not found');
+    }
+
+    const revisions = await listRevisions(leadMagnet, { limit, before });
+
+    res.json({
+      success: true,
+      data: { revisions, currentRevision: leadMagnet.currentRevision ?? null },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getRevisionHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ revision: ILeadMagnetRevision }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { id, version } = req.params;
+
+    const leadMagnet = await LeadMagnet.findOne({
+      _id: id,
+      userId: getAccountId(req),
+    });
+
+    if (!leadMagnet) {
+      throw AppError.notFound('Lead magnet not found');
+    }
+
+    const revision = await getRevision(leadMagnet, parseInt(version, 10));
+    const revisionWithSignedUrl = await attachSignedPdfUrl(revision.toObject());
+
+    res.json({
+      success: true,
+      data: { revision: revisionWithSignedUrl },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function restoreRevisionHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ leadMagnet: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { id, version } = req.params;
+
+    const leadMagnet = await LeadMagnet.findOne({
+      _id: id,
+      userId: getAccountId(req),
+    });
+
+    if (!leadMagnet) {
+      throw AppError.notFound('Lead magnet not found');
+    }
+
+    if (leadMagnet.generationStatus === 'queued' || leadMagnet.generationStatus === 'generating') {
+      throw AppError.conflict('Cannot restore a revision while the lead magnet is generating');
+    }
+
+    await restoreRevision(leadMagnet, parseInt(version, 10));
+
+    const leadMagnetWithSignedUrl = await attachSignedUrls(leadMagnet.toObject());
+
+    logger.info('Lead magnet restored to revision', {
+      userId: getAccountId(req),
+      leadMagnetId: id,
+      version,
+    });
+
+    res.json({
+      success: true,
+      data: { leadMagnet: leadMagnetWithSignedUrl },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Landing Page Experiments
+// ============================================
+
+export async function getExperiments(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ experiments: ILandingExperiment[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const experiments = await listExperiments(leadMagnet);
+
+    res.json({
+      success: true,
+      data: { experiments },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createExperimentHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ experiment: ILandingExperiment }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const experiment = await createExperiment(leadMagnet, req.body as CreateExperimentInput);
+
+    res.status(201).json({
+      success: true,
+      data: { experiment },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getExperimentHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ experiment: ILandingExperiment; results: ExperimentResults }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const experiment = await getExperiment(leadMagnet, req.params.experimentId);
+    const results = await getExperimentResults(experiment);
+
+    res.json({
+      success: true,
+      data: { experiment, results },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function stopExperimentHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ experiment: ILandingExperiment }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const experiment = await getExperiment(leadMagnet, req.params.experimentId);
+
+    await stopExperiment(experiment);
+
+    res.json({
+      success: true,
+      data: { experiment },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function promoteVariantHandler(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ experiment: ILandingExperiment; leadMagnet: ILeadMagnet }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const leadMagnet = await findUserLeadMagnet(req);
+    const experiment = await getExperiment(leadMagnet, req.params.experimentId);
+
+    await promoteVariant(leadMagnet, experiment, req.body.variant);
+
+    res.json({
+      success: true,
+      data: { experiment, leadMagnet: await attachSignedUrls(leadMagnet.toObject()) },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Regenerate PDF
+// ============================================
+
+export async function regeneratePdf(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ pdfUrl: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { id } = req.params;
+
+    const leadMagnet = await LeadMagnet.findOne({
+      _id: id,
+      userId: getAccountId(req),
+    });
+
+    if (!leadMagnet) {
+      throw AppError.notFound('Lead magnet not found');
+    }
+
+    if (!leadMagnet.contentJson) {
+      throw AppError.badRequest('No content available for PDF regeneration');
+    }
 
-    // Upload new PDF (works with both local and cloud storage)
-    const filename = `pdfs/${req.user._id}/${leadMagnet.slug}-${uuidv4().slice(0, 8)}.pdf`;
-    const pdfUrl = await uploadPdf(pdfBuffer, filename);
+    // Keep the current PDF reachable from history before replacing it
+    await ensureBaselineRevision(leadMagnet);
 
-    leadMagnet.pdfUrl = pdfUrl;
+    // Regenerate PDF with brand and upload it under a new key
+    const pdfUrl = await rebuildLeadMagnetPdf(leadMagnet);
     await leadMagnet.save();
+    await captureRevision(leadMagnet, 'pdf_regenerated');
 
     logger.info('PDF regenerated successfully', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       leadMagnetId: leadMagnet._id,
       pdfUrl,
     });
@@ -1342,7 +1646,7 @@ export async function uploadMedia(
     }
 
     // Validate brand exists and belongs to user
-    const brand = await Brand.findOne({ _id: brandId, userId: req.user._id });
+    const brand = await Brand.findOne({ _id: brandId, userId: getAccountId(req) });
     if (!brand) {
       throw AppError.badRequest('Brand not found');
     }
@@ -1365,8 +1669,8 @@ export async function uploadMedia(
     }
 
     // Get user's subscription to determine privacy setting
-    const subscription = await billingService.getOrCreateSubscription(req.user._id.toString());
-    const userDoc = await User.findById(req.user._id);
+    const subscription = await billingService.getOrCreateSubscription(getAccountId(req).toString());
+    const userDoc = await User.findById(getAccountId(req));
 
     // Determine if lead magnet should be public
     const isPublic = subscription.plan === 'free'
@@ -1374,7 +1678,7 @@ export async function uploadMedia(
       : (userDoc?.defaultLeadMagnetPrivacy !== 'private');
 
     logger.info('Uploading user media file', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       brandId: brand._id,
       fileType: mimeTypeConfig.fileType,
       fileName: file.originalname,
@@ -1388,21 +1692,21 @@ export async function uploadMedia(
       mimeType: file.mimetype,
       originalFilename: file.originalname,
       folder: mimeTypeConfig.folder,
-      userId: req.user._id.toString(),
+      userId: getAccountId(req).toString(),
     });
 
     // Generate unique slug from title
     const baseSlug = slugify(title.trim(), { lower: true, strict: true });
     let slug = baseSlug;
     let counter = 1;
-    while (await LeadMagnet.findOne({ userId: req.user._id, slug })) {
+    while (await LeadMagnet.findOne({ userId: getAccountId(req), slug })) {
       slug = `${baseSlug}-${counter}`;
       counter++;
     }
 
     // Create lead magnet record
     const leadMagnet = await LeadMagnet.create({
-      userId: req.user._id,
+      userId: getAccountId(req),
       brandId: brand._id,
       type: mimeTypeConfig.leadMagnetType,
       title: title.trim(),
@@ -1424,12 +1728,12 @@ export async function uploadMedia(
     });
 
     // Record usage for billing
-    await billingService.recordLeadMagnetUsage(req.user._id.toString());
+    await billingService.recordLeadMagnetUsage(getAccountId(req).toString());
 
     const leadMagnetWithSignedUrl = await attachSignedUrls(leadMagnet.toObject());
 
     logger.info('User media uploaded successfully', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       leadMagnetId: leadMagnet._id,
       brandId: brand._id,
       slug,
@@ -1444,7 +1748,7 @@ export async function uploadMedia(
     // ============================================
     // Async generation (landing page copy for uploaded media)
     // ============================================
-    const formAction = `/public/${req.user.username}/${slug}/subscribe`;
+    const formAction = `/public/${userDoc?.username}/${slug}/subscribe`;
     const finalBrandSettings = brand.settings;
     const finalTitle = title.trim();
     const finalDescription = description?.trim() || `Download this ${mimeTypeConfig.fileType} resource`;
@@ -0,0 +1,116 @@
+import type { Response, NextFunction } from 'express';
+import {
+  lookupSubjectData,
+  exportSubjectData,
+  eraseSubjectData,
+  listDataRequests,
+  type SubjectData,
+} from '../services/privacyService.js';
+import { getAccountId } from '../middleware/workspace.js';
+import { AppError } from '../utils/AppError.js';
+import type { AuthenticatedRequest, ApiResponse, DataRequestType, IDataRequest } from '../types/index.js';
+
+// ============================================
+// Lookup (right of access)
+// ============================================
+
+export async function lookup(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ data: SubjectData; request: IDataRequest }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { data, request } = await lookupSubjectData(getAccountId(req), req.body.email, req.body.note);
+
+    res.json({
+      success: true,
+      data: { data, request },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Export (data portability)
+// ============================================
+
+export async function exportData(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const json = await exportSubjectData(getAccountId(req), req.body.email, req.body.note);
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', 'attachment; filename="personal-data.json"');
+    res.send(json);
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Erase (right to erasure)
+// ============================================
+
+export async function erase(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ request: IDataRequest }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const request = await eraseSubjectData(getAccountId(req), req.body.email, req.body.mode, req.body.note);
+
+    res.json({
+      success: true,
+      data: { request },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Audit Log
+// ============================================
+
+export async function getRequests(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ requests: IDataRequest[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const requests = await listDataRequests(getAccountId(req), {
+      limit,
+      email: req.query.email as string | undefined,
+      type: req.query.type as DataRequestType | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: { requests },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
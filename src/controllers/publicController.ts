@@ -1,16 +1,27 @@
 import type { Request, Response, NextFunction } from 'express';
 import sanitizeHtml from 'sanitize-html';
+import { v4 as uuidv4 } from 'uuid';
 import { LeadMagnet } from '../models/LeadMagnet.js';
 import { Lead } from '../models/Lead.js';
 import { User } from '../models/User.js';
 import { PageView } from '../models/PageView.js';
-import { sendDeliveryEmail } from '../services/emailService.js';
-import { getSignedPdfUrl, getSignedImageUrl, getSignedFileUrl } from '../services/storageService.js';
-import { renderLandingPage, DEFAULT_BRAND_SETTINGS } from '../services/templateService.js';
+import { getSignedFileUrl } from '../services/storageService.js';
+import { renderLandingPage, withLandingPageTemplate, DEFAULT_BRAND_SETTINGS } from '../services/templateService.js';
+import { assignVariant, applyVariant, evaluateAutoPromotion, type VariantAssignment } from '../services/experimentService.js';
+import {
+  buildConsentRecord,
+  completeLeadCapture,
+  sendLeadConfirmation,
+  canResendConfirmation,
+  confirmLead,
+} from '../services/leadCaptureService.js';
+import { verifyUnsubscribeToken, unsubscribeWithToken } from '../services/suppressionService.js';
+import { getWhiteLabel } from '../services/whiteLabelService.js';
+import { config } from '../config/index.js';
 import { AppError } from '../utils/AppError.js';
 import { logger } from '../utils/logger.js';
 import { Brand } from '../models/Brand.js';
-import type { ApiResponse, IEmail, ILandingPageCopy, ILeadMagnet, IBrandSettings } from '../types/index.js';
+import type { ApiResponse, ILandingPageCopy, ILeadMagnet, IBrandSettings } from '../types/index.js';
 
 // ============================================
 // Traffic Source Detection
@@ -82,6 +93,62 @@ function getClientIp(req: Request): string | undefined {
   return req.socket?.remoteAddress;
 }
 
+// Custom domains attached to a brand only serve that brand's pages
+function getBrandScope(req: Request): { brandId?: string } {
+  const brandId = (req as Request & { _publicBrandId?: string })._publicBrandId;
+  return brandId ? { brandId } : {};
+}
+
+// ============================================
+// Experiment Visitors
+// ============================================
+
+const VISITOR_COOKIE = 'mh_vid';
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+/**
+ * Visitor ID used for sticky experiment assignment: the first-party cookie, or an ID the
+ * frontend persists and sends back (X-Visitor-Id header, visitorId query or body field).
+ */
+function readVisitorId(req: Request): string | undefined {
+  const cookieHeader = req.headers.cookie || '';
+  const fromCookie = cookieHeader
+    .split(';')
+    .map((part) => part.trim().split('='))
+    .find(([name]) => name === VISITOR_COOKIE)?.[1];
+
+  const body = req.body && typeof req.body === 'object' ? (req.body as Record<string, unknown>) : {};
+  const candidates = [fromCookie, req.get('x-visitor-id'), req.query.visitorId, body.visitorId];
+
+  return candidates.find((value): value is string => typeof value === 'string' && VISITOR_ID_PATTERN.test(value));
+}
+
+function getOrCreateVisitorId(req: Request, res: Response): string {
+  const existing = readVisitorId(req);
+  if (existing) {
+    return existing;
+  }
+
+  const visitorId = uuidv4();
+  res.cookie(VISITOR_COOKIE, visitorId, {
+    maxAge: 180 * 24 * 60 * 60 * 1000, // 180 days
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: config.isProd,
+  });
+  return visitorId;
+}
+
+function getRequestedVariant(req: Request): string | undefined {
+  const body = req.body && typeof req.body === 'object' ? (req.body as Record<string, unknown>) : {};
+  const value = body.variant ?? req.query.variant;
+  return typeof value === 'string' ? value : undefined;
+}
+
+function experimentFields(assignment: VariantAssignment | null): { experimentId?: VariantAssignment['experimentId']; variant?: string } {
+  return assignment ? { experimentId: assignment.experimentId, variant: assignment.variant.key } : {};
+}
+
 // ============================================
 // Get Tenant/User Info by Slug
 // ============================================
@@ -140,7 +207,13 @@ export async function getTenantBySlug(
 
 export async function getLandingPageData(
   req: Request,
-  res: Response<ApiResponse<{ leadMagnet: Partial<ILeadMagnet>; brandSettings: IBrandSettings }>>,
+  res: Response<ApiResponse<{
+    leadMagnet: Partial<ILeadMagnet>;
+    brandSettings: IBrandSettings;
+    experiment: { id: string; variant: string } | null;
+    visitorId: string;
+    hideBranding: boolean;
+  }>>,
   next: NextFunction
 ): Promise<void> {
   try {
@@ -160,6 +233,7 @@ export async function getLandingPageData(
     const leadMagnet = await LeadMagnet.findOne({
       userId: user._id,
       slug: slug.toLowerCase(),
+      ...getBrandScope(req),
       isPublished: true,
     });
 
@@ -167,6 +241,10 @@ export async function getLandingPageData(
       throw AppError.notFound('Page not found');
     }
 
+    // Sticky A/B assignment when a landing page experiment is running
+    const visitorId = getOrCreateVisitorId(req, res);
+    const assignment = await assignVariant(leadMagnet, visitorId);
+
     // Track page view (async, don't block response)
     const sourceInfo = detectSource(req);
     PageView.create({
@@ -175,6 +253,7 @@ export async function getLandingPageData(
       source: sourceInfo.source,
       medium: sourceInfo.medium,
       campaign: sourceInfo.campaign,
+      ...experimentFields(assignment),
       userAgent: req.headers['user-agent'],
       ip: getClientIp(req),
     }).catch((err) => {
@@ -196,6 +275,8 @@ export async function getLandingPageData(
       uploadedFileType: leadMagnet.uploadedFileType,
       uploadedFileName: leadMagnet.uploadedFileName,
       description: leadMagnet.description,
+      doubleOptIn: leadMagnet.doubleOptIn,
+      consentText: leadMagnet.consentText,
     };
 
     // Generate signed URL for image preview if uploaded image
@@ -219,12 +300,28 @@ export async function getLandingPageData(
     } else if (user.brandSettings) {
       brandSettings = user.brandSettings;
     }
+    brandSettings = withLandingPageTemplate(brandSettings, leadMagnet.landingPageTemplate) ?? brandSettings;
+
+    // Show the assigned variant's copy and template
+    if (assignment && leadMagnet.landingPageCopyJson) {
+      const variant = applyVariant(leadMagnet.landingPageCopyJson, brandSettings, assignment.variant);
+      leadMagnetData.landingPageCopyJson = variant.copy;
+      brandSettings = variant.brandSettings ?? brandSettings;
+    }
+    if (assignment) {
+      res.setHeader('Cache-Control', 'private, no-store');
+    }
 
     res.json({
       success: true,
       data: {
         leadMagnet: leadMagnetData,
         brandSettings,
+        // Send the variant back with subscribe-api so the lead is attributed to it
+        experiment: assignment ? { id: assignment.experimentId.toString(), variant: assignment.variant.key } : null,
+        visitorId,
+        // White-labeled accounts: no "Powered by MagnetHub" on the page
+        hideBranding: !!(await getWhiteLabel(user._id)),
       },
     });
   } catch (error) {
@@ -258,6 +355,7 @@ export async function serveLandingPage(
     const leadMagnet = await LeadMagnet.findOne({
       userId: user._id,
       slug: slug.toLowerCase(),
+      ...getBrandScope(req),
       isPublished: true,
     });
 
@@ -265,6 +363,10 @@ export async function serveLandingPage(
       throw AppError.notFound('Page not found');
     }
 
+    // Sticky A/B assignment when a landing page experiment is running
+    const visitorId = getOrCreateVisitorId(req, res);
+    const assignment = await assignVariant(leadMagnet, visitorId);
+
     // Track page view (async, don't block response)
     const sourceInfo = detectSource(req);
     PageView.create({
@@ -273,6 +375,7 @@ export async function serveLandingPage(
       source: sourceInfo.source,
       medium: sourceInfo.medium,
       campaign: sourceInfo.campaign,
+      ...experimentFields(assignment),
       userAgent: req.headers['user-agent'],
       ip: getClientIp(req),
     }).catch((err) => {
@@ -297,12 +400,24 @@ export async function serveLandingPage(
       // form action relative to that origin (/{slug}/subscribe). When served via
       // /public/:username/:slug, keep the legacy /public/... action.
       const isPublicPath = req.baseUrl === '/public';
-      const formAction = isPublicPath ? `/public/${username}/${slug}/subscribe` : `/${slug}/subscribe`;
+      let formAction = isPublicPath ? `/public/${username}/${slug}/subscribe` : `/${slug}/subscribe`;
 
-      html = await renderLandingPage(
-        brandSettings,
+      const variant = applyVariant(
         leadMagnet.landingPageCopyJson as ILandingPageCopy,
-        formAction
+        withLandingPageTemplate(brandSettings, leadMagnet.landingPageTemplate),
+        assignment?.variant
+      );
+      if (assignment) {
+        // Attribute the signup to the variant even if the cookie is blocked
+        formAction += `?variant=${encodeURIComponent(assignment.variant.key)}`;
+        res.setHeader('Cache-Control', 'private, no-store');
+      }
+
+      html = await renderLandingPage(
+        variant.brandSettings,
+        variant.copy,
+        formAction,
+        { consentText: leadMagnet.consentText, hideBranding: !!(await getWhiteLabel(user._id)) }
       );
     } else if (leadMagnet.landingPageHtml) {
       // Fallback to stored HTML for backward compatibility
@@ -381,6 +496,7 @@ export async function subscribe(
     const leadMagnet = await LeadMagnet.findOne({
       userId: user._id,
       slug: slug.toLowerCase(),
+      ...getBrandScope(req),
       isPublished: true,
     });
 
@@ -395,12 +511,17 @@ export async function subscribe(
     });
 
     if (existingLead) {
+      // Still unconfirmed: send a fresh confirmation link
+      if (canResendConfirmation(existingLead)) {
+        await sendLeadConfirmation(existingLead, leadMagnet, getConfirmUrl(username, slug));
+      }
       // Return success anyway (don't reveal if email exists)
-      return redirectToThankYou(req, res, username, slug);
+      return redirectToThankYou(req, res, username, slug, leadMagnet.doubleOptIn ? 'pending' : undefined);
     }
 
     // Detect traffic source
     const sourceInfo = detectSource(req);
+    const assignment = await assignVariant(leadMagnet, readVisitorId(req), getRequestedVariant(req));
 
     // Create lead with source tracking
     const lead = await Lead.create({
@@ -411,108 +532,78 @@ export async function subscribe(
       source: sourceInfo.source,
       medium: sourceInfo.medium,
       campaign: sourceInfo.campaign,
+      ...experimentFields(assignment),
+      consent: buildConsentRecord(leadMagnet, { ipAddress: getClientIp(req), userAgent: req.headers['user-agent'] }),
     });
 
+    if (assignment) {
+      void evaluateAutoPromotion(assignment.experimentId);
+    }
+
     logger.info('New lead captured', {
       leadId: lead._id,
       leadMagnetId: leadMagnet._id,
       email: email.toLowerCase(),
       source: sourceInfo.source,
+      doubleOptIn: !!leadMagnet.doubleOptIn,
     });
 
-    // Send delivery email asynchronously
-    if (leadMagnet.isUserUploaded && leadMagnet.uploadedFileUrl && leadMagnet.uploadedFileMimeType) {
-      // User-uploaded file - generate simple delivery email
-      const signedFileUrl = await getSignedFileUrl(
-        leadMagnet.uploadedFileUrl,
-        leadMagnet.uploadedFileMimeType,
-        60 * 60 * 24 * 7 // 7 days
-      );
+    // With double opt-in the asset is only delivered once the lead confirms
+    if (leadMagnet.doubleOptIn) {
+      await sendLeadConfirmation(lead, leadMagnet, getConfirmUrl(username, slug));
+    } else {
+      await completeLeadCapture(user._id, lead, leadMagnet);
+    }
 
-      const title = leadMagnet.title || 'Your Download';
-      const description = leadMagnet.description || '';
-      const fileTypeLabel = leadMagnet.uploadedFileType === 'pdf' ? 'PDF'
-        : leadMagnet.uploadedFileType === 'image' ? 'Image'
-          : leadMagnet.uploadedFileType === 'audio' ? 'Audio File'
-            : 'File';
-
-      const subject = `Your ${fileTypeLabel}: ${title}`;
-      const bodyHtml = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h1 style="color: #333;">${title}</h1>
-          ${description ? `<p style="color: #666; margin-bottom: 24px;">${description}</p>` : ''}
-          <p style="color: #333; margin-bottom: 24px;">Here's your download:</p>
-          <p style="margin-bottom: 24px;">
-            <a href="${signedFileUrl}" 
-               style="display: inline-block; background-color: #10B981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
-              Download ${fileTypeLabel}
-            </a>
-          </p>
-          <p style="color: #999; font-size: 14px;">This link expires in 7 days.</p>
-        </div>
-      `;
-      const bodyText = `${title}\n\n${description ? description + '\n\n' : ''}Download your ${fileTypeLabel.toLowerCase()} here: ${signedFileUrl}\n\nThis link expires in 7 days.`;
-
-      // Don't await - send in background
-      sendDeliveryEmail(
-        lead._id.toString(),
-        email.toLowerCase(),
-        subject,
-        bodyHtml,
-        bodyText
-      ).catch((error: unknown) => {
-        logger.error('Failed to send delivery email for uploaded file', error);
-      });
-    } else if (leadMagnet.emailsJson?.emails?.[0]) {
-      const deliveryEmail: IEmail = leadMagnet.emailsJson.emails[0];
+    // Redirect to thank you page
+    redirectToThankYou(req, res, username, slug, leadMagnet.doubleOptIn ? 'pending' : undefined);
+  } catch (error) {
+    next(error);
+  }
+}
 
-      // The stored PDF/Infographic URLs may point at the R2 API hostname (requires auth).
-      // For emails, always convert them to time-limited signed URLs so recipients can open them.
-      const storedPdfUrl = typeof leadMagnet.pdfUrl === 'string' ? leadMagnet.pdfUrl : '';
-      const signedPdfUrl = storedPdfUrl ? await getSignedPdfUrl(storedPdfUrl, 60 * 60 * 24 * 7) : '';
+type ThankYouStatus = 'pending' | 'expired';
 
-      const storedInfographicUrl = typeof leadMagnet.infographicUrl === 'string' ? leadMagnet.infographicUrl : '';
-      const signedInfographicUrl = storedInfographicUrl ? await getSignedImageUrl(storedInfographicUrl, 60 * 60 * 24 * 7) : '';
+function redirectToThankYou(req: Request, res: Response, username: string, slug: string, status?: ThankYouStatus): void {
+  const isPublicPath = req.baseUrl === '/public';
+  const query = status ? `?status=${status}` : '';
+  res.redirect(isPublicPath ? `/public/${username}/${slug}/thank-you${query}` : `/${slug}/thank-you${query}`);
+}
 
-      let bodyHtml = deliveryEmail.body_html;
-      let bodyText = deliveryEmail.body_text;
+// Built from configuration, never the request's Host header, so a forged host cannot
+// receive the confirmation token
+function getConfirmUrl(username: string, slug: string): string {
+  return `${config.publicUrl}/public/${encodeURIComponent(username)}/${encodeURIComponent(slug)}/confirm`;
+}
 
-      // Replace PDF URL
-      if (signedPdfUrl) {
-        bodyHtml = bodyHtml.replaceAll('{{PDF_URL}}', signedPdfUrl).replaceAll(storedPdfUrl, signedPdfUrl);
-        bodyText = bodyText.replaceAll('{{PDF_URL}}', signedPdfUrl).replaceAll(storedPdfUrl, signedPdfUrl);
-      }
+// ============================================
+// Double Opt-In Confirmation
+// ============================================
 
-      // Replace Infographic URL
-      if (signedInfographicUrl) {
-        bodyHtml = bodyHtml.replaceAll('{{INFOGRAPHIC_URL}}', signedInfographicUrl).replaceAll(storedInfographicUrl, signedInfographicUrl);
-        bodyText = bodyText.replaceAll('{{INFOGRAPHIC_URL}}', signedInfographicUrl).replaceAll(storedInfographicUrl, signedInfographicUrl);
-      }
+export async function confirmSubscription(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { username, slug } = req.params;
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
 
-      // Don't await - send in background
-      sendDeliveryEmail(
-        lead._id.toString(),
-        email.toLowerCase(),
-        deliveryEmail.subject,
-        bodyHtml,
-        bodyText
-      ).catch((error: unknown) => {
-        logger.error('Failed to send delivery email', error);
-      });
+    if (!username || !slug) {
+      throw AppError.notFound('Page not found');
     }
 
-    // Redirect to thank you page
-    redirectToThankYou(req, res, username, slug);
+    const result = token ? await confirmLead(token) : { status: 'invalid' as const };
+    if (result.status !== 'confirmed') {
+      logger.info('Lead confirmation link rejected', { username, slug, status: result.status });
+    }
+
+    redirectToThankYou(req, res, username, slug, result.status === 'confirmed' ? undefined : 'expired');
   } catch (error) {
     next(error);
   }
 }
 
-function redirectToThankYou(req: Request, res: Response, username: string, slug: string): void {
-  const isPublicPath = req.baseUrl === '/public';
-  res.redirect(isPublicPath ? `/public/${username}/${slug}/thank-you` : `/${slug}/thank-you`);
-}
-
 // ============================================
 // Thank You Page
 // ============================================
@@ -538,9 +629,17 @@ export async function thankYouPage(
     const leadMagnet = await LeadMagnet.findOne({
       userId: user._id,
       slug: slug.toLowerCase(),
+      ...getBrandScope(req),
     });
 
     const title = leadMagnet?.title || 'Your Download';
+    const status = req.query.status as ThankYouStatus | undefined;
+    const heading = status === 'pending' ? 'Confirm your email'
+      : status === 'expired' ? 'This link has expired'
+        : 'It\'s on the way';
+    const hint = status === 'pending' ? 'Click the link we just emailed you'
+      : status === 'expired' ? 'Sign up again to get a new link'
+        : 'Check your inbox';
 
     // Get brand logo for favicon
     let faviconHtml = '';
@@ -551,6 +650,10 @@ export async function thankYouPage(
       }
     }
 
+    const footerHtml = (await getWhiteLabel(user._id))
+      ? ''
+      : '<a href="https://magnethubai.com" target="_blank" rel="noopener">Powered by MagnetHub</a>';
+
     const html = `
 <!DOCTYPE html>
 <html lang="en">
@@ -810,7 +913,7 @@ ${faviconHtml}
       </div>
     </div>
     
-    <h1>It's on the way</h1>
+    <h1>${heading}</h1>
     <p class="subtitle">${title}</p>
     
     <div class="email-hint">
@@ -818,14 +921,13 @@ ${faviconHtml}
         <rect x="2" y="4" width="20" height="16" rx="2"/>
         <path d="M22 7l-10 7L2 7"/>
       </svg>
-      <span>Check your inbox</span>
+      <span>${hint}</span>
     </div>
     <p class="spam-hint">Not there? Check your spam folder</p>
   </main>
   
   <footer class="footer">
-    <a href="https://magnethubai.com" target="_blank" rel="noopener">Powered by MagnetHub</a>
-    
+    ${footerHtml}
   </footer>
   
   <script>
@@ -862,6 +964,139 @@ ${faviconHtml}
   }
 }
 
+// ============================================
+// Unsubscribe
+// ============================================
+
+function renderUnsubscribePage(heading: string, message: string, formAction?: string): string {
+  const form = formAction
+    ? `<form method="POST" action="${formAction}"><button type="submit">Unsubscribe</button></form>`
+    : '';
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${heading}</title>
+  <link rel="preconnect" href="https://fonts.googleapis.com">
+  <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
+  <link href="https://fonts.googleapis.com/css2?family=Plus+Jakarta+Sans:wght@400;500;600;700&display=swap" rel="stylesheet">
+  <style>
+    *, *::before, *::after {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    body {
+      font-family: 'Plus Jakarta Sans', -apple-system, sans-serif;
+      background: #0C0C0C;
+      color: #FAFAFA;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 24px;
+    }
+
+    .content {
+      text-align: center;
+      max-width: 480px;
+      width: 100%;
+    }
+
+    h1 {
+      font-size: 28px;
+      font-weight: 700;
+      margin-bottom: 16px;
+    }
+
+    p {
+      color: rgba(255, 255, 255, 0.5);
+      line-height: 1.6;
+      margin-bottom: 32px;
+    }
+
+    button {
+      font-family: inherit;
+      font-size: 16px;
+      font-weight: 600;
+      color: #FAFAFA;
+      background: #10B981;
+      border: none;
+      border-radius: 8px;
+      padding: 14px 32px;
+      cursor: pointer;
+    }
+  </style>
+</head>
+<body>
+  <div class="content">
+    <h1>${heading}</h1>
+    <p>${message}</p>
+    ${form}
+  </div>
+</body>
+</html>
+  `;
+}
+
+/**
+ * GET /public/unsubscribe?token=... (also /unsubscribe on subdomains)
+ * Asks for confirmation so link scanners following the URL don't unsubscribe anyone.
+ */
+export async function unsubscribePage(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+    res.setHeader('Content-Type', 'text/html');
+    if (!verifyUnsubscribeToken(token)) {
+      res.status(400).send(renderUnsubscribePage('Invalid link', 'This unsubscribe link is invalid or incomplete.'));
+      return;
+    }
+
+    const action = `${req.baseUrl}/unsubscribe?token=${encodeURIComponent(token)}`;
+    res.send(renderUnsubscribePage('Unsubscribe', 'Stop receiving emails from this sender?', action));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /public/unsubscribe?token=... (also /unsubscribe on subdomains)
+ * The confirmation form and RFC 8058 one-click unsubscribe from mail clients.
+ */
+export async function unsubscribe(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token
+      : typeof req.body?.token === 'string' ? req.body.token
+        : '';
+
+    const result = await unsubscribeWithToken(token);
+
+    res.setHeader('Content-Type', 'text/html');
+    if (!result) {
+      res.status(400).send(renderUnsubscribePage('Invalid link', 'This unsubscribe link is invalid or incomplete.'));
+      return;
+    }
+
+    res.send(renderUnsubscribePage('You\'re unsubscribed', 'You won\'t receive any more emails from this sender.'));
+  } catch (error) {
+    next(error);
+  }
+}
+
 // ============================================
 // API Version of Subscribe (for AJAX)
 // ============================================
@@ -900,6 +1135,7 @@ export async function subscribeApi(
     const leadMagnet = await LeadMagnet.findOne({
       userId: user._id,
       slug: slug.toLowerCase(),
+      ...getBrandScope(req),
       isPublished: true,
     });
 
@@ -912,9 +1148,15 @@ export async function subscribeApi(
       leadMagnetId: leadMagnet._id,
     });
 
-    if (!existingLead) {
+    if (existingLead) {
+      // Still unconfirmed: send a fresh confirmation link
+      if (canResendConfirmation(existingLead)) {
+        await sendLeadConfirmation(existingLead, leadMagnet, getConfirmUrl(username, slug));
+      }
+    } else {
       // Detect traffic source
       const sourceInfo = detectSource(req);
+      const assignment = await assignVariant(leadMagnet, readVisitorId(req), getRequestedVariant(req));
 
       const lead = await Lead.create({
         email: email.toLowerCase(),
@@ -924,96 +1166,35 @@ export async function subscribeApi(
         source: sourceInfo.source,
         medium: sourceInfo.medium,
         campaign: sourceInfo.campaign,
+        ...experimentFields(assignment),
+        consent: buildConsentRecord(leadMagnet, { ipAddress: getClientIp(req), userAgent: req.headers['user-agent'] }),
       });
 
+      if (assignment) {
+        void evaluateAutoPromotion(assignment.experimentId);
+      }
+
       logger.info('New lead captured (API)', {
         leadId: lead._id,
         leadMagnetId: leadMagnet._id,
         source: sourceInfo.source,
+        doubleOptIn: !!leadMagnet.doubleOptIn,
       });
 
-      if (leadMagnet.isUserUploaded && leadMagnet.uploadedFileUrl && leadMagnet.uploadedFileMimeType) {
-        // User-uploaded file - generate simple delivery email
-        const signedFileUrl = await getSignedFileUrl(
-          leadMagnet.uploadedFileUrl,
-          leadMagnet.uploadedFileMimeType,
-          60 * 60 * 24 * 7 // 7 days
-        );
-
-        const title = leadMagnet.title || 'Your Download';
-        const description = leadMagnet.description || '';
-        const fileTypeLabel = leadMagnet.uploadedFileType === 'pdf' ? 'PDF'
-          : leadMagnet.uploadedFileType === 'image' ? 'Image'
-            : leadMagnet.uploadedFileType === 'audio' ? 'Audio File'
-              : 'File';
-
-        const subject = `Your ${fileTypeLabel}: ${title}`;
-        const bodyHtml = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #333;">${title}</h1>
-            ${description ? `<p style="color: #666; margin-bottom: 24px;">${description}</p>` : ''}
-            <p style="color: #333; margin-bottom: 24px;">Here's your download:</p>
-            <p style="margin-bottom: 24px;">
-              <a href="${signedFileUrl}" 
-                 style="display: inline-block; background-color: #10B981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
-                Download ${fileTypeLabel}
-              </a>
-            </p>
-            <p style="color: #999; font-size: 14px;">This link expires in 7 days.</p>
-          </div>
-        `;
-        const bodyText = `${title}\n\n${description ? description + '\n\n' : ''}Download your ${fileTypeLabel.toLowerCase()} here: ${signedFileUrl}\n\nThis link expires in 7 days.`;
-
-        sendDeliveryEmail(
-          lead._id.toString(),
-          email.toLowerCase(),
-          subject,
-          bodyHtml,
-          bodyText
-        ).catch((error: unknown) => {
-          logger.error('Failed to send delivery email for uploaded file', error);
-        });
-      } else if (leadMagnet.emailsJson?.emails?.[0]) {
-        const deliveryEmail: IEmail = leadMagnet.emailsJson.emails[0];
-
-        // The stored PDF/Infographic URLs may point at the R2 API hostname (requires auth).
-        // For emails, always convert them to time-limited signed URLs so recipients can open them.
-        const storedPdfUrl = typeof leadMagnet.pdfUrl === 'string' ? leadMagnet.pdfUrl : '';
-        const signedPdfUrl = storedPdfUrl ? await getSignedPdfUrl(storedPdfUrl, 60 * 60 * 24 * 7) : '';
-
-        const storedInfographicUrl = typeof leadMagnet.infographicUrl === 'string' ? leadMagnet.infographicUrl : '';
-        const signedInfographicUrl = storedInfographicUrl ? await getSignedImageUrl(storedInfographicUrl, 60 * 60 * 24 * 7) : '';
-
-        let bodyHtml = deliveryEmail.body_html;
-        let bodyText = deliveryEmail.body_text;
-
-        // Replace PDF URL
-        if (signedPdfUrl) {
-          bodyHtml = bodyHtml.replaceAll('{{PDF_URL}}', signedPdfUrl).replaceAll(storedPdfUrl, signedPdfUrl);
-          bodyText = bodyText.replaceAll('{{PDF_URL}}', signedPdfUrl).replaceAll(storedPdfUrl, signedPdfUrl);
-        }
-
-        // Replace Infographic URL
-        if (signedInfographicUrl) {
-          bodyHtml = bodyHtml.replaceAll('{{INFOGRAPHIC_URL}}', signedInfographicUrl).replaceAll(storedInfographicUrl, signedInfographicUrl);
-          bodyText = bodyText.replaceAll('{{INFOGRAPHIC_URL}}', signedInfographicUrl).replaceAll(storedInfographicUrl, signedInfographicUrl);
-        }
-
-        sendDeliveryEmail(
-          lead._id.toString(),
-          email.toLowerCase(),
-          deliveryEmail.subject,
-          bodyHtml,
-          bodyText
-        ).catch((error: unknown) => {
-          logger.error('Failed to send delivery email', error);
-        });
+      if (leadMagnet.doubleOptIn) {
+        await sendLeadConfirmation(lead, leadMagnet, getConfirmUrl(username, slug));
+      } else {
+        await completeLeadCapture(user._id, lead, leadMagnet);
       }
     }
 
     res.json({
       success: true,
-      data: { message: 'Check your email for the download link!' },
+      data: {
+        message: leadMagnet.doubleOptIn
+          ? 'Check your email and confirm your address to get the download link!'
+          : 'Check your email for the download link!',
+      },
     });
   } catch (error) {
     next(error);
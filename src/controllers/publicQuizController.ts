@@ -5,10 +5,38 @@ import { User } from '../models/User.js';
 import { Brand } from '../models/Brand.js';
 import { Lead } from '../models/Lead.js';
 import { sendQuizResultEmail } from '../services/emailService.js';
-import { calculateQuizResult, validateQuizResponses } from '../utils/quizCalculation.js';
+import { emitQuizCompleted } from '../services/webhookService.js';
+import { queueCrmSyncForQuizResponse } from '../services/crmService.js';
+import { buildConsentRecord } from '../services/leadCaptureService.js';
+import { isSuppressed, getUnsubscribeUrl } from '../services/suppressionService.js';
+import { getWhiteLabel } from '../services/whiteLabelService.js';
+import {
+  calculateQuizResult,
+  gradeQuizResponses,
+  validateQuizResponses,
+  type QuizScore,
+} from '../utils/quizCalculation.js';
+import {
+  getQuizFlow,
+  getOrderedQuestions,
+  getQuestionType,
+  getRatingScale,
+  isQuestionAnswered,
+  type QuizFlow,
+  type QuizAnswerInput,
+} from '../utils/quizFlow.js';
 import { AppError } from '../utils/AppError.js';
 import { logger } from '../utils/logger.js';
-import type { ApiResponse, IQuiz, IQuizResult, IQuizResponse } from '../types/index.js';
+import type {
+  ApiResponse,
+  IQuiz,
+  IQuizQuestion,
+  IQuizQuestionFeedback,
+  IQuizResult,
+  IQuizResultScore,
+  IQuizResponse,
+  QuizEmailDeliveryStatus,
+} from '../types/index.js';
 
 // ============================================
 // Traffic Source Detection
@@ -80,6 +108,58 @@ function getClientIp(req: Request): string | undefined {
   return req.socket?.remoteAddress;
 }
 
+// Custom domains attached to a brand only serve that brand's pages
+function getBrandScope(req: Request): { brandId?: string } {
+  const brandId = (req as Request & { _publicBrandId?: string })._publicBrandId;
+  return brandId ? { brandId } : {};
+}
+
+/**
+ * Read one submitted answer: a choice (answerId), choices (answerIds), a rating (value) or text
+ */
+function parseSubmittedAnswer(raw: Record<string, unknown>): QuizAnswerInput {
+  return {
+    questionId: String(raw?.questionId ?? ''),
+    answerId: typeof raw?.answerId === 'string' ? raw.answerId : undefined,
+    answerIds: Array.isArray(raw?.answerIds) ? raw.answerIds.filter((id): id is string => typeof id === 'string') : undefined,
+    value: typeof raw?.value === 'number' ? raw.value : undefined,
+    text: typeof raw?.text === 'string' ? raw.text.trim().slice(0, 2000) : undefined,
+  };
+}
+
+// Store only the field the question's type answers with
+function keepAnswerFieldsForType(quiz: IQuiz, answer: QuizAnswerInput): QuizAnswerInput {
+  const question = quiz.questions.find((q) => q._id.toString() === String(answer.questionId));
+  const type = question ? getQuestionType(question) : 'single_choice';
+
+  return {
+    questionId: answer.questionId,
+    ...((type === 'single_choice' || type === 'image_choice') && { answerId: answer.answerId }),
+    ...(type === 'multi_select' && { answerIds: answer.answerIds }),
+    ...(type === 'rating' && { value: answer.value }),
+    ...(type === 'free_text' && answer.text && { text: answer.text }),
+  };
+}
+
+interface QuizScoreDetails {
+  score?: number;
+  maxScore?: number;
+  breakdown?: IQuizResultScore[];
+  feedback?: IQuizQuestionFeedback[];
+}
+
+// Shown to the taker with their result: the points total, the graded test with feedback,
+// or the breakdown if the quiz shares it
+function getScoreDetails(quiz: IQuiz, scored: Omit<QuizScore, 'result'>): QuizScoreDetails {
+  if (quiz.scoringMode === 'knowledge') {
+    return { score: scored.score, maxScore: scored.maxScore, feedback: scored.feedback };
+  }
+  if (quiz.scoringMode === 'points') {
+    return { score: scored.score, maxScore: scored.maxScore };
+  }
+  return quiz.showResultBreakdown ? { breakdown: scored.breakdown } : {};
+}
+
 // ============================================
 // Get Published Quiz
 // ============================================
@@ -106,6 +186,7 @@ export async function getQuiz(
     const quiz = await Quiz.findOne({
       userId: user._id,
       slug: slug.toLowerCase(),
+      ...getBrandScope(req),
       status: 'published',
     });
 
@@ -133,7 +214,10 @@ export async function getQuiz(
 
     // Return quiz data for frontend rendering
     // Exclude internal fields like stats
-    const quizData: Partial<IQuiz> & { brandInfo?: { sourceType: string; sourceUrl: string; name: string } | null } = {
+    const quizData: Partial<IQuiz> & {
+      brandInfo?: { sourceType: string; sourceUrl: string; name: string } | null;
+      flow: QuizFlow;
+    } = {
       _id: quiz._id,
       title: quiz.title,
       subtitle: quiz.subtitle,
@@ -142,7 +226,24 @@ export async function getQuiz(
       emailCapturePoint: quiz.emailCapturePoint,
       emailFields: quiz.emailFields,
       privacyText: quiz.privacyText,
-      questions: quiz.questions,
+      scoringMode: quiz.scoringMode,
+      // Questions in order with what each type needs to render
+      questions: getOrderedQuestions(quiz).map((q) => {
+        const type = getQuestionType(q);
+        return {
+          _id: q._id,
+          questionText: q.questionText,
+          type,
+          order: q.order,
+          // Answers without how they score (mappings, points or which one is correct)
+          answers: q.answers.map((a) => ({ _id: a._id, answerText: a.answerText, imageUrl: a.imageUrl })),
+          ...(type === 'multi_select' && { maxSelections: q.maxSelections ?? q.answers.length }),
+          ...(type === 'rating' && { ratingScale: getRatingScale(q) }),
+          ...(type === 'free_text' && { isOptional: !!q.isOptional }),
+        };
+      }) as IQuizQuestion[],
+      // Where each answer leads, for rendering branching quizzes
+      flow: getQuizFlow(quiz),
       results: quiz.results.map((r) => ({
         // Include result data but not the mapping (client doesn't need it)
         _id: r._id,
@@ -154,6 +255,8 @@ export async function getQuiz(
         ctaText: r.ctaText,
         ctaUrl: r.ctaUrl,
         imageUrl: r.imageUrl,
+        minScore: r.minScore,
+        maxScore: r.maxScore,
       })) as IQuizResult[],
       theme: quiz.theme,
       primaryColor: quiz.primaryColor,
@@ -198,6 +301,7 @@ export async function startQuiz(
     const quiz = await Quiz.findOne({
       userId: user._id,
       slug: slug.toLowerCase(),
+      ...getBrandScope(req),
       status: 'published',
     });
 
@@ -239,13 +343,102 @@ export async function startQuiz(
   }
 }
 
+// ============================================
+// Record Question Progress
+// ============================================
+
+// Events kept per session, so a misbehaving client cannot grow a response without limit
+const MAX_PROGRESS_EVENTS = 500;
+
+/**
+ * Record that the taker of a started session saw or answered a question
+ */
+export async function recordProgress(
+  req: Request,
+  res: Response<ApiResponse<{ recorded: boolean }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { username, slug } = req.params;
+    const { sessionId, questionId, event } = req.body;
+
+    if (!username || !slug) {
+      throw AppError.notFound('Quiz not found');
+    }
+
+    if (!sessionId) {
+      throw AppError.badRequest('Session ID is required');
+    }
+
+    if (event !== 'viewed' && event !== 'answered') {
+      throw AppError.badRequest('Event must be either viewed or answered');
+    }
+
+    // Find user by username
+    const user = await User.findOne({ username: username.toLowerCase() });
+    if (!user) {
+      throw AppError.notFound('Quiz not found');
+    }
+
+    // Find published quiz
+    const quiz = await Quiz.findOne({
+      userId: user._id,
+      slug: slug.toLowerCase(),
+      ...getBrandScope(req),
+      status: 'published',
+    });
+
+    if (!quiz) {
+      throw AppError.notFound('Quiz not found');
+    }
+
+    const question = quiz.questions.find((q) => q._id.toString() === String(questionId));
+    if (!question) {
+      throw AppError.badRequest('Question not found in this quiz');
+    }
+
+    // Answers keep the choice or rating; free text waits for submit
+    let answerFields: Omit<QuizAnswerInput, 'questionId'> = {};
+    if (event === 'answered' && getQuestionType(question) !== 'free_text') {
+      const answer = parseSubmittedAnswer({ ...req.body, text: undefined });
+      if (!isQuestionAnswered(question, answer)) {
+        throw AppError.badRequest('Invalid answer for this question');
+      }
+      answerFields = keepAnswerFieldsForType(quiz, answer);
+    }
+
+    const updated = await QuizResponse.updateOne(
+      { _id: sessionId, quizId: quiz._id, completedAt: { $exists: false } },
+      {
+        $push: {
+          progress: {
+            $each: [{ ...answerFields, questionId: question._id, event, at: new Date() }],
+            $slice: MAX_PROGRESS_EVENTS,
+          },
+        },
+      }
+    );
+
+    if (updated.matchedCount === 0) {
+      throw AppError.notFound('Quiz session not found');
+    }
+
+    res.json({
+      success: true,
+      data: { recorded: true },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 // ============================================
 // Submit Quiz (Answers + Email)
 // ============================================
 
 export async function submitQuiz(
   req: Request,
-  res: Response<ApiResponse<{ result: IQuizResult }>>,
+  res: Response<ApiResponse<{ result: IQuizResult } & QuizScoreDetails>>,
   next: NextFunction
 ): Promise<void> {
   try {
@@ -270,6 +463,7 @@ export async function submitQuiz(
     const quiz = await Quiz.findOne({
       userId: user._id,
       slug: slug.toLowerCase(),
+      ...getBrandScope(req),
       status: 'published',
     });
 
@@ -298,23 +492,27 @@ export async function submitQuiz(
       }
     }
 
-    // Validate responses
-    const formattedAnswers = answers.map((a: { questionId: string; answerId: string }) => ({
-      questionId: a.questionId,
-      answerId: a.answerId,
-    }));
+    // Validate responses along the taker's path through the quiz
+    const submittedAnswers: QuizAnswerInput[] = answers.map(parseSubmittedAnswer);
 
-    const validation = validateQuizResponses(formattedAnswers, quiz);
+    const validation = validateQuizResponses(submittedAnswers, quiz);
     if (!validation.isValid) {
       throw AppError.badRequest(`Please answer all questions. Missing: ${validation.missingQuestions.length} questions`);
     }
 
+    // Answers left over from a branch the taker backed out of are not scored
+    const onPath = new Set(validation.path);
+    const formattedAnswers = submittedAnswers
+      .filter((a) => onPath.has(String(a.questionId)))
+      .map((a) => keepAnswerFieldsForType(quiz, a));
+
     // Calculate result
-    const result = calculateQuizResult(formattedAnswers, quiz);
+    const scored = calculateQuizResult(formattedAnswers, quiz);
 
-    if (!result) {
+    if (!scored) {
       throw AppError.internal('Could not calculate quiz result');
     }
+    const { result } = scored;
 
     // Check for existing response by email (to prevent duplicates)
     let response: IQuizResponse | null = null;
@@ -346,7 +544,17 @@ export async function submitQuiz(
 
           res.json({
             success: true,
-            data: { result: existingResult || result },
+            data: existingResult
+              ? {
+                  result: existingResult,
+                  ...getScoreDetails(quiz, {
+                    score: existing.score,
+                    maxScore: scored.maxScore,
+                    breakdown: existing.resultBreakdown ?? [],
+                    feedback: gradeQuizResponses(existing.answers, quiz).feedback,
+                  }),
+                }
+              : { result, ...getScoreDetails(quiz, scored) },
           });
           return;
         }
@@ -373,6 +581,8 @@ export async function submitQuiz(
         timestamp: now,
       })),
       resultId: result._id,
+      score: scored.score,
+      resultBreakdown: scored.breakdown.length > 0 ? scored.breakdown : undefined,
       completedAt: now,
       emailCapturedAt: email ? now : undefined,
       emailDeliveryStatus: email ? 'pending' : 'skipped',
@@ -409,6 +619,9 @@ export async function submitQuiz(
     }
     await Quiz.updateOne({ _id: quiz._id }, { $inc: statsUpdate });
 
+    emitQuizCompleted(quiz, response, result);
+    queueCrmSyncForQuizResponse(quiz, response, result);
+
     // Create Lead object if email was captured AND quiz has a leadMagnetId
     if (isNewEmailCapture && quiz.leadMagnetId) {
       try {
@@ -421,6 +634,7 @@ export async function submitQuiz(
           source: sourceInfo.source,
           medium: sourceInfo.medium,
           campaign: sourceInfo.campaign,
+          consent: buildConsentRecord({}, { ipAddress: getClientIp(req), userAgent: req.headers['user-agent'] }),
         });
         logger.info('Lead created from quiz submission', {
           quizId: quiz._id,
@@ -449,41 +663,42 @@ export async function submitQuiz(
       hasEmail: !!email,
     });
 
-    // Send result email asynchronously
+    // Send result email asynchronously, unless the owner may no longer email this address
     if (email) {
-      setImmediate(() => {
-        sendQuizResultEmail({
-          to: email.toLowerCase(),
-          firstName: firstName || undefined,
-          quiz,
-          result,
-        })
-          .then((success) => {
+      setImmediate(async () => {
+        const recipient = email.toLowerCase();
+        let emailDeliveryStatus: QuizEmailDeliveryStatus = 'failed';
+        try {
+          if (await isSuppressed(quiz.userId, recipient)) {
+            logger.info('Skipping quiz result email to suppressed address', { quizId: quiz._id, responseId: response!._id });
+            emailDeliveryStatus = 'skipped';
+          } else {
+            const success = await sendQuizResultEmail({
+              to: recipient,
+              firstName: firstName || undefined,
+              quiz,
+              result,
+              unsubscribeUrl: getUnsubscribeUrl(quiz.userId, recipient),
+              whiteLabel: await getWhiteLabel(quiz.userId),
+            });
             if (success) {
-              QuizResponse.updateOne(
-                { _id: response!._id },
-                { emailDeliveryStatus: 'sent' }
-              ).catch((err) => logger.error('Failed to update email status', err));
-            } else {
-              QuizResponse.updateOne(
-                { _id: response!._id },
-                { emailDeliveryStatus: 'failed' }
-              ).catch((err) => logger.error('Failed to update email status', err));
+              emailDeliveryStatus = 'sent';
             }
-          })
-          .catch((err) => {
-            logger.error('Failed to send quiz result email', err);
-            QuizResponse.updateOne(
-              { _id: response!._id },
-              { emailDeliveryStatus: 'failed' }
-            ).catch((updateErr) => logger.error('Failed to update email status', updateErr));
-          });
+          }
+        } catch (err) {
+          logger.error('Failed to send quiz result email', err);
+        }
+
+        QuizResponse.updateOne(
+          { _id: response!._id },
+          { emailDeliveryStatus }
+        ).catch((err) => logger.error('Failed to update email status', err));
       });
     }
 
     res.json({
       success: true,
-      data: { result },
+      data: { result, ...getScoreDetails(quiz, scored) },
     });
   } catch (error) {
     next(error);
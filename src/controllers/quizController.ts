@@ -1,6 +1,7 @@
 import type { Response, NextFunction } from 'express';
 import slugify from 'slugify';
 import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
 import { Quiz } from '../models/Quiz.js';
 import { QuizResponse } from '../models/QuizResponse.js';
 import { Brand } from '../models/Brand.js';
@@ -13,7 +14,16 @@ import {
   convertGeneratedResultsToSchema,
   applyAnswerMapping,
 } from '../services/quizAIService.js';
-import { getResultDistribution } from '../utils/quizCalculation.js';
+import {
+  getQuestionFunnel,
+  getResultDistribution,
+  validateQuizScoring,
+  type QuizFunnel,
+  type ResultDistributionEntry,
+} from '../utils/quizCalculation.js';
+import { validateQuizBranching, validateQuizQuestions } from '../utils/quizFlow.js';
+import { uploadImage, deleteQuizImages } from '../services/storageService.js';
+import { getAccountId } from '../middleware/workspace.js';
 import { AppError } from '../utils/AppError.js';
 import { logger } from '../utils/logger.js';
 import type { AuthenticatedRequest, ApiResponse, IQuiz, IQuizQuestion, IQuizResult } from '../types/index.js';
@@ -42,6 +52,8 @@ export async function create(
       privacyText,
       questions,
       results,
+      scoringMode,
+      showResultBreakdown,
       theme,
       primaryColor,
       accentColor,
@@ -58,7 +70,7 @@ export async function create(
     let slug = baseSlug;
     let counter = 1;
 
-    while (await Quiz.findOne({ userId: req.user._id, slug })) {
+    while (await Quiz.findOne({ userId: getAccountId(req), slug })) {
       slug = `${baseSlug}-${counter}`;
       counter++;
     }
@@ -66,7 +78,7 @@ export async function create(
     // Validate brandId if provided
     let brand = null;
     if (brandId) {
-      brand = await Brand.findOne({ _id: brandId, userId: req.user._id });
+      brand = await Brand.findOne({ _id: brandId, userId: getAccountId(req) });
       if (!brand) {
         throw AppError.badRequest('Selected brand not found');
       }
@@ -74,7 +86,7 @@ export async function create(
 
     // Create LeadMagnet record (quiz is a type of lead magnet)
     const leadMagnet = await LeadMagnet.create({
-      userId: req.user._id,
+      userId: getAccountId(req),
       brandId: brandId || undefined,
       sourceType: brand?.sourceType || 'website',
       sourceUrl: brand?.sourceUrl || '',
@@ -91,7 +103,7 @@ export async function create(
     });
 
     const quiz = await Quiz.create({
-      userId: req.user._id,
+      userId: getAccountId(req),
       brandId: brandId || undefined,
       leadMagnetId: leadMagnet._id,
       title,
@@ -103,6 +115,8 @@ export async function create(
       privacyText,
       questions: questions || [],
       results: results || [],
+      scoringMode: scoringMode || 'personality',
+      showResultBreakdown: !!showResultBreakdown,
       theme: theme || 'dark',
       primaryColor: primaryColor || '#10B981',
       accentColor: accentColor || '#6366F1',
@@ -116,7 +130,7 @@ export async function create(
     await leadMagnet.save();
 
     logger.info('Quiz created', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       quizId: quiz._id,
       slug,
     });
@@ -144,7 +158,7 @@ export async function getAll(
       throw AppError.unauthorized();
     }
 
-    const quizzes = await Quiz.find({ userId: req.user._id })
+    const quizzes = await Quiz.find({ userId: getAccountId(req) })
       .sort({ createdAt: -1 })
       .populate('responseCount');
 
@@ -175,7 +189,7 @@ export async function getOne(
 
     const quiz = await Quiz.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     }).populate('responseCount');
 
     if (!quiz) {
@@ -216,6 +230,8 @@ export async function update(
       privacyText,
       questions,
       results,
+      scoringMode,
+      showResultBreakdown,
       theme,
       primaryColor,
       accentColor,
@@ -225,7 +241,7 @@ export async function update(
 
     const quiz = await Quiz.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!quiz) {
@@ -234,7 +250,7 @@ export async function update(
 
     // Validate brandId if provided
     if (brandId) {
-      const brand = await Brand.findOne({ _id: brandId, userId: req.user._id });
+      const brand = await Brand.findOne({ _id: brandId, userId: getAccountId(req) });
       if (!brand) {
         throw AppError.badRequest('Selected brand not found');
       }
@@ -250,16 +266,23 @@ export async function update(
     if (privacyText !== undefined) quiz.privacyText = privacyText;
     if (questions !== undefined) quiz.questions = questions;
     if (results !== undefined) quiz.results = results;
+    if (scoringMode !== undefined) quiz.scoringMode = scoringMode;
+    if (showResultBreakdown !== undefined) quiz.showResultBreakdown = !!showResultBreakdown;
     if (theme !== undefined) quiz.theme = theme;
     if (primaryColor !== undefined) quiz.primaryColor = primaryColor;
     if (accentColor !== undefined) quiz.accentColor = accentColor;
     if (logoUrl !== undefined) quiz.logoUrl = logoUrl;
     if (fontStyle !== undefined) quiz.fontStyle = fontStyle;
 
+    // Takers see edits to a published quiz right away
+    if (quiz.status === 'published') {
+      assertQuizPublishable(quiz);
+    }
+
     await quiz.save();
 
     logger.info('Quiz updated', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       quizId: quiz._id,
     });
 
@@ -290,15 +313,16 @@ export async function remove(
 
     const quiz = await Quiz.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!quiz) {
       throw AppError.notFound('Quiz not found');
     }
 
-    // Delete associated responses
+    // Delete associated responses and uploaded answer images
     await QuizResponse.deleteMany({ quizId: id });
+    await deleteQuizImages(quiz);
 
     // Delete associated lead magnet
     if (quiz.leadMagnetId) {
@@ -309,7 +333,7 @@ export async function remove(
     await quiz.deleteOne();
 
     logger.info('Quiz deleted', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       quizId: id,
     });
 
@@ -326,6 +350,39 @@ export async function remove(
 // Publish Quiz
 // ============================================
 
+/**
+ * Checks a quiz before it is published, and before edits to a published quiz are saved,
+ * so takers never get a quiz that cannot be scored or a branch that loops
+ */
+function assertQuizPublishable(quiz: IQuiz): void {
+  // Validate quiz has minimum requirements
+  if (!quiz.questions || quiz.questions.length < 2) {
+    throw AppError.badRequest('Quiz must have at least 2 questions to publish');
+  }
+
+  if (!quiz.results || quiz.results.length < 2) {
+    throw AppError.badRequest('Quiz must have at least 2 results to publish');
+  }
+
+  // Check that every answer scores in the quiz's scoring mode
+  const scoringError = validateQuizScoring(quiz);
+  if (scoringError) {
+    throw AppError.badRequest(scoringError);
+  }
+
+  // Check that every question has what its type needs (images, a valid rating scale)
+  const questionsError = validateQuizQuestions(quiz);
+  if (questionsError) {
+    throw AppError.badRequest(questionsError);
+  }
+
+  // Check that branching rules only jump forward to existing questions
+  const branchingError = validateQuizBranching(quiz);
+  if (branchingError) {
+    throw AppError.badRequest(branchingError);
+  }
+}
+
 export async function publish(
   req: AuthenticatedRequest,
   res: Response<ApiResponse<{ quiz: IQuiz }>>,
@@ -340,30 +397,14 @@ export async function publish(
 
     const quiz = await Quiz.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!quiz) {
       throw AppError.notFound('Quiz not found');
     }
 
-    // Validate quiz has minimum requirements
-    if (!quiz.questions || quiz.questions.length < 2) {
-      throw AppError.badRequest('Quiz must have at least 2 questions to publish');
-    }
-
-    if (!quiz.results || quiz.results.length < 2) {
-      throw AppError.badRequest('Quiz must have at least 2 results to publish');
-    }
-
-    // Check that all answers have result mappings
-    const hasUnmappedAnswers = quiz.questions.some((q) =>
-      q.answers.some((a) => !a.resultMapping)
-    );
-
-    if (hasUnmappedAnswers) {
-      throw AppError.badRequest('All answers must be mapped to results before publishing');
-    }
+    assertQuizPublishable(quiz);
 
     quiz.status = 'published';
     await quiz.save();
@@ -377,7 +418,7 @@ export async function publish(
     }
 
     logger.info('Quiz published', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       quizId: quiz._id,
     });
 
@@ -408,7 +449,7 @@ export async function unpublish(
 
     const quiz = await Quiz.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!quiz) {
@@ -427,7 +468,7 @@ export async function unpublish(
     }
 
     logger.info('Quiz unpublished', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       quizId: quiz._id,
     });
 
@@ -440,6 +481,73 @@ export async function unpublish(
   }
 }
 
+// ============================================
+// Upload Question Image
+// ============================================
+
+const QUESTION_IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const MAX_QUESTION_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * Upload a picture for an image-choice answer; the returned URL goes in the answer's imageUrl
+ */
+export async function uploadQuestionImage(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ url: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { id } = req.params;
+
+    const quiz = await Quiz.findOne({
+      _id: id,
+      userId: getAccountId(req),
+    });
+
+    if (!quiz) {
+      throw AppError.notFound('Quiz not found');
+    }
+
+    const file = req.file;
+    if (!file) {
+      throw AppError.badRequest('No image uploaded');
+    }
+
+    const extension = QUESTION_IMAGE_TYPES[file.mimetype];
+    if (!extension) {
+      throw AppError.badRequest('Image type not supported. Allowed types: PNG, JPG, WebP');
+    }
+
+    if (file.size > MAX_QUESTION_IMAGE_SIZE) {
+      throw AppError.badRequest('Image too large. Maximum size is 5MB');
+    }
+
+    const url = await uploadImage(file.buffer, file.mimetype, `quizzes/${quiz._id}/${uuidv4()}.${extension}`);
+
+    logger.info('Quiz image uploaded', {
+      userId: getAccountId(req),
+      quizId: quiz._id,
+      fileSize: file.size,
+    });
+
+    res.json({
+      success: true,
+      data: { url },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 // ============================================
 // Generate Questions (AI)
 // ============================================
@@ -454,7 +562,7 @@ export async function generateQuestionsHandler(
       throw AppError.unauthorized();
     }
 
-    const { audience, goal, questionCount, niche, quizTitle } = req.body;
+    const { audience, goal, questionCount, niche, quizTitle, scoringMode } = req.body;
 
     if (!audience || !goal || !niche) {
       throw AppError.badRequest('Audience, goal, and niche are required');
@@ -466,10 +574,11 @@ export async function generateQuestionsHandler(
     }
 
     logger.info('Generating quiz questions', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       audience,
       goal,
       questionCount: count,
+      scoringMode,
     });
 
     const generated = await generateQuizQuestions({
@@ -478,6 +587,7 @@ export async function generateQuestionsHandler(
       questionCount: count,
       niche,
       quizTitle,
+      knowledgeTest: scoringMode === 'knowledge',
     });
 
     // Convert to schema format with ObjectIds
@@ -491,7 +601,7 @@ export async function generateQuestionsHandler(
     })) as unknown as IQuizQuestion[];
 
     logger.info('Quiz questions generated', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       questionCount: questionsWithIds.length,
     });
 
@@ -518,7 +628,7 @@ export async function generateResultsHandler(
       throw AppError.unauthorized();
     }
 
-    const { quizTitle, questions, resultCount, niche } = req.body;
+    const { quizTitle, questions, resultCount, niche, scoringMode } = req.body;
 
     if (!quizTitle || !questions || !niche) {
       throw AppError.badRequest('Quiz title, questions, and niche are required');
@@ -530,7 +640,7 @@ export async function generateResultsHandler(
     }
 
     logger.info('Generating quiz results', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       quizTitle,
       questionCount: questions.length,
       resultCount: count,
@@ -541,10 +651,11 @@ export async function generateResultsHandler(
       questions,
       resultCount: count,
       niche,
+      knowledgeTest: scoringMode === 'knowledge',
     });
 
-    // Convert to schema format with ObjectIds
-    const results = convertGeneratedResultsToSchema(generated.results);
+    // Convert to schema format with ObjectIds (knowledge tests get a score band per result)
+    const results = convertGeneratedResultsToSchema(generated.results, scoringMode === 'knowledge');
 
     // Add _id to each result
     const resultsWithIds = results.map((r) => ({
@@ -553,7 +664,7 @@ export async function generateResultsHandler(
     })) as unknown as IQuizResult[];
 
     logger.info('Quiz results generated', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       resultCount: resultsWithIds.length,
     });
 
@@ -591,7 +702,7 @@ export async function generateMappingHandler(
     }
 
     logger.info('Generating answer mapping', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       questionCount: questions.length,
       resultCount: results.length,
     });
@@ -600,7 +711,7 @@ export async function generateMappingHandler(
     const mappedQuestions = applyAnswerMapping(questions, mapping);
 
     logger.info('Answer mapping generated', {
-      userId: req.user._id,
+      userId: getAccountId(req),
       mappingCount: mapping.size,
     });
 
@@ -632,7 +743,7 @@ export async function getResponses(
     // Verify ownership
     const quiz = await Quiz.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!quiz) {
@@ -674,7 +785,7 @@ export async function exportResponsesCsv(
     // Verify ownership
     const quiz = await Quiz.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!quiz) {
@@ -690,12 +801,12 @@ export async function exportResponsesCsv(
     );
 
     // Generate CSV
-    const csvHeader = 'email,first_name,phone,result,completed_at,source\n';
+    const csvHeader = 'email,first_name,phone,result,completed_at,source,score\n';
     const csvRows = responses.map((resp) => {
       const resultName = resp.resultId
         ? resultNameMap.get(resp.resultId.toString()) || 'Unknown'
         : 'Incomplete';
-      return `${resp.email || ''},"${resp.firstName || ''}","${resp.phone || ''}","${resultName}",${resp.completedAt?.toISOString() || ''},${resp.source || 'direct'}`;
+      return `${resp.email || ''},"${resp.firstName || ''}","${resp.phone || ''}","${resultName}",${resp.completedAt?.toISOString() || ''},${resp.source || 'direct'},${resp.score ?? ''}`;
     }).join('\n');
 
     const csv = csvHeader + csvRows;
@@ -712,6 +823,11 @@ export async function exportResponsesCsv(
 // Get Quiz Analytics
 // ============================================
 
+// The question funnel reads the most recent sessions in the window, not every session ever
+const FUNNEL_DEFAULT_DAYS = 30;
+const FUNNEL_MAX_DAYS = 365;
+const FUNNEL_MAX_SESSIONS = 5000;
+
 export async function getAnalytics(
   req: AuthenticatedRequest,
   res: Response<ApiResponse<{
@@ -723,12 +839,8 @@ export async function getAnalytics(
       conversionRate: number;
       completionRate: number;
     };
-    resultDistribution: Array<{
-      resultId: string;
-      resultName: string;
-      count: number;
-      percentage: number;
-    }>;
+    resultDistribution: ResultDistributionEntry[];
+    questionFunnel: QuizFunnel & { since: Date; isSampled: boolean };
     recentResponses: any[];
   }>>,
   next: NextFunction
@@ -743,7 +855,7 @@ export async function getAnalytics(
     // Verify ownership
     const quiz = await Quiz.findOne({
       _id: id,
-      userId: req.user._id,
+      userId: getAccountId(req),
     });
 
     if (!quiz) {
@@ -754,14 +866,31 @@ export async function getAnalytics(
     const responsesWithResults = await QuizResponse.find({
       quizId: id,
       resultId: { $exists: true },
-    }).select('resultId');
+    }).select('resultId score resultBreakdown');
 
-    const resultIds = responsesWithResults.map((r) =>
-      r.resultId!.toString()
+    // Calculate result distribution
+    const resultDistribution = getResultDistribution(
+      responsesWithResults.map((r) => ({
+        resultId: r.resultId!.toString(),
+        score: r.score,
+        resultBreakdown: r.resultBreakdown,
+      })),
+      quiz
     );
 
-    // Calculate result distribution
-    const resultDistribution = getResultDistribution(resultIds, quiz);
+    // Per-question reach, drop-off, time and answer choices across recent sessions
+    const days = Math.min(parseInt(req.query.days as string) || FUNNEL_DEFAULT_DAYS, FUNNEL_MAX_DAYS);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const sessions = await QuizResponse.find({ quizId: id, createdAt: { $gte: since } })
+      .sort({ createdAt: -1 })
+      .limit(FUNNEL_MAX_SESSIONS)
+      .select('answers progress startedAt completedAt')
+      .lean();
+    const questionFunnel = {
+      ...getQuestionFunnel(sessions, quiz),
+      since,
+      isSampled: sessions.length === FUNNEL_MAX_SESSIONS,
+    };
 
     // Get recent responses
     const recentResponses = await QuizResponse.find({ quizId: id })
@@ -785,6 +914,7 @@ export async function getAnalytics(
           completionRate,
         },
         resultDistribution,
+        questionFunnel,
         recentResponses: recentResponses.map((r) => r.toObject()),
       },
     });
@@ -0,0 +1,85 @@
+import type { Response, NextFunction } from 'express';
+import { listSuppressions, suppressEmail, removeSuppression } from '../services/suppressionService.js';
+import { getAccountId } from '../middleware/workspace.js';
+import { AppError } from '../utils/AppError.js';
+import type { AuthenticatedRequest, ApiResponse, ISuppression } from '../types/index.js';
+
+// ============================================
+// List Suppressed Addresses
+// ============================================
+
+export async function getAll(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ suppressions: ISuppression[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const suppressions = await listSuppressions(getAccountId(req), {
+      limit,
+      email: req.query.email as string | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: { suppressions },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Suppress an Address
+// ============================================
+
+export async function create(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ suppression: ISuppression }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const suppression = await suppressEmail(getAccountId(req), req.body.email, 'manual');
+
+    res.status(201).json({
+      success: true,
+      data: { suppression },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Remove from the List
+// ============================================
+
+export async function remove(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    await removeSuppression(getAccountId(req), req.params.id);
+
+    res.json({
+      success: true,
+      data: { message: 'Address removed from the suppression list' },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,93 @@
+import type { Response, NextFunction } from 'express';
+import {
+  getUsageSummary,
+  getLeadMagnetUsage,
+  type UsagePeriod,
+  type UsageSummary,
+  type UsageTotals,
+} from '../services/usageService.js';
+import { getAccountId } from '../middleware/workspace.js';
+import { AppError } from '../utils/AppError.js';
+import type { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+// ============================================
+// Helpers
+// ============================================
+
+function getRange(query: AuthenticatedRequest['query']): { from: Date; to: Date } {
+  const to = query.to ? new Date(query.to as string) : new Date();
+  const from = query.from
+    ? new Date(query.from as string)
+    : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+  if (from > to) {
+    throw AppError.badRequest('"from" must be before "to"', 'VALIDATION_ERROR');
+  }
+
+  return { from, to };
+}
+
+// ============================================
+// Usage Summary
+// ============================================
+
+export async function getSummary(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ usage: UsageSummary }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { from, to } = getRange(req.query);
+
+    const usage = await getUsageSummary(getAccountId(req).toString(), {
+      from,
+      to,
+      period: (req.query.period as UsagePeriod) || 'day',
+      timezone: req.query.timezone as string | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: { usage },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Usage by Lead Magnet
+// ============================================
+
+export async function getByLeadMagnet(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ leadMagnets: Array<UsageTotals & { leadMagnetId: string }> }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { from, to } = getRange(req.query);
+
+    const leadMagnets = await getLeadMagnetUsage(getAccountId(req).toString(), {
+      from,
+      to,
+      limit: Number(req.query.limit) || 20,
+    });
+
+    res.json({
+      success: true,
+      data: { leadMagnets },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
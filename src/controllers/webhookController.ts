@@ -0,0 +1,259 @@
+import type { Response, NextFunction } from 'express';
+import {
+  listWebhookEndpoints,
+  getWebhookEndpoint,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  listWebhookDeliveries,
+  redeliverWebhook,
+  sendTestWebhook,
+  WEBHOOK_EVENTS,
+} from '../services/webhookService.js';
+import { getAccountId } from '../middleware/workspace.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type {
+  AuthenticatedRequest,
+  ApiResponse,
+  IWebhookDelivery,
+  IWebhookEndpoint,
+  WebhookEventType,
+} from '../types/index.js';
+
+// ============================================
+// List Endpoints
+// ============================================
+
+export async function getAll(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ endpoints: IWebhookEndpoint[]; events: WebhookEventType[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const endpoints = await listWebhookEndpoints(getAccountId(req));
+
+    res.json({
+      success: true,
+      data: { endpoints, events: WEBHOOK_EVENTS },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Create Endpoint
+// ============================================
+
+export async function create(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ endpoint: IWebhookEndpoint; secret: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { endpoint, secret } = await createWebhookEndpoint(getAccountId(req), req.body);
+
+    res.status(201).json({
+      success: true,
+      data: { endpoint, secret },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Get Single Endpoint
+// ============================================
+
+export async function getOne(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ endpoint: IWebhookEndpoint }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const endpoint = await getWebhookEndpoint(getAccountId(req), req.params.id);
+
+    res.json({
+      success: true,
+      data: { endpoint },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Update Endpoint
+// ============================================
+
+export async function update(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ endpoint: IWebhookEndpoint }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const endpoint = await getWebhookEndpoint(getAccountId(req), req.params.id);
+    await updateWebhookEndpoint(endpoint, req.body);
+
+    res.json({
+      success: true,
+      data: { endpoint },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Delete Endpoint
+// ============================================
+
+export async function remove(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const endpoint = await getWebhookEndpoint(getAccountId(req), req.params.id);
+    await deleteWebhookEndpoint(endpoint);
+
+    res.json({
+      success: true,
+      data: { message: 'Webhook endpoint deleted' },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Rotate Secret
+// ============================================
+
+export async function rotateSecret(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ secret: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const endpoint = await getWebhookEndpoint(getAccountId(req), req.params.id);
+    const secret = await rotateWebhookSecret(endpoint);
+
+    res.json({
+      success: true,
+      data: { secret },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Send Test Event
+// ============================================
+
+export async function sendTest(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ delivery: IWebhookDelivery }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const endpoint = await getWebhookEndpoint(getAccountId(req), req.params.id);
+    const delivery = await sendTestWebhook(endpoint, req.body?.event);
+
+    logger.info('Webhook test event sent', {
+      userId: getAccountId(req),
+      endpointId: endpoint._id,
+      status: delivery.status,
+    });
+
+    res.json({
+      success: true,
+      data: { delivery },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Delivery Log
+// ============================================
+
+export async function getDeliveries(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ deliveries: IWebhookDelivery[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const status = req.query.status as string | undefined;
+
+    const endpoint = await getWebhookEndpoint(getAccountId(req), req.params.id);
+    const deliveries = await listWebhookDeliveries(endpoint, { limit, status });
+
+    res.json({
+      success: true,
+      data: { deliveries },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function redeliver(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ delivery: IWebhookDelivery }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const endpoint = await getWebhookEndpoint(getAccountId(req), req.params.id);
+    const delivery = await redeliverWebhook(endpoint, req.params.deliveryId);
+
+    res.json({
+      success: true,
+      data: { delivery },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,259 @@
+import type { Response, NextFunction } from 'express';
+import {
+  listUserWorkspaces,
+  getMembership,
+  updateWorkspace,
+  listMembers,
+  updateMember as updateWorkspaceMember,
+  removeMember,
+  listPendingInvites,
+  createInvite,
+  revokeInvite,
+  acceptInvite,
+  type WorkspaceMemberDetails,
+  type WorkspaceMembership,
+} from '../services/workspaceService.js';
+import { AppError } from '../utils/AppError.js';
+import type {
+  AuthenticatedRequest,
+  ApiResponse,
+  IWorkspace,
+  IWorkspaceInvite,
+  IWorkspaceMember,
+  WorkspaceRole,
+} from '../types/index.js';
+
+// ============================================
+// List Workspaces
+// ============================================
+
+export async function getAll(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ workspaces: WorkspaceMembership[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const workspaces = await listUserWorkspaces(req.user);
+
+    res.json({
+      success: true,
+      data: { workspaces },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Current Workspace
+// ============================================
+
+export async function getCurrent(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ workspace: IWorkspace; role: WorkspaceRole }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user || !req.workspace || !req.workspaceRole) {
+      throw AppError.unauthorized();
+    }
+
+    res.json({
+      success: true,
+      data: { workspace: req.workspace, role: req.workspaceRole },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Update Workspace
+// ============================================
+
+export async function update(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ workspace: IWorkspace }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { workspace } = await getMembership(req.user._id, req.params.id, ['owner']);
+    await updateWorkspace(workspace, req.user, req.body);
+
+    res.json({
+      success: true,
+      data: { workspace },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Members
+// ============================================
+
+export async function getMembers(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ members: WorkspaceMemberDetails[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { workspace } = await getMembership(req.user._id, req.params.id);
+    const members = await listMembers(workspace);
+
+    res.json({
+      success: true,
+      data: { members },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateMember(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ member: IWorkspaceMember }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { workspace } = await getMembership(req.user._id, req.params.id, ['owner']);
+    const member = await updateWorkspaceMember(workspace, req.params.memberId, req.body);
+
+    res.json({
+      success: true,
+      data: { member },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeMemberFromWorkspace(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const membership = await getMembership(req.user._id, req.params.id);
+    await removeMember(membership.workspace, req.params.memberId, { ...membership, userId: req.user._id });
+
+    res.json({
+      success: true,
+      data: { message: 'Member removed from the workspace' },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ============================================
+// Invitations
+// ============================================
+
+export async function getInvites(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ invites: IWorkspaceInvite[] }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { workspace } = await getMembership(req.user._id, req.params.id, ['owner']);
+    const invites = await listPendingInvites(workspace);
+
+    res.json({
+      success: true,
+      data: { invites },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function invite(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ invite: IWorkspaceInvite }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { workspace } = await getMembership(req.user._id, req.params.id, ['owner']);
+    const created = await createInvite(workspace, req.user, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: { invite: created },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revoke(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ message: string }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { workspace } = await getMembership(req.user._id, req.params.id, ['owner']);
+    await revokeInvite(workspace, req.params.inviteId);
+
+    res.json({
+      success: true,
+      data: { message: 'Invitation revoked' },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function accept(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse<{ workspace: IWorkspace; role: WorkspaceRole }>>,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw AppError.unauthorized();
+    }
+
+    const { workspace, role } = await acceptInvite(req.user, req.body.token);
+
+    res.json({
+      success: true,
+      data: { workspace, role },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
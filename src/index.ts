@@ -4,6 +4,12 @@ import { connectDatabase } from './utils/database.js';
 import { logger } from './utils/logger.js';
 import { handleUnhandledRejection, handleUncaughtException } from './middleware/errorHandler.js';
 import { initSentry } from './utils/sentry.js';
+import { startSequenceScheduler, stopSequenceScheduler } from './services/sequenceService.js';
+import { startJobWorker, stopJobWorker } from './services/jobService.js';
+import { registerGenerationJobHandlers } from './services/generationService.js';
+import { registerAccountJobHandlers } from './services/accountService.js';
+import { startWebhookScheduler, stopWebhookScheduler } from './services/webhookService.js';
+import { startCrmSyncScheduler, stopCrmSyncScheduler } from './services/crmService.js';
 
 // Initialize Sentry FIRST (before anything else)
 initSentry();
@@ -31,6 +37,14 @@ async function bootstrap(): Promise<void> {
     // Connect to database
     await connectDatabase();
 
+    // Start background workers
+    registerGenerationJobHandlers();
+    registerAccountJobHandlers();
+    startJobWorker();
+    startSequenceScheduler();
+    startWebhookScheduler();
+    startCrmSyncScheduler();
+
     // Start server
     const server = app.listen(config.port, () => {
       logger.info(`🚀 MagnetHub API running on port ${config.port}`);
@@ -42,6 +56,11 @@ async function bootstrap(): Promise<void> {
     const shutdown = async (signal: string) => {
       logger.info(`${signal} received, shutting down gracefully...`);
 
+      stopJobWorker();
+      stopSequenceScheduler();
+      stopWebhookScheduler();
+      stopCrmSyncScheduler();
+
       server.close(async () => {
         logger.info('HTTP server closed');
 
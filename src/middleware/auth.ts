@@ -1,14 +1,21 @@
 import type { Request, Response, NextFunction } from 'express';
 import { AppError } from '../utils/AppError.js';
+import { authenticateApiKey, hasApiKeyScope } from '../services/apiKeyService.js';
+import type { ApiKeyScope, AuthenticatedRequest } from '../types/index.js';
 
 /**
  * Middleware to check if user is authenticated
+ * Session only: requests made with an API key are rejected (see requireScope)
  */
 export function isAuthenticated(
   req: Request,
   _res: Response,
   next: NextFunction
 ): void {
+  if ((req as AuthenticatedRequest).apiKey) {
+    throw AppError.forbidden('This endpoint is not available with an API key', 'API_KEY_NOT_ALLOWED');
+  }
+
   if (req.isAuthenticated && req.isAuthenticated() && req.user) {
     return next();
   }
@@ -16,6 +23,52 @@ export function isAuthenticated(
   throw AppError.unauthorized('Please log in to access this resource');
 }
 
+/**
+ * Middleware for endpoints that can also be called with a personal API key.
+ * Session users always pass; API keys must have been granted the scope (or one that includes it).
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const apiKey = (req as AuthenticatedRequest).apiKey;
+    if (!apiKey) {
+      return isAuthenticated(req, res, next);
+    }
+
+    if (!hasApiKeyScope(apiKey, scope)) {
+      throw AppError.forbidden(`This API key is missing the "${scope}" scope`, 'INSUFFICIENT_SCOPE');
+    }
+
+    next();
+  };
+}
+
+/**
+ * Middleware to authenticate requests carrying a personal API key
+ * (Authorization: Bearer <key> or X-API-Key). Requests without one fall through
+ * to the session; the key's owner replaces any session user.
+ */
+export async function apiKeyAuth(
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const authorization = req.get('authorization');
+    const key = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1] || req.get('x-api-key');
+    if (!key) {
+      return next();
+    }
+
+    const { apiKey, user } = await authenticateApiKey(key, req.ip);
+    req.user = user;
+    req.apiKey = apiKey;
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Middleware to optionally load user if authenticated
  * Does not throw error if not authenticated
@@ -28,4 +81,3 @@ export function optionalAuth(
   // User will be available if authenticated, undefined otherwise
   next();
 }
-
@@ -1,4 +1,6 @@
 export { errorHandler, handleUnhandledRejection, handleUncaughtException } from './errorHandler.js';
-export { isAuthenticated, optionalAuth } from './auth.js';
+export { isAuthenticated, requireScope, apiKeyAuth, optionalAuth } from './auth.js';
 export { validate, validateBody, validateQuery, validateParams } from './validate.js';
 
+export { withLLMContext } from './llmContext.js';
+export { resolveWorkspace, getAccountId, requireWorkspaceRole, readOnlyForViewers, rejectClientAccounts } from './workspace.js';
@@ -0,0 +1,29 @@
+import type { Response, NextFunction } from 'express';
+import { billingService } from '../services/billingService.js';
+import { runWithLLMContext } from '../services/llmService.js';
+import { getAccountId } from './workspace.js';
+import type { PlanType } from '../config/index.js';
+import type { AuthenticatedRequest } from '../types/index.js';
+
+/**
+ * Run the rest of the request inside an LLM context carrying the user's plan,
+ * so AI calls made by the handler use the plan's configured provider.
+ */
+export async function withLLMContext(
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      return next();
+    }
+
+    const userId = getAccountId(req).toString();
+    const subscription = await billingService.getOrCreateSubscription(userId);
+
+    runWithLLMContext({ userId, plan: subscription.plan as PlanType }, () => next());
+  } catch (error) {
+    next(error);
+  }
+}
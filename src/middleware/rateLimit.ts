@@ -1,6 +1,7 @@
 import type { Response, NextFunction } from 'express';
 import { AppError } from '../utils/AppError.js';
 import { billingService } from '../services/billingService.js';
+import { getAccountId } from './workspace.js';
 import type { AuthenticatedRequest } from '../types/index.js';
 
 const BLOCKED_STATUSES = ['past_due', 'unpaid', 'incomplete', 'incomplete_expired'];
@@ -19,7 +20,7 @@ export async function requireBillingHealthy(
       throw AppError.unauthorized();
     }
 
-    const status = await billingService.getUserSubscriptionStatus(req.user._id.toString());
+    const status = await billingService.getUserSubscriptionStatus(getAccountId(req).toString());
     if (BLOCKED_STATUSES.includes(status.status)) {
       throw AppError.forbidden(
         'Your subscription payment is past due. Please update your payment method.',
@@ -48,7 +49,7 @@ export async function checkGenerationLimit(
     }
 
     // Check if user can create a lead magnet based on their subscription
-    const { allowed, reason } = await billingService.canUserCreateLeadMagnet(req.user._id.toString());
+    const { allowed, reason } = await billingService.canUserCreateLeadMagnet(getAccountId(req).toString());
 
     if (!allowed) {
       throw AppError.tooManyRequests(
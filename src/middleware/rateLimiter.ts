@@ -1,4 +1,8 @@
 import rateLimit from 'express-rate-limit';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { getAccountId } from './workspace.js';
+import type { AuthenticatedRequest } from '../types/index.js';
 
 export const quizSubmitLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -7,3 +11,51 @@ export const quizSubmitLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
 });
+
+// Password and second-factor login steps, per IP (codes are also limited per user)
+export const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: 'Too many login attempts. Please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+export const quizProgressLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 300, // two events per question, across a few quizzes per IP
+  message: 'Too many quiz progress events. Please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Per-key limit for requests authenticated with a personal API key.
+ * Session requests are not counted.
+ */
+export const apiKeyLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  limit: (req) => (req as AuthenticatedRequest).apiKey?.rateLimitPerMinute ?? config.apiKeys.defaultRateLimitPerMinute,
+  keyGenerator: (req) => (req as AuthenticatedRequest).apiKey!._id.toString(),
+  skip: (req) => !(req as AuthenticatedRequest).apiKey,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, _res, next) => {
+    next(AppError.tooManyRequests('API key rate limit exceeded. Please slow down.', 'API_KEY_RATE_LIMITED'));
+  },
+});
+
+/**
+ * AI section rewrites don't use a plan credit, so they are limited per account instead.
+ * Must run after authentication.
+ */
+export const sectionRewriteLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 30,
+  keyGenerator: (req) => getAccountId(req as AuthenticatedRequest).toString(),
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, _res, next) => {
+    next(AppError.tooManyRequests('Too many AI rewrites. Please try again later.', 'REWRITE_RATE_LIMITED'));
+  },
+});
@@ -0,0 +1,103 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { Types } from 'mongoose';
+import { User } from '../models/User.js';
+import { AppError } from '../utils/AppError.js';
+import { resolveWorkspace as resolveWorkspaceForUser } from '../services/workspaceService.js';
+import type { AuthenticatedRequest, WorkspaceRole } from '../types/index.js';
+
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+
+// Still reachable when a workspace requires two-factor authentication, so users can set it up or switch workspaces
+const TWO_FACTOR_EXEMPT_PATHS = ['/auth/', '/workspaces'];
+
+/**
+ * Middleware to resolve the workspace a request acts in: the one named by the
+ * X-Workspace-Id header, or the user's own workspace. Anonymous requests pass through.
+ */
+export async function resolveWorkspace(
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      return next();
+    }
+
+    const workspaceId = req.get('x-workspace-id')?.trim() || undefined;
+    if (workspaceId && !OBJECT_ID_PATTERN.test(workspaceId)) {
+      throw AppError.badRequest('Invalid X-Workspace-Id header', 'INVALID_WORKSPACE_ID');
+    }
+
+    const { workspace, role, twoFactorRequired } = await resolveWorkspaceForUser(req.user, workspaceId);
+    if (
+      twoFactorRequired &&
+      !req.user.twoFactor?.enabled &&
+      !TWO_FACTOR_EXEMPT_PATHS.some((path) => req.path.startsWith(path))
+    ) {
+      throw AppError.forbidden(
+        'This workspace requires two-factor authentication. Turn it on in your account settings.',
+        'TWO_FACTOR_REQUIRED'
+      );
+    }
+
+    req.workspace = workspace;
+    req.workspaceRole = role;
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * The account whose data the request reads and writes: the workspace owner.
+ * Falls back to the user for requests without a resolved workspace.
+ */
+export function getAccountId(req: AuthenticatedRequest): Types.ObjectId {
+  return req.workspace?.ownerId ?? req.user!._id;
+}
+
+/**
+ * Middleware to restrict a route to the given workspace roles
+ */
+export function requireWorkspaceRole(...roles: WorkspaceRole[]) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const role = (req as AuthenticatedRequest).workspaceRole;
+    if (role && !roles.includes(role)) {
+      throw AppError.forbidden('Your role in this workspace does not allow this action', 'INSUFFICIENT_ROLE');
+    }
+
+    next();
+  };
+}
+
+/**
+ * Middleware letting viewers read but not change anything
+ */
+export function readOnlyForViewers(req: Request, _res: Response, next: NextFunction): void {
+  if ((req as AuthenticatedRequest).workspaceRole === 'viewer' && !['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+    throw AppError.forbidden('Viewers have read-only access to this workspace', 'INSUFFICIENT_ROLE');
+  }
+
+  next();
+}
+
+/**
+ * Middleware for billing actions, which client sub-accounts leave to their agency
+ */
+export async function rejectClientAccounts(
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (req.user && (await User.exists({ _id: getAccountId(req), agencyOwnerId: { $exists: true } }))) {
+      throw AppError.forbidden('Client accounts are billed through their agency', 'CLIENT_ACCOUNT');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,101 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IAIUsage } from '../types/index.js';
+
+const aiUsageSchema = new Schema<IAIUsage>(
+  {
+    // Missing for calls made outside a user context (e.g. scripts)
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    leadMagnetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'LeadMagnet',
+    },
+    jobId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Job',
+    },
+    provider: {
+      type: String,
+      required: [true, 'Provider is required'],
+      enum: {
+        values: ['openai', 'gemini', 'local', 'fake'],
+        message: 'Provider must be one of: openai, gemini, local, fake',
+      },
+    },
+    aiModel: {
+      type: String,
+      required: [true, 'Model is required'],
+      trim: true,
+    },
+    // Pipeline step / call site (outline, content, infographic_image...)
+    step: {
+      type: String,
+      required: [true, 'Step is required'],
+      trim: true,
+    },
+    inputTokens: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    outputTokens: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    imageCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    latencyMs: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Estimated from config.aiPricing at the time of the call
+    costUsd: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    success: {
+      type: Boolean,
+      default: true,
+    },
+    error: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Error cannot exceed 1000 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+aiUsageSchema.index({ userId: 1, createdAt: -1 });
+aiUsageSchema.index({ leadMagnetId: 1 });
+// Cross-user reporting (top spenders per period)
+aiUsageSchema.index({ createdAt: -1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+aiUsageSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const AIUsage = mongoose.model<IAIUsage>('AIUsage', aiUsageSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IApiKey } from '../types/index.js';
+
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Key name is required'],
+      trim: true,
+      maxlength: [100, 'Key name cannot exceed 100 characters'],
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    scopes: {
+      type: [
+        {
+          type: String,
+          enum: {
+            values: ['leads:read', 'lead_magnets:read', 'lead_magnets:write', 'quizzes:manage'],
+            message: 'Scope must be one of: leads:read, lead_magnets:read, lead_magnets:write, quizzes:manage',
+          },
+        },
+      ],
+      default: [],
+    },
+    rateLimitPerMinute: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+apiKeySchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    delete ret.keyHash;
+    return ret;
+  },
+});
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
@@ -0,0 +1,103 @@
+import mongoose, { Schema } from 'mongoose';
+import type { ICrmConnection, ICrmFieldMapping } from '../types/index.js';
+
+const fieldMappingSchema = new Schema<ICrmFieldMapping>(
+  {
+    firstName: { type: String, trim: true, maxlength: 100 },
+    phone: { type: String, trim: true, maxlength: 100 },
+    quizResult: { type: String, trim: true, maxlength: 100 },
+    utmSource: { type: String, trim: true, maxlength: 100 },
+  },
+  { _id: false }
+);
+
+const crmConnectionSchema = new Schema<ICrmConnection>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    provider: {
+      type: String,
+      required: [true, 'Provider is required'],
+      enum: {
+        values: ['brevo', 'mailchimp', 'convertkit'],
+        message: 'Provider must be one of: brevo, mailchimp, convertkit',
+      },
+    },
+    name: {
+      type: String,
+      required: [true, 'Connection name is required'],
+      trim: true,
+      maxlength: [100, 'Connection name cannot exceed 100 characters'],
+    },
+    apiKey: {
+      type: String,
+      required: [true, 'API key is required'],
+      select: false, // Only loaded when syncing
+    },
+    apiKeyHint: {
+      type: String,
+      required: true,
+    },
+    listId: {
+      type: String,
+      required: [true, 'List is required'],
+      trim: true,
+    },
+    listName: {
+      type: String,
+      trim: true,
+    },
+    fieldMapping: {
+      type: fieldMappingSchema,
+      default: () => ({}),
+    },
+    syncLeads: {
+      type: Boolean,
+      default: true,
+    },
+    syncQuizResponses: {
+      type: Boolean,
+      default: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    lastSyncAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Error cannot exceed 2000 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+crmConnectionSchema.index({ userId: 1, isActive: 1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+crmConnectionSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    delete ret.apiKey;
+    return ret;
+  },
+});
+
+export const CrmConnection = mongoose.model<ICrmConnection>('CrmConnection', crmConnectionSchema);
@@ -0,0 +1,97 @@
+import mongoose, { Schema } from 'mongoose';
+import type { ICrmSync } from '../types/index.js';
+
+const crmSyncSchema = new Schema<ICrmSync>(
+  {
+    connectionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'CrmConnection',
+      required: [true, 'Connection ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    provider: {
+      type: String,
+      required: [true, 'Provider is required'],
+      enum: {
+        values: ['brevo', 'mailchimp', 'convertkit'],
+        message: 'Provider must be one of: brevo, mailchimp, convertkit',
+      },
+    },
+    leadId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Lead',
+    },
+    quizResponseId: {
+      type: Schema.Types.ObjectId,
+      ref: 'QuizResponse',
+    },
+    contact: {
+      email: { type: String, required: true, lowercase: true, trim: true },
+      firstName: { type: String, trim: true },
+      phone: { type: String, trim: true },
+      quizResult: { type: String, trim: true },
+      utmSource: { type: String, trim: true },
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['pending', 'syncing', 'synced', 'failed'],
+        message: 'Status must be one of: pending, syncing, synced, failed',
+      },
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    scheduledFor: {
+      type: Date,
+      required: [true, 'Scheduled date is required'],
+    },
+    externalId: {
+      type: String,
+    },
+    lastError: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Error cannot exceed 2000 characters'],
+    },
+    syncedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// Sync status per lead / quiz response
+crmSyncSchema.index({ leadId: 1 }, { sparse: true });
+crmSyncSchema.index({ quizResponseId: 1 }, { sparse: true });
+crmSyncSchema.index({ connectionId: 1, createdAt: -1 });
+// Scheduler polling
+crmSyncSchema.index({ status: 1, scheduledFor: 1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+crmSyncSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const CrmSync = mongoose.model<ICrmSync>('CrmSync', crmSyncSchema);
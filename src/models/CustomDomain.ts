@@ -0,0 +1,71 @@
+import mongoose, { Schema } from 'mongoose';
+import type { ICustomDomain } from '../types/index.js';
+
+const customDomainSchema = new Schema<ICustomDomain>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    brandId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Brand',
+    },
+    hostname: {
+      type: String,
+      required: [true, 'Hostname is required'],
+      trim: true,
+      lowercase: true,
+      maxlength: [253, 'Hostname cannot exceed 253 characters'],
+    },
+    verificationToken: {
+      type: String,
+      required: [true, 'Verification token is required'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['pending', 'verified', 'failed'],
+        message: 'Status must be one of: pending, verified, failed',
+      },
+      default: 'pending',
+    },
+    verifiedAt: {
+      type: Date,
+    },
+    lastCheckedAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// Any number of accounts can hold a pending claim; only one can verify the hostname
+customDomainSchema.index({ hostname: 1 }, { unique: true, partialFilterExpression: { status: 'verified' } });
+customDomainSchema.index({ hostname: 1, userId: 1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+customDomainSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const CustomDomain = mongoose.model<ICustomDomain>('CustomDomain', customDomainSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IDataRequest } from '../types/index.js';
+
+const countsSchema = new Schema(
+  {
+    leads: { type: Number, default: 0 },
+    quizResponses: { type: Number, default: 0 },
+    pageViews: { type: Number, default: 0 },
+    sequenceEmails: { type: Number, default: 0 },
+    crmSyncs: { type: Number, default: 0 },
+    webhookDeliveries: { type: Number, default: 0 },
+    suppressions: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const dataRequestSchema = new Schema<IDataRequest>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['access', 'export', 'erasure'],
+        message: 'Request type must be one of: access, export, erasure',
+      },
+      required: true,
+    },
+    emailHash: {
+      type: String,
+      required: true,
+    },
+    mode: {
+      type: String,
+      enum: {
+        values: ['delete', 'anonymize'],
+        message: 'Erasure mode must be one of: delete, anonymize',
+      },
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    suppressionRetained: {
+      type: Boolean,
+    },
+    counts: {
+      type: countsSchema,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+dataRequestSchema.index({ userId: 1, createdAt: -1 });
+dataRequestSchema.index({ userId: 1, emailHash: 1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+dataRequestSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const DataRequest = mongoose.model<IDataRequest>('DataRequest', dataRequestSchema);
@@ -0,0 +1,113 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IJob, IJobProgress } from '../types/index.js';
+
+// Sub-schema for the latest progress report
+const jobProgressSchema = new Schema<IJobProgress>(
+  {
+    step: { type: String, default: 'queued' },
+    percent: { type: Number, default: 0, min: 0, max: 100 },
+    message: { type: String, trim: true },
+    updatedAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const jobSchema = new Schema<IJob>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    type: {
+      type: String,
+      required: [true, 'Job type is required'],
+      enum: {
+        values: ['lead_magnet.generate', 'lead_magnet.generate_unified', 'account.export'],
+        message: 'Job type must be one of: lead_magnet.generate, lead_magnet.generate_unified, account.export',
+      },
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['queued', 'running', 'completed', 'failed'],
+        message: 'Status must be one of: queued, running, completed, failed',
+      },
+      default: 'queued',
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+    progress: {
+      type: jobProgressSchema,
+      default: () => ({ step: 'queued', percent: 0 }),
+    },
+    leadMagnetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'LeadMagnet',
+      index: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 3,
+      min: 1,
+    },
+    // Earliest time the worker may (re)try the job
+    runAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Error cannot exceed 2000 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// Worker polling
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ userId: 1, createdAt: -1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+jobSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    delete ret.payload; // internal inputs, not useful to clients
+    delete ret.lockedAt;
+    return ret;
+  },
+});
+
+export const Job = mongoose.model<IJob>('Job', jobSchema);
@@ -0,0 +1,96 @@
+import mongoose, { Schema } from 'mongoose';
+import type { ILandingExperiment } from '../types/index.js';
+
+const landingVariantSchema = new Schema(
+  {
+    key: { type: String, required: true, trim: true },
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+    weight: { type: Number, default: 1, min: 0 },
+    headline: { type: String, trim: true },
+    subheadline: { type: String, trim: true },
+    cta: { type: String, trim: true },
+    landingPageTemplate: {
+      type: String,
+      enum: ['minimal', 'bold', 'split', 'classic'],
+    },
+  },
+  { _id: false }
+);
+
+const landingExperimentSchema = new Schema<ILandingExperiment>(
+  {
+    leadMagnetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'LeadMagnet',
+      required: [true, 'Lead magnet ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Experiment name is required'],
+      trim: true,
+      maxlength: [100, 'Experiment name cannot exceed 100 characters'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['running', 'completed', 'stopped'],
+        message: 'Status must be one of: running, completed, stopped',
+      },
+      default: 'running',
+    },
+    variants: {
+      type: [landingVariantSchema],
+      default: [],
+    },
+    autoPromote: {
+      enabled: { type: Boolean, default: false },
+      minViewsPerVariant: { type: Number, default: 100, min: 1 },
+      confidence: { type: Number, default: 0.95, min: 0.5, max: 0.999 },
+    },
+    winnerKey: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    endedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+landingExperimentSchema.index({ leadMagnetId: 1, createdAt: -1 });
+// Only one experiment can run per lead magnet
+landingExperimentSchema.index(
+  { leadMagnetId: 1 },
+  { unique: true, partialFilterExpression: { status: 'running' } }
+);
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+landingExperimentSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const LandingExperiment = mongoose.model<ILandingExperiment>('LandingExperiment', landingExperimentSchema);
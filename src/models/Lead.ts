@@ -44,6 +44,43 @@ const leadSchema = new Schema<ILead>(
       type: String,
       trim: true,
     },
+    // Landing page experiment variant shown when the lead converted
+    experimentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'LandingExperiment',
+    },
+    variant: {
+      type: String,
+      trim: true,
+    },
+    consent: {
+      text: { type: String, trim: true },
+      givenAt: { type: Date },
+      ipAddress: { type: String },
+      userAgent: { type: String },
+    },
+    // Double opt-in
+    optInStatus: {
+      type: String,
+      enum: {
+        values: ['pending', 'confirmed'],
+        message: 'Opt-in status must be one of: pending, confirmed',
+      },
+    },
+    confirmationTokenHash: {
+      type: String,
+      select: false,
+    },
+    confirmationExpiresAt: {
+      type: Date,
+    },
+    confirmedAt: {
+      type: Date,
+    },
+    // Set when the lead opts out; stops any remaining sequence emails
+    unsubscribedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -59,6 +96,8 @@ leadSchema.index({ email: 1, leadMagnetId: 1 }, { unique: true });
 leadSchema.index({ leadMagnetId: 1, createdAt: -1 });
 leadSchema.index({ deliveryStatus: 1 });
 leadSchema.index({ source: 1 });
+leadSchema.index({ experimentId: 1, variant: 1 }, { sparse: true });
+leadSchema.index({ confirmationTokenHash: 1 }, { sparse: true });
 
 // ============================================
 // Transform for JSON
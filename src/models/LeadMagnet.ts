@@ -1,5 +1,41 @@
 import mongoose, { Schema } from 'mongoose';
-import type { ILeadMagnet } from '../types/index.js';
+import type { ILeadMagnet, ISequenceSettings, ISequenceStep } from '../types/index.js';
+
+// Sub-schema for follow-up email schedule
+const sequenceStepSchema = new Schema<ISequenceStep>(
+  {
+    emailIndex: {
+      type: Number,
+      required: [true, 'Email index is required'],
+      min: [1, 'Email index must be at least 1'],
+    },
+    delayDays: {
+      type: Number,
+      required: [true, 'Delay is required'],
+      min: [0, 'Delay cannot be negative'],
+      max: [365, 'Delay cannot exceed 365 days'],
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { _id: false }
+);
+
+const sequenceSettingsSchema = new Schema<ISequenceSettings>(
+  {
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    steps: {
+      type: [sequenceStepSchema],
+      default: [],
+    },
+  },
+  { _id: false }
+);
 
 const leadMagnetSchema = new Schema<ILeadMagnet>(
   {
@@ -115,8 +151,8 @@ const leadMagnetSchema = new Schema<ILeadMagnet>(
     generationStatus: {
       type: String,
       enum: {
-        values: ['pdf_ready', 'complete', 'needs_attention'],
-        message: 'Generation status must be one of: pdf_ready, complete, needs_attention',
+        values: ['queued', 'generating', 'pdf_ready', 'complete', 'needs_attention', 'failed'],
+        message: 'Generation status must be one of: queued, generating, pdf_ready, complete, needs_attention, failed',
       },
       default: 'pdf_ready',
     },
@@ -190,6 +226,36 @@ const leadMagnetSchema = new Schema<ILeadMagnet>(
       trim: true,
       maxlength: [2000, 'Description cannot exceed 2000 characters'],
     },
+    // Background job that generates this lead magnet
+    generationJobId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Job',
+    },
+    // Follow-up email schedule (defaults are derived from emailsJson when unset)
+    sequenceSettings: {
+      type: sequenceSettingsSchema,
+      default: undefined,
+    },
+    // Version of the LeadMagnetRevision currently shown (may be older than the latest after a restore)
+    currentRevision: {
+      type: Number,
+      min: 1,
+    },
+    // Template override from a promoted experiment variant; falls back to the brand template
+    landingPageTemplate: {
+      type: String,
+      enum: ['minimal', 'bold', 'split', 'classic'],
+    },
+    // Lead capture compliance
+    doubleOptIn: {
+      type: Boolean,
+      default: false,
+    },
+    consentText: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Consent text cannot exceed 500 characters'],
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,79 @@
+import mongoose, { Schema } from 'mongoose';
+import type { ILeadMagnetRevision } from '../types/index.js';
+
+const leadMagnetRevisionSchema = new Schema<ILeadMagnetRevision>(
+  {
+    leadMagnetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'LeadMagnet',
+      required: [true, 'Lead magnet ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    version: {
+      type: Number,
+      required: [true, 'Version is required'],
+      min: 1,
+    },
+    reason: {
+      type: String,
+      required: [true, 'Reason is required'],
+      enum: {
+        values: ['initial', 'generated', 'updated', 'edited', 'pdf_regenerated'],
+        message: 'Reason must be one of: initial, generated, updated, edited, pdf_regenerated',
+      },
+    },
+    title: {
+      type: String,
+      trim: true,
+    },
+    outlineJson: {
+      type: Schema.Types.Mixed,
+    },
+    contentJson: {
+      type: Schema.Types.Mixed,
+    },
+    landingPageCopyJson: {
+      type: Schema.Types.Mixed,
+    },
+    landingPageHtml: {
+      type: String,
+    },
+    emailsJson: {
+      type: Schema.Types.Mixed,
+    },
+    // Old PDFs are never overwritten in storage, so each revision keeps a working URL
+    pdfUrl: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+leadMagnetRevisionSchema.index({ leadMagnetId: 1, version: -1 }, { unique: true });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+leadMagnetRevisionSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const LeadMagnetRevision = mongoose.model<ILeadMagnetRevision>('LeadMagnetRevision', leadMagnetRevisionSchema);
@@ -12,6 +12,9 @@ export interface IPageView extends Document {
   source: string;
   medium?: string;
   campaign?: string;
+  // Landing page experiment
+  experimentId?: Types.ObjectId;
+  variant?: string;
   // Additional metadata
   userAgent?: string;
   ip?: string;
@@ -52,6 +55,14 @@ const pageViewSchema = new Schema<IPageView>(
       type: String,
       trim: true,
     },
+    experimentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'LandingExperiment',
+    },
+    variant: {
+      type: String,
+      trim: true,
+    },
     userAgent: {
       type: String,
       trim: true,
@@ -77,6 +88,7 @@ const pageViewSchema = new Schema<IPageView>(
 pageViewSchema.index({ leadMagnetId: 1, createdAt: -1 });
 pageViewSchema.index({ source: 1 });
 pageViewSchema.index({ createdAt: -1 });
+pageViewSchema.index({ experimentId: 1, variant: 1 }, { sparse: true });
 
 // ============================================
 // Transform for JSON
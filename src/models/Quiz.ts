@@ -5,6 +5,22 @@ import type { IQuiz } from '../types/index.js';
 // Sub-schemas
 // ============================================
 
+const quizAnswerWeightSchema = new Schema(
+  {
+    resultId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Result ID is required'],
+    },
+    points: {
+      type: Number,
+      required: [true, 'Points are required'],
+      min: [-100, 'Points cannot be below -100'],
+      max: [100, 'Points cannot exceed 100'],
+    },
+  },
+  { _id: false }
+);
+
 const quizAnswerSchema = new Schema(
   {
     answerText: {
@@ -13,14 +29,68 @@ const quizAnswerSchema = new Schema(
       trim: true,
       maxlength: [500, 'Answer text cannot exceed 500 characters'],
     },
+    // Image choice: picture shown for the answer
+    imageUrl: {
+      type: String,
+      trim: true,
+    },
     resultMapping: {
       type: Schema.Types.ObjectId,
       // References a result within the same quiz's results array
     },
+    // Weighted scoring: points toward several results
+    resultWeights: {
+      type: [quizAnswerWeightSchema],
+      default: undefined,
+    },
+    // Points scoring: added to the taker's total
+    points: {
+      type: Number,
+      min: [-1000, 'Points cannot be below -1000'],
+      max: [1000, 'Points cannot exceed 1000'],
+    },
+    // Knowledge scoring: marks a correct answer
+    isCorrect: {
+      type: Boolean,
+    },
+    // Branching: jump to a later question of the same quiz, or finish the quiz
+    nextQuestionId: {
+      type: Schema.Types.ObjectId,
+    },
+    endsQuiz: {
+      type: Boolean,
+    },
   },
   { _id: true }
 );
 
+const ratingScaleSchema = new Schema(
+  {
+    min: {
+      type: Number,
+      default: 1,
+    },
+    max: {
+      type: Number,
+      default: 5,
+    },
+    minLabel: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Scale labels cannot exceed 50 characters'],
+    },
+    maxLabel: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Scale labels cannot exceed 50 characters'],
+    },
+  },
+  { _id: false }
+);
+
+// Question types that take answers from a list of choices
+const CHOICE_QUESTION_TYPES = ['single_choice', 'multi_select', 'image_choice'];
+
 const quizQuestionSchema = new Schema(
   {
     questionText: {
@@ -29,20 +99,59 @@ const quizQuestionSchema = new Schema(
       trim: true,
       maxlength: [1000, 'Question text cannot exceed 1000 characters'],
     },
+    type: {
+      type: String,
+      enum: {
+        values: ['single_choice', 'multi_select', 'image_choice', 'rating', 'free_text'],
+        message: 'Question type must be one of: single_choice, multi_select, image_choice, rating, free_text',
+      },
+      default: 'single_choice',
+    },
     order: {
       type: Number,
       required: [true, 'Question order is required'],
       min: 0,
     },
+    weight: {
+      type: Number,
+      default: 1,
+      min: [0, 'Question weight cannot be negative'],
+      max: [10, 'Question weight cannot exceed 10'],
+    },
     answers: {
       type: [quizAnswerSchema],
       validate: {
-        validator: function (v: any[]) {
+        // Rating and free-text questions are answered without choices
+        validator: function (this: { type?: string }, v: any[]) {
+          if (!CHOICE_QUESTION_TYPES.includes(this.type || 'single_choice')) {
+            return !v || v.length === 0;
+          }
           return v && v.length >= 2 && v.length <= 6;
         },
-        message: 'Questions must have between 2 and 6 answers',
+        message: 'Choice questions must have between 2 and 6 answers, rating and free-text questions none',
       },
     },
+    maxSelections: {
+      type: Number,
+      min: [1, 'Max selections must be at least 1'],
+    },
+    ratingScale: {
+      type: ratingScaleSchema,
+    },
+    // Rating: results a high rating points toward
+    resultWeights: {
+      type: [quizAnswerWeightSchema],
+      default: undefined,
+    },
+    isOptional: {
+      type: Boolean,
+    },
+    // Knowledge scoring: why the correct answer is correct
+    explanation: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Explanation cannot exceed 1000 characters'],
+    },
   },
   { _id: true }
 );
@@ -88,6 +197,13 @@ const quizResultSchema = new Schema(
       type: String,
       trim: true,
     },
+    // Points scoring: inclusive total score range (knowledge scoring: percentage band)
+    minScore: {
+      type: Number,
+    },
+    maxScore: {
+      type: Number,
+    },
   },
   { _id: true }
 );
@@ -215,6 +331,20 @@ const quizSchema = new Schema<IQuiz>(
       default: [],
     },
 
+    // Scoring
+    scoringMode: {
+      type: String,
+      enum: {
+        values: ['personality', 'weighted', 'points', 'knowledge'],
+        message: 'Scoring mode must be one of: personality, weighted, points, knowledge',
+      },
+      default: 'personality',
+    },
+    showResultBreakdown: {
+      type: Boolean,
+      default: false,
+    },
+
     // Styling
     theme: {
       type: String,
@@ -11,9 +11,21 @@ const quizResponseAnswerSchema = new Schema(
       type: Schema.Types.ObjectId,
       required: [true, 'Question ID is required'],
     },
+    // What was answered depends on the question type
     answerId: {
       type: Schema.Types.ObjectId,
-      required: [true, 'Answer ID is required'],
+    },
+    answerIds: {
+      type: [Schema.Types.ObjectId],
+      default: undefined,
+    },
+    value: {
+      type: Number,
+    },
+    text: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Answer text cannot exceed 2000 characters'],
     },
     timestamp: {
       type: Date,
@@ -23,6 +35,56 @@ const quizResponseAnswerSchema = new Schema(
   { _id: false }
 );
 
+const quizProgressEventSchema = new Schema(
+  {
+    questionId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Question ID is required'],
+    },
+    event: {
+      type: String,
+      enum: {
+        values: ['viewed', 'answered'],
+        message: 'Progress event must be either viewed or answered',
+      },
+      required: [true, 'Progress event is required'],
+    },
+    answerId: {
+      type: Schema.Types.ObjectId,
+    },
+    answerIds: {
+      type: [Schema.Types.ObjectId],
+      default: undefined,
+    },
+    value: {
+      type: Number,
+    },
+    at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const quizResultScoreSchema = new Schema(
+  {
+    resultId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    score: {
+      type: Number,
+      required: true,
+    },
+    percentage: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 // ============================================
 // Main QuizResponse Schema
 // ============================================
@@ -63,6 +125,18 @@ const quizResponseSchema = new Schema<IQuizResponse>(
       type: Schema.Types.ObjectId,
       // References a result within the quiz's results array
     },
+    score: {
+      type: Number,
+    },
+    resultBreakdown: {
+      type: [quizResultScoreSchema],
+      default: undefined,
+    },
+    // Per-question events from the public quiz (drop-off analytics)
+    progress: {
+      type: [quizProgressEventSchema],
+      default: undefined,
+    },
 
     // Timestamps for funnel tracking
     startedAt: {
@@ -0,0 +1,82 @@
+import mongoose, { Schema } from 'mongoose';
+import type { ISequenceEmail } from '../types/index.js';
+
+const sequenceEmailSchema = new Schema<ISequenceEmail>(
+  {
+    leadId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Lead',
+      required: [true, 'Lead ID is required'],
+    },
+    leadMagnetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'LeadMagnet',
+      required: [true, 'Lead Magnet ID is required'],
+      index: true,
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+    },
+    // Index into the lead magnet's emailsJson.emails array
+    emailIndex: {
+      type: Number,
+      required: [true, 'Email index is required'],
+      min: [1, 'Email index must be at least 1'],
+    },
+    scheduledFor: {
+      type: Date,
+      required: [true, 'Scheduled date is required'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['scheduled', 'sending', 'sent', 'failed', 'cancelled'],
+        message: 'Status must be one of: scheduled, sending, sent, failed, cancelled',
+      },
+      default: 'scheduled',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastError: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Error cannot exceed 2000 characters'],
+    },
+    sentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// One send per lead per sequence step
+sequenceEmailSchema.index({ leadId: 1, emailIndex: 1 }, { unique: true });
+// Scheduler polling
+sequenceEmailSchema.index({ status: 1, scheduledFor: 1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+sequenceEmailSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const SequenceEmail = mongoose.model<ISequenceEmail>('SequenceEmail', sequenceEmailSchema);
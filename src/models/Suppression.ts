@@ -0,0 +1,53 @@
+import mongoose, { Schema } from 'mongoose';
+import type { ISuppression } from '../types/index.js';
+
+const suppressionSchema = new Schema<ISuppression>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
+    },
+    reason: {
+      type: String,
+      enum: {
+        values: ['unsubscribed', 'manual'],
+        message: 'Reason must be one of: unsubscribed, manual',
+      },
+      required: true,
+    },
+    leadId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Lead',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+suppressionSchema.index({ userId: 1, email: 1 }, { unique: true });
+suppressionSchema.index({ userId: 1, createdAt: -1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+suppressionSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const Suppression = mongoose.model<ISuppression>('Suppression', suppressionSchema);
@@ -1,6 +1,6 @@
 import mongoose, { Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
-import type { IUser, IBrandSettings } from '../types/index.js';
+import type { IUser, IBrandSettings, IUserTwoFactor } from '../types/index.js';
 
 // Sub-schema for brand settings
 const brandSettingsSchema = new Schema<IBrandSettings>(
@@ -21,6 +21,21 @@ const brandSettingsSchema = new Schema<IBrandSettings>(
   { _id: false }
 );
 
+// Sub-schema for two-factor authentication; secrets are only loaded where needed
+const twoFactorSchema = new Schema<IUserTwoFactor>(
+  {
+    enabled: { type: Boolean, default: false },
+    secret: { type: String, select: false },
+    pendingSecret: { type: String, select: false },
+    recoveryCodeHashes: { type: [String], select: false },
+    lastUsedStep: { type: Number },
+    enabledAt: { type: Date },
+    failedAttempts: { type: Number, default: 0 },
+    lockedUntil: { type: Date },
+  },
+  { _id: false }
+);
+
 const userSchema = new Schema<IUser>(
   {
     email: {
@@ -81,6 +96,21 @@ const userSchema = new Schema<IUser>(
       enum: ['public', 'private'],
       default: 'public',
     },
+    // Agency client sub-accounts
+    agencyOwnerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    // White-label (agency plan)
+    hideBranding: {
+      type: Boolean,
+      default: false,
+    },
+    // Two-factor authentication
+    twoFactor: {
+      type: twoFactorSchema,
+      default: () => ({}),
+    },
   },
   {
     timestamps: true,
@@ -94,6 +124,7 @@ const userSchema = new Schema<IUser>(
 userSchema.index({ email: 1 });
 userSchema.index({ username: 1 });
 userSchema.index({ googleId: 1 }, { sparse: true });
+userSchema.index({ agencyOwnerId: 1 }, { sparse: true });
 
 // ============================================
 // Pre-save Middleware
@@ -137,6 +168,11 @@ userSchema.set('toJSON', {
     delete ret._id;
     delete ret.__v;
     delete ret.password;
+    if (ret.twoFactor) {
+      delete ret.twoFactor.secret;
+      delete ret.twoFactor.pendingSecret;
+      delete ret.twoFactor.recoveryCodeHashes;
+    }
     return ret;
   },
 });
@@ -0,0 +1,100 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IWebhookDelivery } from '../types/index.js';
+
+// Delivery log entries are kept for 30 days
+const DELIVERY_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    endpointId: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebhookEndpoint',
+      required: [true, 'Endpoint ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    event: {
+      type: String,
+      required: [true, 'Event is required'],
+      enum: {
+        values: ['lead.created', 'quiz.completed', 'lead_magnet.generated'],
+        message: 'Event must be one of: lead.created, quiz.completed, lead_magnet.generated',
+      },
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Payload is required'],
+    },
+    isTest: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['pending', 'sending', 'succeeded', 'failed'],
+        message: 'Status must be one of: pending, sending, succeeded, failed',
+      },
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    scheduledFor: {
+      type: Date,
+      required: [true, 'Scheduled date is required'],
+    },
+    responseStatus: {
+      type: Number,
+    },
+    responseBody: {
+      type: String,
+      maxlength: [2000, 'Response body cannot exceed 2000 characters'],
+    },
+    lastError: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Error cannot exceed 2000 characters'],
+    },
+    durationMs: {
+      type: Number,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// Delivery log per endpoint
+webhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+// Scheduler polling
+webhookDeliverySchema.index({ status: 1, scheduledFor: 1 });
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_RETENTION_SECONDS });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+webhookDeliverySchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
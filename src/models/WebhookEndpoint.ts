@@ -0,0 +1,81 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IWebhookEndpoint } from '../types/index.js';
+
+const webhookEndpointSchema = new Schema<IWebhookEndpoint>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    url: {
+      type: String,
+      required: [true, 'URL is required'],
+      trim: true,
+      maxlength: [2000, 'URL cannot exceed 2000 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+    },
+    events: {
+      type: [
+        {
+          type: String,
+          enum: {
+            values: ['lead.created', 'quiz.completed', 'lead_magnet.generated'],
+            message: 'Event must be one of: lead.created, quiz.completed, lead_magnet.generated',
+          },
+        },
+      ],
+      validate: {
+        validator: (events: string[]) => events.length > 0,
+        message: 'Select at least one event',
+      },
+    },
+    secret: {
+      type: String,
+      required: [true, 'Secret is required'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    lastDeliveryAt: {
+      type: Date,
+    },
+    lastDeliveryStatus: {
+      type: String,
+      enum: ['pending', 'sending', 'succeeded', 'failed'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// Event fan-out
+webhookEndpointSchema.index({ userId: 1, isActive: 1, events: 1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+webhookEndpointSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    // Only shown once, when created or rotated
+    delete ret.secret;
+    return ret;
+  },
+});
+
+export const WebhookEndpoint = mongoose.model<IWebhookEndpoint>('WebhookEndpoint', webhookEndpointSchema);
@@ -0,0 +1,42 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IWorkspace } from '../types/index.js';
+
+const workspaceSchema = new Schema<IWorkspace>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Workspace name is required'],
+      trim: true,
+      maxlength: [100, 'Workspace name cannot exceed 100 characters'],
+    },
+    // One workspace per account
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Owner ID is required'],
+      unique: true,
+    },
+    requireTwoFactor: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+workspaceSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const Workspace = mongoose.model<IWorkspace>('Workspace', workspaceSchema);
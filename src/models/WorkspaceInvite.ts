@@ -0,0 +1,71 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IWorkspaceInvite } from '../types/index.js';
+
+const workspaceInviteSchema = new Schema<IWorkspaceInvite>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: [true, 'Workspace ID is required'],
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
+    },
+    role: {
+      type: String,
+      enum: {
+        values: ['editor', 'viewer'],
+        message: 'Role must be one of: editor, viewer',
+      },
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    acceptedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+workspaceInviteSchema.index({ workspaceId: 1, email: 1 });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+workspaceInviteSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    delete ret.tokenHash;
+    return ret;
+  },
+});
+
+export const WorkspaceInvite = mongoose.model<IWorkspaceInvite>('WorkspaceInvite', workspaceInviteSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema } from 'mongoose';
+import type { IWorkspaceMember } from '../types/index.js';
+
+const workspaceMemberSchema = new Schema<IWorkspaceMember>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: [true, 'Workspace ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    role: {
+      type: String,
+      enum: {
+        values: ['owner', 'editor', 'viewer'],
+        message: 'Role must be one of: owner, editor, viewer',
+      },
+      required: true,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    requireTwoFactor: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+workspaceMemberSchema.index({ workspaceId: 1, userId: 1 }, { unique: true });
+
+// ============================================
+// Transform for JSON
+// ============================================
+
+workspaceMemberSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    ret.id = ret._id.toString();
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const WorkspaceMember = mongoose.model<IWorkspaceMember>('WorkspaceMember', workspaceMemberSchema);
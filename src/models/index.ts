@@ -7,3 +7,19 @@ export { Subscription } from './Subscription.js';
 export { Quiz } from './Quiz.js';
 export { QuizResponse } from './QuizResponse.js';
 
+export { SequenceEmail } from './SequenceEmail.js';
+export { Job } from './Job.js';
+export { AIUsage } from './AIUsage.js';
+export { LeadMagnetRevision } from './LeadMagnetRevision.js';
+export { CustomDomain } from './CustomDomain.js';
+export { LandingExperiment } from './LandingExperiment.js';
+export { WebhookEndpoint } from './WebhookEndpoint.js';
+export { WebhookDelivery } from './WebhookDelivery.js';
+export { ApiKey } from './ApiKey.js';
+export { CrmConnection } from './CrmConnection.js';
+export { CrmSync } from './CrmSync.js';
+export { Suppression } from './Suppression.js';
+export { DataRequest } from './DataRequest.js';
+export { Workspace } from './Workspace.js';
+export { WorkspaceMember } from './WorkspaceMember.js';
+export { WorkspaceInvite } from './WorkspaceInvite.js';
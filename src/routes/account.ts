@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateBody, validateParams } from '../middleware/validate.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import * as accountController from '../controllers/accountController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const jobParamSchema = z.object({
+  jobId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format'),
+});
+
+const deleteAccountSchema = z.object({
+  confirmUsername: z.string().min(1, 'Type your username to confirm'),
+  // Required for accounts with a password (not Google-only)
+  password: z.string().optional(),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// All routes require authentication
+router.use(isAuthenticated);
+
+/**
+ * POST /api/account/export
+ * Start a zip export of brands, lead magnets (content and files), quizzes, leads and responses.
+ * Returns the background job; poll GET /api/jobs/:id for progress
+ */
+router.post('/export', accountController.requestExport);
+
+/**
+ * GET /api/account/export/:jobId/download
+ * Short-lived download URL for a finished export
+ */
+router.get('/export/:jobId/download', validateParams(jobParamSchema), accountController.getExportDownload);
+
+/**
+ * DELETE /api/account
+ * Permanently delete the account: cancels the subscription, removes stored files and all data
+ */
+router.delete('/', validateBody(deleteAccountSchema), accountController.remove);
+
+export default router;
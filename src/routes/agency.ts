@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateBody, validateParams } from '../middleware/validate.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import { requireWorkspaceRole } from '../middleware/workspace.js';
+import * as agencyController from '../controllers/agencyController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format');
+
+const usernameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(3, 'Username must be at least 3 characters')
+  .max(30, 'Username cannot exceed 30 characters')
+  .regex(/^[a-z0-9_-]+$/, 'Username can only contain lowercase letters, numbers, hyphens, and underscores');
+
+const nameSchema = z.string().trim().min(1, 'Name is required').max(100, 'Name cannot exceed 100 characters');
+
+const idParamSchema = z.object({
+  id: objectIdSchema,
+});
+
+const createClientSchema = z.object({
+  name: nameSchema,
+  username: usernameSchema,
+});
+
+const updateClientSchema = z.object({
+  name: nameSchema.optional(),
+  username: usernameSchema.optional(),
+});
+
+const inviteClientSchema = z.object({
+  email: z.string().trim().email('Invalid email'),
+  role: z.enum(['editor', 'viewer']).default('viewer'),
+});
+
+const whiteLabelSchema = z.object({
+  hideBranding: z.boolean(),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// All routes require authentication as the agency account's owner
+router.use(isAuthenticated, requireWorkspaceRole('owner'));
+
+/**
+ * GET /api/agency/clients
+ * Client sub-accounts managed by the agency
+ */
+router.get('/clients', agencyController.getClients);
+
+/**
+ * POST /api/agency/clients
+ * Create a client sub-account with its own username (public subdomain), brands and analytics.
+ * Switch into it with the X-Workspace-Id header set to the returned workspaceId.
+ */
+router.post('/clients', validateBody(createClientSchema), agencyController.createClient);
+
+/**
+ * PATCH /api/agency/clients/:id
+ * Rename a client account or change its username
+ */
+router.patch('/clients/:id', validateParams(idParamSchema), validateBody(updateClientSchema), agencyController.updateClient);
+
+/**
+ * DELETE /api/agency/clients/:id
+ * Delete a client account with all of its lead magnets, quizzes, leads and files
+ */
+router.delete('/clients/:id', validateParams(idParamSchema), agencyController.removeClient);
+
+/**
+ * POST /api/agency/clients/:id/logins
+ * Invite the client to log in to their account as an editor or viewer (default).
+ * Clients cannot manage billing, other clients or white-label settings.
+ */
+router.post('/clients/:id/logins', validateParams(idParamSchema), validateBody(inviteClientSchema), agencyController.inviteClient);
+
+/**
+ * PATCH /api/agency/white-label
+ * Hide MagnetHub branding from landing pages, PDFs and lead emails of the agency and its clients
+ */
+router.patch('/white-label', validateBody(whiteLabelSchema), agencyController.updateWhiteLabel);
+
+export default router;
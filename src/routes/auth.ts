@@ -1,8 +1,9 @@
 import { Router, Request, Response } from 'express';
 import passport from 'passport';
 import { z } from 'zod';
-import { validateBody } from '../middleware/validate.js';
+import { validateBody, validateParams } from '../middleware/validate.js';
 import { isAuthenticated } from '../middleware/auth.js';
+import { authLimiter } from '../middleware/rateLimiter.js';
 import * as authController from '../controllers/authController.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
@@ -49,6 +50,44 @@ const updatePrivacySettingsSchema = z.object({
   defaultLeadMagnetPrivacy: z.enum(['public', 'private']),
 });
 
+const apiKeyScopeSchema = z.enum(['leads:read', 'lead_magnets:read', 'lead_magnets:write', 'quizzes:manage']);
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  scopes: z.array(apiKeyScopeSchema).min(1, 'Select at least one scope'),
+  rateLimitPerMinute: z.number().int().min(1).max(config.apiKeys.maxRateLimitPerMinute).optional(),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+const updateApiKeySchema = createApiKeySchema.omit({ expiresInDays: true }).partial();
+
+const apiKeyParamSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format'),
+});
+
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app');
+
+const verifyTwoFactorSchema = z.object({
+  code: totpCodeSchema.optional(),
+  recoveryCode: z.string().trim().min(1).max(20).optional(),
+}).refine(
+  (data) => data.code || data.recoveryCode,
+  { message: 'Enter an authentication code or a recovery code', path: ['code'] }
+);
+
+const enableTwoFactorSchema = z.object({
+  code: totpCodeSchema,
+});
+
+const disableTwoFactorSchema = z.object({
+  password: z.string().optional(),
+  code: totpCodeSchema.optional(),
+  recoveryCode: z.string().trim().min(1).max(20).optional(),
+}).refine(
+  (data) => data.code || data.recoveryCode,
+  { message: 'Enter an authentication code or a recovery code', path: ['code'] }
+);
+
 // ============================================
 // Routes
 // ============================================
@@ -63,7 +102,14 @@ router.post('/register', validateBody(registerSchema), authController.register);
  * POST /api/auth/login
  * Login with email and password
  */
-router.post('/login', validateBody(loginSchema), authController.login);
+router.post('/login', authLimiter, validateBody(loginSchema), authController.login);
+
+/**
+ * POST /api/auth/2fa/verify
+ * Second login step after { twoFactorRequired: true } from login or the Google redirect
+ * to /login/two-factor: an authenticator code or a one-time recovery code
+ */
+router.post('/2fa/verify', authLimiter, validateBody(verifyTwoFactorSchema), authController.verifyTwoFactor);
 
 /**
  * POST /api/auth/logout
@@ -95,6 +141,36 @@ router.patch('/brand-settings', isAuthenticated, validateBody(updateBrandSetting
  */
 router.patch('/privacy-settings', isAuthenticated, validateBody(updatePrivacySettingsSchema), authController.updatePrivacySettings);
 
+/**
+ * GET /api/auth/2fa
+ * Two-factor status, remaining recovery codes and whether a workspace requires it
+ */
+router.get('/2fa', isAuthenticated, authController.getTwoFactor);
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start enrollment: returns the secret and an otpauth:// URI to show as a QR code
+ */
+router.post('/2fa/setup', isAuthenticated, authController.setupTwoFactor);
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm enrollment with a code from the app; returns recovery codes (shown once)
+ */
+router.post('/2fa/enable', isAuthenticated, validateBody(enableTwoFactorSchema), authController.enableTwoFactor);
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn two-factor authentication off (password and a current code required)
+ */
+router.post('/2fa/disable', isAuthenticated, validateBody(disableTwoFactorSchema), authController.disableTwoFactorHandler);
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace all recovery codes (a current code required)
+ */
+router.post('/2fa/recovery-codes', isAuthenticated, validateBody(enableTwoFactorSchema), authController.regenerateRecoveryCodesHandler);
+
 /**
  * GET /api/auth/google
  * Initiate Google OAuth flow
@@ -131,5 +207,29 @@ router.get(
  */
 router.post('/feedback', isAuthenticated, authController.submitFeedback);
 
+/**
+ * GET /api/auth/api-keys
+ * List active API keys (the keys themselves are never returned again)
+ */
+router.get('/api-keys', isAuthenticated, authController.getApiKeys);
+
+/**
+ * POST /api/auth/api-keys
+ * Create an API key; the full key is only included in this response
+ */
+router.post('/api-keys', isAuthenticated, validateBody(createApiKeySchema), authController.createApiKeyHandler);
+
+/**
+ * PATCH /api/auth/api-keys/:id
+ * Rename a key or change its scopes / rate limit
+ */
+router.patch('/api-keys/:id', isAuthenticated, validateParams(apiKeyParamSchema), validateBody(updateApiKeySchema), authController.updateApiKeyHandler);
+
+/**
+ * DELETE /api/auth/api-keys/:id
+ * Revoke an API key
+ */
+router.delete('/api-keys/:id', isAuthenticated, validateParams(apiKeyParamSchema), authController.revokeApiKeyHandler);
+
 export default router;
 
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { isAuthenticated } from '../middleware/auth.js';
+import { requireWorkspaceRole, rejectClientAccounts } from '../middleware/workspace.js';
 import {
   createCheckoutSession,
   getSubscriptionStatus,
@@ -19,14 +20,15 @@ router.post('/webhook', handleWebhook);
 // Protected routes (require authentication)
 router.use(isAuthenticated);
 
-// Subscription management
-router.post('/checkout', createCheckoutSession);
+// Subscription management (the subscription belongs to the workspace owner; client accounts use their agency's)
+const ownerOnly = [requireWorkspaceRole('owner'), rejectClientAccounts];
+router.post('/checkout', ownerOnly, createCheckoutSession);
 router.get('/subscription', getSubscriptionStatus);
-router.post('/portal', createPortalSession);
-router.get('/invoices', getInvoices);
-router.post('/cancel', cancelSubscription);
-router.post('/reactivate', reactivateSubscription);
-router.post('/change-plan', changePlan);
+router.post('/portal', ownerOnly, createPortalSession);
+router.get('/invoices', ownerOnly, getInvoices);
+router.post('/cancel', ownerOnly, cancelSubscription);
+router.post('/reactivate', ownerOnly, reactivateSubscription);
+router.post('/change-plan', ownerOnly, changePlan);
 
 export default router;
 
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { validateBody, validateParams } from '../middleware/validate.js';
 import { isAuthenticated } from '../middleware/auth.js';
+import { readOnlyForViewers } from '../middleware/workspace.js';
+import { withLLMContext } from '../middleware/llmContext.js';
 import * as brandController from '../controllers/brandController.js';
 
 const router = Router();
@@ -44,8 +46,8 @@ const idParamSchema = z.object({
 // Routes
 // ============================================
 
-// All routes require authentication
-router.use(isAuthenticated);
+// All routes require authentication; viewers can only read
+router.use(isAuthenticated, readOnlyForViewers);
 
 /**
  * GET /api/brands
@@ -60,6 +62,7 @@ router.get('/', brandController.getAll);
 router.post(
   '/',
   validateBody(createBrandSchema),
+  withLLMContext,
   brandController.create
 );
 
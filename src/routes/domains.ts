@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateBody, validateParams } from '../middleware/validate.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import { readOnlyForViewers } from '../middleware/workspace.js';
+import * as domainController from '../controllers/domainController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format');
+
+const createDomainSchema = z.object({
+  hostname: z.string().min(1, 'Domain is required').max(300),
+  brandId: objectIdSchema.optional(),
+});
+
+const updateDomainSchema = z.object({
+  brandId: objectIdSchema.nullable(),
+});
+
+const idParamSchema = z.object({
+  id: objectIdSchema,
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// All routes require authentication; viewers can only read
+router.use(isAuthenticated, readOnlyForViewers);
+
+/**
+ * GET /api/domains
+ * List the user's custom domains with the DNS records each one needs
+ */
+router.get('/', domainController.getAll);
+
+/**
+ * POST /api/domains
+ * Connect a custom domain (Pro and Agency plans). Starts pending until verified.
+ */
+router.post('/', validateBody(createDomainSchema), domainController.create);
+
+/**
+ * GET /api/domains/:id
+ * Get a single custom domain
+ */
+router.get('/:id', validateParams(idParamSchema), domainController.getOne);
+
+/**
+ * PATCH /api/domains/:id
+ * Attach the domain to a brand, or pass brandId: null to serve all of the user's pages
+ */
+router.patch(
+  '/:id',
+  validateParams(idParamSchema),
+  validateBody(updateDomainSchema),
+  domainController.update
+);
+
+/**
+ * POST /api/domains/:id/verify
+ * Check the verification TXT record now
+ */
+router.post('/:id/verify', validateParams(idParamSchema), domainController.verify);
+
+/**
+ * DELETE /api/domains/:id
+ * Disconnect a custom domain
+ */
+router.delete('/:id', validateParams(idParamSchema), domainController.remove);
+
+export default router;
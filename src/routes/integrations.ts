@@ -0,0 +1,122 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import { readOnlyForViewers } from '../middleware/workspace.js';
+import * as integrationController from '../controllers/integrationController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format');
+
+const providerSchema = z.enum(['brevo', 'mailchimp', 'convertkit']);
+
+const providerFieldSchema = z.string().trim().max(100);
+
+const fieldMappingSchema = z.object({
+  firstName: providerFieldSchema.optional(),
+  phone: providerFieldSchema.optional(),
+  quizResult: providerFieldSchema.optional(),
+  utmSource: providerFieldSchema.optional(),
+});
+
+const credentialsSchema = z.object({
+  provider: providerSchema,
+  apiKey: z.string().trim().min(1, 'API key is required').max(500),
+});
+
+const createConnectionSchema = credentialsSchema.extend({
+  name: z.string().trim().min(1).max(100).optional(),
+  listId: z.string().trim().min(1, 'Select a list').max(100),
+  fieldMapping: fieldMappingSchema.optional(),
+  syncLeads: z.boolean().optional(),
+  syncQuizResponses: z.boolean().optional(),
+});
+
+const updateConnectionSchema = createConnectionSchema.omit({ provider: true }).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const syncsQuerySchema = z.object({
+  limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+  connectionId: objectIdSchema.optional(),
+  leadId: objectIdSchema.optional(),
+  quizResponseId: objectIdSchema.optional(),
+  status: z.enum(['pending', 'syncing', 'synced', 'failed']).optional(),
+});
+
+const idParamSchema = z.object({
+  id: objectIdSchema,
+});
+
+const syncParamSchema = z.object({
+  syncId: objectIdSchema,
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// All routes require authentication; viewers can only read
+router.use(isAuthenticated, readOnlyForViewers);
+
+/**
+ * GET /api/integrations
+ * List connected ESP / CRM accounts and the supported providers with their default field mapping
+ */
+router.get('/', integrationController.getAll);
+
+/**
+ * POST /api/integrations/lists
+ * Check an API key and list the lists / audiences / forms it can add contacts to
+ */
+router.post('/lists', validateBody(credentialsSchema), integrationController.previewLists);
+
+/**
+ * POST /api/integrations
+ * Connect an account; new leads and quiz responses are pushed to the chosen list
+ */
+router.post('/', validateBody(createConnectionSchema), integrationController.create);
+
+/**
+ * GET /api/integrations/syncs
+ * Sync status records, newest first
+ * Query params: leadId, quizResponseId, connectionId, status, limit (default 50)
+ */
+router.get('/syncs', validateQuery(syncsQuerySchema), integrationController.getSyncs);
+
+/**
+ * POST /api/integrations/syncs/:syncId/retry
+ * Queue a failed sync again
+ */
+router.post('/syncs/:syncId/retry', validateParams(syncParamSchema), integrationController.retrySync);
+
+/**
+ * GET /api/integrations/:id
+ * Get a single integration
+ */
+router.get('/:id', validateParams(idParamSchema), integrationController.getOne);
+
+/**
+ * GET /api/integrations/:id/lists
+ * Lists available with the stored API key (to switch lists)
+ */
+router.get('/:id/lists', validateParams(idParamSchema), integrationController.getLists);
+
+/**
+ * PATCH /api/integrations/:id
+ * Change the API key, list, field mapping, what is synced, or pause with isActive
+ */
+router.patch('/:id', validateParams(idParamSchema), validateBody(updateConnectionSchema), integrationController.update);
+
+/**
+ * DELETE /api/integrations/:id
+ * Disconnect the account and drop its sync history
+ */
+router.delete('/:id', validateParams(idParamSchema), integrationController.remove);
+
+export default router;
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateParams } from '../middleware/validate.js';
+import { requireScope } from '../middleware/auth.js';
+import * as jobController from '../controllers/jobController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const idParamSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format'),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// Jobs are started by lead magnet generation, so API keys that can start one can poll it
+router.use(requireScope('lead_magnets:write'));
+
+/**
+ * GET /api/jobs/:id
+ * Get the status and progress of a background job
+ */
+router.get('/:id', validateParams(idParamSchema), jobController.getOne);
+
+export default router;
@@ -2,8 +2,11 @@ import { Router } from 'express';
 import { z } from 'zod';
 import multer from 'multer';
 import { validateBody, validateParams } from '../middleware/validate.js';
-import { isAuthenticated } from '../middleware/auth.js';
+import { isAuthenticated, requireScope } from '../middleware/auth.js';
 import { checkGenerationLimit, requireBillingHealthy } from '../middleware/rateLimit.js';
+import { sectionRewriteLimiter } from '../middleware/rateLimiter.js';
+import { withLLMContext } from '../middleware/llmContext.js';
+import { readOnlyForViewers } from '../middleware/workspace.js';
 import * as leadMagnetController from '../controllers/leadMagnetController.js';
 
 const router = Router();
@@ -83,6 +86,14 @@ const idParamSchema = z.object({
   id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format'),
 });
 
+const indexParamSchema = idParamSchema.extend({
+  index: z.string().regex(/^\d+$/, 'Invalid index'),
+});
+
+const revisionParamSchema = idParamSchema.extend({
+  version: z.string().regex(/^[1-9]\d*$/, 'Invalid revision version'),
+});
+
 // New unified generation schema (topic-based)
 const generateUnifiedSchema = z.object({
   brandId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid brand ID'),
@@ -91,6 +102,7 @@ const generateUnifiedSchema = z.object({
   // Quiz-specific fields
   numQuestions: z.number().int().min(3).max(20).optional(),
   numResults: z.number().int().min(2).max(8).optional(),
+  quizBranching: z.boolean().optional(),
   // Infographic-specific fields
   infographicStyle: z.enum(['minimal', 'modern', 'bold', 'professional']).optional(),
   infographicOrientation: z.enum(['square', 'portrait', 'landscape']).optional(),
@@ -112,57 +124,82 @@ const generateUnifiedSchema = z.object({
 // Routes
 // ============================================
 
-// All routes require authentication
-router.use(isAuthenticated);
+// Workspace viewers can only read
+router.use(readOnlyForViewers);
+
+// Routes below also accept a personal API key with the given scope
 
 /**
  * POST /api/lead-magnets/generate-unified
  * Generate a new lead magnet (unified topic-based flow)
  */
-router.post('/generate-unified', requireBillingHealthy, checkGenerationLimit, validateBody(generateUnifiedSchema), leadMagnetController.generateUnified);
+router.post('/generate-unified', requireScope('lead_magnets:write'), requireBillingHealthy, checkGenerationLimit, validateBody(generateUnifiedSchema), leadMagnetController.generateUnified);
 
 /**
  * POST /api/lead-magnets/generate
  * Generate a new lead magnet (legacy URL-based flow)
  */
-router.post('/generate', requireBillingHealthy, checkGenerationLimit, validateBody(generateSchema), leadMagnetController.generate);
+router.post('/generate', requireScope('lead_magnets:write'), requireBillingHealthy, checkGenerationLimit, validateBody(generateSchema), leadMagnetController.generate);
 
 /**
  * POST /api/lead-magnets/upload
  * Upload a user's own media file as a lead magnet
  */
-router.post('/upload', requireBillingHealthy, checkGenerationLimit, upload.single('file'), leadMagnetController.uploadMedia);
+router.post('/upload', requireScope('lead_magnets:write'), requireBillingHealthy, checkGenerationLimit, upload.single('file'), leadMagnetController.uploadMedia);
 
 /**
  * GET /api/lead-magnets
  * Get all lead magnets for the authenticated user
  */
-router.get('/', leadMagnetController.getAll);
+router.get('/', requireScope('lead_magnets:read'), leadMagnetController.getAll);
 
 /**
  * GET /api/lead-magnets/leads
  * Get all leads across all lead magnets for the authenticated user
  */
-router.get('/leads', leadMagnetController.getAllLeads);
+router.get('/leads', requireScope('leads:read'), leadMagnetController.getAllLeads);
 
 /**
  * GET /api/lead-magnets/leads/export
  * Export all leads as CSV
  */
-router.get('/leads/export', requireBillingHealthy, leadMagnetController.exportAllLeadsCsv);
+router.get('/leads/export', requireScope('leads:read'), requireBillingHealthy, leadMagnetController.exportAllLeadsCsv);
 
 /**
  * GET /api/lead-magnets/:id
  * Get a single lead magnet by ID
  */
-router.get('/:id', validateParams(idParamSchema), leadMagnetController.getOne);
+router.get('/:id', requireScope('lead_magnets:read'), validateParams(idParamSchema), leadMagnetController.getOne);
+
+/**
+ * GET /api/lead-magnets/:id/leads
+ * Get all leads for a lead magnet
+ */
+router.get('/:id/leads', requireScope('leads:read'), validateParams(idParamSchema), leadMagnetController.getLeads);
+
+/**
+ * GET /api/lead-magnets/:id/leads/export
+ * Export leads as CSV
+ */
+router.get('/:id/leads/export', requireScope('leads:read'), requireBillingHealthy, validateParams(idParamSchema), leadMagnetController.exportLeadsCsv);
+
+// All other routes require a session
+router.use(isAuthenticated);
+
+/**
+ * GET /api/lead-magnets/:id/events
+ * Stream generation progress (Server-Sent Events)
+ */
+router.get('/:id/events', validateParams(idParamSchema), leadMagnetController.streamEvents);
 
 /**
  * PATCH /api/lead-magnets/:id
- * Update a lead magnet
+ * Update a lead magnet (title, double opt-in, consent text shown under the form)
  */
 const updateSchema = z.object({
   title: z.string().min(1).max(200).optional(),
+  doubleOptIn: z.boolean().optional(),
+  consentText: z.string().trim().max(500).optional(),
 });
 router.patch('/:id', validateParams(idParamSchema), validateBody(updateSchema), leadMagnetController.update);
 
@@ -173,16 +210,209 @@ router.patch('/:id', validateParams(idParamSchema), validateBody(updateSchema),
 router.delete('/:id', validateParams(idParamSchema), leadMagnetController.remove);
 
 /**
- * GET /api/lead-magnets/:id/leads
- * Get all leads for a lead magnet
+ * GET /api/lead-magnets/:id/sequence
+ * Get the follow-up email schedule and send stats
  */
-router.get('/:id/leads', validateParams(idParamSchema), leadMagnetController.getLeads);
+router.get('/:id/sequence', validateParams(idParamSchema), leadMagnetController.getSequence);
 
 /**
- * GET /api/lead-magnets/:id/leads/export
- * Export leads as CSV
+ * PUT /api/lead-magnets/:id/sequence
+ * Update the follow-up email schedule (day offsets from signup, per-step toggles)
+ */
+const sequenceSchema = z.object({
+  enabled: z.boolean().optional(),
+  steps: z.array(z.object({
+    emailIndex: z.number().int().min(1),
+    delayDays: z.number().int().min(0).max(365).optional(),
+    enabled: z.boolean().optional(),
+  })).max(20).optional(),
+});
+router.put('/:id/sequence', validateParams(idParamSchema), validateBody(sequenceSchema), leadMagnetController.updateSequence);
+
+// ============================================
+// Content Editing
+// ============================================
+
+const sectionSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  content: z.string().min(1).max(20000),
+});
+
+const rebuildPdfField = z.boolean().optional();
+
+/**
+ * PATCH /api/lead-magnets/:id/content
+ * Edit content title/subtitle/CTA, or replace the full sections list
+ */
+const contentEditSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  subtitle: z.string().trim().max(300).optional(),
+  cta: z.string().trim().max(500).optional(),
+  sections: z.array(sectionSchema).min(1).max(50).optional(),
+  rebuildPdf: rebuildPdfField,
+});
+router.patch('/:id/content', validateParams(idParamSchema), validateBody(contentEditSchema), leadMagnetController.updateContent);
+
+/**
+ * POST /api/lead-magnets/:id/content/sections
+ * Add a section (appended unless index is given)
+ */
+const addSectionSchema = sectionSchema.extend({
+  index: z.number().int().min(0).optional(),
+  rebuildPdf: rebuildPdfField,
+});
+router.post('/:id/content/sections', validateParams(idParamSchema), validateBody(addSectionSchema), leadMagnetController.addSection);
+
+/**
+ * PUT /api/lead-magnets/:id/content/sections/order
+ * Reorder sections; order lists current section indexes in their new order
+ */
+const reorderSectionsSchema = z.object({
+  order: z.array(z.number().int().min(0)).min(1).max(50),
+  rebuildPdf: rebuildPdfField,
+});
+router.put('/:id/content/sections/order', validateParams(idParamSchema), validateBody(reorderSectionsSchema), leadMagnetController.reorderSections);
+
+/**
+ * PATCH /api/lead-magnets/:id/content/sections/:index
+ * Rewrite one section
  */
-router.get('/:id/leads/export', requireBillingHealthy, validateParams(idParamSchema), leadMagnetController.exportLeadsCsv);
+const updateSectionSchema = sectionSchema.partial().extend({
+  rebuildPdf: rebuildPdfField,
+});
+router.patch('/:id/content/sections/:index', validateParams(indexParamSchema), validateBody(updateSectionSchema), leadMagnetController.updateSection);
+
+/**
+ * POST /api/lead-magnets/:id/content/sections/:index/rewrite
+ * Rewrite one section with AI from an instruction ("shorter", "add examples"...).
+ * Does not use a plan credit but is limited to 30 per hour per account.
+ * Set apply=false to get a suggestion without saving.
+ */
+const rewriteSectionSchema = z.object({
+  instruction: z.string().trim().min(2, 'Instruction is required').max(500),
+  apply: z.boolean().optional(),
+  rebuildPdf: rebuildPdfField,
+});
+router.post(
+  '/:id/content/sections/:index/rewrite',
+  sectionRewriteLimiter,
+  requireBillingHealthy,
+  validateParams(indexParamSchema),
+  validateBody(rewriteSectionSchema),
+  withLLMContext,
+  leadMagnetController.rewriteSectionHandler
+);
+
+/**
+ * DELETE /api/lead-magnets/:id/content/sections/:index
+ * Delete one section
+ * Query params: rebuildPdf (true to rebuild the PDF)
+ */
+router.delete('/:id/content/sections/:index', validateParams(indexParamSchema), leadMagnetController.deleteSection);
+
+/**
+ * PATCH /api/lead-magnets/:id/landing-copy
+ * Edit landing page copy; the landing page HTML is re-rendered
+ */
+const landingCopySchema = z.object({
+  headline: z.string().trim().min(1).max(200).optional(),
+  subheadline: z.string().trim().max(300).optional(),
+  benefit_bullets: z.array(z.string().trim().min(1).max(300)).max(10).optional(),
+  cta: z.string().trim().min(1).max(100).optional(),
+  short_description: z.string().trim().max(1000).optional(),
+});
+router.patch('/:id/landing-copy', validateParams(idParamSchema), validateBody(landingCopySchema), leadMagnetController.updateLandingCopy);
+
+/**
+ * PATCH /api/lead-magnets/:id/emails/:index
+ * Edit one email of the sequence (index 0 is the delivery email)
+ */
+const emailEditSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  subject: z.string().trim().min(1).max(200).optional(),
+  body_text: z.string().min(1).max(20000).optional(),
+  body_html: z.string().min(1).max(50000).optional(),
+});
+router.patch('/:id/emails/:index', validateParams(indexParamSchema), validateBody(emailEditSchema), leadMagnetController.updateEmail);
+
+/**
+ * GET /api/lead-magnets/:id/revisions
+ * Revision history (newest first) with the changes each revision introduced
+ * Query params: limit (default 20), before (version, for paging)
+ */
+router.get('/:id/revisions', validateParams(idParamSchema), leadMagnetController.getRevisions);
+
+/**
+ * GET /api/lead-magnets/:id/revisions/:version
+ * Full content of one revision
+ */
+router.get('/:id/revisions/:version', validateParams(revisionParamSchema), leadMagnetController.getRevisionHandler);
+
+/**
+ * POST /api/lead-magnets/:id/revisions/:version/restore
+ * Point the lead magnet at an older revision (newer revisions are kept)
+ */
+router.post('/:id/revisions/:version/restore', validateParams(revisionParamSchema), leadMagnetController.restoreRevisionHandler);
+
+const experimentParamSchema = idParamSchema.extend({
+  experimentId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid experiment ID'),
+});
+
+/**
+ * GET /api/lead-magnets/:id/experiments
+ * Landing page A/B experiments for the lead magnet, newest first
+ */
+router.get('/:id/experiments', validateParams(idParamSchema), leadMagnetController.getExperiments);
+
+/**
+ * POST /api/lead-magnets/:id/experiments
+ * Start an experiment; the current landing page runs as the 'control' variant
+ */
+const variantSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  weight: z.number().min(0).max(100).optional(),
+  headline: z.string().trim().min(1).max(200).optional(),
+  subheadline: z.string().trim().max(300).optional(),
+  cta: z.string().trim().min(1).max(100).optional(),
+  landingPageTemplate: z.enum(['minimal', 'bold', 'split', 'classic']).optional(),
+});
+const createExperimentSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  controlWeight: z.number().min(0).max(100).optional(),
+  variants: z.array(variantSchema).min(1).max(5),
+  autoPromote: z.object({
+    enabled: z.boolean(),
+    minViewsPerVariant: z.number().int().min(1).max(1000000).optional(),
+    confidence: z.number().min(0.5).max(0.999).optional(),
+  }).optional(),
+});
+router.post('/:id/experiments', validateParams(idParamSchema), validateBody(createExperimentSchema), leadMagnetController.createExperimentHandler);
+
+/**
+ * GET /api/lead-magnets/:id/experiments/:experimentId
+ * Experiment with per-variant views, leads, conversion rate, uplift and significance vs control
+ */
+router.get('/:id/experiments/:experimentId', validateParams(experimentParamSchema), leadMagnetController.getExperimentHandler);
+
+/**
+ * POST /api/lead-magnets/:id/experiments/:experimentId/stop
+ * End the experiment without changing the landing page
+ */
+router.post('/:id/experiments/:experimentId/stop', validateParams(experimentParamSchema), leadMagnetController.stopExperimentHandler);
+
+/**
+ * POST /api/lead-magnets/:id/experiments/:experimentId/promote
+ * End the experiment and apply the variant's copy and template to the landing page
+ */
+const promoteVariantSchema = z.object({
+  variant: z.string().min(1).max(50),
+});
+router.post(
+  '/:id/experiments/:experimentId/promote',
+  validateParams(experimentParamSchema),
+  validateBody(promoteVariantSchema),
+  leadMagnetController.promoteVariantHandler
+);
 
 /**
  * POST /api/lead-magnets/:id/regenerate-pdf
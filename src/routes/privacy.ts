@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateBody, validateQuery } from '../middleware/validate.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import { readOnlyForViewers } from '../middleware/workspace.js';
+import * as privacyController from '../controllers/privacyController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+// Emails go in the body rather than the URL so they stay out of access logs
+const subjectSchema = z.object({
+  email: z.string().trim().email('Invalid email'),
+  note: z.string().trim().max(500).optional(),
+});
+
+const eraseSchema = subjectSchema.extend({
+  mode: z.enum(['delete', 'anonymize']),
+});
+
+const requestsQuerySchema = z.object({
+  limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+  email: z.string().trim().email('Invalid email').optional(),
+  type: z.enum(['access', 'export', 'erasure']).optional(),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// All routes require authentication; viewers can only read
+router.use(isAuthenticated, readOnlyForViewers);
+
+/**
+ * POST /api/privacy/lookup
+ * Everything stored for an email across your lead magnets and quizzes:
+ * leads, quiz responses, page views from the same IPs, queued emails, CRM syncs, webhook deliveries
+ */
+router.post('/lookup', validateBody(subjectSchema), privacyController.lookup);
+
+/**
+ * POST /api/privacy/export
+ * Download the same records as a JSON file to send to the requester
+ */
+router.post('/export', validateBody(subjectSchema), privacyController.exportData);
+
+/**
+ * POST /api/privacy/erase
+ * Delete the records, or anonymize them (mode: 'anonymize') to keep analytics totals
+ */
+router.post('/erase', validateBody(eraseSchema), privacyController.erase);
+
+/**
+ * GET /api/privacy/requests
+ * Audit log of handled requests, newest first (emails are stored hashed)
+ * Query params: email, type, limit (default 50)
+ */
+router.get('/requests', validateQuery(requestsQuerySchema), privacyController.getRequests);
+
+export default router;
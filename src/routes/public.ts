@@ -2,7 +2,7 @@ import { Router } from 'express';
 import express from 'express';
 import * as publicController from '../controllers/publicController.js';
 import * as publicQuizController from '../controllers/publicQuizController.js';
-import { quizSubmitLimiter } from '../middleware/rateLimiter.js';
+import { quizProgressLimiter, quizSubmitLimiter } from '../middleware/rateLimiter.js';
 
 const router: Router = Router();
 
@@ -17,6 +17,16 @@ router.use(express.json());
 // GET /public/tenant/:slug - Get tenant/user info by slug
 router.get('/tenant/:slug', publicController.getTenantBySlug);
 
+/**
+ * Unsubscribe (signed token in the query string)
+ */
+
+// GET /public/unsubscribe - Confirmation page for the unsubscribe link in lead emails
+router.get('/unsubscribe', publicController.unsubscribePage);
+
+// POST /public/unsubscribe - Confirm, or one-click unsubscribe from the List-Unsubscribe header
+router.post('/unsubscribe', publicController.unsubscribe);
+
 /**
  * Quiz routes (must come before generic :slug routes)
  */
@@ -27,6 +37,9 @@ router.get('/:username/quiz/:slug', publicQuizController.getQuiz);
 // POST /public/:username/quiz/:slug/start - Record quiz start
 router.post('/:username/quiz/:slug/start', publicQuizController.startQuiz);
 
+// POST /public/:username/quiz/:slug/progress - Record a question viewed or answered
+router.post('/:username/quiz/:slug/progress', quizProgressLimiter, publicQuizController.recordProgress);
+
 // POST /public/:username/quiz/:slug/submit - Submit quiz
 router.post('/:username/quiz/:slug/submit', quizSubmitLimiter, publicQuizController.submitQuiz);
 
@@ -54,6 +67,12 @@ router.post('/:username/:slug/subscribe', publicController.subscribe);
  */
 router.post('/:username/:slug/subscribe-api', publicController.subscribeApi);
 
+/**
+ * GET /public/:username/:slug/confirm
+ * Double opt-in confirmation link (token in the query string)
+ */
+router.get('/:username/:slug/confirm', publicController.confirmSubscription);
+
 /**
  * GET /public/:username/:slug/thank-you
  * Show thank you page after form submission
@@ -4,13 +4,18 @@ import express from 'express';
 import { config } from '../config/index.js';
 import * as publicController from '../controllers/publicController.js';
 import * as publicQuizController from '../controllers/publicQuizController.js';
+import { quizProgressLimiter } from '../middleware/rateLimiter.js';
 import { User } from '../models/User.js';
+import { resolveCustomDomain } from '../services/customDomainService.js';
+import { logger } from '../utils/logger.js';
 
 const router: Router = Router();
 
 type PublicSubdomainRequest = Request & {
   _publicUsername?: string;
   _publicHostname?: string;
+  // Set on custom domains attached to a brand
+  _publicBrandId?: string;
 };
 
 // Parse URL-encoded bodies (for form submissions)
@@ -103,6 +108,7 @@ router.get('/__debug/host', (req, res) => {
       internal: {
         storedUsername: (req as PublicSubdomainRequest)._publicUsername,
         storedHostname: (req as PublicSubdomainRequest)._publicHostname,
+        storedBrandId: (req as PublicSubdomainRequest)._publicBrandId,
       },
       express: {
         hostname: req.hostname,
@@ -153,8 +159,9 @@ function isQuizSubdomain(hostname: string): boolean {
   return host === `quiz.${root}`;
 }
 
-// Guard: only handle requests on username subdomains or quiz subdomain of the public root domain.
-router.use((req, _res, next) => {
+// Guard: only handle requests on username subdomains, the quiz subdomain of the public root domain,
+// or verified custom domains.
+router.use(async (req, _res, next) => {
   // Prefer original host forwarded by proxies/CDN/edge.
   const hostname = getOriginalHostname(req) || req.hostname;
   
@@ -167,7 +174,20 @@ router.use((req, _res, next) => {
   
   // Otherwise, try to extract username
   const username = extractUsernameFromHostname(hostname);
-  if (!username) return next();
+  if (!username) {
+    // Custom domains (e.g. resources.client.com) serve the same routes as the owner's subdomain
+    try {
+      const customDomain = await resolveCustomDomain(hostname);
+      if (customDomain) {
+        (req as PublicSubdomainRequest)._publicUsername = customDomain.username;
+        (req as PublicSubdomainRequest)._publicHostname = hostname;
+        (req as PublicSubdomainRequest)._publicBrandId = customDomain.brandId;
+      }
+    } catch (err) {
+      logger.error('Failed to resolve custom domain', err as Error);
+    }
+    return next();
+  }
   // NOTE: don't write to req.params here. Express overwrites req.params during route matching.
   // Store on the request instead, then copy into params inside each route handler.
   (req as PublicSubdomainRequest)._publicUsername = username;
@@ -212,6 +232,28 @@ router.get('/tenant/validate', (req, res, next) => {
   return publicController.getTenantBySlug(req, res, next);
 });
 
+// ============================================
+// Unsubscribe
+// ============================================
+
+/**
+ * GET /unsubscribe
+ * Confirmation page for the unsubscribe link in lead emails (signed token in the query string)
+ */
+router.get('/unsubscribe', (req, res, next) => {
+  if (!(req as PublicSubdomainRequest)._publicHostname) return next();
+  return publicController.unsubscribePage(req, res, next);
+});
+
+/**
+ * POST /unsubscribe
+ * Confirm, or one-click unsubscribe from the List-Unsubscribe header
+ */
+router.post('/unsubscribe', (req, res, next) => {
+  if (!(req as PublicSubdomainRequest)._publicHostname) return next();
+  return publicController.unsubscribe(req, res, next);
+});
+
 // ============================================
 // Quiz Subdomain Routes (quiz.magnethubai.com/{username}/{slug})
 // ============================================
@@ -237,6 +279,16 @@ router.post('/:username/:slug/start', (req, res, next) => {
   return publicQuizController.startQuiz(req, res, next);
 });
 
+/**
+ * POST /:username/:slug/progress
+ * Record a question viewed or answered on quiz subdomain
+ */
+router.post('/:username/:slug/progress', quizProgressLimiter, (req, res, next) => {
+  const isQuiz = (req as any)._isQuizSubdomain;
+  if (!isQuiz) return next();
+  return publicQuizController.recordProgress(req, res, next);
+});
+
 /**
  * POST /:username/:slug/submit
  * Submit quiz on quiz subdomain
@@ -273,6 +325,17 @@ router.post('/quiz/:slug/start', (req, res, next) => {
   return publicQuizController.startQuiz(req, res, next);
 });
 
+/**
+ * POST /quiz/:slug/progress
+ * Record a question viewed or answered
+ */
+router.post('/quiz/:slug/progress', quizProgressLimiter, (req, res, next) => {
+  const username = (req as PublicSubdomainRequest)._publicUsername;
+  if (!username) return next();
+  (req.params as Record<string, string>).username = username;
+  return publicQuizController.recordProgress(req, res, next);
+});
+
 /**
  * POST /quiz/:slug/submit
  * Submit quiz answers and email, get result
@@ -332,6 +395,17 @@ router.post('/:slug/subscribe-api', (req, res, next) => {
   return publicController.subscribeApi(req, res, next);
 });
 
+/**
+ * GET /:slug/confirm
+ * Double opt-in confirmation link (token in the query string)
+ */
+router.get('/:slug/confirm', (req, res, next) => {
+  const username = (req as PublicSubdomainRequest)._publicUsername;
+  if (!username) return next();
+  (req.params as Record<string, string>).username = username;
+  return publicController.confirmSubscription(req, res, next);
+});
+
 /**
  * GET /:slug/thank-you
  * Show thank you page after form submission
@@ -1,21 +1,32 @@
 import { Router } from 'express';
-import { isAuthenticated } from '../middleware/auth.js';
+import multer from 'multer';
+import { requireScope } from '../middleware/auth.js';
+import { withLLMContext } from '../middleware/llmContext.js';
+import { readOnlyForViewers } from '../middleware/workspace.js';
 import * as quizController from '../controllers/quizController.js';
 
 const router = Router();
 
-// All routes require authentication
-router.use(isAuthenticated);
+// Images for image-choice answers (type and size are checked in the controller)
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+});
+
+// All routes require authentication (session, or an API key with the quizzes:manage scope); viewers can only read
+router.use(requireScope('quizzes:manage'), readOnlyForViewers);
 
 // ============================================
 // AI Generation Endpoints
 // ============================================
 
 // POST /api/quizzes/generate-questions
-router.post('/generate-questions', quizController.generateQuestionsHandler);
+router.post('/generate-questions', withLLMContext, quizController.generateQuestionsHandler);
 
 // POST /api/quizzes/generate-results
-router.post('/generate-results', quizController.generateResultsHandler);
+router.post('/generate-results', withLLMContext, quizController.generateResultsHandler);
 
 // POST /api/quizzes/generate-mapping
 router.post('/generate-mapping', quizController.generateMappingHandler);
@@ -39,6 +50,9 @@ router.patch('/:id', quizController.update);
 // DELETE /api/quizzes/:id - Delete quiz
 router.delete('/:id', quizController.remove);
 
+// POST /api/quizzes/:id/images - Upload an image for an image-choice answer
+router.post('/:id/images', imageUpload.single('image'), quizController.uploadQuestionImage);
+
 // ============================================
 // Publishing
 // ============================================
@@ -60,6 +74,7 @@ router.get('/:id/responses', quizController.getResponses);
 router.get('/:id/responses/export', quizController.exportResponsesCsv);
 
 // GET /api/quizzes/:id/analytics - Get quiz analytics
+// Query params: days (question funnel window, default 30, max 365)
 router.get('/:id/analytics', quizController.getAnalytics);
 
 export default router;
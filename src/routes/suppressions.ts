@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import { readOnlyForViewers } from '../middleware/workspace.js';
+import * as suppressionController from '../controllers/suppressionController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format');
+
+const listQuerySchema = z.object({
+  limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+  email: z.string().trim().email('Invalid email').optional(),
+});
+
+const createSuppressionSchema = z.object({
+  email: z.string().trim().email('Invalid email'),
+});
+
+const idParamSchema = z.object({
+  id: objectIdSchema,
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// All routes require authentication; viewers can only read
+router.use(isAuthenticated, readOnlyForViewers);
+
+/**
+ * GET /api/suppressions
+ * Addresses your lead emails are no longer sent to, newest first
+ * Query params: email, limit (default 50)
+ */
+router.get('/', validateQuery(listQuerySchema), suppressionController.getAll);
+
+/**
+ * POST /api/suppressions
+ * Stop emailing an address; its leads are marked unsubscribed and pending sequence emails cancelled
+ */
+router.post('/', validateBody(createSuppressionSchema), suppressionController.create);
+
+/**
+ * DELETE /api/suppressions/:id
+ * Allow emailing an address again (new signups only)
+ */
+router.delete('/:id', validateParams(idParamSchema), suppressionController.remove);
+
+export default router;
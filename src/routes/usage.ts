@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateQuery } from '../middleware/validate.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import * as usageController from '../controllers/usageController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+// IANA zone such as Europe/Berlin; an unknown one would fail the aggregation with a 500
+const timezone = z.string().max(64).refine((value) => {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid timezone');
+
+const rangeQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+const summaryQuerySchema = rangeQuerySchema.extend({
+  period: z.enum(['day', 'week', 'month']).optional(),
+  timezone: timezone.optional(),
+});
+
+const leadMagnetQuerySchema = rangeQuerySchema.extend({
+  limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// All routes require authentication
+router.use(isAuthenticated);
+
+/**
+ * GET /api/usage
+ * AI usage and estimated cost aggregates for the authenticated user
+ * Query params: from, to (ISO dates, default last 30 days), period (day | week | month), timezone
+ */
+router.get('/', validateQuery(summaryQuerySchema), usageController.getSummary);
+
+/**
+ * GET /api/usage/lead-magnets
+ * AI cost per lead magnet, most expensive first
+ * Query params: from, to, limit (default 20)
+ */
+router.get('/lead-magnets', validateQuery(leadMagnetQuerySchema), usageController.getByLeadMagnet);
+
+export default router;
@@ -0,0 +1,108 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import { readOnlyForViewers } from '../middleware/workspace.js';
+import * as webhookController from '../controllers/webhookController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format');
+
+const eventSchema = z.enum(['lead.created', 'quiz.completed', 'lead_magnet.generated']);
+
+const createEndpointSchema = z.object({
+  url: z.string().url('Enter a valid URL').max(2000),
+  events: z.array(eventSchema).min(1, 'Select at least one event'),
+  description: z.string().trim().max(200).optional(),
+});
+
+const updateEndpointSchema = createEndpointSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const testEventSchema = z.object({
+  event: eventSchema.optional(),
+});
+
+const deliveriesQuerySchema = z.object({
+  limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+  status: z.enum(['pending', 'sending', 'succeeded', 'failed']).optional(),
+});
+
+const idParamSchema = z.object({
+  id: objectIdSchema,
+});
+
+const deliveryParamSchema = idParamSchema.extend({
+  deliveryId: objectIdSchema,
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// All routes require authentication; viewers can only read
+router.use(isAuthenticated, readOnlyForViewers);
+
+/**
+ * GET /api/webhooks
+ * List webhook endpoints and the available event types
+ */
+router.get('/', webhookController.getAll);
+
+/**
+ * POST /api/webhooks
+ * Add an endpoint. The response includes the signing secret, which is not shown again.
+ */
+router.post('/', validateBody(createEndpointSchema), webhookController.create);
+
+/**
+ * GET /api/webhooks/:id
+ * Get a single endpoint
+ */
+router.get('/:id', validateParams(idParamSchema), webhookController.getOne);
+
+/**
+ * PATCH /api/webhooks/:id
+ * Update URL, events, description or pause/resume with isActive
+ */
+router.patch('/:id', validateParams(idParamSchema), validateBody(updateEndpointSchema), webhookController.update);
+
+/**
+ * DELETE /api/webhooks/:id
+ * Delete an endpoint and its delivery log
+ */
+router.delete('/:id', validateParams(idParamSchema), webhookController.remove);
+
+/**
+ * POST /api/webhooks/:id/rotate-secret
+ * Replace the signing secret; returns the new one
+ */
+router.post('/:id/rotate-secret', validateParams(idParamSchema), webhookController.rotateSecret);
+
+/**
+ * POST /api/webhooks/:id/test
+ * Send a signed sample event now and return the delivery result
+ * Body: event (optional, defaults to the endpoint's first event)
+ */
+router.post('/:id/test', validateParams(idParamSchema), validateBody(testEventSchema), webhookController.sendTest);
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Delivery log, newest first (kept for 30 days)
+ * Query params: limit (default 50), status
+ */
+router.get('/:id/deliveries', validateParams(idParamSchema), validateQuery(deliveriesQuerySchema), webhookController.getDeliveries);
+
+/**
+ * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Send a finished delivery again
+ */
+router.post('/:id/deliveries/:deliveryId/redeliver', validateParams(deliveryParamSchema), webhookController.redeliver);
+
+export default router;
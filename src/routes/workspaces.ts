@@ -0,0 +1,131 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateBody, validateParams } from '../middleware/validate.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import * as workspaceController from '../controllers/workspaceController.js';
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID format');
+
+const memberRoleSchema = z.enum(['editor', 'viewer']);
+
+const idParamSchema = z.object({
+  id: objectIdSchema,
+});
+
+const memberParamSchema = z.object({
+  id: objectIdSchema,
+  memberId: objectIdSchema,
+});
+
+const inviteParamSchema = z.object({
+  id: objectIdSchema,
+  inviteId: objectIdSchema,
+});
+
+const updateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less').optional(),
+  requireTwoFactor: z.boolean().optional(),
+}).refine(
+  (data) => data.name !== undefined || data.requireTwoFactor !== undefined,
+  { message: 'Nothing to update' }
+);
+
+const updateMemberSchema = z.object({
+  role: memberRoleSchema.optional(),
+  requireTwoFactor: z.boolean().optional(),
+}).refine(
+  (data) => data.role !== undefined || data.requireTwoFactor !== undefined,
+  { message: 'Nothing to update' }
+);
+
+const createInviteSchema = z.object({
+  email: z.string().trim().email('Invalid email'),
+  role: memberRoleSchema,
+});
+
+const acceptInviteSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+// All routes require authentication
+router.use(isAuthenticated);
+
+/**
+ * GET /api/workspaces
+ * Workspaces you belong to with your role in each, your own first.
+ * Send X-Workspace-Id with any API request to act in another workspace.
+ */
+router.get('/', workspaceController.getAll);
+
+/**
+ * GET /api/workspaces/current
+ * The workspace this request acts in and your role there
+ */
+router.get('/current', workspaceController.getCurrent);
+
+/**
+ * POST /api/workspaces/invites/accept
+ * Join a workspace with the token from an invitation email.
+ * The invitation must have been sent to your account's email address.
+ */
+router.post('/invites/accept', validateBody(acceptInviteSchema), workspaceController.accept);
+
+/**
+ * PATCH /api/workspaces/:id
+ * Rename the workspace, or require two-factor authentication from all members (owner only)
+ */
+router.patch('/:id', validateParams(idParamSchema), validateBody(updateWorkspaceSchema), workspaceController.update);
+
+/**
+ * GET /api/workspaces/:id/members
+ * Members of the workspace and their roles
+ */
+router.get('/:id/members', validateParams(idParamSchema), workspaceController.getMembers);
+
+/**
+ * PATCH /api/workspaces/:id/members/:memberId
+ * Change a member's role or require two-factor authentication from them (owner only)
+ */
+router.patch(
+  '/:id/members/:memberId',
+  validateParams(memberParamSchema),
+  validateBody(updateMemberSchema),
+  workspaceController.updateMember
+);
+
+/**
+ * DELETE /api/workspaces/:id/members/:memberId
+ * Remove a member (owner), or leave the workspace (your own membership)
+ */
+router.delete('/:id/members/:memberId', validateParams(memberParamSchema), workspaceController.removeMemberFromWorkspace);
+
+/**
+ * GET /api/workspaces/:id/invites
+ * Pending invitations (owner only)
+ */
+router.get('/:id/invites', validateParams(idParamSchema), workspaceController.getInvites);
+
+/**
+ * POST /api/workspaces/:id/invites
+ * Invite someone by email as an editor or viewer (owner only).
+ * Inviting the same address again replaces the earlier invitation.
+ */
+router.post('/:id/invites', validateParams(idParamSchema), validateBody(createInviteSchema), workspaceController.invite);
+
+/**
+ * DELETE /api/workspaces/:id/invites/:inviteId
+ * Revoke a pending invitation (owner only)
+ */
+router.delete('/:id/invites/:inviteId', validateParams(inviteParamSchema), workspaceController.revoke);
+
+export default router;
@@ -0,0 +1,309 @@
+import type { Types } from 'mongoose';
+import { User } from '../models/User.js';
+import { Brand } from '../models/Brand.js';
+import { LeadMagnet } from '../models/LeadMagnet.js';
+import { LeadMagnetRevision } from '../models/LeadMagnetRevision.js';
+import { Lead } from '../models/Lead.js';
+import { PageView } from '../models/PageView.js';
+import { Quiz } from '../models/Quiz.js';
+import { QuizResponse } from '../models/QuizResponse.js';
+import { Subscription } from '../models/Subscription.js';
+import { SequenceEmail } from '../models/SequenceEmail.js';
+import { Job } from '../models/Job.js';
+import { AIUsage } from '../models/AIUsage.js';
+import { CustomDomain } from '../models/CustomDomain.js';
+import { LandingExperiment } from '../models/LandingExperiment.js';
+import { WebhookEndpoint } from '../models/WebhookEndpoint.js';
+import { WebhookDelivery } from '../models/WebhookDelivery.js';
+import { ApiKey } from '../models/ApiKey.js';
+import { CrmConnection } from '../models/CrmConnection.js';
+import { CrmSync } from '../models/CrmSync.js';
+import { Suppression } from '../models/Suppression.js';
+import { DataRequest } from '../models/DataRequest.js';
+import { enqueueJob, registerJobHandler, type JobContext } from './jobService.js';
+import { uploadFile, downloadFile, getSignedFileUrl, deleteFile, deletePdf, deleteImage, deleteQuizImages } from './storageService.js';
+import { stripeService } from './stripeService.js';
+import { deleteRevisions } from './revisionService.js';
+import { removeCustomDomain } from './customDomainService.js';
+import { deleteWorkspacesOfUser } from './workspaceService.js';
+import { createZip, type ZipEntry } from '../utils/zip.js';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type { IJob, ILeadMagnet, IUser } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Subscriptions Stripe may still bill
+const BILLABLE_STATUSES = ['active', 'trialing', 'past_due', 'incomplete'];
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Queue a zip export of the account. An export already in progress is returned instead of a new one.
+ */
+export async function requestAccountExport(userId: Types.ObjectId): Promise<IJob> {
+  const pending = await Job.findOne({ userId, type: 'account.export', status: { $in: ['queued', 'running'] } });
+  if (pending) {
+    return pending;
+  }
+
+  return enqueueJob({ type: 'account.export', userId, payload: {} });
+}
+
+/**
+ * Short-lived download URL for a finished export.
+ */
+export async function getAccountExportDownloadUrl(
+  userId: Types.ObjectId,
+  jobId: string
+): Promise<{ url: string; expiresAt: Date }> {
+  const job = await Job.findOne({ _id: jobId, userId, type: 'account.export' });
+  if (!job) {
+    throw AppError.notFound('Export not found');
+  }
+  if (job.status !== 'completed' || typeof job.result?.fileUrl !== 'string') {
+    throw AppError.conflict('Export is not ready yet', 'EXPORT_NOT_READY');
+  }
+
+  const availableUntil = new Date(String(job.result.expiresAt));
+  if (availableUntil.getTime() <= Date.now()) {
+    throw AppError.notFound('Export has expired, please request a new one', 'EXPORT_EXPIRED');
+  }
+
+  const ttl = config.accountExport.downloadUrlTtlSeconds;
+  const url = await getSignedFileUrl(job.result.fileUrl, 'application/zip', ttl);
+  return { url, expiresAt: new Date(Date.now() + ttl * 1000) };
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+function fileExtension(url: string, fallback: string): string {
+  const match = /\.([a-z0-9]{2,5})(?:$|\?)/i.exec(url);
+  return match ? match[1].toLowerCase() : fallback;
+}
+
+// Stored files of a lead magnet, with the name they get inside its export folder
+function getLeadMagnetFiles(leadMagnet: ILeadMagnet): Array<{ url: string; name: string }> {
+  const files: Array<{ url: string; name: string }> = [];
+  if (leadMagnet.pdfUrl) {
+    files.push({ url: leadMagnet.pdfUrl, name: 'lead-magnet.pdf' });
+  }
+  if (leadMagnet.infographicUrl) {
+    files.push({ url: leadMagnet.infographicUrl, name: `infographic.${fileExtension(leadMagnet.infographicUrl, 'png')}` });
+  }
+  if (leadMagnet.uploadedFileUrl) {
+    const name = leadMagnet.uploadedFileName || `upload.${fileExtension(leadMagnet.uploadedFileUrl, 'bin')}`;
+    files.push({ url: leadMagnet.uploadedFileUrl, name: name.replace(/[\\/]/g, '_') });
+  }
+  return files;
+}
+
+async function runAccountExportJob({ job, reportProgress }: JobContext): Promise<Record<string, unknown>> {
+  const userId = job.userId;
+  const user = await User.findById(userId);
+  if (!user) {
+    throw AppError.notFound('User not found');
+  }
+
+  await reportProgress('collecting', 5, 'Collecting your data');
+
+  const [subscription, brands, leadMagnets, quizzes] = await Promise.all([
+    Subscription.findOne({ userId }).sort({ createdAt: -1 }),
+    Brand.find({ userId }).sort({ createdAt: 1 }),
+    LeadMagnet.find({ userId }).sort({ createdAt: 1 }),
+    Quiz.find({ userId }).sort({ createdAt: 1 }),
+  ]);
+  const [leads, quizResponses] = await Promise.all([
+    Lead.find({ leadMagnetId: { $in: leadMagnets.map((lm) => lm._id) } }).sort({ createdAt: 1 }),
+    QuizResponse.find({ quizId: { $in: quizzes.map((q) => q._id) } }).sort({ createdAt: 1 }),
+  ]);
+
+  const entries: ZipEntry[] = [
+    { name: 'account.json', data: toJson({ user, subscription }) },
+    { name: 'brands.json', data: toJson(brands) },
+    { name: 'quizzes.json', data: toJson(quizzes) },
+    { name: 'leads.json', data: toJson(leads) },
+    { name: 'quiz-responses.json', data: toJson(quizResponses) },
+  ];
+
+  // One folder per lead magnet with its content JSON and stored files
+  const missingFiles: Array<{ leadMagnetId: string; url: string }> = [];
+  const usedFolders = new Set<string>();
+  for (const [index, leadMagnet] of leadMagnets.entries()) {
+    const folder = usedFolders.has(leadMagnet.slug) ? `${leadMagnet.slug}-${leadMagnet._id.toString()}` : leadMagnet.slug;
+    usedFolders.add(folder);
+
+    entries.push({ name: `lead-magnets/${folder}/lead-magnet.json`, data: toJson(leadMagnet) });
+
+    for (const file of getLeadMagnetFiles(leadMagnet)) {
+      try {
+        entries.push({ name: `lead-magnets/${folder}/${file.name}`, data: await downloadFile(file.url) });
+      } catch (error) {
+        logger.warn('Account export: could not download file', {
+          jobId: job._id,
+          leadMagnetId: leadMagnet._id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        missingFiles.push({ leadMagnetId: leadMagnet._id.toString(), url: file.url });
+      }
+    }
+
+    await reportProgress('files', 10 + Math.round(((index + 1) / leadMagnets.length) * 70), 'Bundling lead magnet files');
+  }
+
+  const counts = {
+    brands: brands.length,
+    leadMagnets: leadMagnets.length,
+    quizzes: quizzes.length,
+    leads: leads.length,
+    quizResponses: quizResponses.length,
+  };
+  entries.unshift({
+    name: 'export.json',
+    data: toJson({ exportedAt: new Date().toISOString(), counts, missingFiles }),
+  });
+
+  await reportProgress('packaging', 85, 'Creating the zip file');
+  const archive = createZip(entries);
+
+  await reportProgress('uploading', 92, 'Uploading the export');
+  const fileName = `magnethub-export-${new Date().toISOString().slice(0, 10)}.zip`;
+  const fileUrl = await uploadFile({
+    buffer: archive,
+    mimeType: 'application/zip',
+    originalFilename: fileName,
+    folder: 'exports',
+    userId: userId.toString(),
+  });
+
+  // Only the newest export is kept
+  const previousExports = await Job.find({ userId, type: 'account.export', status: 'completed', _id: { $ne: job._id } });
+  for (const previous of previousExports) {
+    if (typeof previous.result?.fileUrl === 'string') {
+      await deleteFile(previous.result.fileUrl);
+      await Job.updateOne({ _id: previous._id }, { $unset: { 'result.fileUrl': 1 } });
+    }
+  }
+
+  logger.info('Account export created', { userId, jobId: job._id, sizeBytes: archive.length, counts });
+
+  return {
+    fileUrl,
+    fileName,
+    sizeBytes: archive.length,
+    counts,
+    expiresAt: new Date(Date.now() + config.accountExport.availableDays * DAY_MS),
+  };
+}
+
+/**
+ * Register the account export handler with the job worker
+ */
+export function registerAccountJobHandlers(): void {
+  registerJobHandler('account.export', {
+    run: runAccountExportJob,
+  });
+}
+
+// ============================================
+// Deletion
+// ============================================
+
+async function deleteLeadMagnetFiles(leadMagnet: ILeadMagnet): Promise<void> {
+  if (leadMagnet.pdfUrl) await deletePdf(leadMagnet.pdfUrl);
+  if (leadMagnet.infographicUrl) await deleteImage(leadMagnet.infographicUrl);
+  if (leadMagnet.uploadedFileUrl) await deleteFile(leadMagnet.uploadedFileUrl);
+  await deleteRevisions(leadMagnet);
+}
+
+/**
+ * Permanently delete the account: the Stripe subscription is cancelled right away (aborting
+ * the deletion if that fails, so nobody is billed for a deleted account), stored files are
+ * removed from R2 and every document owned by the user, or by their client sub-accounts, is purged.
+ */
+export async function deleteAccount(user: IUser): Promise<void> {
+  const userId = user._id;
+
+  const subscriptions = await Subscription.find({
+    userId,
+    stripeSubscriptionId: { $exists: true, $ne: null },
+    status: { $in: BILLABLE_STATUSES },
+  });
+  for (const subscription of subscriptions) {
+    try {
+      await stripeService.cancelSubscriptionNow(subscription.stripeSubscriptionId!);
+    } catch (error) {
+      logger.error('Account deletion aborted: subscription could not be cancelled', {
+        userId,
+        subscriptionId: subscription.stripeSubscriptionId,
+        error,
+      });
+      throw AppError.internal(
+        'We could not cancel your subscription. Please try again or contact support.',
+        'SUBSCRIPTION_CANCEL_FAILED'
+      );
+    }
+  }
+
+  // Agency client sub-accounts go with the agency
+  const clients = await User.find({ agencyOwnerId: userId });
+  for (const client of clients) {
+    await deleteAccount(client);
+  }
+
+  const leadMagnets = await LeadMagnet.find({ userId });
+  for (const leadMagnet of leadMagnets) {
+    await deleteLeadMagnetFiles(leadMagnet);
+  }
+
+  const quizzes = await Quiz.find({ userId }).select('questions');
+  for (const quiz of quizzes) {
+    await deleteQuizImages(quiz);
+  }
+
+  const exportUrls = await Job.distinct('result.fileUrl', { userId, type: 'account.export' });
+  for (const url of exportUrls) {
+    if (typeof url === 'string' && url) await deleteFile(url);
+  }
+
+  const domains = await CustomDomain.find({ userId }).select('_id');
+  for (const domain of domains) {
+    await removeCustomDomain(userId, domain._id.toString());
+  }
+
+  const leadMagnetIds = leadMagnets.map((lm) => lm._id);
+  const quizIds = quizzes.map((q) => q._id);
+
+  await Promise.all([
+    Lead.deleteMany({ leadMagnetId: { $in: leadMagnetIds } }),
+    PageView.deleteMany({ leadMagnetId: { $in: leadMagnetIds } }),
+    SequenceEmail.deleteMany({ leadMagnetId: { $in: leadMagnetIds } }),
+    QuizResponse.deleteMany({ quizId: { $in: quizIds } }),
+    LeadMagnetRevision.deleteMany({ userId }),
+    LandingExperiment.deleteMany({ userId }),
+    LeadMagnet.deleteMany({ userId }),
+    Quiz.deleteMany({ userId }),
+    Brand.deleteMany({ userId }),
+    Job.deleteMany({ userId }),
+    AIUsage.deleteMany({ userId }),
+    WebhookEndpoint.deleteMany({ userId }),
+    WebhookDelivery.deleteMany({ userId }),
+    ApiKey.deleteMany({ userId }),
+    CrmConnection.deleteMany({ userId }),
+    CrmSync.deleteMany({ userId }),
+    Suppression.deleteMany({ userId }),
+    DataRequest.deleteMany({ userId }),
+    deleteWorkspacesOfUser(userId),
+  ]);
+
+  // Last, so a subscription recreated by a Stripe webhook during the deletion is removed too
+  await Subscription.deleteMany({ userId });
+  await User.deleteOne({ _id: userId });
+
+  logger.info('Account deleted', { userId, leadMagnets: leadMagnets.length, quizzes: quizIds.length });
+}
@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { User } from '../models/User.js';
+import { Workspace } from '../models/Workspace.js';
+import { billingService } from './billingService.js';
+import { createClientWorkspace, createInvite, type InviteRole } from './workspaceService.js';
+import { deleteAccount } from './accountService.js';
+import { config, type PlanType } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type { IUser, IWorkspaceInvite } from '../types/index.js';
+
+// Sub-accounts have no mailbox; a reserved TLD keeps the address unique and unusable for login
+const CLIENT_EMAIL_DOMAIN = 'clients.magnethub.invalid';
+
+export interface ClientAccount {
+  id: string;
+  name: string;
+  username: string;
+  workspaceId: string | null;
+  createdAt: Date;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * The agency account behind a request. Client sub-accounts cannot manage clients themselves.
+ */
+export async function getAgencyAccount(accountId: Types.ObjectId): Promise<IUser> {
+  const agency = await User.findById(accountId);
+  if (!agency) {
+    throw AppError.notFound('User not found');
+  }
+  if (agency.agencyOwnerId) {
+    throw AppError.forbidden('Client accounts are managed by their agency', 'CLIENT_ACCOUNT');
+  }
+  return agency;
+}
+
+async function getPlanLimits(agency: IUser) {
+  const subscription = await billingService.getOrCreateSubscription(agency._id.toString());
+  return config.planLimits[subscription.plan as PlanType];
+}
+
+async function normalizeUsername(username: string, excludeId?: Types.ObjectId): Promise<string> {
+  const normalized = username.trim().toLowerCase();
+  if (config.publicReservedSubdomains.includes(normalized)) {
+    throw AppError.badRequest('This subdomain is reserved. Please choose a different one.');
+  }
+
+  const existing = await User.findOne({ username: normalized, ...(excludeId && { _id: { $ne: excludeId } }) });
+  if (existing) {
+    throw AppError.conflict('This username is already taken');
+  }
+  return normalized;
+}
+
+async function toClientAccount(client: IUser): Promise<ClientAccount> {
+  const workspace = await Workspace.findOne({ ownerId: client._id }).select('_id');
+  return {
+    id: client._id.toString(),
+    name: client.name,
+    username: client.username,
+    workspaceId: workspace?._id.toString() ?? null,
+    createdAt: client.createdAt,
+  };
+}
+
+async function findClient(agencyId: Types.ObjectId, clientId: string): Promise<IUser> {
+  const client = await User.findOne({ _id: clientId, agencyOwnerId: agencyId });
+  if (!client) {
+    throw AppError.notFound('Client account not found');
+  }
+  return client;
+}
+
+// ============================================
+// Client Accounts
+// ============================================
+
+export async function listClientAccounts(agencyId: Types.ObjectId): Promise<ClientAccount[]> {
+  const clients = await User.find({ agencyOwnerId: agencyId }).sort({ name: 1 });
+  return Promise.all(clients.map(toClientAccount));
+}
+
+/**
+ * Create a client sub-account with its own username (public subdomain) and workspace.
+ * Its brands, lead magnets, quizzes and analytics are kept apart from the agency's;
+ * usage counts against the agency's subscription.
+ */
+export async function createClientAccount(
+  agency: IUser,
+  input: { name: string; username: string }
+): Promise<ClientAccount> {
+  const limits = await getPlanLimits(agency);
+  const count = await User.countDocuments({ agencyOwnerId: agency._id });
+  if (count >= limits.clientAccounts) {
+    throw AppError.forbidden(
+      limits.clientAccounts === 0
+        ? 'Client accounts are available on the Agency plan'
+        : `Your plan allows up to ${limits.clientAccounts} client accounts`,
+      'CLIENT_ACCOUNT_LIMIT'
+    );
+  }
+
+  const username = await normalizeUsername(input.username);
+  const client = await User.create({
+    email: `${crypto.randomUUID()}@${CLIENT_EMAIL_DOMAIN}`,
+    name: input.name,
+    username,
+    agencyOwnerId: agency._id,
+    hasCompletedOnboarding: true,
+  });
+  await createClientWorkspace(client, agency._id);
+
+  logger.info('Client account created', { agencyId: agency._id, clientId: client._id, username });
+  return toClientAccount(client);
+}
+
+export async function updateClientAccount(
+  agencyId: Types.ObjectId,
+  clientId: string,
+  input: { name?: string; username?: string }
+): Promise<ClientAccount> {
+  const client = await findClient(agencyId, clientId);
+
+  if (input.username !== undefined) {
+    client.username = await normalizeUsername(input.username, client._id);
+  }
+  if (input.name !== undefined) {
+    client.name = input.name;
+    await Workspace.updateOne({ ownerId: client._id }, { $set: { name: input.name } });
+  }
+  await client.save();
+
+  return toClientAccount(client);
+}
+
+/**
+ * Delete a client sub-account with everything it owns
+ */
+export async function deleteClientAccount(agencyId: Types.ObjectId, clientId: string): Promise<void> {
+  const client = await findClient(agencyId, clientId);
+  await deleteAccount(client);
+
+  logger.info('Client account deleted', { agencyId, clientId });
+}
+
+/**
+ * Give a client a login to their sub-account: an invitation to its workspace as an
+ * editor or viewer. Billing and agency settings stay with the agency.
+ */
+export async function inviteClientLogin(
+  agency: IUser,
+  clientId: string,
+  input: { email: string; role: InviteRole }
+): Promise<IWorkspaceInvite> {
+  const client = await findClient(agency._id, clientId);
+  const workspace = await Workspace.findOne({ ownerId: client._id });
+  if (!workspace) {
+    throw AppError.notFound('Client workspace not found');
+  }
+
+  return createInvite(workspace, agency, input);
+}
+
+// ============================================
+// White-Label
+// ============================================
+
+/**
+ * Turn MagnetHub branding off or on for the agency and all of its client accounts
+ */
+export async function setHideBranding(agency: IUser, hideBranding: boolean): Promise<IUser> {
+  if (hideBranding && !(await getPlanLimits(agency)).whiteLabel) {
+    throw AppError.forbidden('White-labeling is available on the Agency plan', 'WHITE_LABEL_NOT_AVAILABLE');
+  }
+
+  agency.hideBranding = hideBranding;
+  await agency.save();
+
+  logger.info('White-label setting changed', { agencyId: agency._id, hideBranding });
+  return agency;
+}
@@ -1,14 +1,13 @@
-import OpenAI from 'openai';
-import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { AppError } from '../utils/AppError.js';
 import { scrapeWebsite, formatScrapedContentForPrompt, extractBrandFromWebsite, type ExtractedBrand } from './scraperService.js';
 import { scrapeInstagramProfile, formatInstagramProfileForPrompt, isInstagramUrl } from './instagramService.js';
 import { scrapeYouTubeChannel, formatYouTubeChannelForPrompt, isYouTubeUrl } from './youtubeService.js';
+import { completeJson } from './llmService.js';
 import type {
   IBusinessMeta,
   IOutline,
   ILeadMagnetContent,
+  IContentSection,
   ILandingPageCopy,
   IEmailSequence,
   LeadMagnetType,
@@ -20,93 +19,6 @@ import type {
   IYouTubeChannel,
 } from '../types/index.js';
 
-const openai = new OpenAI({
-  apiKey: config.openaiApiKey,
-});
-
-const MAX_RETRIES = 3;
-const RETRY_DELAY = 1000;
-
-// ============================================
-// Helper Functions
-// ============================================
-
-async function callOpenAI<T>(
-  systemPrompt: string,
-  userPrompt: string,
-  retries = MAX_RETRIES,
-  options?: { maxOutputTokens?: number }
-): Promise<T> {
-  try {
-    // Combine system and user prompts for the Responses API
-    const input = `${systemPrompt}\n\n---\n\n${userPrompt}`;
-    
-    const response = await openai.responses.create({
-      model: 'gpt-5.1',
-      input,
-      ...(options?.maxOutputTokens ? { max_output_tokens: options.maxOutputTokens } : {}),
-      text: {
-        format: {
-          type: 'json_object',
-        },
-      },
-    });
-
-    const content = response.output_text;
-    if (!content) {
-      throw new Error('Empty response from OpenAI');
-    }
-
-    // Be tolerant of occasional stray text around the JSON object.
-    const firstBrace = content.indexOf('{');
-    const lastBrace = content.lastIndexOf('}');
-    const jsonCandidate =
-      firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace
-        ? content.slice(firstBrace, lastBrace + 1)
-        : content;
-
-    try {
-      return JSON.parse(jsonCandidate) as T;
-    } catch (parseError) {
-      // If output was truncated due to token limits, retry with a slightly higher cap.
-      const looksTruncated =
-        typeof content === 'string' &&
-        content.includes('{') &&
-        !content.trim().endsWith('}');
-
-      if (looksTruncated && retries > 0 && options?.maxOutputTokens) {
-        const bumped = Math.min(Math.round(options.maxOutputTokens * 1.4 + 200), 8000);
-        logger.warn('OpenAI returned truncated JSON; retrying with higher max_output_tokens', {
-          from: options.maxOutputTokens,
-          to: bumped,
-          retriesLeft: retries - 1,
-        });
-        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-        return callOpenAI<T>(systemPrompt, userPrompt, retries - 1, { ...options, maxOutputTokens: bumped });
-      }
-
-      logger.warn('Failed to parse OpenAI JSON output', {
-        message: parseError instanceof Error ? parseError.message : String(parseError),
-        // keep logs small; enough to diagnose
-        preview: content.slice(0, 500),
-      });
-      throw parseError;
-    }
-  } catch (error) {
-    if (retries > 0) {
-      logger.warn('OpenAI call failed, retrying...', { retriesLeft: retries - 1 });
-      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-      return callOpenAI<T>(systemPrompt, userPrompt, retries - 1, options);
-    }
-
-    logger.error('OpenAI call failed after retries', {
-      message: error instanceof Error ? error.message : String(error),
-      error,
-    });
-    throw AppError.internal('AI service temporarily unavailable. Please try again.');
-  }
-}
-
 // ============================================
 // Call #1: Website Understanding
 // ============================================
@@ -139,7 +51,7 @@ ${formattedContent}
 
 Extract comprehensive business insights.`;
 
-  return callOpenAI<IBusinessMeta>(systemPrompt, userPrompt);
+  return completeJson<IBusinessMeta>({ task: 'business_meta', systemPrompt, userPrompt });
 }
 
 // ============================================
@@ -198,7 +110,7 @@ ${formattedContent}
 
 Infer their business/offering and target audience from this social presence.`;
 
-  const meta = await callOpenAI<IBusinessMeta>(systemPrompt, userPrompt);
+  const meta = await completeJson<IBusinessMeta>({ task: 'business_meta', systemPrompt, userPrompt });
   return { meta, profile };
 }
 
@@ -259,7 +171,7 @@ ${formattedContent}
 
 Infer their business/offering and target audience from this YouTube presence.`;
 
-  const meta = await callOpenAI<IBusinessMeta>(systemPrompt, userPrompt);
+  const meta = await completeJson<IBusinessMeta>({ task: 'business_meta', systemPrompt, userPrompt });
   return { meta, channel };
 }
 
@@ -324,13 +236,20 @@ ${sourceType === 'instagram' ? 'Niche' : 'Industry'}: ${businessMeta.category}
 
 Create an outline that directly addresses their pain points and positions the ${businessLabel.toLowerCase()} as the solution.`;
 
-  return callOpenAI<IOutline>(systemPrompt, userPrompt);
+  return completeJson<IOutline>({ task: 'outline', systemPrompt, userPrompt, params: { type } });
 }
 
 // ============================================
 // Call #3: Content Generation
 // ============================================
 
+const contentToneDescriptions: Record<LeadMagnetTone, string> = {
+  professional: 'Formal, authoritative, and polished. Use industry terminology appropriately.',
+  friendly: 'Warm, approachable, and conversational. Like talking to a helpful friend.',
+  expert: 'Knowledgeable, detailed, and educational. Establish thought leadership.',
+  persuasive: 'Compelling, benefit-focused, and action-oriented. Drive urgency and desire.',
+};
+
 export async function generateContent(
   businessMeta: IBusinessMeta,
   outline: IOutline,
@@ -340,13 +259,6 @@ export async function generateContent(
 ): Promise<ILeadMagnetContent> {
   logger.info('AI Call #3: Content Generation', { type, tone, sourceType });
 
-  const toneDescriptions: Record<LeadMagnetTone, string> = {
-    professional: 'Formal, authoritative, and polished. Use industry terminology appropriately.',
-    friendly: 'Warm, approachable, and conversational. Like talking to a helpful friend.',
-    expert: 'Knowledgeable, detailed, and educational. Establish thought leadership.',
-    persuasive: 'Compelling, benefit-focused, and action-oriented. Drive urgency and desire.',
-  };
-
   const lengthGuides: Partial<Record<LeadMagnetType, string>> = {
     guide: 'Target 1,800–3,000 words total. Write ~200–320 words per section. Keep it tight, actionable, and avoid filler.',
     checklist: 'Target 450–900 words total. Prefer bullets. 10–18 checklist items total. Each item should be 1–2 lines, optionally with a short parenthetical hint.',
@@ -399,7 +311,7 @@ Avoid:
 
   const systemPrompt = `You are an expert content writer creating a ${type} lead magnet.
 
-Tone: ${toneDescriptions[tone]}
+Tone: ${contentToneDescriptions[tone]}
 Length: ${lengthGuides[type]}${creatorContext}${cheatsheetRules}
 
 Return a JSON object:
@@ -430,8 +342,80 @@ ${contextLabel}:
 
 Write compelling, actionable content for each section.`;
 
-  return callOpenAI<ILeadMagnetContent>(systemPrompt, userPrompt, MAX_RETRIES, {
+  return completeJson<ILeadMagnetContent>({
+    task: 'content',
+    systemPrompt,
+    userPrompt,
     maxOutputTokens: maxOutputTokensByType[type],
+    params: { type, title: outline.title_options[0], sectionTitles: outline.sections.map((s) => s.title) },
+  });
+}
+
+// ============================================
+// Call #3b: Section Rewrite
+// ============================================
+
+export interface SectionRewriteInput {
+  section: IContentSection;
+  instruction: string;
+  type: LeadMagnetType;
+  tone: LeadMagnetTone;
+  content: ILeadMagnetContent;
+  businessMeta?: IBusinessMeta;
+  outline?: IOutline;
+  brandVoice?: string;
+}
+
+/**
+ * Rewrite a single section of existing content following a user instruction,
+ * keeping it consistent with the rest of the lead magnet.
+ */
+export async function rewriteSection(input: SectionRewriteInput): Promise<IContentSection> {
+  const { section, instruction, type, tone, content, businessMeta, outline, brandVoice } = input;
+
+  logger.info('AI Call #3b: Section Rewrite', { type, tone });
+
+  const purpose = outline?.sections.find((s) => s.title === section.title)?.purpose;
+
+  const systemPrompt = `You are an expert content editor improving one section of a ${type} lead magnet.
+
+Tone: ${contentToneDescriptions[tone]}${brandVoice ? `\nBrand voice: ${brandVoice}` : ''}
+
+Rules:
+- Follow the editor's instruction exactly; change only what it asks for
+- Keep the section's role within the lead magnet${purpose ? ` (purpose: ${purpose})` : ''}
+- Do not repeat material covered by the other sections
+- Keep the section title unless the instruction asks to change it
+- Use markdown formatting in the content (headers, bullets, bold, etc.)
+
+Return a JSON object:
+{"title": "Section title", "content": "Rewritten section content"}`;
+
+  const businessContext = businessMeta
+    ? `
+Business Context:
+- ${businessMeta.business_summary}
+- Target: ${businessMeta.icp}
+- Pain Points: ${businessMeta.pain_points.join(', ')}
+- Benefits: ${businessMeta.benefits.join(', ')}
+`
+    : '';
+
+  const userPrompt = `Lead magnet: ${content.title}${content.subtitle ? ` - ${content.subtitle}` : ''}
+Other sections: ${content.sections.filter((s) => s !== section).map((s) => s.title).join(', ')}
+${businessContext}
+Section to rewrite:
+## ${section.title}
+${section.content}
+
+Instruction: ${instruction}`;
+
+  return completeJson<IContentSection>({
+    task: 'section_rewrite',
+    systemPrompt,
+    userPrompt,
+    maxOutputTokens: 2500,
+    params: { title: section.title, content: section.content, instruction },
   });
 }
 
@@ -498,7 +482,12 @@ Original CTA concept: ${content.cta}
 
 Write compelling, conversion-focused copy.`;
 
-  const result = await callOpenAI<Omit<ILandingPageCopy, 'html'>>(systemPrompt, userPrompt);
+  const result = await completeJson<Omit<ILandingPageCopy, 'html'>>({
+    task: 'landing_copy',
+    systemPrompt,
+    userPrompt,
+    params: { title: content.title },
+  });
   
   // Return with empty html field (template will be used instead)
   return {
@@ -621,7 +610,7 @@ Goal: ${goal === 'get_leads' ? 'Build email list and nurture relationships' : go
 
 Remember: NO placeholder variables - use real greetings and the business name "${businessName}" for sign-offs.`;
 
-  return callOpenAI<IEmailSequence>(systemPrompt, userPrompt);
+  return completeJson<IEmailSequence>({ task: 'email_sequence', systemPrompt, userPrompt, params: { pdfUrl } });
 }
 
 // ============================================
@@ -658,6 +647,8 @@ export interface CachedSourceData {
   brandSettings?: IBrandSettings;
 }
 
+export type PipelineProgressStep = 'source_analyzed' | 'outline_ready' | 'content_ready';
+
 export interface PipelineOptions {
   audience?: string;
   type: LeadMagnetType;
@@ -666,6 +657,8 @@ export interface PipelineOptions {
   pdfUrl?: string;
   sourceType?: SourceType;
   cachedData?: CachedSourceData; // Skip scraping if we have cached brand data
+  // Called after each AI call with partial results (for live progress UIs)
+  onProgress?: (step: PipelineProgressStep, data: Record<string, unknown>) => void | Promise<void>;
 }
 
 export async function runPipelineToContent(
@@ -755,12 +748,29 @@ export async function runPipelineToContent(
     logger.info('Brand extraction complete', { extractedBrand });
   }
 
+  await options.onProgress?.('source_analyzed', {
+    category: meta.category,
+    businessSummary: meta.business_summary,
+  });
+
   const outline = await generateOutline(meta, options.type, sourceType);
   logger.info('Call #2 complete: Outline generated');
 
+  await options.onProgress?.('outline_ready', {
+    title: outline.title_options[0],
+    subtitle: outline.subtitle_options[0],
+    sections: outline.sections.map((section) => section.title),
+  });
+
   const content = await generateContent(meta, outline, options.type, options.tone, sourceType);
   logger.info('Call #3 complete: Content generated');
 
+  await options.onProgress?.('content_ready', {
+    title: content.title,
+    subtitle: content.subtitle,
+    sectionCount: content.sections.length,
+  });
+
   logger.info('AI pipeline phase 1 complete', { sourceType });
 
   return {
@@ -847,6 +857,6 @@ ${description}
 
 Infer their offering and target audience from this description.`;
 
-  return callOpenAI<IBusinessMeta>(systemPrompt, userPrompt);
+  return completeJson<IBusinessMeta>({ task: 'business_meta', systemPrompt, userPrompt });
 }
 
@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { ApiKey } from '../models/ApiKey.js';
+import { User } from '../models/User.js';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type { ApiKeyScope, IApiKey, IUser } from '../types/index.js';
+
+// ============================================
+// Types
+// ============================================
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['leads:read', 'lead_magnets:read', 'lead_magnets:write', 'quizzes:manage'];
+
+// Scopes that include another one: a key that can write lead magnets can also read them
+const IMPLIED_SCOPES: Partial<Record<ApiKeyScope, ApiKeyScope[]>> = {
+  'lead_magnets:write': ['lead_magnets:read'],
+};
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  expiresInDays?: number;
+}
+
+const PREFIX_LENGTH = 12;
+
+// ============================================
+// Key Generation
+// ============================================
+
+function generateKey(): string {
+  return `${config.apiKeys.prefix}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function resolveRateLimit(value?: number): number {
+  return Math.min(value ?? config.apiKeys.defaultRateLimitPerMinute, config.apiKeys.maxRateLimitPerMinute);
+}
+
+// ============================================
+// Key Management
+// ============================================
+
+export async function listApiKeys(userId: Types.ObjectId): Promise<IApiKey[]> {
+  return ApiKey.find({ userId, revokedAt: { $exists: false } }).sort({ createdAt: -1 });
+}
+
+export async function getApiKey(userId: Types.ObjectId, id: string): Promise<IApiKey> {
+  const apiKey = await ApiKey.findOne({ _id: id, userId, revokedAt: { $exists: false } });
+  if (!apiKey) {
+    throw AppError.notFound('API key not found');
+  }
+  return apiKey;
+}
+
+/**
+ * Returns the full key alongside the record; only its hash is stored, so it cannot be shown again.
+ */
+export async function createApiKey(
+  userId: Types.ObjectId,
+  input: ApiKeyInput
+): Promise<{ apiKey: IApiKey; key: string }> {
+  const count = await ApiKey.countDocuments({ userId, revokedAt: { $exists: false } });
+  if (count >= config.apiKeys.maxKeysPerUser) {
+    throw AppError.forbidden(`You can have up to ${config.apiKeys.maxKeysPerUser} active API keys`, 'API_KEY_LIMIT_REACHED');
+  }
+
+  const key = generateKey();
+  const apiKey = await ApiKey.create({
+    userId,
+    name: input.name,
+    prefix: key.slice(0, PREFIX_LENGTH),
+    keyHash: hashKey(key),
+    scopes: Array.from(new Set(input.scopes)),
+    rateLimitPerMinute: resolveRateLimit(input.rateLimitPerMinute),
+    expiresAt: input.expiresInDays
+      ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+      : undefined,
+  });
+
+  logger.info('API key created', { userId, apiKeyId: apiKey._id, scopes: apiKey.scopes });
+  return { apiKey, key };
+}
+
+export async function updateApiKey(
+  apiKey: IApiKey,
+  input: Partial<Pick<ApiKeyInput, 'name' | 'scopes' | 'rateLimitPerMinute'>>
+): Promise<IApiKey> {
+  if (input.name !== undefined) {
+    apiKey.name = input.name;
+  }
+  if (input.scopes !== undefined) {
+    apiKey.scopes = Array.from(new Set(input.scopes));
+  }
+  if (input.rateLimitPerMinute !== undefined) {
+    apiKey.rateLimitPerMinute = resolveRateLimit(input.rateLimitPerMinute);
+  }
+
+  await apiKey.save();
+  return apiKey;
+}
+
+/**
+ * Revoked keys are kept (without being listed) so their usage stays attributable in logs.
+ */
+export async function revokeApiKey(apiKey: IApiKey): Promise<void> {
+  apiKey.revokedAt = new Date();
+  await apiKey.save();
+  logger.info('API key revoked', { userId: apiKey.userId, apiKeyId: apiKey._id });
+}
+
+// ============================================
+// Authentication
+// ============================================
+
+/**
+ * Whether a key's scopes grant the scope, directly or through a broader one
+ */
+export function hasApiKeyScope(apiKey: IApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.some((granted) => granted === scope || IMPLIED_SCOPES[granted]?.includes(scope));
+}
+
+/**
+ * Resolve a presented key to its record and owner. Throws 401 for unknown, revoked or expired keys.
+ */
+export async function authenticateApiKey(
+  key: string,
+  ip?: string
+): Promise<{ apiKey: IApiKey; user: IUser }> {
+  if (!key.startsWith(config.apiKeys.prefix)) {
+    throw AppError.unauthorized('Invalid API key', 'INVALID_API_KEY');
+  }
+
+  const apiKey = await ApiKey.findOne({ keyHash: hashKey(key) });
+  if (!apiKey || apiKey.revokedAt) {
+    throw AppError.unauthorized('Invalid API key', 'INVALID_API_KEY');
+  }
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+    throw AppError.unauthorized('This API key has expired', 'API_KEY_EXPIRED');
+  }
+
+  const user = await User.findById(apiKey.userId);
+  if (!user) {
+    throw AppError.unauthorized('Invalid API key', 'INVALID_API_KEY');
+  }
+
+  const lastUsedAt = apiKey.lastUsedAt?.getTime() ?? 0;
+  if (Date.now() - lastUsedAt >= config.apiKeys.lastUsedUpdateIntervalMs) {
+    const now = new Date();
+    apiKey.lastUsedAt = now;
+    apiKey.lastUsedIp = ip;
+    void ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: now, lastUsedIp: ip } }).catch((error) => {
+      logger.warn('Failed to record API key usage', { apiKeyId: apiKey._id, error });
+    });
+  }
+
+  return { apiKey, user };
+}
@@ -29,6 +29,50 @@ class BillingService {
     }
   }
 
+  /**
+   * Reserve one lead magnet of the plan's allowance when generation is queued. The
+   * increment only applies below the limit, so parallel requests cannot go past it.
+   *
+   * @returns false if the limit is already reached
+   */
+  async reserveLeadMagnetUsage(userId: string): Promise<boolean> {
+    const subscription = await this.getOrCreateSubscription(userId);
+    await this.resetUsageIfNeeded(subscription);
+
+    if (!subscription.isActive()) {
+      return false;
+    }
+
+    const limit = subscription.plan === 'free'
+      ? config.planLimits.free.leadMagnetsTotal
+      : config.planLimits[subscription.plan as 'starter' | 'pro' | 'agency'].leadMagnetsPerMonth;
+
+    const reserved = await Subscription.findOneAndUpdate(
+      { _id: subscription._id, leadMagnetsCreatedThisPeriod: { $lt: limit } },
+      { $inc: { leadMagnetsCreatedThisPeriod: 1 } },
+      { new: true }
+    );
+
+    if (reserved) {
+      logger.info(`Reserved lead magnet usage for user: ${userId} (total: ${reserved.leadMagnetsCreatedThisPeriod})`);
+    }
+    return !!reserved;
+  }
+
+  /**
+   * Give back a reservation whose generation failed for good
+   */
+  async releaseLeadMagnetUsage(userId: string): Promise<void> {
+    const subscription = await this.getOrCreateSubscription(userId);
+
+    await Subscription.updateOne(
+      { _id: subscription._id, leadMagnetsCreatedThisPeriod: { $gt: 0 } },
+      { $inc: { leadMagnetsCreatedThisPeriod: -1 } }
+    );
+
+    logger.info(`Released lead magnet usage for user: ${userId}`);
+  }
+
   /**
    * Check if user can create a lead magnet
    */
@@ -86,6 +130,8 @@ class BillingService {
     isPaid: boolean;
   }> {
     try {
+      userId = await this.getBillingUserId(userId);
+
       // Prefer an active subscription; otherwise fall back to the most recent one
       let subscription = await Subscription.findActiveByUserId(userId);
 
@@ -140,10 +186,19 @@ class BillingService {
     }
   }
 
+  /**
+   * The account paying for a user: agency client sub-accounts are billed to their agency
+   */
+  async getBillingUserId(userId: string): Promise<string> {
+    const user = await User.findById(userId).select('agencyOwnerId');
+    return user?.agencyOwnerId?.toString() ?? userId;
+  }
+
   /**
    * Get or create subscription for user
    */
   async getOrCreateSubscription(userId: string): Promise<any> {
+    userId = await this.getBillingUserId(userId);
     let subscription = await Subscription.findActiveByUserId(userId);
 
     if (!subscription) {
@@ -0,0 +1,327 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Brand } from '../models/Brand.js';
+import { User } from '../models/User.js';
+import { generatePdf } from './pdfService.js';
+import { uploadPdf } from './storageService.js';
+import { renderLandingPage, withLandingPageTemplate } from './templateService.js';
+import { captureRevision, ensureBaselineRevision } from './revisionService.js';
+import { rewriteSection } from './aiService.js';
+import { getLLMContext, runWithLLMContext } from './llmService.js';
+import { getWhiteLabel } from './whiteLabelService.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type {
+  IBrandSettings,
+  IContentSection,
+  IEmail,
+  ILandingPageCopy,
+  ILeadMagnet,
+  ILeadMagnetContent,
+} from '../types/index.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ContentEdit {
+  title?: string;
+  subtitle?: string;
+  cta?: string;
+  // Full replacement: covers adding, reordering, rewriting and deleting in one request
+  sections?: IContentSection[];
+}
+
+export type SectionOperation =
+  | { op: 'add'; section: IContentSection; index?: number }
+  | { op: 'update'; index: number; title?: string; content?: string }
+  | { op: 'delete'; index: number }
+  | { op: 'reorder'; order: number[] };
+
+export type LandingCopyEdit = Partial<Omit<ILandingPageCopy, 'html'>>;
+
+export type EmailEdit = Partial<IEmail>;
+
+export interface EditOptions {
+  rebuildPdf?: boolean;
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+async function getBrandForLeadMagnet(
+  leadMagnet: ILeadMagnet
+): Promise<{ settings?: IBrandSettings; name?: string }> {
+  if (!leadMagnet.brandId) {
+    return {};
+  }
+  const brand = await Brand.findById(leadMagnet.brandId);
+  return brand ? { settings: brand.settings, name: brand.name } : {};
+}
+
+/**
+ * Render the PDF from the current contentJson and upload it under a new key.
+ * The previous file is left in place for older revisions.
+ */
+export async function rebuildLeadMagnetPdf(leadMagnet: ILeadMagnet): Promise<string> {
+  if (!leadMagnet.contentJson) {
+    throw AppError.badRequest('No content available for PDF regeneration');
+  }
+
+  const brand = await getBrandForLeadMagnet(leadMagnet);
+  const whiteLabel = await getWhiteLabel(leadMagnet.userId);
+  const pdfBuffer = await generatePdf(leadMagnet.contentJson, leadMagnet.type, brand.settings, brand.name, {
+    hideBranding: !!whiteLabel,
+  });
+
+  const filename = `pdfs/${leadMagnet.userId}/${leadMagnet.slug}-${uuidv4().slice(0, 8)}.pdf`;
+  const pdfUrl = await uploadPdf(pdfBuffer, filename);
+
+  leadMagnet.pdfUrl = pdfUrl;
+  return pdfUrl;
+}
+
+/**
+ * Re-render landingPageHtml from landingPageCopyJson with the lead magnet's brand
+ * (and its own template, if one was promoted from an experiment).
+ */
+export async function rerenderLandingPage(leadMagnet: ILeadMagnet): Promise<void> {
+  if (!leadMagnet.landingPageCopyJson) {
+    return;
+  }
+
+  const [brand, user] = await Promise.all([
+    getBrandForLeadMagnet(leadMagnet),
+    User.findById(leadMagnet.userId).select('username'),
+  ]);
+  if (!user) {
+    throw AppError.notFound('User not found');
+  }
+
+  const formAction = `/public/${user.username}/${leadMagnet.slug}/subscribe`;
+  const brandSettings = withLandingPageTemplate(brand.settings, leadMagnet.landingPageTemplate);
+  leadMagnet.landingPageHtml = await renderLandingPage(brandSettings, leadMagnet.landingPageCopyJson, formAction);
+}
+
+// ============================================
+// Edit Helpers
+// ============================================
+
+function assertEditable(leadMagnet: ILeadMagnet): void {
+  if (leadMagnet.generationStatus === 'queued' || leadMagnet.generationStatus === 'generating') {
+    throw AppError.conflict('Lead magnet is still generating', 'GENERATION_IN_PROGRESS');
+  }
+}
+
+function requireContent(leadMagnet: ILeadMagnet): ILeadMagnetContent {
+  if (!leadMagnet.contentJson) {
+    throw AppError.badRequest('This lead magnet has no editable content', 'NO_CONTENT');
+  }
+  return leadMagnet.contentJson;
+}
+
+function requireSectionIndex(content: ILeadMagnetContent, index: number): void {
+  if (index < 0 || index >= content.sections.length) {
+    throw AppError.notFound('Section not found');
+  }
+}
+
+/**
+ * Snapshot history, apply the change, save and record the new revision.
+ */
+async function applyEdit(
+  leadMagnet: ILeadMagnet,
+  mutate: () => void | Promise<void>,
+  options: { markModified: Array<'contentJson' | 'landingPageCopyJson' | 'emailsJson'>; rebuildPdf?: boolean }
+): Promise<void> {
+  assertEditable(leadMagnet);
+  await ensureBaselineRevision(leadMagnet);
+
+  await mutate();
+  // Mixed fields are not change-tracked when mutated in place
+  options.markModified.forEach((path) => leadMagnet.markModified(path));
+
+  if (options.rebuildPdf) {
+    await rebuildLeadMagnetPdf(leadMagnet);
+  }
+
+  await leadMagnet.save();
+  await captureRevision(leadMagnet, 'edited');
+}
+
+// ============================================
+// Content
+// ============================================
+
+export async function editContent(leadMagnet: ILeadMagnet, edit: ContentEdit, options: EditOptions = {}): Promise<void> {
+  const content = requireContent(leadMagnet);
+
+  await applyEdit(
+    leadMagnet,
+    () => {
+      if (edit.title !== undefined) content.title = edit.title;
+      if (edit.subtitle !== undefined) content.subtitle = edit.subtitle;
+      if (edit.cta !== undefined) content.cta = edit.cta;
+      if (edit.sections !== undefined) content.sections = edit.sections;
+    },
+    { markModified: ['contentJson'], rebuildPdf: options.rebuildPdf }
+  );
+
+  logger.info('Lead magnet content edited', {
+    leadMagnetId: leadMagnet._id,
+    fields: Object.keys(edit),
+    rebuildPdf: !!options.rebuildPdf,
+  });
+}
+
+export async function applySectionOperation(
+  leadMagnet: ILeadMagnet,
+  operation: SectionOperation,
+  options: EditOptions = {}
+): Promise<void> {
+  const content = requireContent(leadMagnet);
+
+  switch (operation.op) {
+    case 'update':
+    case 'delete':
+      requireSectionIndex(content, operation.index);
+      break;
+    case 'reorder': {
+      const sorted = [...operation.order].sort((a, b) => a - b);
+      if (sorted.length !== content.sections.length || sorted.some((value, i) => value !== i)) {
+        throw AppError.badRequest('Order must list every section index exactly once');
+      }
+      break;
+    }
+    case 'add':
+      if (operation.index !== undefined && operation.index > content.sections.length) {
+        throw AppError.badRequest('Index is out of range');
+      }
+      break;
+  }
+
+  await applyEdit(
+    leadMagnet,
+    () => {
+      switch (operation.op) {
+        case 'add':
+          content.sections.splice(operation.index ?? content.sections.length, 0, operation.section);
+          break;
+        case 'update': {
+          const section = content.sections[operation.index];
+          if (operation.title !== undefined) section.title = operation.title;
+          if (operation.content !== undefined) section.content = operation.content;
+          break;
+        }
+        case 'delete':
+          content.sections.splice(operation.index, 1);
+          break;
+        case 'reorder':
+          content.sections = operation.order.map((index) => content.sections[index]);
+          break;
+      }
+    },
+    { markModified: ['contentJson'], rebuildPdf: options.rebuildPdf }
+  );
+
+  logger.info('Lead magnet section edited', {
+    leadMagnetId: leadMagnet._id,
+    op: operation.op,
+    rebuildPdf: !!options.rebuildPdf,
+  });
+}
+
+/**
+ * Rewrite one section with AI following an instruction. With `apply` the result is
+ * saved like a manual edit; otherwise it is only returned as a suggestion.
+ */
+export async function rewriteSectionWithAI(
+  leadMagnet: ILeadMagnet,
+  index: number,
+  instruction: string,
+  options: EditOptions & { apply?: boolean } = {}
+): Promise<IContentSection> {
+  const content = requireContent(leadMagnet);
+  requireSectionIndex(content, index);
+  assertEditable(leadMagnet);
+
+  const brand = leadMagnet.brandId ? await Brand.findById(leadMagnet.brandId).select('brandVoice') : null;
+
+  // Attribute the AI usage to this lead magnet
+  const llmContext = { ...getLLMContext(), leadMagnetId: leadMagnet._id.toString() };
+  const rewritten = await runWithLLMContext(llmContext, () => rewriteSection({
+    section: content.sections[index],
+    instruction,
+    type: leadMagnet.type,
+    tone: leadMagnet.tone,
+    content,
+    businessMeta: leadMagnet.metaJson,
+    outline: leadMagnet.outlineJson,
+    brandVoice: brand?.brandVoice,
+  }));
+
+  if (typeof rewritten?.title !== 'string' || typeof rewritten?.content !== 'string' || !rewritten.content.trim()) {
+    throw AppError.internal('AI returned an invalid section. Please try again.');
+  }
+
+  const section: IContentSection = { title: rewritten.title.trim() || content.sections[index].title, content: rewritten.content };
+
+  if (options.apply) {
+    await applySectionOperation(leadMagnet, { op: 'update', index, ...section }, { rebuildPdf: options.rebuildPdf });
+  }
+
+  logger.info('Lead magnet section rewritten with AI', {
+    leadMagnetId: leadMagnet._id,
+    index,
+    applied: !!options.apply,
+  });
+
+  return section;
+}
+
+// ============================================
+// Landing Page Copy
+// ============================================
+
+export async function editLandingCopy(leadMagnet: ILeadMagnet, edit: LandingCopyEdit): Promise<void> {
+  if (!leadMagnet.landingPageCopyJson) {
+    throw AppError.badRequest('This lead magnet has no landing page copy', 'NO_LANDING_COPY');
+  }
+  const copy = leadMagnet.landingPageCopyJson;
+
+  await applyEdit(
+    leadMagnet,
+    async () => {
+      Object.assign(copy, edit);
+      await rerenderLandingPage(leadMagnet);
+    },
+    { markModified: ['landingPageCopyJson'] }
+  );
+
+  logger.info('Lead magnet landing copy edited', { leadMagnetId: leadMagnet._id, fields: Object.keys(edit) });
+}
+
+// ============================================
+// Emails
+// ============================================
+
+/**
+ * Edit one email of the sequence. Index 0 is the delivery email.
+ * Scheduled follow-ups pick up the change because they render from emailsJson at send time.
+ */
+export async function editEmail(leadMagnet: ILeadMagnet, index: number, edit: EmailEdit): Promise<void> {
+  const emails = leadMagnet.emailsJson?.emails;
+  if (!emails || index < 0 || index >= emails.length) {
+    throw AppError.notFound('Email not found');
+  }
+
+  await applyEdit(
+    leadMagnet,
+    () => {
+      Object.assign(emails[index], edit);
+    },
+    { markModified: ['emailsJson'] }
+  );
+
+  logger.info('Lead magnet email edited', { leadMagnetId: leadMagnet._id, index, fields: Object.keys(edit) });
+}
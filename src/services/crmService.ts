@@ -0,0 +1,548 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { CrmConnection } from '../models/CrmConnection.js';
+import { CrmSync } from '../models/CrmSync.js';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import { createOutbox } from '../utils/outbox.js';
+import { isSuppressed } from './suppressionService.js';
+import type {
+  CrmProvider,
+  CrmSyncStatus,
+  ICrmConnection,
+  ICrmContactFields,
+  ICrmFieldMapping,
+  ICrmSync,
+  ILead,
+  IQuiz,
+  IQuizResponse,
+  IQuizResult,
+} from '../types/index.js';
+
+// ============================================
+// Types
+// ============================================
+
+export const CRM_PROVIDERS: CrmProvider[] = ['brevo', 'mailchimp', 'convertkit'];
+
+export interface CrmList {
+  id: string;
+  name: string;
+}
+
+export interface CrmConnectionInput {
+  provider: CrmProvider;
+  name?: string;
+  apiKey: string;
+  listId: string;
+  fieldMapping?: ICrmFieldMapping;
+  syncLeads?: boolean;
+  syncQuizResponses?: boolean;
+}
+
+export type CrmConnectionUpdate = Partial<Omit<CrmConnectionInput, 'provider'>> & { isActive?: boolean };
+
+interface CrmConnector {
+  readonly provider: CrmProvider;
+  readonly label: string;
+  readonly defaultFieldMapping: ICrmFieldMapping;
+  /** Lists / audiences / forms leads can be added to; also used to validate the API key */
+  getLists(apiKey: string): Promise<CrmList[]>;
+  /** Create or update the contact and add it to the list; returns the provider's contact ID when known */
+  upsertContact(apiKey: string, listId: string, contact: ICrmContactFields, mapping: ICrmFieldMapping): Promise<string | undefined>;
+}
+
+const STALE_SYNCING_MS = 5 * 60 * 1000; // reclaim syncs stuck in 'syncing' after a crash
+
+// ============================================
+// HTTP
+// ============================================
+
+class CrmRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'CrmRequestError';
+  }
+
+  /** Bad credentials or a rejected contact will not succeed on retry; outages and rate limits may */
+  get isRetryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+async function requestJson<T>(label: string, url: string, init: RequestInit = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...init.headers,
+      },
+      signal: AbortSignal.timeout(config.crm.timeoutMs),
+    });
+  } catch (error) {
+    throw new CrmRequestError(`${label} request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const text = await response.text().catch(() => '');
+  if (!response.ok) {
+    throw new CrmRequestError(`${label} API error (${response.status}): ${text.slice(0, 500)}`, response.status);
+  }
+
+  return (text ? JSON.parse(text) : {}) as T;
+}
+
+/**
+ * Provider field name -> value for every mapped field that has a value.
+ */
+function mapContactFields(contact: ICrmContactFields, mapping: ICrmFieldMapping): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const key of ['firstName', 'phone', 'quizResult', 'utmSource'] as const) {
+    const target = mapping[key]?.trim();
+    const value = contact[key];
+    if (target && value) {
+      fields[target] = value;
+    }
+  }
+  return fields;
+}
+
+// ============================================
+// Connectors
+// ============================================
+
+class BrevoConnector implements CrmConnector {
+  readonly provider = 'brevo' as const;
+  readonly label = 'Brevo';
+  readonly defaultFieldMapping: ICrmFieldMapping = {
+    firstName: 'FIRSTNAME',
+    phone: 'SMS',
+    quizResult: 'QUIZ_RESULT',
+    utmSource: 'UTM_SOURCE',
+  };
+  private readonly baseUrl = 'https://api.brevo.com/v3';
+
+  async getLists(apiKey: string): Promise<CrmList[]> {
+    const data = await requestJson<{ lists?: Array<{ id: number; name: string }> }>(
+      this.label,
+      `${this.baseUrl}/contacts/lists?limit=50`,
+      { headers: { 'api-key': apiKey } }
+    );
+    return (data.lists ?? []).map((list) => ({ id: String(list.id), name: list.name }));
+  }
+
+  async upsertContact(apiKey: string, listId: string, contact: ICrmContactFields, mapping: ICrmFieldMapping): Promise<string | undefined> {
+    // 201 with the new contact ID, or 204 when an existing contact was updated
+    const data = await requestJson<{ id?: number }>(this.label, `${this.baseUrl}/contacts`, {
+      method: 'POST',
+      headers: { 'api-key': apiKey },
+      body: JSON.stringify({
+        email: contact.email,
+        attributes: mapContactFields(contact, mapping),
+        listIds: [Number(listId)],
+        updateEnabled: true,
+      }),
+    });
+    return data.id !== undefined ? String(data.id) : undefined;
+  }
+}
+
+class MailchimpConnector implements CrmConnector {
+  readonly provider = 'mailchimp' as const;
+  readonly label = 'Mailchimp';
+  readonly defaultFieldMapping: ICrmFieldMapping = {
+    firstName: 'FNAME',
+    phone: 'PHONE',
+    quizResult: 'QUIZRESULT',
+    utmSource: 'UTMSOURCE',
+  };
+
+  /** Mailchimp keys end with the data center the account lives in, e.g. "...-us21" */
+  private getBaseUrl(apiKey: string): string {
+    const dataCenter = apiKey.split('-')[1];
+    if (!dataCenter || !/^[a-z]+\d+$/.test(dataCenter)) {
+      throw new CrmRequestError('Mailchimp API keys end with the data center, e.g. "-us21"', 401);
+    }
+    return `https://${dataCenter}.api.mailchimp.com/3.0`;
+  }
+
+  private getHeaders(apiKey: string): Record<string, string> {
+    return { Authorization: `Basic ${Buffer.from(`magnethub:${apiKey}`).toString('base64')}` };
+  }
+
+  async getLists(apiKey: string): Promise<CrmList[]> {
+    const data = await requestJson<{ lists?: Array<{ id: string; name: string }> }>(
+      this.label,
+      `${this.getBaseUrl(apiKey)}/lists?count=100&fields=lists.id,lists.name`,
+      { headers: this.getHeaders(apiKey) }
+    );
+    return (data.lists ?? []).map((list) => ({ id: list.id, name: list.name }));
+  }
+
+  async upsertContact(apiKey: string, listId: string, contact: ICrmContactFields, mapping: ICrmFieldMapping): Promise<string | undefined> {
+    const subscriberHash = crypto.createHash('md5').update(contact.email.toLowerCase()).digest('hex');
+    const data = await requestJson<{ id?: string }>(
+      this.label,
+      `${this.getBaseUrl(apiKey)}/lists/${encodeURIComponent(listId)}/members/${subscriberHash}`,
+      {
+        method: 'PUT',
+        headers: this.getHeaders(apiKey),
+        body: JSON.stringify({
+          email_address: contact.email,
+          // Existing members keep their status (e.g. unsubscribed)
+          status_if_new: 'subscribed',
+          merge_fields: mapContactFields(contact, mapping),
+        }),
+      }
+    );
+    return data.id;
+  }
+}
+
+class ConvertKitConnector implements CrmConnector {
+  readonly provider = 'convertkit' as const;
+  readonly label = 'ConvertKit';
+  // first_name is a built-in subscriber field; everything else is a custom field key
+  readonly defaultFieldMapping: ICrmFieldMapping = {
+    firstName: 'first_name',
+    phone: 'phone',
+    quizResult: 'quiz_result',
+    utmSource: 'utm_source',
+  };
+  private readonly baseUrl = 'https://api.convertkit.com/v3';
+
+  async getLists(apiKey: string): Promise<CrmList[]> {
+    const data = await requestJson<{ forms?: Array<{ id: number; name: string }> }>(
+      this.label,
+      `${this.baseUrl}/forms?api_key=${encodeURIComponent(apiKey)}`
+    );
+    return (data.forms ?? []).map((form) => ({ id: String(form.id), name: form.name }));
+  }
+
+  async upsertContact(apiKey: string, listId: string, contact: ICrmContactFields, mapping: ICrmFieldMapping): Promise<string | undefined> {
+    const { first_name: firstName, ...fields } = mapContactFields(contact, mapping);
+    const data = await requestJson<{ subscription?: { subscriber?: { id?: number } } }>(
+      this.label,
+      `${this.baseUrl}/forms/${encodeURIComponent(listId)}/subscribe`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          api_key: apiKey,
+          email: contact.email,
+          ...(firstName ? { first_name: firstName } : {}),
+          ...(Object.keys(fields).length > 0 ? { fields } : {}),
+        }),
+      }
+    );
+    const subscriberId = data.subscription?.subscriber?.id;
+    return subscriberId !== undefined ? String(subscriberId) : undefined;
+  }
+}
+
+const connectors: Record<CrmProvider, CrmConnector> = {
+  brevo: new BrevoConnector(),
+  mailchimp: new MailchimpConnector(),
+  convertkit: new ConvertKitConnector(),
+};
+
+export function getCrmProviders(): Array<{ provider: CrmProvider; label: string; defaultFieldMapping: ICrmFieldMapping }> {
+  return CRM_PROVIDERS.map((provider) => ({
+    provider,
+    label: connectors[provider].label,
+    defaultFieldMapping: connectors[provider].defaultFieldMapping,
+  }));
+}
+
+// ============================================
+// Connection Management
+// ============================================
+
+/**
+ * Fetch the provider's lists with the given key. Rejected keys surface as a 400 for the form.
+ */
+export async function fetchCrmLists(provider: CrmProvider, apiKey: string): Promise<CrmList[]> {
+  const connector = connectors[provider];
+  try {
+    return await connector.getLists(apiKey);
+  } catch (error) {
+    if (error instanceof CrmRequestError && !error.isRetryable) {
+      throw AppError.badRequest(`${connector.label} rejected the API key. Check it and try again.`, 'CRM_AUTH_FAILED');
+    }
+    logger.warn('Failed to fetch CRM lists', { provider, error });
+    throw AppError.badRequest(`Could not reach ${connector.label}. Please try again.`, 'CRM_UNAVAILABLE');
+  }
+}
+
+async function resolveList(provider: CrmProvider, apiKey: string, listId: string): Promise<CrmList> {
+  const lists = await fetchCrmLists(provider, apiKey);
+  const list = lists.find((item) => item.id === listId);
+  if (!list) {
+    throw AppError.badRequest('List not found in the connected account', 'CRM_LIST_NOT_FOUND');
+  }
+  return list;
+}
+
+export async function listCrmConnections(userId: Types.ObjectId): Promise<ICrmConnection[]> {
+  return CrmConnection.find({ userId }).sort({ createdAt: -1 });
+}
+
+export async function getCrmConnection(userId: Types.ObjectId, id: string): Promise<ICrmConnection> {
+  const connection = await CrmConnection.findOne({ _id: id, userId });
+  if (!connection) {
+    throw AppError.notFound('Integration not found');
+  }
+  return connection;
+}
+
+async function loadApiKey(connection: ICrmConnection): Promise<string> {
+  const withKey = await CrmConnection.findById(connection._id).select('+apiKey');
+  if (!withKey) {
+    throw AppError.notFound('Integration not found');
+  }
+  return withKey.apiKey;
+}
+
+export async function getCrmConnectionLists(connection: ICrmConnection): Promise<CrmList[]> {
+  return fetchCrmLists(connection.provider, await loadApiKey(connection));
+}
+
+export async function createCrmConnection(userId: Types.ObjectId, input: CrmConnectionInput): Promise<ICrmConnection> {
+  const count = await CrmConnection.countDocuments({ userId });
+  if (count >= config.crm.maxConnectionsPerUser) {
+    throw AppError.forbidden(`You can add up to ${config.crm.maxConnectionsPerUser} integrations`, 'CRM_LIMIT_REACHED');
+  }
+
+  const connector = connectors[input.provider];
+  const list = await resolveList(input.provider, input.apiKey, input.listId);
+
+  const connection = await CrmConnection.create({
+    userId,
+    provider: input.provider,
+    name: input.name || `${connector.label} - ${list.name}`,
+    apiKey: input.apiKey,
+    apiKeyHint: input.apiKey.slice(-4),
+    listId: list.id,
+    listName: list.name,
+    fieldMapping: { ...connector.defaultFieldMapping, ...input.fieldMapping },
+    syncLeads: input.syncLeads,
+    syncQuizResponses: input.syncQuizResponses,
+  });
+
+  logger.info('CRM integration connected', { userId, connectionId: connection._id, provider: connection.provider });
+  return connection;
+}
+
+export async function updateCrmConnection(connection: ICrmConnection, input: CrmConnectionUpdate): Promise<ICrmConnection> {
+  if (input.apiKey !== undefined || input.listId !== undefined) {
+    const apiKey = input.apiKey ?? (await loadApiKey(connection));
+    const list = await resolveList(connection.provider, apiKey, input.listId ?? connection.listId);
+    if (input.apiKey !== undefined) {
+      connection.apiKey = input.apiKey;
+      connection.apiKeyHint = input.apiKey.slice(-4);
+    }
+    connection.listId = list.id;
+    connection.listName = list.name;
+  }
+  if (input.name !== undefined) connection.name = input.name;
+  if (input.fieldMapping !== undefined) connection.fieldMapping = { ...connection.toObject().fieldMapping, ...input.fieldMapping };
+  if (input.syncLeads !== undefined) connection.syncLeads = input.syncLeads;
+  if (input.syncQuizResponses !== undefined) connection.syncQuizResponses = input.syncQuizResponses;
+  if (input.isActive !== undefined) connection.isActive = input.isActive;
+
+  await connection.save();
+  return connection;
+}
+
+export async function deleteCrmConnection(connection: ICrmConnection): Promise<void> {
+  await CrmSync.deleteMany({ connectionId: connection._id });
+  await connection.deleteOne();
+
+  logger.info('CRM integration removed', { connectionId: connection._id, provider: connection.provider });
+}
+
+// ============================================
+// Sync Status
+// ============================================
+
+export async function listCrmSyncs(
+  userId: Types.ObjectId,
+  options: { limit: number; connectionId?: string; leadId?: string; quizResponseId?: string; status?: CrmSyncStatus }
+): Promise<ICrmSync[]> {
+  const filter: Record<string, unknown> = { userId };
+  if (options.connectionId) filter.connectionId = options.connectionId;
+  if (options.leadId) filter.leadId = options.leadId;
+  if (options.quizResponseId) filter.quizResponseId = options.quizResponseId;
+  if (options.status) filter.status = options.status;
+
+  return CrmSync.find(filter).sort({ createdAt: -1 }).limit(options.limit);
+}
+
+/**
+ * Queue a failed sync again with a fresh retry budget.
+ */
+export async function retryCrmSync(userId: Types.ObjectId, syncId: string): Promise<ICrmSync> {
+  const sync = await CrmSync.findOneAndUpdate(
+    { _id: syncId, userId, status: 'failed' },
+    { $set: { status: 'pending', attempts: 0, scheduledFor: new Date() } },
+    { new: true }
+  );
+  if (!sync) {
+    throw AppError.notFound('Failed sync not found');
+  }
+
+  void syncOutbox.sendNow(sync._id);
+  return sync;
+}
+
+// ============================================
+// Syncing
+// ============================================
+
+const syncOutbox = createOutbox<ICrmSync>({
+  name: 'CRM syncs',
+  model: CrmSync,
+  claimedStatus: 'syncing',
+  staleAfterMs: STALE_SYNCING_MS,
+  settings: config.crm,
+  attempt: attemptSync,
+});
+
+async function markSync(
+  sync: ICrmSync,
+  update: Partial<Pick<ICrmSync, 'status' | 'scheduledFor' | 'externalId' | 'lastError' | 'syncedAt'>>
+): Promise<void> {
+  await syncOutbox.mark(sync, update);
+}
+
+/**
+ * Push one claimed sync to the provider. Outages and rate limits are retried with
+ * exponential backoff; rejected credentials or contacts fail straight away.
+ */
+async function attemptSync(sync: ICrmSync): Promise<void> {
+  const connection = await CrmConnection.findById(sync.connectionId).select('+apiKey');
+  if (!connection || !connection.isActive) {
+    await markSync(sync, { status: 'failed', lastError: 'Integration was disabled or removed' });
+    return;
+  }
+
+  const connector = connectors[connection.provider];
+
+  try {
+    const externalId = await connector.upsertContact(connection.apiKey, connection.listId, sync.contact, connection.fieldMapping ?? {});
+    await markSync(sync, { status: 'synced', externalId, syncedAt: new Date(), lastError: undefined });
+    await CrmConnection.updateOne({ _id: connection._id }, { $set: { lastSyncAt: new Date() }, $unset: { lastError: 1 } });
+    return;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryable = !(error instanceof CrmRequestError) || error.isRetryable;
+
+    await CrmConnection.updateOne({ _id: connection._id }, { $set: { lastError: message.slice(0, 2000) } });
+
+    if (!retryable || sync.attempts >= config.crm.maxAttempts) {
+      logger.warn('CRM sync failed permanently', {
+        syncId: sync._id,
+        connectionId: connection._id,
+        provider: connection.provider,
+        attempts: sync.attempts,
+        error: message,
+      });
+      await markSync(sync, { status: 'failed', lastError: message.slice(0, 2000) });
+      return;
+    }
+
+    await markSync(sync, {
+      status: 'pending',
+      scheduledFor: new Date(Date.now() + syncOutbox.getRetryDelay(sync.attempts)),
+      lastError: message.slice(0, 2000),
+    });
+  }
+}
+
+/**
+ * Send every CRM sync that is due, up to the configured batch size.
+ */
+export function processDueCrmSyncs(): Promise<number> {
+  return syncOutbox.processDue();
+}
+
+/**
+ * Queue the contact for every active connection of the user that syncs this kind of
+ * capture and attempt the sync immediately. Addresses on the owner's suppression list are
+ * not pushed, so an unsubscribed lead is never re-added to a list. Never throws, so callers
+ * can fire and forget.
+ */
+async function queueCrmSync(
+  userId: Types.ObjectId | string,
+  kind: 'lead' | 'quizResponse',
+  refs: { leadId?: Types.ObjectId; quizResponseId?: Types.ObjectId },
+  contact: ICrmContactFields
+): Promise<void> {
+  try {
+    const filter = kind === 'lead' ? { syncLeads: true } : { syncQuizResponses: true };
+    const connections = await CrmConnection.find({ userId, isActive: true, ...filter }).select('_id provider');
+    if (connections.length === 0) {
+      return;
+    }
+
+    if (await isSuppressed(userId, contact.email)) {
+      logger.info('Skipping CRM sync for suppressed address', { userId, ...refs });
+      return;
+    }
+
+    const syncs = await CrmSync.insertMany(
+      connections.map((connection) => ({
+        connectionId: connection._id,
+        userId,
+        provider: connection.provider,
+        ...refs,
+        contact,
+        scheduledFor: new Date(),
+      }))
+    );
+
+    for (const sync of syncs) {
+      void syncOutbox.sendNow(sync._id);
+    }
+  } catch (error) {
+    logger.error('Failed to queue CRM sync', { userId, ...refs, error });
+  }
+}
+
+export function queueCrmSyncForLead(userId: Types.ObjectId, lead: ILead): void {
+  void queueCrmSync(userId, 'lead', { leadId: lead._id }, {
+    email: lead.email,
+    utmSource: lead.source,
+  });
+}
+
+export function queueCrmSyncForQuizResponse(quiz: IQuiz, response: IQuizResponse, result: IQuizResult): void {
+  if (!response.email) {
+    return;
+  }
+
+  void queueCrmSync(quiz.userId, 'quizResponse', { quizResponseId: response._id }, {
+    email: response.email,
+    firstName: response.firstName,
+    phone: response.phone,
+    quizResult: result.name,
+    utmSource: response.source,
+  });
+}
+
+// ============================================
+// Scheduler
+// ============================================
+
+/**
+ * Start polling for due CRM sync retries (in-process; safe to run on several instances).
+ */
+export function startCrmSyncScheduler(): void {
+  syncOutbox.startScheduler();
+}
+
+export function stopCrmSyncScheduler(): void {
+  syncOutbox.stopScheduler();
+}
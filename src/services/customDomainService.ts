@@ -0,0 +1,323 @@
+import crypto from 'crypto';
+import { resolveTxt } from 'dns/promises';
+import { Types } from 'mongoose';
+import { CustomDomain } from '../models/CustomDomain.js';
+import { Brand } from '../models/Brand.js';
+import { Subscription } from '../models/Subscription.js';
+import { User } from '../models/User.js';
+import { billingService } from './billingService.js';
+import { config, PlanType } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type { ICustomDomain } from '../types/index.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface DnsRecord {
+  type: 'TXT' | 'CNAME';
+  name: string;
+  value: string;
+}
+
+export interface CustomDomainDetails {
+  domain: ICustomDomain;
+  dnsRecords: DnsRecord[];
+}
+
+export interface ResolvedCustomDomain {
+  username: string;
+  brandId?: string;
+}
+
+const HOSTNAME_PATTERN = /^(?=.{4,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// Host lookups run on every public request, so results (including misses) are cached briefly
+const RESOLVE_CACHE_TTL_MS = 60 * 1000;
+const RESOLVE_CACHE_MAX_ENTRIES = 1000;
+
+const resolveCache = new Map<string, { value: ResolvedCustomDomain | null; expiresAt: number }>();
+
+// ============================================
+// Helpers
+// ============================================
+
+function getRootDomain(): string {
+  const raw = String(config.publicRootDomain || '').trim().toLowerCase();
+  try {
+    if (raw.startsWith('http://') || raw.startsWith('https://')) {
+      return new URL(raw).hostname;
+    }
+  } catch {
+    // ignore
+  }
+  return raw.replace(/^\.+/, '').replace(/[./]+$/, '');
+}
+
+/**
+ * Accepts "resources.client.com", "https://resources.client.com/" or "Resources.Client.com."
+ */
+export function normalizeHostname(input: string): string {
+  let hostname = input.trim().toLowerCase();
+  try {
+    if (/^https?:\/\//.test(hostname)) {
+      hostname = new URL(hostname).hostname;
+    }
+  } catch {
+    // validated below
+  }
+  hostname = hostname.replace(/\/.*$/, '').replace(/:\d+$/, '').replace(/\.+$/, '');
+
+  if (!HOSTNAME_PATTERN.test(hostname)) {
+    throw AppError.badRequest('Enter a valid domain such as resources.example.com', 'INVALID_DOMAIN');
+  }
+
+  const root = getRootDomain();
+  if (root && (hostname === root || hostname.endsWith(`.${root}`))) {
+    throw AppError.badRequest(`Subdomains of ${root} cannot be added as custom domains`, 'INVALID_DOMAIN');
+  }
+
+  return hostname;
+}
+
+async function getActivePlan(userId: string | Types.ObjectId): Promise<PlanType> {
+  const billingUserId = await billingService.getBillingUserId(userId.toString());
+  const subscription = await Subscription.findActiveByUserId(billingUserId);
+  return (subscription?.plan as PlanType) || 'free';
+}
+
+export async function getCustomDomainLimit(userId: string | Types.ObjectId): Promise<number> {
+  const plan = await getActivePlan(userId);
+  return config.planLimits[plan].customDomains;
+}
+
+export function getDnsRecords(domain: ICustomDomain): DnsRecord[] {
+  return [
+    {
+      type: 'CNAME',
+      name: domain.hostname,
+      value: config.customDomains.cnameTarget,
+    },
+    {
+      type: 'TXT',
+      name: `${config.customDomains.verificationPrefix}.${domain.hostname}`,
+      value: `magnethub-verification=${domain.verificationToken}`,
+    },
+  ];
+}
+
+function withDnsRecords(domain: ICustomDomain): CustomDomainDetails {
+  return { domain, dnsRecords: getDnsRecords(domain) };
+}
+
+async function assertBrandOwnership(userId: Types.ObjectId, brandId: string): Promise<void> {
+  const brand = await Brand.exists({ _id: brandId, userId });
+  if (!brand) {
+    throw AppError.notFound('Brand not found');
+  }
+}
+
+// ============================================
+// Management
+// ============================================
+
+export async function listCustomDomains(userId: Types.ObjectId): Promise<CustomDomainDetails[]> {
+  const domains = await CustomDomain.find({ userId }).sort({ createdAt: -1 });
+  return domains.map(withDnsRecords);
+}
+
+export async function getCustomDomain(userId: Types.ObjectId, id: string): Promise<ICustomDomain> {
+  const domain = await CustomDomain.findOne({ _id: id, userId });
+  if (!domain) {
+    throw AppError.notFound('Domain not found');
+  }
+  return domain;
+}
+
+export async function getCustomDomainDetails(userId: Types.ObjectId, id: string): Promise<CustomDomainDetails> {
+  return withDnsRecords(await getCustomDomain(userId, id));
+}
+
+/**
+ * Claim a hostname for the user. It stays pending until the TXT record is verified.
+ * Other accounts may hold pending claims on the same hostname; the first to verify it
+ * keeps it, so nobody can block a hostname they do not control.
+ */
+export async function addCustomDomain(
+  userId: Types.ObjectId,
+  input: { hostname: string; brandId?: string }
+): Promise<CustomDomainDetails> {
+  const hostname = normalizeHostname(input.hostname);
+
+  const limit = await getCustomDomainLimit(userId);
+  if (limit === 0) {
+    throw AppError.forbidden('Custom domains are available on the Pro and Agency plans.', 'PLAN_UPGRADE_REQUIRED');
+  }
+
+  const count = await CustomDomain.countDocuments({ userId });
+  if (count >= limit) {
+    throw AppError.forbidden(
+      `Your plan includes ${limit} custom domain${limit === 1 ? '' : 's'}. Remove one or upgrade to add more.`,
+      'DOMAIN_LIMIT_REACHED'
+    );
+  }
+
+  if (input.brandId) {
+    await assertBrandOwnership(userId, input.brandId);
+  }
+
+  const [taken, alreadyAdded] = await Promise.all([
+    CustomDomain.exists({ hostname, status: 'verified', userId: { $ne: userId } }),
+    CustomDomain.exists({ hostname, userId }),
+  ]);
+  if (taken) {
+    throw AppError.conflict('This domain is already connected to an account', 'DOMAIN_TAKEN');
+  }
+  if (alreadyAdded) {
+    throw AppError.conflict('You have already added this domain', 'DOMAIN_ALREADY_ADDED');
+  }
+
+  const domain = await CustomDomain.create({
+    userId,
+    brandId: input.brandId,
+    hostname,
+    verificationToken: crypto.randomBytes(16).toString('hex'),
+  });
+
+  logger.info('Custom domain added', { userId, hostname });
+  return withDnsRecords(domain);
+}
+
+export async function updateCustomDomainBrand(
+  userId: Types.ObjectId,
+  id: string,
+  brandId: string | null
+): Promise<CustomDomainDetails> {
+  const domain = await getCustomDomain(userId, id);
+
+  if (brandId) {
+    await assertBrandOwnership(userId, brandId);
+  }
+  domain.set('brandId', brandId ?? undefined);
+  await domain.save();
+
+  resolveCache.delete(domain.hostname);
+  return withDnsRecords(domain);
+}
+
+export async function removeCustomDomain(userId: Types.ObjectId, id: string): Promise<void> {
+  const domain = await getCustomDomain(userId, id);
+  await domain.deleteOne();
+
+  resolveCache.delete(domain.hostname);
+  logger.info('Custom domain removed', { userId, hostname: domain.hostname });
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Look up the verification TXT record and update the domain's status.
+ * A verified domain whose record disappears goes back to failed and stops serving.
+ * Verifying a hostname drops the other accounts' unverified claims on it.
+ */
+export async function verifyCustomDomain(domain: ICustomDomain): Promise<CustomDomainDetails> {
+  const recordName = `${config.customDomains.verificationPrefix}.${domain.hostname}`;
+  const expected = `magnethub-verification=${domain.verificationToken}`;
+
+  let error: string | undefined;
+  try {
+    // Long TXT values are split into chunks
+    const records = (await resolveTxt(recordName)).map((chunks) => chunks.join('').trim());
+    if (!records.includes(expected)) {
+      error = `TXT record at ${recordName} does not contain the expected value`;
+    }
+  } catch (dnsError) {
+    const code = (dnsError as NodeJS.ErrnoException).code;
+    error = code === 'ENOTFOUND' || code === 'ENODATA'
+      ? `No TXT record found at ${recordName}. DNS changes can take a while to propagate.`
+      : `DNS lookup failed (${code || 'unknown error'})`;
+  }
+
+  domain.lastCheckedAt = new Date();
+  domain.lastError = error;
+  if (error) {
+    domain.status = 'failed';
+  } else {
+    if (domain.status !== 'verified') {
+      domain.verifiedAt = new Date();
+    }
+    domain.status = 'verified';
+  }
+
+  try {
+    await domain.save();
+  } catch (saveError) {
+    // Another account verified the hostname first
+    if ((saveError as { code?: number }).code === 11000) {
+      throw AppError.conflict('This domain is already connected to an account', 'DOMAIN_TAKEN');
+    }
+    throw saveError;
+  }
+
+  if (domain.status === 'verified') {
+    const dropped = await CustomDomain.deleteMany({
+      hostname: domain.hostname,
+      _id: { $ne: domain._id },
+      status: { $ne: 'verified' },
+    });
+    if (dropped.deletedCount > 0) {
+      logger.info('Replaced unverified custom domain claims', { hostname: domain.hostname, count: dropped.deletedCount });
+    }
+  }
+
+  resolveCache.delete(domain.hostname);
+  logger.info('Custom domain verification checked', {
+    hostname: domain.hostname,
+    status: domain.status,
+    error,
+  });
+
+  return withDnsRecords(domain);
+}
+
+// ============================================
+// Host Resolution
+// ============================================
+
+/**
+ * Map a request hostname to the account (and optional brand) that owns it.
+ * Only verified domains of accounts whose plan includes custom domains resolve.
+ */
+export async function resolveCustomDomain(hostname: string): Promise<ResolvedCustomDomain | null> {
+  const host = hostname.trim().toLowerCase().replace(/\.+$/, '');
+  const root = getRootDomain();
+  // Our own hosts and bare hosts like "localhost" are never custom domains
+  if (!host.includes('.') || (root && (host === root || host.endsWith(`.${root}`)))) {
+    return null;
+  }
+
+  const cached = resolveCache.get(host);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  let value: ResolvedCustomDomain | null = null;
+  const domain = await CustomDomain.findOne({ hostname: host, status: 'verified' });
+
+  if (domain && (await getCustomDomainLimit(domain.userId)) > 0) {
+    const user = await User.findById(domain.userId).select('username');
+    if (user) {
+      value = { username: user.username, brandId: domain.brandId?.toString() };
+    }
+  }
+
+  if (resolveCache.size >= RESOLVE_CACHE_MAX_ENTRIES) {
+    resolveCache.clear();
+  }
+  resolveCache.set(host, { value, expiresAt: Date.now() + RESOLVE_CACHE_TTL_MS });
+
+  return value;
+}
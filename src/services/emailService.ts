@@ -4,6 +4,7 @@ import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { Lead } from '../models/Lead.js';
 import type { IQuiz, IQuizResult } from '../types/index.js';
+import type { WhiteLabel } from './whiteLabelService.js';
 
 // ============================================
 // Types for Template Emails
@@ -27,6 +28,47 @@ const mg = config.mailgun.apiKey
   ? mailgun.client({ username: 'api', key: config.mailgun.apiKey })
   : null;
 
+// ============================================
+// Lead Email Sender
+// ============================================
+
+/**
+ * From header for emails sent to leads. White-labeled accounts send under their own name.
+ */
+function leadSender(whiteLabel?: WhiteLabel | null): string {
+  const name = whiteLabel?.senderName.replace(/["\\<>\r\n]/g, '').trim();
+  return name ? `"${name}" <hello@magnethubai.com>` : 'MagnetHub AI <hello@magnethubai.com>';
+}
+
+// ============================================
+// Unsubscribe Link
+// ============================================
+
+/**
+ * Add the unsubscribe footer and the one-click List-Unsubscribe headers (RFC 8058)
+ * to an email sent to a lead.
+ */
+function withUnsubscribe(
+  content: { text: string; html: string },
+  unsubscribeUrl?: string
+): { text: string; html: string; [header: `h:${string}`]: string } {
+  if (!unsubscribeUrl) {
+    return content;
+  }
+
+  const footerHtml = `<p style="margin: 24px 0 0; font-family: Arial, sans-serif; font-size: 12px; color: #9ca3af; text-align: center;">Don't want these emails? <a href="${escapeHtml(unsubscribeUrl)}" target="_blank" rel="noopener noreferrer" style="color: #9ca3af;">Unsubscribe</a></p>`;
+  const html = content.html.includes('</body>')
+    ? content.html.replace('</body>', () => `${footerHtml}\n</body>`)
+    : `${content.html}\n${footerHtml}`;
+
+  return {
+    text: `${content.text}\n\n--\nUnsubscribe: ${unsubscribeUrl}`,
+    html,
+    'h:List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'h:List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
 // ============================================
 // Send Delivery Email
 // ============================================
@@ -36,7 +78,9 @@ export async function sendDeliveryEmail(
   recipientEmail: string,
   subject: string,
   htmlBody: string,
-  textBody: string
+  textBody: string,
+  unsubscribeUrl?: string,
+  whiteLabel?: WhiteLabel | null
 ): Promise<boolean> {
   if (!mg) {
     logger.warn('Mailgun not configured, skipping email send');
@@ -47,11 +91,10 @@ export async function sendDeliveryEmail(
     logger.info('Sending delivery email', { leadId, recipientEmail });
 
     await mg.messages.create(config.mailgun.domain, {
-      from: 'MagnetHub AI <hello@magnethubai.com>',
+      from: leadSender(whiteLabel),
       to: recipientEmail,
       subject,
-      text: textBody,
-      html: htmlBody,
+      ...withUnsubscribe({ text: textBody, html: htmlBody }, unsubscribeUrl),
     });
 
     // Update lead status
@@ -69,6 +112,36 @@ export async function sendDeliveryEmail(
   }
 }
 
+// ============================================
+// Send Sequence Email
+// ============================================
+
+/**
+ * Send a follow-up email from a lead magnet's nurture sequence.
+ * Throws on failure so the scheduler can record the error and retry.
+ */
+export async function sendSequenceEmail(params: {
+  to: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  unsubscribeUrl?: string;
+  whiteLabel?: WhiteLabel | null;
+}): Promise<void> {
+  if (!mg) {
+    throw new Error('Mailgun not configured');
+  }
+
+  await mg.messages.create(config.mailgun.domain, {
+    from: leadSender(params.whiteLabel),
+    to: params.to,
+    subject: params.subject,
+    ...withUnsubscribe({ text: params.textBody, html: params.htmlBody }, params.unsubscribeUrl),
+  });
+
+  logger.info('Sequence email sent', { to: params.to, subject: params.subject });
+}
+
 // ============================================
 // Send Email with Template
 // ============================================
@@ -205,6 +278,115 @@ export async function sendPaymentFailureEmail(params: {
   }
 }
 
+// ============================================
+// Double Opt-In Confirmation Email
+// ============================================
+
+export async function sendConfirmationEmail(params: {
+  to: string;
+  title: string;
+  confirmUrl: string;
+  expiresInHours: number;
+  whiteLabel?: WhiteLabel | null;
+}): Promise<boolean> {
+  if (!mg) {
+    logger.warn('Mailgun not configured, skipping confirmation email');
+    return false;
+  }
+
+  const subject = `Confirm your email to get ${params.title}`;
+
+  const textBody = [
+    'Hi there,',
+    '',
+    `Please confirm your email address and we'll send ${params.title} right over:`,
+    params.confirmUrl,
+    '',
+    `This link expires in ${params.expiresInHours} hours. If you didn't sign up, you can ignore this email.`,
+  ].join('\n');
+
+  const htmlBody = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <p style="color: #333;">Hi there,</p>
+      <p style="color: #333;">Please confirm your email address and we'll send <strong>${escapeHtml(params.title)}</strong> right over.</p>
+      <p style="margin: 24px 0;"><a href="${escapeHtml(params.confirmUrl)}" target="_blank" rel="noopener noreferrer" style="display: inline-block; background-color: #10B981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">Confirm my email</a></p>
+      <p style="color: #999; font-size: 14px;">This link expires in ${params.expiresInHours} hours. If you didn't sign up, you can ignore this email.</p>
+    </div>
+  `;
+
+  try {
+    await mg.messages.create(config.mailgun.domain, {
+      from: leadSender(params.whiteLabel),
+      to: params.to,
+      subject,
+      text: textBody,
+      html: htmlBody,
+    });
+
+    logger.info('Confirmation email sent', { to: params.to });
+    return true;
+  } catch (error) {
+    logger.error('Failed to send confirmation email', { to: params.to, error });
+    return false;
+  }
+}
+
+// ============================================
+// Workspace Invitation Email
+// ============================================
+
+export async function sendWorkspaceInviteEmail(params: {
+  to: string;
+  inviterName: string;
+  workspaceName: string;
+  role: string;
+  acceptUrl: string;
+  expiresInDays: number;
+}): Promise<boolean> {
+  if (!mg) {
+    logger.warn('Mailgun not configured, skipping workspace invite email');
+    return false;
+  }
+
+  const subject = `${params.inviterName} invited you to ${params.workspaceName} on MagnetHub`;
+
+  const textBody = [
+    'Hi there,',
+    '',
+    `${params.inviterName} invited you to join the ${params.workspaceName} workspace on MagnetHub as ${params.role === 'editor' ? 'an editor' : 'a viewer'}.`,
+    '',
+    'Accept the invitation:',
+    params.acceptUrl,
+    '',
+    `This invitation expires in ${params.expiresInDays} days.`,
+  ].join('\n');
+
+  const htmlBody = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <p style="color: #333;">Hi there,</p>
+      <p style="color: #333;"><strong>${escapeHtml(params.inviterName)}</strong> invited you to join the <strong>${escapeHtml(params.workspaceName)}</strong> workspace on MagnetHub as ${params.role === 'editor' ? 'an editor' : 'a viewer'}.</p>
+      <p style="margin: 24px 0;"><a href="${params.acceptUrl}" target="_blank" rel="noopener noreferrer" style="display: inline-block; background-color: #10B981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">Accept invitation</a></p>
+      <p style="color: #999; font-size: 14px;">This invitation expires in ${params.expiresInDays} days.</p>
+    </div>
+  `;
+
+  try {
+    await mg.messages.create(config.mailgun.domain, {
+      from: config.mailgun.fromEmail,
+      to: params.to,
+      subject,
+      text: textBody,
+      html: htmlBody,
+    });
+
+    logger.info('Workspace invite email sent', { to: params.to });
+    return true;
+  } catch (error) {
+    logger.error('Failed to send workspace invite email', { to: params.to, error });
+    return false;
+  }
+}
+
 // ============================================
 // Quiz Result Email
 // ============================================
@@ -214,6 +396,8 @@ export interface QuizResultEmailParams {
   firstName?: string;
   quiz: IQuiz;
   result: IQuizResult;
+  unsubscribeUrl?: string;
+  whiteLabel?: WhiteLabel | null;
 }
 
 export async function sendQuizResultEmail(params: QuizResultEmailParams): Promise<boolean> {
@@ -222,7 +406,7 @@ export async function sendQuizResultEmail(params: QuizResultEmailParams): Promis
     return false;
   }
 
-  const { to, firstName, quiz, result } = params;
+  const { to, firstName, quiz, result, unsubscribeUrl, whiteLabel } = params;
   const greeting = firstName ? `Hi ${firstName}` : 'Hi there';
 
   const subject = `Your ${quiz.title} Result: ${result.name} ${result.emoji || ''}`.trim();
@@ -246,9 +430,7 @@ ${traitsText}
 ${result.recommendation ? `MY RECOMMENDATION:\n${result.recommendation}\n` : ''}
 ${result.ctaText && result.ctaUrl ? `\n${result.ctaText}: ${result.ctaUrl}\n` : ''}
 Thanks for taking the quiz!
-
-, Powered by MagnetHub
-`;
+${whiteLabel ? '' : '\n, Powered by MagnetHub\n'}`;
 
   // HTML version with styling
   const htmlBody = `
@@ -337,7 +519,7 @@ Thanks for taking the quiz!
           </tr>
         </table>
 
-        <!-- Footer -->
+        ${whiteLabel ? '' : `<!-- Footer -->
         <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
           <tr>
             <td style="text-align: center; padding-top: 30px;">
@@ -346,7 +528,7 @@ Thanks for taking the quiz!
               </p>
             </td>
           </tr>
-        </table>
+        </table>`}
       </td>
     </tr>
   </table>
@@ -356,11 +538,10 @@ Thanks for taking the quiz!
 
   try {
     await mg.messages.create(config.mailgun.domain, {
-      from: 'MagnetHub AI <hello@magnethubai.com>',
+      from: leadSender(whiteLabel),
       to,
       subject,
-      text: textBody,
-      html: htmlBody,
+      ...withUnsubscribe({ text: textBody, html: htmlBody }, unsubscribeUrl),
     });
 
     logger.info('Quiz result email sent', {
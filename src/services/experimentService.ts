@@ -0,0 +1,409 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { LandingExperiment } from '../models/LandingExperiment.js';
+import { LeadMagnet } from '../models/LeadMagnet.js';
+import { PageView } from '../models/PageView.js';
+import { Lead } from '../models/Lead.js';
+import { editLandingCopy } from './contentEditService.js';
+import { withLandingPageTemplate } from './templateService.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type {
+  IBrandSettings,
+  ILandingExperiment,
+  ILandingExperimentAutoPromote,
+  ILandingPageCopy,
+  ILandingVariant,
+  ILeadMagnet,
+} from '../types/index.js';
+
+// ============================================
+// Types
+// ============================================
+
+export const CONTROL_VARIANT_KEY = 'control';
+
+export interface CreateExperimentInput {
+  name: string;
+  controlWeight?: number;
+  variants: Array<Omit<ILandingVariant, 'key' | 'weight'> & { weight?: number }>;
+  autoPromote?: Partial<ILandingExperimentAutoPromote>;
+}
+
+export interface VariantAssignment {
+  experimentId: Types.ObjectId;
+  variant: ILandingVariant;
+}
+
+export interface VariantResult {
+  key: string;
+  name: string;
+  views: number;
+  leads: number;
+  conversionRate: number;
+  // Relative to control, in percent. Null for the control itself or when control has no conversions.
+  upliftPercent: number | null;
+  // Two-sided confidence that the difference to control is not chance (0-1). Null for the control.
+  confidence: number | null;
+  isSignificant: boolean;
+}
+
+export interface ExperimentResults {
+  experimentId: string;
+  status: ILandingExperiment['status'];
+  winnerKey?: string;
+  leaderKey: string | null;
+  variants: VariantResult[];
+}
+
+const MAX_VARIANTS = 5;
+
+// ============================================
+// Variant Assignment
+// ============================================
+
+export async function getRunningExperiment(leadMagnetId: Types.ObjectId): Promise<ILandingExperiment | null> {
+  return LandingExperiment.findOne({ leadMagnetId, status: 'running' });
+}
+
+/**
+ * Deterministic weighted pick: the same visitor always lands in the same bucket,
+ * so assignment is sticky without storing anything per visitor.
+ */
+export function pickVariant(experiment: ILandingExperiment, visitorId: string): ILandingVariant {
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const hash = crypto.createHash('sha256').update(`${experiment._id}:${visitorId}`).digest();
+  const point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+  let cumulative = 0;
+  for (const variant of experiment.variants) {
+    cumulative += variant.weight;
+    if (point < cumulative) {
+      return variant;
+    }
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+/**
+ * Variant to show (or attribute a conversion to) for this visitor, if an experiment is running.
+ * A valid `requestedKey` (sent back by the page on subscribe) wins over the visitor hash.
+ */
+export async function assignVariant(
+  leadMagnet: ILeadMagnet,
+  visitorId: string | undefined,
+  requestedKey?: string
+): Promise<VariantAssignment | null> {
+  const experiment = await getRunningExperiment(leadMagnet._id);
+  if (!experiment) {
+    return null;
+  }
+
+  const requested = requestedKey ? experiment.variants.find((variant) => variant.key === requestedKey) : undefined;
+  if (requested) {
+    return { experimentId: experiment._id, variant: requested };
+  }
+  if (!visitorId) {
+    return null;
+  }
+  return { experimentId: experiment._id, variant: pickVariant(experiment, visitorId) };
+}
+
+/**
+ * Landing copy and brand settings with the variant's overrides applied.
+ */
+export function applyVariant(
+  copy: ILandingPageCopy,
+  brandSettings: IBrandSettings | undefined,
+  variant: ILandingVariant | undefined
+): { copy: ILandingPageCopy; brandSettings: IBrandSettings | undefined } {
+  if (!variant || variant.key === CONTROL_VARIANT_KEY) {
+    return { copy, brandSettings };
+  }
+
+  return {
+    copy: {
+      ...copy,
+      headline: variant.headline || copy.headline,
+      subheadline: variant.subheadline || copy.subheadline,
+      cta: variant.cta || copy.cta,
+    },
+    brandSettings: withLandingPageTemplate(brandSettings, variant.landingPageTemplate),
+  };
+}
+
+// ============================================
+// Management
+// ============================================
+
+export async function createExperiment(
+  leadMagnet: ILeadMagnet,
+  input: CreateExperimentInput
+): Promise<ILandingExperiment> {
+  if (!leadMagnet.landingPageCopyJson) {
+    throw AppError.badRequest('This lead magnet has no landing page copy', 'NO_LANDING_COPY');
+  }
+
+  if (input.variants.length === 0 || input.variants.length > MAX_VARIANTS) {
+    throw AppError.badRequest(`An experiment needs between 1 and ${MAX_VARIANTS} variants besides the control`);
+  }
+
+  for (const variant of input.variants) {
+    if (!variant.headline && !variant.subheadline && !variant.cta && !variant.landingPageTemplate) {
+      throw AppError.badRequest(`Variant "${variant.name}" does not change anything`);
+    }
+  }
+
+  if (await getRunningExperiment(leadMagnet._id)) {
+    throw AppError.conflict('An experiment is already running for this lead magnet', 'EXPERIMENT_RUNNING');
+  }
+
+  const variants: ILandingVariant[] = [
+    { key: CONTROL_VARIANT_KEY, name: 'Control', weight: input.controlWeight ?? 1 },
+    ...input.variants.map((variant, index) => ({
+      ...variant,
+      key: `variant-${index + 1}`,
+      weight: variant.weight ?? 1,
+    })),
+  ];
+
+  if (variants.every((variant) => variant.weight === 0)) {
+    throw AppError.badRequest('At least one variant needs a weight above zero');
+  }
+
+  const experiment = await LandingExperiment.create({
+    leadMagnetId: leadMagnet._id,
+    userId: leadMagnet.userId,
+    name: input.name,
+    variants,
+    autoPromote: input.autoPromote,
+  });
+
+  logger.info('Landing experiment started', {
+    leadMagnetId: leadMagnet._id,
+    experimentId: experiment._id,
+    variants: variants.length,
+  });
+
+  return experiment;
+}
+
+export async function listExperiments(leadMagnet: ILeadMagnet): Promise<ILandingExperiment[]> {
+  return LandingExperiment.find({ leadMagnetId: leadMagnet._id }).sort({ createdAt: -1 });
+}
+
+export async function getExperiment(leadMagnet: ILeadMagnet, experimentId: string): Promise<ILandingExperiment> {
+  const experiment = await LandingExperiment.findOne({ _id: experimentId, leadMagnetId: leadMagnet._id });
+  if (!experiment) {
+    throw AppError.notFound('Experiment not found');
+  }
+  return experiment;
+}
+
+export async function stopExperiment(experiment: ILandingExperiment): Promise<void> {
+  if (experiment.status !== 'running') {
+    throw AppError.conflict('Experiment is not running', 'EXPERIMENT_NOT_RUNNING');
+  }
+
+  experiment.status = 'stopped';
+  experiment.endedAt = new Date();
+  await experiment.save();
+
+  logger.info('Landing experiment stopped', { experimentId: experiment._id });
+}
+
+/**
+ * End the experiment and make the variant's copy and template the lead magnet's landing page.
+ * Promoting the control just ends the experiment.
+ */
+export async function promoteVariant(
+  leadMagnet: ILeadMagnet,
+  experiment: ILandingExperiment,
+  key: string
+): Promise<void> {
+  const variant = experiment.variants.find((candidate) => candidate.key === key);
+  if (!variant) {
+    throw AppError.notFound('Variant not found');
+  }
+
+  // Claim the experiment first so concurrent auto-promotions apply only one winner
+  const claimed = await LandingExperiment.findOneAndUpdate(
+    { _id: experiment._id, status: 'running' },
+    { status: 'completed', winnerKey: key, endedAt: new Date() },
+    { new: true }
+  );
+  if (!claimed) {
+    throw AppError.conflict('Experiment is not running', 'EXPERIMENT_NOT_RUNNING');
+  }
+  experiment.set({ status: claimed.status, winnerKey: claimed.winnerKey, endedAt: claimed.endedAt });
+
+  if (key !== CONTROL_VARIANT_KEY) {
+    if (variant.landingPageTemplate) {
+      leadMagnet.landingPageTemplate = variant.landingPageTemplate;
+    }
+    const edit: Partial<ILandingPageCopy> = {};
+    if (variant.headline) edit.headline = variant.headline;
+    if (variant.subheadline) edit.subheadline = variant.subheadline;
+    if (variant.cta) edit.cta = variant.cta;
+
+    // Saves through the editing path so the change shows up in revision history
+    await editLandingCopy(leadMagnet, edit);
+  }
+
+  logger.info('Landing experiment variant promoted', {
+    leadMagnetId: leadMagnet._id,
+    experimentId: experiment._id,
+    variant: key,
+  });
+}
+
+/**
+ * Remove a lead magnet's experiments when it is deleted.
+ */
+export async function deleteExperiments(leadMagnetId: Types.ObjectId): Promise<void> {
+  await LandingExperiment.deleteMany({ leadMagnetId });
+}
+
+// ============================================
+// Results
+// ============================================
+
+// Abramowitz-Stegun approximation of the standard normal CDF
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989423 * Math.exp((-z * z) / 2);
+  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return z > 0 ? 1 - p : p;
+}
+
+/**
+ * Two-proportion z-test against the control. Returns the two-sided confidence (0-1).
+ */
+function significance(control: { views: number; leads: number }, variant: { views: number; leads: number }): number {
+  if (control.views === 0 || variant.views === 0) {
+    return 0;
+  }
+
+  const pooled = (control.leads + variant.leads) / (control.views + variant.views);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / control.views + 1 / variant.views));
+  if (standardError === 0) {
+    return 0;
+  }
+
+  const z = (variant.leads / variant.views - control.leads / control.views) / standardError;
+  return 2 * normalCdf(Math.abs(z)) - 1;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export async function getExperimentResults(experiment: ILandingExperiment): Promise<ExperimentResults> {
+  const [viewCounts, leadCounts] = await Promise.all([
+    PageView.aggregate([
+      { $match: { experimentId: experiment._id } },
+      { $group: { _id: '$variant', count: { $sum: 1 } } },
+    ]),
+    Lead.aggregate([
+      { $match: { experimentId: experiment._id } },
+      { $group: { _id: '$variant', count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const views = new Map<string, number>(viewCounts.map((row) => [row._id, row.count]));
+  const leads = new Map<string, number>(leadCounts.map((row) => [row._id, row.count]));
+  const threshold = experiment.autoPromote?.confidence ?? 0.95;
+
+  const counts = experiment.variants.map((variant) => ({
+    variant,
+    views: views.get(variant.key) || 0,
+    leads: leads.get(variant.key) || 0,
+  }));
+  const control = counts.find((count) => count.variant.key === CONTROL_VARIANT_KEY) ?? { views: 0, leads: 0 };
+  const controlRate = control.views > 0 ? control.leads / control.views : 0;
+
+  const variants: VariantResult[] = counts.map(({ variant, views: variantViews, leads: variantLeads }) => {
+    const rate = variantViews > 0 ? variantLeads / variantViews : 0;
+    const isControl = variant.key === CONTROL_VARIANT_KEY;
+    const confidence = isControl ? null : round(significance(control, { views: variantViews, leads: variantLeads }), 4);
+
+    return {
+      key: variant.key,
+      name: variant.name,
+      views: variantViews,
+      leads: variantLeads,
+      conversionRate: round(rate * 100),
+      upliftPercent: isControl || controlRate === 0 ? null : round(((rate - controlRate) / controlRate) * 100),
+      confidence,
+      isSignificant: confidence !== null && confidence >= threshold,
+    };
+  });
+
+  const withViews = variants.filter((variant) => variant.views > 0);
+  const leader = withViews.length > 0
+    ? withViews.reduce((best, variant) => (variant.conversionRate > best.conversionRate ? variant : best))
+    : null;
+
+  return {
+    experimentId: experiment._id.toString(),
+    status: experiment.status,
+    winnerKey: experiment.winnerKey,
+    leaderKey: leader?.key ?? null,
+    variants,
+  };
+}
+
+// ============================================
+// Auto-Promotion
+// ============================================
+
+/**
+ * Called after a conversion. Once every variant has enough traffic, promote the best
+ * variant that significantly beats the control, or keep the control when every
+ * variant is significantly worse. Never throws.
+ */
+export async function evaluateAutoPromotion(experimentId: Types.ObjectId): Promise<void> {
+  try {
+    const experiment = await LandingExperiment.findById(experimentId);
+    if (!experiment || experiment.status !== 'running' || !experiment.autoPromote?.enabled) {
+      return;
+    }
+
+    const results = await getExperimentResults(experiment);
+    if (results.variants.some((variant) => variant.views < experiment.autoPromote.minViewsPerVariant)) {
+      return;
+    }
+
+    // Compare raw rates: upliftPercent is null when the control has no conversions yet
+    const rateOf = (variant: VariantResult) => (variant.views > 0 ? variant.leads / variant.views : 0);
+    const control = results.variants.find((variant) => variant.key === CONTROL_VARIANT_KEY);
+    const controlRate = control ? rateOf(control) : 0;
+
+    const challengers = results.variants.filter((variant) => variant.key !== CONTROL_VARIANT_KEY);
+    const winners = challengers
+      .filter((variant) => variant.isSignificant && rateOf(variant) > controlRate)
+      .sort((a, b) => rateOf(b) - rateOf(a));
+
+    let winnerKey: string | null = winners[0]?.key ?? null;
+    if (!winnerKey && challengers.every((variant) => variant.isSignificant && rateOf(variant) < controlRate)) {
+      winnerKey = CONTROL_VARIANT_KEY;
+    }
+    if (!winnerKey) {
+      return;
+    }
+
+    const leadMagnet = await LeadMagnet.findById(experiment.leadMagnetId);
+    if (!leadMagnet) {
+      return;
+    }
+
+    await promoteVariant(leadMagnet, experiment, winnerKey);
+    logger.info('Landing experiment auto-promoted', { experimentId, variant: winnerKey });
+  } catch (error) {
+    logger.warn('Landing experiment auto-promotion failed (non-fatal)', {
+      experimentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
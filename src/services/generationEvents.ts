@@ -0,0 +1,52 @@
+import { EventEmitter } from 'events';
+import type { Types } from 'mongoose';
+
+// ============================================
+// Types
+// ============================================
+
+export type GenerationStepStatus = 'started' | 'completed' | 'failed';
+
+export interface GenerationEvent {
+  leadMagnetId: string;
+  jobId?: string;
+  step: string;
+  status: GenerationStepStatus;
+  percent: number;
+  message?: string;
+  // Partial results worth showing early (e.g. outline sections, working title)
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+// ============================================
+// In-process Event Bus
+// ============================================
+// Delivers generation progress from the job worker to SSE subscribers on the
+// same instance. Subscribers on other instances fall back to polling the Job.
+
+const emitter = new EventEmitter();
+// One listener per open SSE connection
+emitter.setMaxListeners(0);
+
+function channel(leadMagnetId: Types.ObjectId | string): string {
+  return `lead-magnet:${leadMagnetId.toString()}`;
+}
+
+export function publishGenerationEvent(event: Omit<GenerationEvent, 'timestamp'>): void {
+  emitter.emit(channel(event.leadMagnetId), { ...event, timestamp: new Date().toISOString() });
+}
+
+/**
+ * Listen for generation events of one lead magnet. Returns an unsubscribe function.
+ */
+export function subscribeToGenerationEvents(
+  leadMagnetId: Types.ObjectId | string,
+  listener: (event: GenerationEvent) => void
+): () => void {
+  const name = channel(leadMagnetId);
+  emitter.on(name, listener);
+  return () => {
+    emitter.off(name, listener);
+  };
+}
@@ -0,0 +1,837 @@
+import slugify from 'slugify';
+import { v4 as uuidv4 } from 'uuid';
+import type { Types } from 'mongoose';
+import { LeadMagnet } from '../models/LeadMagnet.js';
+import { Quiz } from '../models/Quiz.js';
+import { Brand } from '../models/Brand.js';
+import { User } from '../models/User.js';
+import { runPipelineToContent, generateLandingPageCopy, generateEmailSequence, type PipelineProgressStep } from './aiService.js';
+import { generateQuiz } from './quizGenerationService.js';
+import { generateInfographic } from './infographicService.js';
+import { generatePdf } from './pdfService.js';
+import { uploadPdf } from './storageService.js';
+import { renderLandingPage } from './templateService.js';
+import { billingService } from './billingService.js';
+import { registerJobHandler, type JobContext } from './jobService.js';
+import { runWithLLMContext } from './llmService.js';
+import { captureRevision } from './revisionService.js';
+import { emitLeadMagnetGenerated } from './webhookService.js';
+import { getWhiteLabel } from './whiteLabelService.js';
+import { publishGenerationEvent, type GenerationStepStatus } from './generationEvents.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type {
+  IBrand,
+  IBrandSettings,
+  IEmail,
+  IJob,
+  ILeadMagnet,
+  InfographicOrientation,
+  InfographicStyle,
+  LeadMagnetGoal,
+  LeadMagnetTone,
+  LeadMagnetType,
+  SourceType,
+} from '../types/index.js';
+
+// ============================================
+// Job Payloads
+// ============================================
+
+export interface GenerateJobPayload {
+  sourceType: SourceType;
+  sourceUrl: string;
+  brandName: string;
+  brandId?: string;
+  audience?: string;
+  goal: LeadMagnetGoal;
+  type: LeadMagnetType;
+  tone: LeadMagnetTone;
+}
+
+export interface GenerateUnifiedJobPayload {
+  brandId: string;
+  topic: string;
+  type: 'quiz' | 'infographic';
+  numQuestions?: number;
+  numResults?: number;
+  quizBranching?: boolean;
+  infographicStyle?: InfographicStyle;
+  infographicOrientation?: InfographicOrientation;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Generate a clean, short slug from a title
+ * Takes first 60 characters or first 7 words (whichever is shorter)
+ */
+export function generateSlugFromTitle(title: string): string {
+  // Handle empty/invalid titles (edge case from AI)
+  if (!title || !title.trim()) {
+    return `generated-${Date.now()}`;
+  }
+
+  // Take first 7 words or first 60 chars, whichever is shorter
+  const words = title.split(/\s+/);
+  const truncated = words.length > 7
+    ? words.slice(0, 7).join(' ')
+    : title;
+
+  const limited = truncated.length > 60 ? truncated.substring(0, 60) : truncated;
+
+  const slug = slugify(limited, { lower: true, strict: true });
+
+  // Fallback if slugify returns empty string
+  return slug || `generated-${Date.now()}`;
+}
+
+/**
+ * Temporary slug for a lead magnet whose title isn't known until generation finishes
+ */
+export function generatePlaceholderSlug(): string {
+  return `generating-${uuidv4().slice(0, 8)}`;
+}
+
+/**
+ * Load the placeholder lead magnet (and its owner) that a generation job fills in.
+ * A missing record means the user deleted it while queued, which is not worth retrying.
+ */
+async function loadJobTargets(job: IJob): Promise<{ leadMagnet: ILeadMagnet; username: string }> {
+  const leadMagnet = job.leadMagnetId ? await LeadMagnet.findById(job.leadMagnetId) : null;
+  if (!leadMagnet) {
+    throw AppError.notFound('Lead magnet for this job no longer exists');
+  }
+
+  const user = await User.findById(job.userId);
+  if (!user) {
+    throw AppError.notFound('User for this job no longer exists');
+  }
+
+  return { leadMagnet, username: user.username };
+}
+
+async function findUniqueLeadMagnetSlug(userId: IJob['userId'], baseSlug: string, excludeId: ILeadMagnet['_id']): Promise<string> {
+  let slug = baseSlug;
+  let counter = 1;
+  while (await LeadMagnet.findOne({ userId, slug, _id: { $ne: excludeId } })) {
+    slug = `${baseSlug}-${counter}`;
+    counter++;
+  }
+  return slug;
+}
+
+type StepReporter = (
+  step: string,
+  status: GenerationStepStatus,
+  percent: number,
+  message?: string,
+  data?: Record<string, unknown>
+) => Promise<void>;
+
+/**
+ * Record the freshly generated content as the first revision and notify the owner's
+ * webhooks. Failing to do so must not fail (and re-run) an otherwise finished generation.
+ */
+async function recordGenerationComplete(leadMagnetId: Types.ObjectId): Promise<void> {
+  try {
+    const generated = await LeadMagnet.findById(leadMagnetId);
+    if (generated) {
+      await captureRevision(generated, 'generated');
+      emitLeadMagnetGenerated(generated);
+    }
+  } catch (error) {
+    logger.error('Failed to capture generated revision', { leadMagnetId: leadMagnetId.toString(), error });
+  }
+}
+
+/**
+ * Build a reporter that persists job progress (for polling clients)
+ * and publishes the step to SSE subscribers of the lead magnet.
+ */
+function createStepReporter(context: JobContext, leadMagnetId: ILeadMagnet['_id']): StepReporter {
+  return async (step, status, percent, message, data) => {
+    publishGenerationEvent({
+      leadMagnetId: leadMagnetId.toString(),
+      jobId: context.job._id.toString(),
+      step,
+      status,
+      percent,
+      message,
+      data,
+    });
+    await context.reportProgress(step, percent, message);
+  };
+}
+
+/**
+ * The terminal `complete` step, sent once the job is stored as completed so stream
+ * subscribers that reload state on it see the finished job.
+ */
+async function publishGenerationComplete(job: IJob, result: Record<string, unknown>): Promise<void> {
+  if (!job.leadMagnetId) return;
+
+  publishGenerationEvent({
+    leadMagnetId: job.leadMagnetId.toString(),
+    jobId: job._id.toString(),
+    step: 'complete',
+    status: 'completed',
+    percent: 100,
+    message: 'Generation finished',
+    data: typeof result.quizId === 'string' ? { quizId: result.quizId } : undefined,
+  });
+}
+
+async function markGenerationFailed(job: IJob, error: unknown): Promise<void> {
+  // The lead magnet was reserved against the plan's allowance when the job was queued
+  await billingService.releaseLeadMagnetUsage(job.userId.toString());
+
+  if (!job.leadMagnetId) return;
+
+  await LeadMagnet.updateOne(
+    { _id: job.leadMagnetId },
+    {
+      generationStatus: 'failed',
+      landingStatus: 'failed',
+      emailsStatus: 'failed',
+      generationError: error instanceof Error ? error.message : 'generation_failed',
+    }
+  );
+
+  // Sent last: the job and the lead magnet are settled when subscribers get it
+  publishGenerationEvent({
+    leadMagnetId: job.leadMagnetId.toString(),
+    jobId: job._id.toString(),
+    step: 'failed',
+    status: 'failed',
+    percent: 100,
+    message: error instanceof Error ? error.message : 'Generation failed',
+  });
+}
+
+// ============================================
+// Legacy URL-based Generation
+// ============================================
+
+async function runGenerateJob(context: JobContext): Promise<Record<string, unknown>> {
+  const { job } = context;
+  const payload = job.payload as unknown as GenerateJobPayload;
+  const { sourceType, sourceUrl, brandName, brandId, audience, goal, type, tone } = payload;
+  const { leadMagnet, username } = await loadJobTargets(job);
+  const userId = job.userId;
+  const report = createStepReporter(context, leadMagnet._id);
+
+  await LeadMagnet.updateOne({ _id: leadMagnet._id }, { generationStatus: 'generating' });
+
+  // ============================================
+  // Brand Management (Multi-Brand Support)
+  // ============================================
+
+  await report('brand', 'started', 5, 'Loading brand');
+
+  let brand: IBrand | null = null;
+  let brandToUse: IBrandSettings | null = null;
+  let useCachedData = false;
+
+  if (brandId) {
+    // User specified a brand - use it
+    brand = await Brand.findOne({ _id: brandId, userId });
+    if (!brand) {
+      throw AppError.badRequest('Selected brand not found');
+    }
+    brandToUse = brand.settings;
+    useCachedData = !!brand.description; // Use cache if we have description
+    logger.info('Using specified brand', {
+      brandId: brand._id,
+      brandName: brand.name,
+      hasCache: useCachedData,
+    });
+  } else {
+    // Find existing brand based on source URL
+    brand = await Brand.findOne({ userId, sourceUrl });
+
+    if (brand) {
+      // Existing brand found - use its settings
+      brandToUse = brand.settings;
+      useCachedData = !!brand.description; // Use cache if we have description
+      logger.info('Using existing brand for source', {
+        brandId: brand._id,
+        brandName: brand.name,
+        hasCache: useCachedData,
+      });
+    }
+  }
+
+  // Run the AI pipeline (skip scraping if we have cached brand data)
+  await report('pipeline', 'started', 10, 'Analyzing source');
+
+  const pipelineProgress: Record<PipelineProgressStep, { percent: number; message: string }> = {
+    source_analyzed: { percent: 20, message: 'Source analyzed, drafting outline' },
+    outline_ready: { percent: 30, message: 'Outline ready, writing content' },
+    content_ready: { percent: 50, message: 'Content written' },
+  };
+
+  const phase1 = await runPipelineToContent(sourceUrl, {
+    audience,
+    type,
+    tone,
+    goal,
+    sourceType,
+    cachedData: useCachedData && brand?.description ? {
+      description: brand.description,
+      logoUrl: brand.settings.logoUrl,
+      brandSettings: brand.settings,
+    } : undefined,
+    onProgress: (step, data) => {
+      const { percent, message } = pipelineProgress[step];
+      return report(step, 'completed', percent, message, data);
+    },
+  });
+
+  // Create brand if it doesn't exist
+  if (!brand) {
+    const brandSettings: IBrandSettings = { ...phase1.extractedBrand };
+
+    // For Instagram, use profile picture as logo
+    if (sourceType === 'instagram' && phase1.instagramProfilePic) {
+      brandSettings.logoUrl = phase1.instagramProfilePic;
+    }
+
+    // For YouTube, use channel thumbnail as logo
+    if (sourceType === 'youtube' && phase1.youtubeThumbnail) {
+      brandSettings.logoUrl = phase1.youtubeThumbnail;
+    }
+
+    // Check if this is the first brand
+    const brandCount = await Brand.countDocuments({ userId });
+
+    brand = await Brand.create({
+      userId,
+      name: brandName,
+      description: phase1.sourceDescription,
+      sourceType,
+      sourceUrl,
+      settings: brandSettings,
+      isDefault: brandCount === 0, // First brand is default
+    });
+
+    brandToUse = brandSettings;
+    logger.info('Created new brand from source', {
+      brandId: brand._id,
+      brandName: brand.name,
+      sourceType,
+      hasLogo: !!brandSettings.logoUrl,
+      hasDescription: !!phase1.sourceDescription,
+    });
+  } else if (!brand.description && phase1.sourceDescription) {
+    // Update existing brand with description if missing
+    brand.description = phase1.sourceDescription;
+    await brand.save();
+    logger.info('Updated brand with description', { brandId: brand._id });
+  }
+
+  const formAction = `/public/${username}/${leadMagnet.slug}/subscribe`;
+  const finalBrandSettings = brandToUse || brand.settings;
+
+  // Generate PDF with brand settings
+  await report('pdf', 'started', 55, 'Rendering PDF');
+  const whiteLabel = await getWhiteLabel(userId);
+  const pdfBuffer = await generatePdf(phase1.content, type, finalBrandSettings, brand.name, { hideBranding: !!whiteLabel });
+  await report('pdf', 'completed', 62, 'PDF rendered');
+
+  // Upload PDF to storage (local or cloud)
+  await report('upload', 'started', 65, 'Uploading PDF');
+  const filename = `pdfs/${userId}/${leadMagnet.slug}-${uuidv4().slice(0, 8)}.pdf`;
+  const pdfUrl = await uploadPdf(pdfBuffer, filename);
+
+  await LeadMagnet.updateOne(
+    { _id: leadMagnet._id },
+    {
+      brandId: brand._id,
+      title: phase1.content.title,
+      pdfUrl,
+      outlineJson: phase1.outline,
+      metaJson: phase1.meta,
+      contentJson: phase1.content,
+      isPublished: true,
+      generationStatus: 'pdf_ready',
+      landingStatus: 'pending',
+      emailsStatus: 'pending',
+    }
+  );
+
+  logger.info('Lead magnet PDF ready', {
+    userId,
+    leadMagnetId: leadMagnet._id,
+    brandId: brand._id,
+    slug: leadMagnet.slug,
+    sourceType,
+  });
+
+  await report('upload', 'completed', 72, 'PDF ready', { title: phase1.content.title, pdfReady: true });
+
+  // ============================================
+  // Landing page + emails
+  // ============================================
+
+  try {
+    await report('landing_copy', 'started', 75, 'Writing landing page copy');
+    await report('emails', 'started', 75, 'Writing email sequence');
+
+    // Report each branch as soon as it settles
+    const landingCopyPromise = generateLandingPageCopy(phase1.meta, phase1.content, sourceType).then(
+      async (copy) => {
+        await report('landing_copy', 'completed', 85, 'Landing page copy ready', { headline: copy.headline });
+        return copy;
+      },
+      async (error: unknown) => {
+        await report('landing_copy', 'failed', 85, 'Landing page copy failed');
+        throw error;
+      }
+    );
+    const emailsPromise = generateEmailSequence(phase1.meta, phase1.content, pdfUrl, tone, goal, sourceType).then(
+      async (sequence) => {
+        await report('emails', 'completed', 90, 'Email sequence ready', {
+          subjects: sequence.emails.map((email) => email.subject),
+        });
+        return sequence;
+      },
+      async (error: unknown) => {
+        await report('emails', 'failed', 90, 'Email sequence failed');
+        throw error;
+      }
+    );
+
+    const [landingCopyRes, emailsRes] = await Promise.allSettled([landingCopyPromise, emailsPromise]);
+
+    let landingPageCopy: any | undefined;
+    let emailsJson: any | undefined;
+    let landingStatus: 'ready' | 'failed' = 'failed';
+    let emailsStatus: 'ready' | 'failed' = 'failed';
+
+    if (landingCopyRes.status === 'fulfilled') {
+      landingPageCopy = landingCopyRes.value;
+      landingStatus = 'ready';
+    }
+
+    if (emailsRes.status === 'fulfilled') {
+      emailsJson = emailsRes.value;
+      emailsStatus = 'ready';
+    }
+
+    let landingPageHtml: string | undefined;
+    if (landingPageCopy) {
+      await report('landing_page', 'started', 95, 'Rendering landing page');
+      landingPageHtml = await renderLandingPage(finalBrandSettings, landingPageCopy, formAction);
+    }
+
+    const generationStatus =
+      landingStatus === 'ready' && emailsStatus === 'ready' ? 'complete' : 'needs_attention';
+
+    const generationError =
+      generationStatus === 'needs_attention'
+        ? [
+          landingStatus === 'failed' ? 'landing_failed' : null,
+          emailsStatus === 'failed' ? 'emails_failed' : null,
+        ].filter(Boolean).join(',')
+        : undefined;
+
+    await LeadMagnet.updateOne(
+      { _id: leadMagnet._id },
+      {
+        landingPageHtml,
+        landingPageCopyJson: landingPageCopy,
+        emailsJson,
+        landingStatus,
+        emailsStatus,
+        generationStatus,
+        generationError,
+      }
+    );
+
+    logger.info('Lead magnet generation finished', {
+      leadMagnetId: leadMagnet._id.toString(),
+      landingStatus,
+      emailsStatus,
+      generationStatus,
+    });
+  } catch (error) {
+    logger.error('Lead magnet landing/email generation failed', { leadMagnetId: leadMagnet._id.toString(), error });
+    await LeadMagnet.updateOne(
+      { _id: leadMagnet._id },
+      {
+        generationStatus: 'needs_attention',
+        landingStatus: 'failed',
+        emailsStatus: 'failed',
+        generationError: error instanceof Error ? error.message : 'async_completion_failed',
+      }
+    );
+  }
+
+  await recordGenerationComplete(leadMagnet._id);
+
+  return { leadMagnetId: leadMagnet._id.toString() };
+}
+
+// ============================================
+// Unified Topic-based Generation
+// ============================================
+
+async function runGenerateUnifiedJob(context: JobContext): Promise<Record<string, unknown>> {
+  const payload = context.job.payload as unknown as GenerateUnifiedJobPayload;
+  const { leadMagnet, username } = await loadJobTargets(context.job);
+
+  const brand = await Brand.findOne({ _id: payload.brandId, userId: context.job.userId });
+  if (!brand) {
+    throw AppError.badRequest('Brand not found');
+  }
+
+  await LeadMagnet.updateOne({ _id: leadMagnet._id }, { generationStatus: 'generating' });
+
+  if (payload.type === 'quiz') {
+    return runQuizGeneration(context, payload, leadMagnet, brand);
+  }
+  return runInfographicGeneration(context, payload, leadMagnet, brand, username);
+}
+
+async function runQuizGeneration(
+  context: JobContext,
+  payload: GenerateUnifiedJobPayload,
+  leadMagnet: ILeadMagnet,
+  brand: IBrand
+): Promise<Record<string, unknown>> {
+  const userId = context.job.userId;
+  const report = createStepReporter(context, leadMagnet._id);
+
+  // Generate quiz content
+  await report('quiz', 'started', 10, 'Writing quiz questions and results');
+  const generatedQuiz = await generateQuiz({
+    topic: payload.topic,
+    brand,
+    numQuestions: payload.numQuestions || 10,
+    numResults: payload.numResults || 4,
+    branching: payload.quizBranching,
+  });
+
+  await report('quiz', 'completed', 80, 'Quiz written', {
+    title: generatedQuiz.title,
+    subtitle: generatedQuiz.subtitle,
+    results: generatedQuiz.results.map((r) => r.name),
+  });
+  await report('saving', 'started', 85, 'Saving quiz');
+
+  // Generate unique slug from title (not the full topic)
+  const baseSlug = generateSlugFromTitle(generatedQuiz.title);
+  let slug = baseSlug;
+  let counter = 1;
+  while (
+    await Quiz.findOne({ userId, slug }) ||
+    await LeadMagnet.findOne({ userId, slug, _id: { $ne: leadMagnet._id } })
+  ) {
+    slug = `${baseSlug}-${counter}`;
+    counter++;
+  }
+
+  // Drop a quiz left behind by a previous failed attempt of this job
+  await Quiz.deleteMany({ leadMagnetId: leadMagnet._id });
+
+  // Map generated quiz to Quiz model structure
+  const quiz = await Quiz.create({
+    userId,
+    brandId: brand._id,
+    leadMagnetId: leadMagnet._id,
+    title: generatedQuiz.title,
+    subtitle: generatedQuiz.subtitle,
+    slug,
+    questions: generatedQuiz.questions.map((q, idx) => ({
+      questionText: q.questionText,
+      order: idx,
+      answers: q.answers.map(a => ({
+        answerText: a.answerText,
+        // resultMapping is set below, once result IDs exist
+      })),
+    })),
+    results: generatedQuiz.results.map(r => ({
+      name: r.name,
+      emoji: r.emoji,
+      summary: r.summary,
+      traits: r.traits,
+      recommendation: r.recommendation,
+    })),
+    primaryColor: brand.settings.primaryColor,
+    accentColor: brand.settings.accentColor,
+    logoUrl: brand.settings.logoUrl,
+    theme: brand.settings.theme === 'dark' ? 'dark' : 'light',
+    status: 'published',
+    isPublic: leadMagnet.isPublic,
+  });
+
+  // Map result and branch target IDs back to answers
+  quiz.questions.forEach((question, qIdx) => {
+    question.answers.forEach((answer, aIdx) => {
+      const originalAnswer = generatedQuiz.questions[qIdx].answers[aIdx];
+      answer.resultMapping = quiz.results[originalAnswer.resultIndex]._id;
+      if (originalAnswer.endQuiz) {
+        answer.endsQuiz = true;
+      } else if (originalAnswer.nextQuestionIndex !== undefined) {
+        answer.nextQuestionId = quiz.questions[originalAnswer.nextQuestionIndex]._id;
+      }
+    });
+  });
+  await quiz.save();
+
+  // Link quiz to lead magnet (quiz is a type of lead magnet)
+  await LeadMagnet.updateOne(
+    { _id: leadMagnet._id },
+    {
+      quizId: quiz._id,
+      title: generatedQuiz.title,
+      slug,
+      isPublished: true,
+      generationStatus: 'complete',
+      landingStatus: 'ready', // Quiz has its own landing page
+      emailsStatus: 'ready',
+    }
+  );
+
+  logger.info('Quiz generated successfully', {
+    userId,
+    quizId: quiz._id,
+    slug: quiz.slug,
+  });
+
+  return { leadMagnetId: leadMagnet._id.toString(), quizId: quiz._id.toString() };
+}
+
+async function runInfographicGeneration(
+  context: JobContext,
+  payload: GenerateUnifiedJobPayload,
+  leadMagnet: ILeadMagnet,
+  brand: IBrand,
+  username: string
+): Promise<Record<string, unknown>> {
+  const userId = context.job.userId;
+  const report = createStepReporter(context, leadMagnet._id);
+  const style = payload.infographicStyle || 'modern';
+  const orientation = payload.infographicOrientation || 'square';
+
+  // Generate infographic using Gemini
+  await report('infographic', 'started', 10, 'Designing infographic');
+  const generatedInfographic = await generateInfographic({
+    topic: payload.topic,
+    brand,
+    style,
+    orientation,
+  });
+
+  // Generate unique slug from title (not the full topic)
+  const slug = await findUniqueLeadMagnetSlug(userId, generateSlugFromTitle(generatedInfographic.title), leadMagnet._id);
+
+  await LeadMagnet.updateOne(
+    { _id: leadMagnet._id },
+    {
+      title: generatedInfographic.title,
+      infographicUrl: generatedInfographic.imageUrl,
+      infographicStyle: style,
+      infographicOrientation: orientation,
+      slug,
+      isPublished: true,
+      generationStatus: 'complete',
+      landingStatus: 'pending',
+      emailsStatus: 'ready', // Not generating emails for MVP
+    }
+  );
+
+  logger.info('Infographic generated successfully', {
+    userId,
+    leadMagnetId: leadMagnet._id,
+    slug,
+  });
+
+  // ============================================
+  // Landing page + delivery email for infographic
+  // ============================================
+
+  await report('infographic', 'completed', 80, 'Infographic ready', { title: generatedInfographic.title });
+  await report('landing_page', 'started', 85, 'Rendering landing page');
+
+  const formAction = `/public/${username}/${slug}/subscribe`;
+  const finalBrandSettings = brand.settings;
+
+  try {
+    // Create landing page copy for infographic
+    const landingPageCopy = {
+      headline: generatedInfographic.title,
+      subheadline: `Get this beautiful infographic delivered to your inbox`,
+      benefit_bullets: [
+        'High-quality infographic design',
+        'Perfect for sharing on social media',
+        'Download and use for presentations',
+      ],
+      cta: 'Get Free Infographic',
+      short_description: `Download your ${generatedInfographic.title} infographic`,
+      html: '',
+    };
+
+    // Render landing page HTML with brand settings
+    const landingPageHtml = await renderLandingPage(finalBrandSettings, landingPageCopy, formAction);
+
+    const whiteLabel = await getWhiteLabel(leadMagnet.userId);
+    const deliveryEmail = buildInfographicDeliveryEmail(generatedInfographic.title, finalBrandSettings, !!whiteLabel);
+
+    await LeadMagnet.updateOne(
+      { _id: leadMagnet._id },
+      {
+        landingPageHtml,
+        landingPageCopyJson: landingPageCopy,
+        emailsJson: { emails: [deliveryEmail] },
+        landingStatus: 'ready',
+        emailsStatus: 'ready',
+      }
+    );
+
+    logger.info('Infographic landing page and email generated', {
+      leadMagnetId: leadMagnet._id.toString(),
+      landingStatus: 'ready',
+      emailsStatus: 'ready',
+    });
+  } catch (error) {
+    logger.error('Infographic landing page generation failed', {
+      leadMagnetId: leadMagnet._id.toString(),
+      error
+    });
+    await LeadMagnet.updateOne(
+      { _id: leadMagnet._id },
+      {
+        landingStatus: 'failed',
+        emailsStatus: 'failed',
+        generationError: error instanceof Error ? error.message : 'landing_generation_failed',
+      }
+    );
+  }
+
+  await recordGenerationComplete(leadMagnet._id);
+
+  return { leadMagnetId: leadMagnet._id.toString() };
+}
+
+/**
+ * Delivery email for infographic lead magnets ({{INFOGRAPHIC_URL}} is swapped for a signed URL on send).
+ * White-labeled accounts get it without the MagnetHub credit.
+ */
+function buildInfographicDeliveryEmail(title: string, finalBrandSettings: IBrandSettings, hideBranding = false): IEmail {
+  return {
+    title: 'Delivery Email',
+    subject: `Your Infographic: ${title}`,
+    body_text: `Hi there!\n\nThanks for your interest in "${title}"!\n\nYou can download your infographic here:\n{{INFOGRAPHIC_URL}}\n\nFeel free to share it on social media or use it in your presentations!\n\nEnjoy!${hideBranding ? '' : '\n\n, Powered by MagnetHub'}`,
+    body_html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; background-color: #f9fafb; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        ${finalBrandSettings.logoUrl ? `
+        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+          <tr>
+            <td style="text-align: center; padding-bottom: 30px;">
+              <img src="${finalBrandSettings.logoUrl}" alt="" style="max-height: 50px; max-width: 150px;">
+            </td>
+          </tr>
+        </table>
+        ` : ''}
+        
+        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #ffffff; border-radius: 16px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="margin: 0 0 20px; font-size: 16px; color: #374151;">Hi there!</p>
+              
+              <p style="margin: 0 0 30px; font-size: 16px; color: #374151;">
+                Thanks for your interest in "<strong>${title}</strong>"!
+              </p>
+
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="{{INFOGRAPHIC_URL}}" target="_blank" rel="noopener noreferrer">
+                  <img src="{{INFOGRAPHIC_URL}}" alt="${title}" style="max-width: 100%; height: auto; border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+                </a>
+              </div>
+
+              <div style="text-align: center; padding: 30px 0;">
+                <a href="{{INFOGRAPHIC_URL}}" target="_blank" rel="noopener noreferrer" style="display: inline-block; padding: 16px 32px; background-color: ${finalBrandSettings.primaryColor || '#10B981'}; color: #ffffff; font-size: 16px; font-weight: 600; text-decoration: none; border-radius: 8px;">
+                  Download Infographic
+                </a>
+              </div>
+
+              <p style="margin: 30px 0 0; font-size: 14px; color: #6b7280; text-align: center;">
+                Feel free to share it on social media or use it in your presentations!
+              </p>
+            </td>
+          </tr>
+        </table>
+
+        ${hideBranding ? '' : `<table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+          <tr>
+            <td style="text-align: center; padding-top: 30px;">
+              <p style="margin: 0; font-size: 12px; color: #9ca3af;">
+                Powered by <a href="https://magnethubai.com" target="_blank" rel="noopener noreferrer" style="color: #6b7280;">MagnetHub</a>
+              </p>
+            </td>
+          </tr>
+        </table>`}
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+// ============================================
+// Registration
+// ============================================
+
+/**
+ * Run a job handler inside the job owner's LLM context so per-plan provider
+ * selection and usage attribution apply to background generation too.
+ */
+function withJobLLMContext<T>(
+  run: (context: JobContext) => Promise<T>
+): (context: JobContext) => Promise<T> {
+  return async (context) => {
+    const userId = context.job.userId.toString();
+    const subscription = await billingService.getOrCreateSubscription(userId);
+    return runWithLLMContext(
+      {
+        userId,
+        plan: subscription.plan,
+        leadMagnetId: context.job.leadMagnetId?.toString(),
+        jobId: context.job._id.toString(),
+      },
+      () => run(context)
+    );
+  };
+}
+
+/**
+ * Register lead magnet generation handlers with the job worker
+ */
+export function registerGenerationJobHandlers(): void {
+  registerJobHandler('lead_magnet.generate', {
+    run: withJobLLMContext(runGenerateJob),
+    onCompleted: publishGenerationComplete,
+    onFailed: markGenerationFailed,
+  });
+
+  registerJobHandler('lead_magnet.generate_unified', {
+    run: withJobLLMContext(runGenerateUnifiedJob),
+    onCompleted: publishGenerationComplete,
+    onFailed: markGenerationFailed,
+  });
+}
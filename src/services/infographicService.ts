@@ -1,13 +1,57 @@
-import { GoogleGenAI } from '@google/genai';
+import { GoogleGenAI, type GenerateContentResponse } from '@google/genai';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/AppError.js';
 import { uploadImage } from './storageService.js';
+import { getLLMContext } from './llmService.js';
+import { recordAIUsage } from './usageService.js';
 import type { IBrand, InfographicStyle, InfographicOrientation } from '../types/index.js';
 
 // Initialize Gemini AI
 const ai = new GoogleGenAI({ apiKey: config.geminiApiKey || '' });
 
+const INFOGRAPHIC_MODEL = 'gemini-3-pro-image-preview';
+
+/**
+ * Call Gemini and record the call in the AI usage ledger.
+ */
+async function generateContentWithUsage(step: string, contents: string): Promise<GenerateContentResponse> {
+  const context = getLLMContext();
+  const startedAt = Date.now();
+  const attribution = {
+    userId: context?.userId,
+    leadMagnetId: context?.leadMagnetId,
+    jobId: context?.jobId,
+    provider: 'gemini' as const,
+    model: INFOGRAPHIC_MODEL,
+    step,
+  };
+
+  try {
+    const response = await ai.models.generateContent({ model: INFOGRAPHIC_MODEL, contents });
+    const imageCount =
+      response.candidates?.[0]?.content?.parts?.filter((part) => part.inlineData?.data).length ?? 0;
+
+    void recordAIUsage({
+      ...attribution,
+      inputTokens: response.usageMetadata?.promptTokenCount,
+      outputTokens: response.usageMetadata?.candidatesTokenCount,
+      imageCount,
+      latencyMs: Date.now() - startedAt,
+      success: true,
+    });
+    return response;
+  } catch (error) {
+    void recordAIUsage({
+      ...attribution,
+      latencyMs: Date.now() - startedAt,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
 // ============================================
 // Types
 // ============================================
@@ -184,10 +228,7 @@ Return a JSON object with:
 
 Make it punchy, data-driven when possible, and unmistakably about ${brand.name}'s value to their audience.`;
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: contentPrompt,
-    });
+    const response = await generateContentWithUsage('infographic_content', contentPrompt);
 
     const text = response.text;
     
@@ -296,7 +337,7 @@ The infographic must clearly communicate ${brand.name}'s expertise and value to
 
   try {
     logger.info('Generating infographic image with Gemini', {
-      model: 'gemini-3-pro-image-preview',
+      model: INFOGRAPHIC_MODEL,
       style,
       orientation,
       aspectRatio,
@@ -304,10 +345,7 @@ The infographic must clearly communicate ${brand.name}'s expertise and value to
     });
 
     // Call Gemini for image generation
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: imagePrompt,
-    });
+    const response = await generateContentWithUsage('infographic_image', imagePrompt);
 
     // Gemini returns images in the 'parts' array with inlineData
     // The response object has candidates[].content.parts[] structure
@@ -0,0 +1,339 @@
+import type { Types } from 'mongoose';
+import { Job } from '../models/Job.js';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type { IJob, JobType } from '../types/index.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface JobContext {
+  job: IJob;
+  /**
+   * Persist the current step/percent so clients polling GET /api/jobs/:id see it.
+   * Also acts as the worker heartbeat for lock expiry.
+   */
+  reportProgress(step: string, percent: number, message?: string): Promise<void>;
+}
+
+export interface JobHandler {
+  run(context: JobContext): Promise<Record<string, unknown> | void>;
+  /** Called once after the job is marked completed, with its result. */
+  onCompleted?(job: IJob, result: Record<string, unknown>): Promise<void>;
+  /** Called once when the job fails permanently (no retries left). */
+  onFailed?(job: IJob, error: unknown): Promise<void>;
+}
+
+const handlers = new Map<JobType, JobHandler>();
+
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+// ============================================
+// Enqueue / Query
+// ============================================
+
+export async function enqueueJob(params: {
+  type: JobType;
+  userId: Types.ObjectId | string;
+  payload: Record<string, unknown>;
+  leadMagnetId?: Types.ObjectId;
+}): Promise<IJob> {
+  const job = await Job.create({
+    userId: params.userId,
+    type: params.type,
+    payload: params.payload,
+    leadMagnetId: params.leadMagnetId,
+    maxAttempts: config.jobs.maxAttempts,
+    runAt: new Date(),
+  });
+
+  logger.info('Job enqueued', { jobId: job._id, type: job.type, userId: params.userId });
+  return job;
+}
+
+/**
+ * Filter matching a job only while this worker's claim on it holds. A claim is identified by
+ * its start time, so a worker whose job was re-queued or failed as stale can't settle it.
+ */
+function claimFilter(job: IJob): Record<string, unknown> {
+  return { _id: job._id, status: 'running', startedAt: job.startedAt };
+}
+
+export async function reportJobProgress(
+  job: IJob,
+  step: string,
+  percent: number,
+  message?: string
+): Promise<void> {
+  const now = new Date();
+  await Job.updateOne(
+    claimFilter(job),
+    {
+      $set: {
+        progress: { step, percent: Math.max(0, Math.min(100, Math.round(percent))), message, updatedAt: now },
+        lockedAt: now,
+      },
+    }
+  );
+}
+
+// ============================================
+// Execution
+// ============================================
+
+/**
+ * Client errors (4xx) will fail the same way on every attempt, so don't retry them.
+ */
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof AppError && error.statusCode < 500);
+}
+
+async function runJob(job: IJob): Promise<void> {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    logger.error('No handler registered for job type', { jobId: job._id, type: job.type });
+    await Job.updateOne(
+      claimFilter(job),
+      { $set: { status: 'failed', lastError: `No handler for job type ${job.type}`, completedAt: new Date() } }
+    );
+    return;
+  }
+
+  const context: JobContext = {
+    job,
+    reportProgress: (step, percent, message) => reportJobProgress(job, step, percent, message),
+  };
+
+  // Keep the lock fresh while a long step runs without reporting progress
+  const heartbeat = setInterval(() => {
+    Job.updateOne(claimFilter(job), { $set: { lockedAt: new Date() } }).catch((error: unknown) => {
+      logger.error('Job heartbeat failed', { jobId: job._id, error });
+    });
+  }, Math.max(1000, Math.floor(config.jobs.lockTimeoutMs / 3)));
+
+  try {
+    await settleJob(handler, job, context);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Run the handler and store the outcome. Every update is conditional on the claim, and the
+ * hooks only run when this worker's update landed.
+ */
+async function settleJob(handler: JobHandler, job: IJob, context: JobContext): Promise<void> {
+  try {
+    const result = (await handler.run(context)) ?? {};
+
+    const completed = await Job.updateOne(
+      claimFilter(job),
+      {
+        $set: {
+          status: 'completed',
+          result,
+          progress: { step: 'complete', percent: 100, updatedAt: new Date() },
+          completedAt: new Date(),
+        },
+        $unset: { lockedAt: 1 },
+      }
+    );
+
+    if (completed.modifiedCount === 0) {
+      logger.warn('Job finished after losing its claim; result discarded', { jobId: job._id, type: job.type });
+      return;
+    }
+
+    logger.info('Job completed', { jobId: job._id, type: job.type, attempts: job.attempts });
+
+    if (handler.onCompleted) {
+      try {
+        await handler.onCompleted(job, result);
+      } catch (hookError) {
+        logger.error('Job completion hook errored', { jobId: job._id, error: hookError });
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const willRetry = isRetryable(error) && job.attempts < job.maxAttempts;
+
+    if (willRetry) {
+      const retryDelay = config.jobs.retryBaseDelayMs * 2 ** (job.attempts - 1);
+      logger.warn('Job failed, will retry', {
+        jobId: job._id,
+        type: job.type,
+        attempts: job.attempts,
+        retryInMs: retryDelay,
+        error: message,
+      });
+
+      await Job.updateOne(
+        claimFilter(job),
+        {
+          $set: {
+            status: 'queued',
+            runAt: new Date(Date.now() + retryDelay),
+            lastError: message,
+            progress: { step: 'retrying', percent: 0, message: 'Retrying after an error', updatedAt: new Date() },
+          },
+          $unset: { lockedAt: 1 },
+        }
+      );
+      return;
+    }
+
+    const failed = await Job.updateOne(
+      claimFilter(job),
+      {
+        $set: { status: 'failed', lastError: message, completedAt: new Date() },
+        $unset: { lockedAt: 1 },
+      }
+    );
+    if (failed.modifiedCount === 0) {
+      logger.warn('Job failed after losing its claim', { jobId: job._id, type: job.type, error: message });
+      return;
+    }
+
+    logger.error('Job failed permanently', { jobId: job._id, type: job.type, attempts: job.attempts, error: message });
+
+    if (handler.onFailed) {
+      try {
+        await handler.onFailed(job, error);
+      } catch (hookError) {
+        logger.error('Job failure hook errored', { jobId: job._id, error: hookError });
+      }
+    }
+  }
+}
+
+/**
+ * Atomically claim the next due job so several instances can share the queue.
+ */
+async function claimNextJob(): Promise<IJob | null> {
+  const now = new Date();
+  return Job.findOneAndUpdate(
+    { status: 'queued', runAt: { $lte: now } },
+    {
+      $set: { status: 'running', lockedAt: now, startedAt: now },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Re-queue running jobs whose worker stopped heartbeating (crash/restart). Jobs that have
+ * used up their attempts fail instead, so a job that crashes or hangs the worker is not
+ * retried forever.
+ */
+async function requeueStaleJobs(): Promise<void> {
+  const staleBefore = new Date(Date.now() - config.jobs.lockTimeoutMs);
+  const stale = { status: 'running', lockedAt: { $lt: staleBefore } };
+
+  const exhausted = await Job.find({ ...stale, $expr: { $gte: ['$attempts', '$maxAttempts'] } });
+  for (const job of exhausted) {
+    const message = 'Worker stopped responding on the last attempt';
+
+    // Conditional on the stale lock, so only one instance fails each job
+    const failed = await Job.updateOne(
+      { _id: job._id, ...stale },
+      {
+        $set: { status: 'failed', lastError: message, completedAt: new Date() },
+        $unset: { lockedAt: 1 },
+      }
+    );
+    if (failed.modifiedCount === 0) {
+      continue;
+    }
+
+    logger.error('Stale job failed permanently', { jobId: job._id, type: job.type, attempts: job.attempts });
+
+    const handler = handlers.get(job.type);
+    if (handler?.onFailed) {
+      try {
+        await handler.onFailed(job, new Error(message));
+      } catch (hookError) {
+        logger.error('Job failure hook errored', { jobId: job._id, error: hookError });
+      }
+    }
+  }
+
+  const result = await Job.updateMany(
+    { ...stale, $expr: { $lt: ['$attempts', '$maxAttempts'] } },
+    { $set: { status: 'queued', runAt: new Date() }, $unset: { lockedAt: 1 } }
+  );
+
+  if (result.modifiedCount > 0) {
+    logger.warn('Re-queued stale jobs', { count: result.modifiedCount });
+  }
+}
+
+// ============================================
+// Worker
+// ============================================
+
+let workerTimer: NodeJS.Timeout | null = null;
+let activeJobs = 0;
+let isPolling = false;
+
+async function pollJobs(): Promise<void> {
+  await requeueStaleJobs();
+
+  while (activeJobs < config.jobs.concurrency) {
+    const job = await claimNextJob();
+    if (!job) {
+      return;
+    }
+
+    activeJobs++;
+    runJob(job)
+      .catch((error: unknown) => {
+        logger.error('Unexpected job runner error', { jobId: job._id, error });
+      })
+      .finally(() => {
+        activeJobs--;
+      });
+  }
+}
+
+/**
+ * Start polling the job queue (in-process worker).
+ */
+export function startJobWorker(): void {
+  if (workerTimer) {
+    return;
+  }
+
+  workerTimer = setInterval(() => {
+    if (isPolling) {
+      return;
+    }
+    isPolling = true;
+    pollJobs()
+      .catch((error: unknown) => {
+        logger.error('Job worker poll failed', error);
+      })
+      .finally(() => {
+        isPolling = false;
+      });
+  }, config.jobs.pollIntervalMs);
+
+  logger.info('Job worker started', {
+    pollIntervalMs: config.jobs.pollIntervalMs,
+    concurrency: config.jobs.concurrency,
+  });
+}
+
+/**
+ * Stop claiming new jobs. Running jobs are left to finish or be re-queued after lock expiry.
+ */
+export function stopJobWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
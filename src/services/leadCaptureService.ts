@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { Lead } from '../models/Lead.js';
+import { LeadMagnet } from '../models/LeadMagnet.js';
+import { sendDeliveryEmail, sendConfirmationEmail } from './emailService.js';
+import { getSignedFileUrl } from './storageService.js';
+import { prepareLeadMagnetEmail, enqueueSequenceForLead } from './sequenceService.js';
+import { emitLeadCreated } from './webhookService.js';
+import { queueCrmSyncForLead } from './crmService.js';
+import { isSuppressed, getUnsubscribeUrl } from './suppressionService.js';
+import { getWhiteLabel } from './whiteLabelService.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import type { IEmail, ILead, ILeadConsent, ILeadMagnet } from '../types/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================
+// Consent
+// ============================================
+
+/**
+ * Consent evidence for a new lead: the text shown under the form and the request it came from.
+ */
+export function buildConsentRecord(
+  leadMagnet: Pick<ILeadMagnet, 'consentText'>,
+  request: { ipAddress?: string; userAgent?: string }
+): ILeadConsent {
+  return {
+    text: leadMagnet.consentText || undefined,
+    givenAt: new Date(),
+    ipAddress: request.ipAddress,
+    userAgent: request.userAgent,
+  };
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+/**
+ * Email the asset to the lead and schedule the rest of the nurture sequence.
+ * Nothing is sent to addresses on the owner's suppression list.
+ */
+export async function deliverLeadMagnet(lead: ILead, leadMagnet: ILeadMagnet): Promise<void> {
+  if (await isSuppressed(leadMagnet.userId, lead.email)) {
+    lead.unsubscribedAt = lead.unsubscribedAt ?? new Date();
+    await lead.save();
+    logger.info('Skipping delivery to suppressed address', { leadId: lead._id, leadMagnetId: leadMagnet._id });
+    return;
+  }
+
+  const unsubscribeUrl = getUnsubscribeUrl(leadMagnet.userId, lead.email, lead._id);
+  const whiteLabel = await getWhiteLabel(leadMagnet.userId);
+
+  if (leadMagnet.isUserUploaded && leadMagnet.uploadedFileUrl && leadMagnet.uploadedFileMimeType) {
+    // User-uploaded file - generate simple delivery email
+    const signedFileUrl = await getSignedFileUrl(
+      leadMagnet.uploadedFileUrl,
+      leadMagnet.uploadedFileMimeType,
+      60 * 60 * 24 * 7 // 7 days
+    );
+
+    const title = leadMagnet.title || 'Your Download';
+    const description = leadMagnet.description || '';
+    const fileTypeLabel = leadMagnet.uploadedFileType === 'pdf' ? 'PDF'
+      : leadMagnet.uploadedFileType === 'image' ? 'Image'
+        : leadMagnet.uploadedFileType === 'audio' ? 'Audio File'
+          : 'File';
+
+    const subject = `Your ${fileTypeLabel}: ${title}`;
+    const bodyHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #333;">${title}</h1>
+        ${description ? `<p style="color: #666; margin-bottom: 24px;">${description}</p>` : ''}
+        <p style="color: #333; margin-bottom: 24px;">Here's your download:</p>
+        <p style="margin-bottom: 24px;">
+          <a href="${signedFileUrl}"
+             style="display: inline-block; background-color: #10B981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
+            Download ${fileTypeLabel}
+          </a>
+        </p>
+        <p style="color: #999; font-size: 14px;">This link expires in 7 days.</p>
+      </div>
+    `;
+    const bodyText = `${title}\n\n${description ? description + '\n\n' : ''}Download your ${fileTypeLabel.toLowerCase()} here: ${signedFileUrl}\n\nThis link expires in 7 days.`;
+
+    // Don't await - send in background
+    sendDeliveryEmail(lead._id.toString(), lead.email, subject, bodyHtml, bodyText, unsubscribeUrl, whiteLabel).catch((error: unknown) => {
+      logger.error('Failed to send delivery email for uploaded file', error);
+    });
+  } else if (leadMagnet.emailsJson?.emails?.[0]) {
+    const deliveryEmail: IEmail = leadMagnet.emailsJson.emails[0];
+    const { subject, bodyHtml, bodyText } = await prepareLeadMagnetEmail(leadMagnet, deliveryEmail);
+
+    // Don't await - send in background
+    sendDeliveryEmail(lead._id.toString(), lead.email, subject, bodyHtml, bodyText, unsubscribeUrl, whiteLabel).catch((error: unknown) => {
+      logger.error('Failed to send delivery email', error);
+    });
+
+    // Schedule the rest of the nurture sequence
+    enqueueSequenceForLead(lead, leadMagnet).catch((error: unknown) => {
+      logger.error('Failed to schedule email sequence', error);
+    });
+  }
+}
+
+/**
+ * Everything that happens once a lead is subscribed for good: the asset is delivered and
+ * webhooks / CRM integrations are notified. Runs at signup, or after confirmation with double opt-in.
+ */
+export async function completeLeadCapture(userId: Types.ObjectId, lead: ILead, leadMagnet: ILeadMagnet): Promise<void> {
+  emitLeadCreated(userId, lead, leadMagnet);
+  queueCrmSyncForLead(userId, lead);
+  await deliverLeadMagnet(lead, leadMagnet);
+}
+
+// ============================================
+// Double Opt-In
+// ============================================
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Whether a pending lead re-submitting the form should get a new confirmation email.
+ */
+export function canResendConfirmation(lead: ILead): boolean {
+  if (lead.optInStatus !== 'pending' || !lead.confirmationExpiresAt) {
+    return false;
+  }
+  const sentAt = lead.confirmationExpiresAt.getTime() - config.doubleOptIn.tokenTtlHours * HOUR_MS;
+  return Date.now() - sentAt >= config.doubleOptIn.resendIntervalMs;
+}
+
+/**
+ * Issue a fresh confirmation token for the lead and email the link.
+ * `confirmUrl` is the confirmation endpoint on the host the lead signed up on.
+ */
+export async function sendLeadConfirmation(lead: ILead, leadMagnet: ILeadMagnet, confirmUrl: string): Promise<void> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  lead.optInStatus = 'pending';
+  lead.confirmationTokenHash = hashToken(token);
+  lead.confirmationExpiresAt = new Date(Date.now() + config.doubleOptIn.tokenTtlHours * HOUR_MS);
+  await lead.save();
+
+  if (await isSuppressed(leadMagnet.userId, lead.email)) {
+    logger.info('Skipping confirmation email to suppressed address', { leadId: lead._id, leadMagnetId: leadMagnet._id });
+    return;
+  }
+
+  const url = `${confirmUrl}?token=${encodeURIComponent(token)}`;
+  sendConfirmationEmail({
+    to: lead.email,
+    title: leadMagnet.title || 'your download',
+    confirmUrl: url,
+    expiresInHours: config.doubleOptIn.tokenTtlHours,
+    whiteLabel: await getWhiteLabel(leadMagnet.userId),
+  }).catch((error: unknown) => {
+    logger.error('Failed to send confirmation email', { leadId: lead._id, error });
+  });
+
+  logger.info('Lead confirmation requested', { leadId: lead._id, leadMagnetId: leadMagnet._id });
+}
+
+export type LeadConfirmationResult =
+  | { status: 'confirmed'; lead: ILead; leadMagnet: ILeadMagnet }
+  | { status: 'invalid' | 'expired' };
+
+/**
+ * Confirm the lead a token was issued to and complete the capture.
+ * Tokens are single-use; a used or unknown token is reported as invalid.
+ */
+export async function confirmLead(token: string): Promise<LeadConfirmationResult> {
+  const lead = await Lead.findOne({ confirmationTokenHash: hashToken(token), optInStatus: 'pending' });
+  if (!lead) {
+    return { status: 'invalid' };
+  }
+  if (!lead.confirmationExpiresAt || lead.confirmationExpiresAt.getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  const leadMagnet = await LeadMagnet.findById(lead.leadMagnetId);
+  if (!leadMagnet) {
+    return { status: 'invalid' };
+  }
+
+  // Claim the token so a double click cannot deliver twice
+  const confirmedAt = new Date();
+  const claimed = await Lead.findOneAndUpdate(
+    { _id: lead._id, optInStatus: 'pending' },
+    { $set: { optInStatus: 'confirmed', confirmedAt }, $unset: { confirmationTokenHash: 1, confirmationExpiresAt: 1 } },
+    { new: true }
+  );
+  if (!claimed) {
+    return { status: 'invalid' };
+  }
+
+  logger.info('Lead confirmed', { leadId: claimed._id, leadMagnetId: leadMagnet._id });
+  await completeLeadCapture(leadMagnet.userId, claimed, leadMagnet);
+
+  return { status: 'confirmed', lead: claimed, leadMagnet };
+}
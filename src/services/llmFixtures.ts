@@ -0,0 +1,141 @@
+import type { LLMRequest } from './llmService.js';
+
+// ============================================
+// Fake LLM Fixtures
+// ============================================
+// Deterministic responses for the 'fake' provider so local development and
+// tests can run the full generation pipeline without any AI credentials.
+// Shapes mirror the JSON each prompt asks for.
+
+function numberParam(params: Record<string, unknown> | undefined, key: string, fallback: number): number {
+  const value = params?.[key];
+  return typeof value === 'number' && value > 0 ? value : fallback;
+}
+
+function stringParam(params: Record<string, unknown> | undefined, key: string, fallback: string): string {
+  const value = params?.[key];
+  return typeof value === 'string' && value ? value : fallback;
+}
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i);
+}
+
+function fakeResult(i: number) {
+  return {
+    name: `Result Type ${i + 1}`,
+    emoji: '🎯',
+    summary: `You are result type ${i + 1}. This is a placeholder summary generated offline.`,
+    traits: ['Trait one', 'Trait two', 'Trait three', 'Trait four'],
+    recommendation: `Recommendation for result type ${i + 1}.`,
+  };
+}
+
+const fixtures: Record<string, (request: LLMRequest) => unknown> = {
+  business_meta: () => ({
+    business_summary: 'A sample business that helps small teams grow with practical advice.',
+    product_service_list: ['Consulting', 'Online course', 'Templates'],
+    icp: 'Founders and marketers at small businesses',
+    pain_points: ['Not enough leads', 'No time for marketing', 'Unclear messaging'],
+    tone_indicators: ['friendly', 'practical'],
+    benefits: ['More qualified leads', 'Clear marketing plan', 'Time saved'],
+    category: 'Marketing',
+    keywords: ['lead generation', 'marketing', 'growth'],
+  }),
+
+  outline: () => ({
+    title_options: ['The Practical Growth Guide', 'Grow Faster With Less Effort', 'Your First 100 Leads'],
+    subtitle_options: ['Simple steps to attract better leads', 'A no-fluff playbook for small teams'],
+    sections: range(5).map((i) => ({
+      title: `Section ${i + 1}`,
+      purpose: `Explain key idea number ${i + 1}.`,
+    })),
+    cta_concept: 'Book a free strategy call',
+  }),
+
+  content: ({ params }) => {
+    const titles = Array.isArray(params?.sectionTitles) ? (params.sectionTitles as string[]) : ['Section 1'];
+    return {
+      title: stringParam(params, 'title', 'The Practical Growth Guide'),
+      subtitle: 'Simple steps to attract better leads',
+      sections: titles.map((title) => ({
+        title,
+        content: `${title} explained in plain language.\n\n- First actionable tip\n- Second actionable tip\n- Third actionable tip`,
+      })),
+      cta: 'Book a free strategy call',
+    };
+  },
+
+  section_rewrite: ({ params }) => ({
+    title: stringParam(params, 'title', 'Section 1'),
+    content: `${stringParam(params, 'content', 'Section content.')}\n\n_Rewritten: ${stringParam(params, 'instruction', 'improve')}_`,
+  }),
+
+  landing_copy: ({ params }) => ({
+    headline: stringParam(params, 'title', 'Get the Practical Growth Guide'),
+    subheadline: 'Free download: simple steps to attract better leads',
+    benefit_bullets: ['Learn what works', 'Avoid common mistakes', 'Take action today'],
+    cta: 'Send Me the Guide',
+    short_description: 'A free guide with practical steps to grow your business.',
+  }),
+
+  email_sequence: ({ params }) => {
+    const pdfUrl = stringParam(params, 'pdfUrl', '{{PDF_URL}}');
+    return {
+      emails: range(5).map((i) => ({
+        title: i === 0 ? 'Delivery' : `Follow-up ${i}`,
+        subject: i === 0 ? 'Here is your free guide' : `Quick tip #${i}`,
+        body_text: i === 0 ? `Hi there,\n\nDownload your guide here: ${pdfUrl}\n\nThanks!` : `Hi there,\n\nHere is tip #${i}.\n\nThanks!`,
+        body_html:
+          i === 0
+            ? `<p>Hi there,</p><p><a href="${pdfUrl}">Download your guide</a></p><p>Thanks!</p>`
+            : `<p>Hi there,</p><p>Here is tip #${i}.</p><p>Thanks!</p>`,
+      })),
+    };
+  },
+
+  quiz_questions: ({ params }) => ({
+    questions: range(numberParam(params, 'questionCount', 5)).map((i) => ({
+      questionText: `Question ${i + 1}?`,
+      answers: ['Answer A', 'Answer B', 'Answer C', 'Answer D'],
+      // Knowledge tests: rotate the correct answer
+      ...(params?.knowledgeTest === true && {
+        correctAnswerIndex: i % 4,
+        explanation: `Answer ${String.fromCharCode(65 + (i % 4))} is correct.`,
+      }),
+    })),
+  }),
+
+  quiz_results: ({ params }) => ({
+    results: range(numberParam(params, 'resultCount', 3)).map(fakeResult),
+  }),
+
+  quiz: ({ params }) => {
+    const numResults = numberParam(params, 'numResults', 3);
+    const numQuestions = numberParam(params, 'numQuestions', 5);
+    const answersPerQuestion = Math.max(2, Math.min(4, numResults));
+    return {
+      title: `What Kind of ${stringParam(params, 'topic', 'Marketer')} Are You?`,
+      subtitle: 'Find out in under two minutes',
+      questions: range(numQuestions).map((q) => ({
+        questionText: `Question ${q + 1}?`,
+        answers: range(answersPerQuestion).map((a) => ({
+          answerText: `Answer ${String.fromCharCode(65 + a)}`,
+          // Spread answers across every result
+          resultIndex: (q + a) % numResults,
+          // Branching quizzes: the first answer skips the next question
+          ...(params?.branching === true && a === 0 && q + 2 < numQuestions && { nextQuestionIndex: q + 2 }),
+        })),
+      })),
+      results: range(numResults).map(fakeResult),
+    };
+  },
+};
+
+export function buildFakeResponse(request: LLMRequest): unknown {
+  const fixture = fixtures[request.task];
+  if (!fixture) {
+    throw new Error(`No fake LLM fixture for task "${request.task}"`);
+  }
+  return fixture(request);
+}
@@ -0,0 +1,403 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import OpenAI from 'openai';
+import { GoogleGenAI } from '@google/genai';
+import { config, type PlanType } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/AppError.js';
+import { buildFakeResponse } from './llmFixtures.js';
+import { recordAIUsage } from './usageService.js';
+import type { AIProviderName } from '../types/index.js';
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY = 1000;
+const MAX_OUTPUT_TOKENS_CAP = 8000;
+
+// ============================================
+// Types
+// ============================================
+
+export type LLMProviderName = AIProviderName;
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'gemini', 'local', 'fake'];
+
+export interface LLMRequest {
+  /** Identifies the call site (e.g. 'outline', 'email_sequence'); used for logs and fake fixtures */
+  task: string;
+  systemPrompt: string;
+  userPrompt: string;
+  maxOutputTokens?: number;
+  /** Structured inputs of the call (counts, URLs...) so the fake provider can shape its output */
+  params?: Record<string, unknown>;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+// ============================================
+// Providers
+// ============================================
+
+class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private readonly client = new OpenAI({ apiKey: config.openaiApiKey });
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    // Combine system and user prompts for the Responses API
+    const input = `${request.systemPrompt}\n\n---\n\n${request.userPrompt}`;
+
+    const response = await this.client.responses.create({
+      model: config.llm.openaiModel,
+      input,
+      ...(request.maxOutputTokens ? { max_output_tokens: request.maxOutputTokens } : {}),
+      text: {
+        format: {
+          type: 'json_object',
+        },
+      },
+    });
+
+    return {
+      text: response.output_text,
+      model: config.llm.openaiModel,
+      usage: response.usage
+        ? { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
+        : undefined,
+    };
+  }
+}
+
+class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private readonly client = new GoogleGenAI({ apiKey: config.geminiApiKey || '' });
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.models.generateContent({
+      model: config.llm.geminiModel,
+      contents: request.userPrompt,
+      config: {
+        systemInstruction: request.systemPrompt,
+        responseMimeType: 'application/json',
+        ...(request.maxOutputTokens ? { maxOutputTokens: request.maxOutputTokens } : {}),
+      },
+    });
+
+    const usage = response.usageMetadata;
+    return {
+      text: response.text ?? '',
+      model: config.llm.geminiModel,
+      usage: usage
+        ? { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Any server speaking the OpenAI Chat Completions API (Ollama, vLLM, LM Studio...)
+ */
+class LocalProvider implements LLMProvider {
+  readonly name = 'local' as const;
+  private readonly client = new OpenAI({
+    baseURL: config.llm.local.baseUrl,
+    // Most local servers ignore the key, but the SDK requires one
+    apiKey: config.llm.local.apiKey || 'local',
+  });
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.chat.completions.create({
+      model: config.llm.local.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+      response_format: { type: 'json_object' },
+      ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+    });
+
+    return {
+      text: response.choices[0]?.message?.content ?? '',
+      model: config.llm.local.model,
+      usage: response.usage
+        ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Deterministic offline provider: returns fixture JSON shaped for each task.
+ */
+class FakeProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const text = JSON.stringify(buildFakeResponse(request));
+    return {
+      text,
+      model: 'fake',
+      usage: {
+        inputTokens: Math.ceil((request.systemPrompt.length + request.userPrompt.length) / 4),
+        outputTokens: Math.ceil(text.length / 4),
+      },
+    };
+  }
+}
+
+const providerFactories: Record<LLMProviderName, () => LLMProvider> = {
+  openai: () => new OpenAIProvider(),
+  gemini: () => new GeminiProvider(),
+  local: () => new LocalProvider(),
+  fake: () => new FakeProvider(),
+};
+
+// Providers are created lazily so unused SDK clients are never constructed
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Replace a provider implementation (e.g. a scripted fake in tests).
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+function getProvider(name: LLMProviderName): LLMProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = providerFactories[name]();
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// ============================================
+// Request Context (per-plan provider selection)
+// ============================================
+
+export interface LLMContext {
+  userId?: string;
+  plan?: PlanType;
+  // Attribution for the usage ledger
+  leadMagnetId?: string;
+  jobId?: string;
+  /** Force a provider for this scope regardless of env/plan settings */
+  provider?: LLMProviderName;
+}
+
+const llmContext = new AsyncLocalStorage<LLMContext>();
+
+/**
+ * Run `fn` with an LLM context; every AI call made inside (including awaited
+ * async work) resolves its provider from this context.
+ */
+export function runWithLLMContext<T>(context: LLMContext, fn: () => T): T {
+  return llmContext.run(context, fn);
+}
+
+export function getLLMContext(): LLMContext | undefined {
+  return llmContext.getStore();
+}
+
+function isProviderName(value: string): value is LLMProviderName {
+  return (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Resolve the provider: explicit context override > plan override > environment default.
+ */
+export function resolveProviderName(): LLMProviderName {
+  const context = getLLMContext();
+  if (context?.provider) {
+    return context.provider;
+  }
+
+  const planProvider = context?.plan ? config.llm.planProviders[context.plan] : '';
+  const candidate = planProvider || config.llm.provider;
+
+  if (!isProviderName(candidate)) {
+    logger.warn('Unknown LLM provider configured; falling back to openai', { provider: candidate });
+    return 'openai';
+  }
+  return candidate;
+}
+
+// ============================================
+// JSON Parsing / Repair
+// ============================================
+
+/**
+ * Pull the JSON object out of a model response, tolerating code fences
+ * and stray text around it.
+ */
+export function extractJson(content: string): string {
+  const unfenced = content.replace(/```(?:json)?/gi, '');
+  const firstBrace = unfenced.indexOf('{');
+  const lastBrace = unfenced.lastIndexOf('}');
+  return firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace
+    ? unfenced.slice(firstBrace, lastBrace + 1)
+    : unfenced;
+}
+
+/**
+ * Fix common model JSON mistakes: trailing commas and smart quotes around keys/strings.
+ */
+function repairJson(candidate: string): string {
+  return candidate
+    .replace(/,\s*([}\]])/g, '$1')
+    .replace(/[“”]/g, '"');
+}
+
+export function parseJsonResponse<T>(content: string): T {
+  const candidate = extractJson(content);
+  try {
+    return JSON.parse(candidate) as T;
+  } catch (error) {
+    const repaired = repairJson(candidate);
+    if (repaired === candidate) {
+      throw error;
+    }
+    return JSON.parse(repaired) as T;
+  }
+}
+
+function looksTruncated(content: string): boolean {
+  const trimmed = content.replace(/```\s*$/, '').trim();
+  return trimmed.includes('{') && !trimmed.endsWith('}');
+}
+
+// ============================================
+// Usage Tracking
+// ============================================
+
+/**
+ * Call the provider and record the attempt (success or failure) in the usage ledger.
+ */
+async function completeWithUsage(provider: LLMProvider, request: LLMRequest): Promise<LLMResponse> {
+  const context = getLLMContext();
+  const startedAt = Date.now();
+  const attribution = {
+    userId: context?.userId,
+    leadMagnetId: context?.leadMagnetId,
+    jobId: context?.jobId,
+    provider: provider.name,
+    step: request.task,
+  };
+
+  try {
+    const response = await provider.complete(request);
+    void recordAIUsage({
+      ...attribution,
+      model: response.model,
+      inputTokens: response.usage?.inputTokens,
+      outputTokens: response.usage?.outputTokens,
+      latencyMs: Date.now() - startedAt,
+      success: true,
+    });
+    return response;
+  } catch (error) {
+    void recordAIUsage({
+      ...attribution,
+      model: getDefaultModel(provider.name),
+      latencyMs: Date.now() - startedAt,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+function getDefaultModel(name: LLMProviderName): string {
+  switch (name) {
+    case 'openai':
+      return config.llm.openaiModel;
+    case 'gemini':
+      return config.llm.geminiModel;
+    case 'local':
+      return config.llm.local.model;
+    default:
+      return 'fake';
+  }
+}
+
+// ============================================
+// Main Export
+// ============================================
+
+/**
+ * Run a JSON-returning LLM call on the active provider with shared retry logic:
+ * transient errors are retried, and truncated output is retried with a higher
+ * output token cap.
+ */
+export async function completeJson<T>(request: LLMRequest, retries = MAX_RETRIES): Promise<T> {
+  const provider = getProvider(resolveProviderName());
+
+  try {
+    const response = await completeWithUsage(provider, request);
+    const content = response.text;
+    if (!content) {
+      throw new Error(`Empty response from ${provider.name}`);
+    }
+
+    try {
+      return parseJsonResponse<T>(content);
+    } catch (parseError) {
+      // If output was truncated due to token limits, retry with a slightly higher cap.
+      if (looksTruncated(content) && retries > 0 && request.maxOutputTokens) {
+        const bumped = Math.min(Math.round(request.maxOutputTokens * 1.4 + 200), MAX_OUTPUT_TOKENS_CAP);
+        logger.warn('LLM returned truncated JSON; retrying with higher max output tokens', {
+          provider: provider.name,
+          task: request.task,
+          from: request.maxOutputTokens,
+          to: bumped,
+          retriesLeft: retries - 1,
+        });
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
+        return completeJson<T>({ ...request, maxOutputTokens: bumped }, retries - 1);
+      }
+
+      logger.warn('Failed to parse LLM JSON output', {
+        provider: provider.name,
+        task: request.task,
+        message: parseError instanceof Error ? parseError.message : String(parseError),
+        // keep logs small; enough to diagnose
+        preview: content.slice(0, 500),
+      });
+      throw parseError;
+    }
+  } catch (error) {
+    // Already exhausted retries further down the chain
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    if (retries > 0) {
+      logger.warn('LLM call failed, retrying...', {
+        provider: provider.name,
+        task: request.task,
+        retriesLeft: retries - 1,
+      });
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
+      return completeJson<T>(request, retries - 1);
+    }
+
+    logger.error('LLM call failed after retries', {
+      provider: provider.name,
+      task: request.task,
+      message: error instanceof Error ? error.message : String(error),
+      error,
+    });
+    throw AppError.internal('AI service temporarily unavailable. Please try again.');
+  }
+}
@@ -61,11 +61,17 @@ function hexToRgba(hex: string, alpha: number): string {
 // HTML Template Generation
 // ============================================
 
+export interface PdfRenderOptions {
+  // White-labeled accounts: leave out the MagnetHub credit on the closing page
+  hideBranding?: boolean;
+}
+
 function generatePdfHtml(
   content: ILeadMagnetContent, 
   type: LeadMagnetType,
   brand: IBrandSettings,
-  brandName?: string
+  brandName?: string,
+  options: PdfRenderOptions = {}
 ): string {
   const typeLabels: Partial<Record<LeadMagnetType, string>> = {
     guide: 'GUIDE',
@@ -499,6 +505,12 @@ function generatePdfHtml(
       font-style: italic;
     }
 
+    .cta-credit {
+      margin-top: 12px;
+      font-size: 8pt;
+      color: var(--color-text-light);
+    }
+
     /* ================================
        UTILITIES
     ================================ */
@@ -531,6 +543,7 @@ function generatePdfHtml(
     <h2 class="cta-title">Ready to Take Action?</h2>
     <p class="cta-text">${escapeHtml(content.cta)}</p>
     <div class="cta-footer">Thank you for reading</div>
+    ${options.hideBranding ? '' : '<div class="cta-credit">Made with MagnetHub</div>'}
   </div>
 </body>
 </html>`;
@@ -707,7 +720,8 @@ export async function generatePdf(
   content: ILeadMagnetContent,
   type: LeadMagnetType,
   brand?: IBrandSettings,
-  brandName?: string
+  brandName?: string,
+  options: PdfRenderOptions = {}
 ): Promise<Buffer> {
   logger.info('Generating branded PDF with Puppeteer', { title: content.title, type, brandName });
 
@@ -727,7 +741,7 @@ export async function generatePdf(
 
   try {
     // Generate HTML with branding
-    const html = generatePdfHtml(content, type, brandToUse, brandName);
+    const html = generatePdfHtml(content, type, brandToUse, brandName, options);
 
     // Launch browser
     browser = await puppeteer.launch({
@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { Lead } from '../models/Lead.js';
+import { LeadMagnet } from '../models/LeadMagnet.js';
+import { Quiz } from '../models/Quiz.js';
+import { QuizResponse } from '../models/QuizResponse.js';
+import { PageView } from '../models/PageView.js';
+import { SequenceEmail } from '../models/SequenceEmail.js';
+import { CrmSync } from '../models/CrmSync.js';
+import { WebhookDelivery } from '../models/WebhookDelivery.js';
+import { Suppression } from '../models/Suppression.js';
+import { DataRequest } from '../models/DataRequest.js';
+import { anonymizeSuppression, matchSuppressedEmail } from './suppressionService.js';
+import { logger } from '../utils/logger.js';
+import type {
+  DataErasureMode,
+  DataRequestType,
+  IDataRequest,
+  IDataRequestCounts,
+  ILead,
+  IPageView,
+  IQuizResponse,
+  ISequenceEmail,
+  ICrmSync,
+  IWebhookDelivery,
+  ISuppression,
+} from '../types/index.js';
+
+// Everything stored about one email address across an owner's lead magnets and quizzes
+export interface SubjectData {
+  email: string;
+  leadMagnets: Array<{ id: string; title?: string; slug: string }>;
+  quizzes: Array<{ id: string; title: string; slug: string }>;
+  leads: ILead[];
+  quizResponses: IQuizResponse[];
+  // Matched by the IP addresses recorded on the leads and quiz responses
+  pageViews: IPageView[];
+  sequenceEmails: ISequenceEmail[];
+  crmSyncs: ICrmSync[];
+  webhookDeliveries: IWebhookDelivery[];
+  suppressions: ISuppression[];
+}
+
+function hashEmail(email: string): string {
+  return crypto.createHash('sha256').update(email).digest('hex');
+}
+
+function countRecords(data: SubjectData): IDataRequestCounts {
+  return {
+    leads: data.leads.length,
+    quizResponses: data.quizResponses.length,
+    pageViews: data.pageViews.length,
+    sequenceEmails: data.sequenceEmails.length,
+    crmSyncs: data.crmSyncs.length,
+    webhookDeliveries: data.webhookDeliveries.length,
+    suppressions: data.suppressions.length,
+  };
+}
+
+async function recordDataRequest(
+  userId: Types.ObjectId,
+  type: DataRequestType,
+  email: string,
+  counts: IDataRequestCounts,
+  options: { mode?: DataErasureMode; note?: string; suppressionRetained?: boolean } = {}
+): Promise<IDataRequest> {
+  const request = await DataRequest.create({
+    userId,
+    type,
+    emailHash: hashEmail(email),
+    mode: options.mode,
+    note: options.note,
+    suppressionRetained: options.suppressionRetained,
+    counts,
+  });
+
+  logger.info('Data subject request handled', { userId, type, mode: options.mode, counts });
+  return request;
+}
+
+// ============================================
+// Lookup
+// ============================================
+
+async function findSubjectData(userId: Types.ObjectId, email: string): Promise<SubjectData> {
+  const [leadMagnets, quizzes] = await Promise.all([
+    LeadMagnet.find({ userId }).select('title slug'),
+    Quiz.find({ userId }).select('title slug'),
+  ]);
+  const leadMagnetIds = leadMagnets.map((lm) => lm._id);
+  const quizIds = quizzes.map((q) => q._id);
+
+  const [leads, quizResponses] = await Promise.all([
+    Lead.find({ email, leadMagnetId: { $in: leadMagnetIds } }).sort({ createdAt: 1 }),
+    QuizResponse.find({ email, quizId: { $in: quizIds } }).sort({ createdAt: 1 }),
+  ]);
+  const leadIds = leads.map((l) => l._id);
+  const quizResponseIds = quizResponses.map((r) => r._id);
+
+  const ips = new Set<string>();
+  for (const lead of leads) {
+    if (lead.consent?.ipAddress) ips.add(lead.consent.ipAddress);
+  }
+  for (const response of quizResponses) {
+    if (response.ipAddress) ips.add(response.ipAddress);
+  }
+
+  const [pageViews, sequenceEmails, crmSyncs, webhookDeliveries, suppressions] = await Promise.all([
+    ips.size > 0
+      ? PageView.find({ leadMagnetId: { $in: leadMagnetIds }, ip: { $in: [...ips] } }).sort({ createdAt: 1 })
+      : Promise.resolve([]),
+    SequenceEmail.find({ leadId: { $in: leadIds } }).sort({ scheduledFor: 1 }),
+    CrmSync.find({ userId, $or: [{ leadId: { $in: leadIds } }, { quizResponseId: { $in: quizResponseIds } }] }),
+    WebhookDelivery.find({
+      userId,
+      $or: [{ 'payload.data.lead.email': email }, { 'payload.data.response.email': email }],
+    }),
+    Suppression.find({ userId, email: matchSuppressedEmail(email) }),
+  ]);
+
+  const usedLeadMagnetIds = new Set(leads.map((l) => l.leadMagnetId.toString()));
+  const usedQuizIds = new Set(quizResponses.map((r) => r.quizId.toString()));
+
+  return {
+    email,
+    leadMagnets: leadMagnets
+      .filter((lm) => usedLeadMagnetIds.has(lm._id.toString()))
+      .map((lm) => ({ id: lm._id.toString(), title: lm.title, slug: lm.slug })),
+    quizzes: quizzes
+      .filter((q) => usedQuizIds.has(q._id.toString()))
+      .map((q) => ({ id: q._id.toString(), title: q.title, slug: q.slug })),
+    leads,
+    quizResponses,
+    pageViews,
+    sequenceEmails,
+    crmSyncs,
+    webhookDeliveries,
+    suppressions,
+  };
+}
+
+/**
+ * Right of access: everything stored for the email, recorded in the audit log.
+ */
+export async function lookupSubjectData(
+  userId: Types.ObjectId,
+  email: string,
+  note?: string
+): Promise<{ data: SubjectData; request: IDataRequest }> {
+  const normalizedEmail = email.toLowerCase();
+  const data = await findSubjectData(userId, normalizedEmail);
+  const request = await recordDataRequest(userId, 'access', normalizedEmail, countRecords(data), { note });
+  return { data, request };
+}
+
+/**
+ * Data portability: the same records as a lookup, as a JSON document to hand to the lead.
+ */
+export async function exportSubjectData(userId: Types.ObjectId, email: string, note?: string): Promise<string> {
+  const normalizedEmail = email.toLowerCase();
+  const data = await findSubjectData(userId, normalizedEmail);
+  await recordDataRequest(userId, 'export', normalizedEmail, countRecords(data), { note });
+
+  return JSON.stringify({ exportedAt: new Date().toISOString(), ...data }, null, 2);
+}
+
+// ============================================
+// Erasure
+// ============================================
+
+/**
+ * Right to erasure. 'delete' removes every record; 'anonymize' keeps leads, quiz responses
+ * and page views for analytics with the personal fields removed. Queued emails, CRM syncs
+ * and webhook deliveries for the address are always deleted. A suppression entry is kept
+ * under the address's hash so the lead is never emailed again; the audit record says so.
+ * Contacts already pushed to connected ESPs / CRMs must be removed there.
+ */
+export async function eraseSubjectData(
+  userId: Types.ObjectId,
+  email: string,
+  mode: DataErasureMode,
+  note?: string
+): Promise<IDataRequest> {
+  const normalizedEmail = email.toLowerCase();
+  const data = await findSubjectData(userId, normalizedEmail);
+
+  const leadIds = data.leads.map((l) => l._id);
+  const quizResponseIds = data.quizResponses.map((r) => r._id);
+  const pageViewIds = data.pageViews.map((v) => v._id);
+
+  const [suppressionRetained] = await Promise.all([
+    anonymizeSuppression(userId, normalizedEmail),
+    SequenceEmail.deleteMany({ _id: { $in: data.sequenceEmails.map((e) => e._id) } }),
+    CrmSync.deleteMany({ _id: { $in: data.crmSyncs.map((s) => s._id) } }),
+    WebhookDelivery.deleteMany({ _id: { $in: data.webhookDeliveries.map((d) => d._id) } }),
+  ]);
+
+  if (mode === 'delete') {
+    await Promise.all([
+      Lead.deleteMany({ _id: { $in: leadIds } }),
+      QuizResponse.deleteMany({ _id: { $in: quizResponseIds } }),
+      PageView.deleteMany({ _id: { $in: pageViewIds } }),
+    ]);
+  } else {
+    // Lead.email is required and unique per lead magnet, so it gets a per-lead placeholder
+    const now = new Date();
+    await Promise.all([
+      ...data.leads.map((lead) =>
+        Lead.updateOne(
+          { _id: lead._id },
+          {
+            $set: { email: `erased-${lead._id.toString()}@anonymized.invalid`, unsubscribedAt: lead.unsubscribedAt ?? now },
+            $unset: { consent: 1, referrer: 1, confirmationTokenHash: 1, confirmationExpiresAt: 1 },
+          }
+        )
+      ),
+      QuizResponse.updateMany(
+        { _id: { $in: quizResponseIds } },
+        { $unset: { email: 1, firstName: 1, phone: 1, ipAddress: 1, userAgent: 1, referrer: 1 } }
+      ),
+      PageView.updateMany(
+        { _id: { $in: pageViewIds } },
+        { $unset: { ip: 1, userAgent: 1, referrer: 1 } }
+      ),
+    ]);
+  }
+
+  return recordDataRequest(userId, 'erasure', normalizedEmail, countRecords(data), { mode, note, suppressionRetained });
+}
+
+// ============================================
+// Audit Log
+// ============================================
+
+export async function listDataRequests(
+  userId: Types.ObjectId,
+  options: { limit: number; email?: string; type?: DataRequestType }
+): Promise<IDataRequest[]> {
+  const filter: Record<string, unknown> = { userId };
+  if (options.email) filter.emailHash = hashEmail(options.email.toLowerCase());
+  if (options.type) filter.type = options.type;
+
+  return DataRequest.find(filter).sort({ createdAt: -1 }).limit(options.limit);
+}
@@ -1,17 +1,8 @@
-import OpenAI from 'openai';
 import mongoose from 'mongoose';
-import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { AppError } from '../utils/AppError.js';
+import { completeJson } from './llmService.js';
 import type { IQuizQuestion, IQuizResult, IQuizAnswer } from '../types/index.js';
 
-const openai = new OpenAI({
-  apiKey: config.openaiApiKey,
-});
-
-const MAX_RETRIES = 3;
-const RETRY_DELAY = 1000;
-
 // ============================================
 // Types
 // ============================================
@@ -22,11 +13,15 @@ export interface QuizGenerationInput {
   questionCount: number;
   niche: string;
   quizTitle?: string;
+  // Graded questions with one correct answer and an explanation each
+  knowledgeTest?: boolean;
 }
 
 export interface GeneratedQuestion {
   questionText: string;
   answers: string[];
+  correctAnswerIndex?: number; // Knowledge tests: which answer (0-indexed) is correct
+  explanation?: string; // Knowledge tests: why it is correct
 }
 
 export interface QuizQuestionsOutput {
@@ -38,6 +33,8 @@ export interface ResultsGenerationInput {
   questions: GeneratedQuestion[];
   resultCount: number;
   niche: string;
+  // Results are score bands, from the lowest scores to the highest
+  knowledgeTest?: boolean;
 }
 
 export interface GeneratedResult {
@@ -56,85 +53,6 @@ export interface AnswerMapping {
   [answerId: string]: string; // answerId -> resultId
 }
 
-// ============================================
-// Helper Functions
-// ============================================
-
-async function callOpenAI<T>(
-  systemPrompt: string,
-  userPrompt: string,
-  retries = MAX_RETRIES,
-  options?: { maxOutputTokens?: number }
-): Promise<T> {
-  try {
-    // Combine system and user prompts for the Responses API
-    const input = `${systemPrompt}\n\n---\n\n${userPrompt}`;
-
-    const response = await openai.responses.create({
-      model: 'gpt-5.1',
-      input,
-      ...(options?.maxOutputTokens ? { max_output_tokens: options.maxOutputTokens } : {}),
-      text: {
-        format: {
-          type: 'json_object',
-        },
-      },
-    });
-
-    const content = response.output_text;
-    if (!content) {
-      throw new Error('Empty response from OpenAI');
-    }
-
-    // Be tolerant of occasional stray text around the JSON object.
-    const firstBrace = content.indexOf('{');
-    const lastBrace = content.lastIndexOf('}');
-    const jsonCandidate =
-      firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace
-        ? content.slice(firstBrace, lastBrace + 1)
-        : content;
-
-    try {
-      return JSON.parse(jsonCandidate) as T;
-    } catch (parseError) {
-      // If output was truncated due to token limits, retry with a slightly higher cap.
-      const looksTruncated =
-        typeof content === 'string' &&
-        content.includes('{') &&
-        !content.trim().endsWith('}');
-
-      if (looksTruncated && retries > 0 && options?.maxOutputTokens) {
-        const bumped = Math.min(Math.round(options.maxOutputTokens * 1.4 + 200), 8000);
-        logger.warn('OpenAI returned truncated JSON; retrying with higher max_output_tokens', {
-          from: options.maxOutputTokens,
-          to: bumped,
-          retriesLeft: retries - 1,
-        });
-        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-        return callOpenAI<T>(systemPrompt, userPrompt, retries - 1, { ...options, maxOutputTokens: bumped });
-      }
-
-      logger.warn('Failed to parse OpenAI JSON output', {
-        message: parseError instanceof Error ? parseError.message : String(parseError),
-        preview: content.slice(0, 500),
-      });
-      throw parseError;
-    }
-  } catch (error) {
-    if (retries > 0) {
-      logger.warn('OpenAI call failed, retrying...', { retriesLeft: retries - 1 });
-      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-      return callOpenAI<T>(systemPrompt, userPrompt, retries - 1, options);
-    }
-
-    logger.error('OpenAI call failed after retries', {
-      message: error instanceof Error ? error.message : String(error),
-      error,
-    });
-    throw AppError.internal('AI service temporarily unavailable. Please try again.');
-  }
-}
-
 // ============================================
 // Generate Quiz Questions
 // ============================================
@@ -144,6 +62,10 @@ export async function generateQuizQuestions(
 ): Promise<QuizQuestionsOutput> {
   logger.info('Generating quiz questions', { input });
 
+  if (input.knowledgeTest) {
+    return generateKnowledgeQuestions(input);
+  }
+
   const quizTitleContext = input.quizTitle 
     ? `\n\nIMPORTANT: The quiz title is "${input.quizTitle}". ALL questions must be directly related to this specific topic/theme. Analyze the title to understand what domain this quiz is about (e.g., sports, food, work style, personality traits, etc.) and create questions that make sense for that topic.` 
     : '';
@@ -203,9 +125,85 @@ Context:
 
 ${input.quizTitle ? `Analyze the quiz title carefully. What specific topic/domain is this quiz about? Create questions that are directly relevant to that topic and will help categorize people into distinct types related to this subject.` : 'Make sure questions reveal personality traits that can map to distinct result types.'}`;
 
-  return callOpenAI<QuizQuestionsOutput>(systemPrompt, userPrompt, MAX_RETRIES, {
+  return completeJson<QuizQuestionsOutput>({
+    task: 'quiz_questions',
+    systemPrompt,
+    userPrompt,
     maxOutputTokens: 4000,
+    params: { questionCount: input.questionCount },
+  });
+}
+
+/**
+ * Graded questions for a knowledge test: one correct answer each, with an explanation
+ */
+async function generateKnowledgeQuestions(
+  input: QuizGenerationInput
+): Promise<QuizQuestionsOutput> {
+  const nicheInfo = input.niche && input.niche !== 'general' 
+    ? `\n- Niche/Industry: ${input.niche}` 
+    : '';
+
+  const systemPrompt = `You are an expert assessment designer who writes fair, accurate knowledge tests.
+
+Generate ${input.questionCount} multiple-choice questions for a knowledge test.
+
+Context:
+- Audience: ${input.audience}
+- Goal: Help them ${input.goal}${nicheInfo}
+${input.quizTitle ? `- Quiz Title: "${input.quizTitle}"` : ''}
+
+Requirements:
+- Each question should have exactly 4 answer options with exactly ONE correct answer
+- Questions MUST test knowledge of the quiz topic that matters to this audience
+- Wrong answers should be plausible, not silly or obviously wrong
+- Vary which position holds the correct answer
+- Mix difficulty: some easy, most medium, a few hard
+- Facts must be accurate and not depend on opinion
+- Each explanation is 1-2 sentences saying why the correct answer is right, in a friendly, teaching tone
+
+Return as JSON:
+{
+  "questions": [
+    {
+      "questionText": "What does a higher email open rate usually indicate?",
+      "answers": [
+        "More people clicked links in the email",
+        "Subject lines and senders that resonate with subscribers",
+        "Fewer emails went to spam because the list is larger",
+        "The email had more images"
+      ],
+      "correctAnswerIndex": 1,
+      "explanation": "Opens mostly reflect the subject line and sender, so a higher open rate means those resonate with your audience."
+    }
+  ]
+}`;
+
+  const userPrompt = `Create ${input.questionCount} knowledge test questions${input.quizTitle ? ` for: "${input.quizTitle}"` : ''}
+
+Context:
+- Audience: ${input.audience}
+- Goal: ${input.goal}${nicheInfo}`;
+
+  const generated = await completeJson<QuizQuestionsOutput>({
+    task: 'quiz_questions',
+    systemPrompt,
+    userPrompt,
+    maxOutputTokens: 5000,
+    params: { questionCount: input.questionCount, knowledgeTest: true },
+  });
+
+  generated.questions.forEach((q, idx) => {
+    if (
+      typeof q.correctAnswerIndex !== 'number' ||
+      q.correctAnswerIndex < 0 ||
+      q.correctAnswerIndex >= q.answers.length
+    ) {
+      throw new Error(`Invalid question ${idx}: correctAnswerIndex must point to one of its answers`);
+    }
   });
+
+  return generated;
 }
 
 // ============================================
@@ -220,6 +218,10 @@ export async function generateQuizResults(
     resultCount: input.resultCount 
   });
 
+  if (input.knowledgeTest) {
+    return generateScoreBandResults(input);
+  }
+
   const questionsText = input.questions
     .map((q, i) => `${i + 1}. ${q.questionText}\n   Options: ${q.answers.join(' | ')}`)
     .join('\n');
@@ -278,8 +280,70 @@ ${questionsText}
 
 Analyze the quiz title and questions carefully. What is this quiz actually measuring? Create results that make sense as outcomes for THIS specific quiz, not generic personality types.`;
 
-  return callOpenAI<QuizResultsOutput>(systemPrompt, userPrompt, MAX_RETRIES, {
+  return completeJson<QuizResultsOutput>({
+    task: 'quiz_results',
+    systemPrompt,
+    userPrompt,
     maxOutputTokens: 6000,
+    params: { resultCount: input.resultCount },
+  });
+}
+
+/**
+ * Results for a knowledge test: one per score band, ordered from the lowest scores up
+ */
+async function generateScoreBandResults(
+  input: ResultsGenerationInput
+): Promise<QuizResultsOutput> {
+  const questionsText = input.questions
+    .map((q, i) => `${i + 1}. ${q.questionText}`)
+    .join('\n');
+
+  const nicheContext = input.niche && input.niche !== 'general' 
+    ? `\nNiche/Industry context: ${input.niche}` 
+    : '';
+
+  const systemPrompt = `You are an expert at writing encouraging, useful feedback for knowledge test scores.
+
+The test is "${input.quizTitle}".${nicheContext}
+
+Questions asked:
+${questionsText}
+
+Create ${input.resultCount} results, one for each score band, ORDERED FROM THE LOWEST SCORES TO THE HIGHEST.
+
+Each result should:
+1. Have a name describing the taker's level on this topic (e.g. "Getting Started", "Solid Foundation", "Expert")
+2. Include an emoji that fits the level
+3. Have a 2-3 sentence summary of what this score says about their knowledge (use "you" language)
+4. List 3-5 traits: strengths at this level, or topics to brush up on
+5. Include a recommendation for what to learn next, relevant to the test's subject
+
+IMPORTANT:
+- Lower bands should be encouraging, never discouraging
+- Each level should feel clearly different from the ones next to it
+
+Return as JSON:
+{
+  "results": [
+    {
+      "name": "Solid Foundation",
+      "emoji": "🧱",
+      "summary": "You know the essentials and apply them with confidence. A few advanced ideas are still new to you.",
+      "traits": ["Understands the core concepts", "Applies best practices", "Ready for advanced techniques"],
+      "recommendation": "Pick one advanced topic from this test and practice it this week."
+    }
+  ]
+}`;
+
+  const userPrompt = `Create ${input.resultCount} score band results for the knowledge test "${input.quizTitle}", ordered from the lowest scores to the highest.`;
+
+  return completeJson<QuizResultsOutput>({
+    task: 'quiz_results',
+    systemPrompt,
+    userPrompt,
+    maxOutputTokens: 6000,
+    params: { resultCount: input.resultCount, knowledgeTest: true },
   });
 }
 
@@ -360,11 +424,13 @@ export function convertGeneratedQuestionsToSchema(
   return generated.map((q, index) => ({
     questionText: q.questionText,
     order: index,
-    answers: q.answers.map((answerText) => ({
+    answers: q.answers.map((answerText, answerIndex) => ({
       _id: new mongoose.Types.ObjectId(),
       answerText,
       resultMapping: undefined,
+      ...(q.correctAnswerIndex !== undefined && { isCorrect: answerIndex === q.correctAnswerIndex }),
     })) as unknown as IQuizAnswer[],
+    ...(q.explanation && { explanation: q.explanation }),
   }));
 }
 
@@ -372,10 +438,16 @@ export function convertGeneratedQuestionsToSchema(
 // Convert Generated Results to Schema Format
 // ============================================
 
+/**
+ * With scoreBands, results (ordered lowest to highest) split 0-100% into even bands
+ */
 export function convertGeneratedResultsToSchema(
-  generated: GeneratedResult[]
+  generated: GeneratedResult[],
+  scoreBands = false
 ): Omit<IQuizResult, '_id'>[] {
-  return generated.map((r) => ({
+  const bandSize = 100 / Math.max(1, generated.length);
+
+  return generated.map((r, index) => ({
     name: r.name,
     emoji: r.emoji,
     summary: r.summary,
@@ -384,6 +456,10 @@ export function convertGeneratedResultsToSchema(
     ctaText: undefined,
     ctaUrl: undefined,
     imageUrl: undefined,
+    ...(scoreBands && {
+      minScore: Math.round(index * bandSize),
+      maxScore: index === generated.length - 1 ? 100 : Math.round((index + 1) * bandSize) - 1,
+    }),
   }));
 }
 
@@ -1,13 +1,8 @@
-import OpenAI from 'openai';
-import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/AppError.js';
+import { completeJson } from './llmService.js';
 import type { IBrand } from '../types/index.js';
 
-const openai = new OpenAI({
-  apiKey: config.openaiApiKey,
-});
-
 // ============================================
 // Types
 // ============================================
@@ -15,6 +10,8 @@ const openai = new OpenAI({
 export interface GeneratedQuizAnswer {
   answerText: string;
   resultIndex: number; // Which result (0-indexed) this answer points to
+  nextQuestionIndex?: number; // Branching: later question (0-indexed) to jump to
+  endQuiz?: boolean; // Branching: finish the quiz after this answer
 }
 
 export interface GeneratedQuizQuestion {
@@ -42,6 +39,8 @@ export interface QuizGenerationOptions {
   brand: IBrand;
   numQuestions: number;
   numResults: number;
+  // Let answers skip ahead or end the quiz early
+  branching?: boolean;
 }
 
 // ============================================
@@ -52,7 +51,7 @@ export interface QuizGenerationOptions {
  * Generates a complete quiz based on topic and brand context
  */
 export async function generateQuiz(options: QuizGenerationOptions): Promise<GeneratedQuiz> {
-  const { topic, brand, numQuestions, numResults } = options;
+  const { topic, brand, numQuestions, numResults, branching = false } = options;
 
   logger.info('Starting quiz generation', {
     topic,
@@ -60,6 +59,7 @@ export async function generateQuiz(options: QuizGenerationOptions): Promise<Gene
     brandName: brand.name,
     numQuestions,
     numResults,
+    branching,
   });
 
   // Build brand context prompt
@@ -79,7 +79,7 @@ QUIZ STRUCTURE:
 - Questions should be thoughtful, not trivial
 - Results should feel personalized and actionable
 - Use emojis thoughtfully in results to add personality
-
+${branching ? BRANCHING_INSTRUCTIONS : ''}
 BRAND ALIGNMENT:
 - Match the brand's tone (${brand.brandVoice || 'professional'})
 - Reference relevant products/services subtly in recommendations
@@ -119,37 +119,17 @@ Ensure:
 - Questions flow naturally and build on each other
 - Answers are distributed across all results (not always result 0)
 - Results are meaningfully different from each other
-- Recommendations tie back to the brand's offerings`;
+- Recommendations tie back to the brand's offerings${branching ? '\n- Some answers branch so takers skip questions that no longer apply to them' : ''}`;
 
   try {
-    const input = `${systemPrompt}\n\n---\n\n${userPrompt}`;
-    
-    const response = await openai.responses.create({
-      model: 'gpt-5.1',
-      input,
-      max_output_tokens: 4000,
-      text: {
-        format: {
-          type: 'json_object',
-        },
-      },
+    const generated = await completeJson<GeneratedQuiz>({
+      task: 'quiz',
+      systemPrompt,
+      userPrompt,
+      maxOutputTokens: 4000,
+      params: { topic, numQuestions, numResults, branching },
     });
 
-    const content = response.output_text;
-    if (!content) {
-      throw new Error('Empty response from OpenAI');
-    }
-
-    // Parse JSON
-    const firstBrace = content.indexOf('{');
-    const lastBrace = content.lastIndexOf('}');
-    const jsonCandidate =
-      firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace
-        ? content.slice(firstBrace, lastBrace + 1)
-        : content;
-
-    const generated = JSON.parse(jsonCandidate) as GeneratedQuiz;
-
     // Validate structure
     validateGeneratedQuiz(generated, numQuestions, numResults);
 
@@ -179,6 +159,15 @@ Ensure:
 // Helper Functions
 // ============================================
 
+const BRANCHING_INSTRUCTIONS = `
+BRANCHING:
+- Make the quiz adaptive: a few answers may skip questions that no longer apply
+- To skip ahead, add "nextQuestionIndex" (0-indexed) to the answer; it must be a LATER question
+- To finish the quiz early, add "endQuiz": true to the answer (use sparingly)
+- Answers without either continue to the next question
+- Every path through the quiz should still include at least 3 questions
+`;
+
 /**
  * Build brand context string for the prompt
  */
@@ -244,6 +233,14 @@ function validateGeneratedQuiz(quiz: any, expectedQuestions: number, expectedRes
       if (typeof a.resultIndex !== 'number' || a.resultIndex < 0 || a.resultIndex >= expectedResults) {
         throw new Error(`Invalid answer ${aIdx} in question ${idx}: resultIndex must be between 0 and ${expectedResults - 1}`);
       }
+
+      // Branches may only jump forward, so no taker can loop
+      if (
+        a.nextQuestionIndex !== undefined &&
+        (typeof a.nextQuestionIndex !== 'number' || a.nextQuestionIndex <= idx || a.nextQuestionIndex >= expectedQuestions)
+      ) {
+        throw new Error(`Invalid answer ${aIdx} in question ${idx}: nextQuestionIndex must be a later question`);
+      }
     });
   });
 
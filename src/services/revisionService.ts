@@ -0,0 +1,311 @@
+import { LeadMagnet } from '../models/LeadMagnet.js';
+import { LeadMagnetRevision } from '../models/LeadMagnetRevision.js';
+import { rescheduleSequence } from './sequenceService.js';
+import { deletePdf } from './storageService.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type {
+  ILeadMagnet,
+  ILeadMagnetRevision,
+  LeadMagnetRevisionReason,
+} from '../types/index.js';
+
+// ============================================
+// Types
+// ============================================
+
+// Lead magnet fields snapshotted in every revision
+const REVISION_FIELDS = [
+  'title',
+  'outlineJson',
+  'contentJson',
+  'landingPageCopyJson',
+  'landingPageHtml',
+  'emailsJson',
+  'pdfUrl',
+] as const;
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+export type RevisionChangeType = 'added' | 'removed' | 'modified';
+
+export interface RevisionItemChange {
+  index: number;
+  label: string;
+  change: RevisionChangeType;
+}
+
+export interface RevisionChange {
+  field: RevisionField;
+  change: RevisionChangeType;
+  // Short scalar fields (title, pdfUrl)
+  from?: string;
+  to?: string;
+  // Changed content sections / emails / landing copy keys
+  items?: RevisionItemChange[];
+}
+
+export interface RevisionSummary {
+  id: string;
+  version: number;
+  reason: LeadMagnetRevisionReason;
+  title?: string;
+  pdfUrl?: string;
+  isCurrent: boolean;
+  createdAt: Date;
+  // Changes compared to the previous version
+  changes: RevisionChange[];
+}
+
+const MAX_VERSION_CONFLICT_RETRIES = 3;
+
+// ============================================
+// Capture
+// ============================================
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+/**
+ * Snapshot the lead magnet's current content as a new revision and mark it current.
+ */
+export async function captureRevision(
+  leadMagnet: ILeadMagnet,
+  reason: LeadMagnetRevisionReason
+): Promise<ILeadMagnetRevision> {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await LeadMagnetRevision.findOne({ leadMagnetId: leadMagnet._id })
+      .sort({ version: -1 })
+      .select('version');
+    const version = (latest?.version ?? 0) + 1;
+
+    try {
+      const revision = await LeadMagnetRevision.create({
+        leadMagnetId: leadMagnet._id,
+        userId: leadMagnet.userId,
+        version,
+        reason,
+        title: leadMagnet.title,
+        outlineJson: leadMagnet.outlineJson,
+        contentJson: leadMagnet.contentJson,
+        landingPageCopyJson: leadMagnet.landingPageCopyJson,
+        landingPageHtml: leadMagnet.landingPageHtml,
+        emailsJson: leadMagnet.emailsJson,
+        pdfUrl: leadMagnet.pdfUrl,
+      });
+
+      await LeadMagnet.updateOne({ _id: leadMagnet._id }, { currentRevision: version });
+      leadMagnet.currentRevision = version;
+
+      logger.info('Lead magnet revision captured', { leadMagnetId: leadMagnet._id, version, reason });
+      return revision;
+    } catch (error) {
+      // Another request took this version number first; read the latest again
+      if (isDuplicateKeyError(error) && attempt < MAX_VERSION_CONFLICT_RETRIES) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Lead magnets created before revision tracking have no history. Snapshot their
+ * current state before the first change so it can be restored.
+ */
+export async function ensureBaselineRevision(leadMagnet: ILeadMagnet): Promise<void> {
+  if (leadMagnet.currentRevision) {
+    return;
+  }
+
+  const hasRevisions = await LeadMagnetRevision.exists({ leadMagnetId: leadMagnet._id });
+  if (!hasRevisions) {
+    await captureRevision(leadMagnet, 'initial');
+  }
+}
+
+// ============================================
+// Diffs
+// ============================================
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function diffLists<T>(
+  previous: T[],
+  current: T[],
+  label: (item: T, index: number) => string
+): RevisionItemChange[] {
+  const items: RevisionItemChange[] = [];
+  const length = Math.max(previous.length, current.length);
+
+  for (let index = 0; index < length; index++) {
+    const before = previous[index];
+    const after = current[index];
+
+    if (before === undefined) {
+      items.push({ index, label: label(after, index), change: 'added' });
+    } else if (after === undefined) {
+      items.push({ index, label: label(before, index), change: 'removed' });
+    } else if (!isEqual(before, after)) {
+      items.push({ index, label: label(after, index), change: 'modified' });
+    }
+  }
+
+  return items;
+}
+
+function diffItems(field: RevisionField, previous: any, current: any): RevisionItemChange[] | undefined {
+  switch (field) {
+    case 'contentJson':
+    case 'outlineJson':
+      return diffLists(previous?.sections ?? [], current?.sections ?? [], (section: any, index) => section?.title || `Section ${index + 1}`);
+    case 'emailsJson':
+      return diffLists(previous?.emails ?? [], current?.emails ?? [], (email: any, index) => email?.subject || `Email ${index + 1}`);
+    case 'landingPageCopyJson': {
+      const keys = Array.from(new Set([...Object.keys(previous ?? {}), ...Object.keys(current ?? {})]));
+      return keys
+        .filter((key) => key !== 'html' && !isEqual(previous?.[key], current?.[key]))
+        .map((key, index) => ({
+          index,
+          label: key,
+          change: previous?.[key] === undefined ? 'added' : current?.[key] === undefined ? 'removed' : 'modified',
+        }));
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Field-level changes between two revisions. `previous` is null for the first revision.
+ */
+export function diffRevisions(
+  previous: ILeadMagnetRevision | null,
+  current: ILeadMagnetRevision
+): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+
+  for (const field of REVISION_FIELDS) {
+    const before = previous?.[field];
+    const after = current[field];
+
+    if (isEqual(before, after) || (isEmpty(before) && isEmpty(after))) {
+      continue;
+    }
+
+    const change: RevisionChangeType = isEmpty(before) ? 'added' : isEmpty(after) ? 'removed' : 'modified';
+
+    if (field === 'title' || field === 'pdfUrl') {
+      changes.push({ field, change, from: before as string | undefined, to: after as string | undefined });
+    } else if (field === 'landingPageHtml') {
+      // Rendered from the landing copy; the copy diff already explains the change
+      changes.push({ field, change });
+    } else {
+      changes.push({ field, change, items: diffItems(field, before, after) });
+    }
+  }
+
+  return changes;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Newest-first revision history with the changes each revision introduced.
+ */
+export async function listRevisions(
+  leadMagnet: ILeadMagnet,
+  options: { limit: number; before?: number }
+): Promise<RevisionSummary[]> {
+  const filter: Record<string, unknown> = { leadMagnetId: leadMagnet._id };
+  if (options.before) {
+    filter.version = { $lt: options.before };
+  }
+
+  // One extra (older) revision so the last listed item can be diffed
+  const revisions = await LeadMagnetRevision.find(filter)
+    .sort({ version: -1 })
+    .limit(options.limit + 1);
+
+  return revisions.slice(0, options.limit).map((revision, index) => ({
+    id: revision._id.toString(),
+    version: revision.version,
+    reason: revision.reason,
+    title: revision.title,
+    pdfUrl: revision.pdfUrl,
+    isCurrent: revision.version === leadMagnet.currentRevision,
+    createdAt: revision.createdAt,
+    changes: diffRevisions(revisions[index + 1] ?? null, revision),
+  }));
+}
+
+export async function getRevision(leadMagnet: ILeadMagnet, version: number): Promise<ILeadMagnetRevision> {
+  const revision = await LeadMagnetRevision.findOne({ leadMagnetId: leadMagnet._id, version });
+  if (!revision) {
+    throw AppError.notFound('Revision not found');
+  }
+  return revision;
+}
+
+// ============================================
+// Restore
+// ============================================
+
+/**
+ * Point the lead magnet back at an older revision. Newer revisions are kept,
+ * so restoring is itself reversible.
+ */
+export async function restoreRevision(leadMagnet: ILeadMagnet, version: number): Promise<ILeadMagnetRevision> {
+  const revision = await getRevision(leadMagnet, version);
+  const emailsChanged = !isEqual(leadMagnet.emailsJson, revision.emailsJson);
+
+  for (const field of REVISION_FIELDS) {
+    leadMagnet.set(field, revision[field] ?? undefined);
+  }
+  leadMagnet.currentRevision = revision.version;
+  await leadMagnet.save();
+
+  // The number of follow-up emails may differ between revisions
+  if (emailsChanged) {
+    await rescheduleSequence(leadMagnet);
+  }
+
+  logger.info('Lead magnet revision restored', { leadMagnetId: leadMagnet._id, version });
+  return revision;
+}
+
+// ============================================
+// Cleanup
+// ============================================
+
+/**
+ * Delete the revision history of a lead magnet, including PDFs only referenced by old revisions.
+ */
+export async function deleteRevisions(leadMagnet: ILeadMagnet): Promise<void> {
+  const pdfUrls: string[] = await LeadMagnetRevision.distinct('pdfUrl', { leadMagnetId: leadMagnet._id });
+
+  for (const pdfUrl of pdfUrls) {
+    if (!pdfUrl || pdfUrl === leadMagnet.pdfUrl) {
+      continue;
+    }
+    try {
+      await deletePdf(pdfUrl);
+    } catch (error) {
+      logger.warn('Failed to delete revision PDF from R2 (non-fatal)', {
+        error: error instanceof Error ? error.message : String(error),
+        pdfUrl,
+      });
+    }
+  }
+
+  await LeadMagnetRevision.deleteMany({ leadMagnetId: leadMagnet._id });
+}
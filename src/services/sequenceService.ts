@@ -0,0 +1,419 @@
+import mongoose, { type Types } from 'mongoose';
+import { Lead } from '../models/Lead.js';
+import { LeadMagnet } from '../models/LeadMagnet.js';
+import { SequenceEmail } from '../models/SequenceEmail.js';
+import { sendSequenceEmail, isEmailConfigured } from './emailService.js';
+import { getSignedPdfUrl, getSignedImageUrl } from './storageService.js';
+import { isSuppressed, getUnsubscribeUrl } from './suppressionService.js';
+import { getWhiteLabel } from './whiteLabelService.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import type {
+  IEmail,
+  ILead,
+  ILeadMagnet,
+  ISequenceEmail,
+  ISequenceSettings,
+  ISequenceStep,
+  SequenceEmailStatus,
+} from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SIGNED_URL_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+const RETRY_BASE_DELAY_MS = 15 * 60 * 1000; // 15 minutes, doubled per attempt
+const STALE_SENDING_MS = 10 * 60 * 1000; // reclaim items stuck in 'sending' after a crash
+
+// ============================================
+// Schedule Settings
+// ============================================
+
+function getDefaultDelayDays(emailIndex: number): number {
+  const defaults = config.sequence.defaultDelayDays;
+  if (emailIndex - 1 < defaults.length) {
+    return defaults[emailIndex - 1];
+  }
+  // Keep spacing emails two days apart past the configured defaults
+  return defaults[defaults.length - 1] + 2 * (emailIndex - defaults.length);
+}
+
+/**
+ * Resolve the effective follow-up schedule for a lead magnet.
+ * Stored settings are merged with defaults so every follow-up email
+ * in emailsJson has exactly one step.
+ */
+export function getSequenceSettings(
+  leadMagnet: Pick<ILeadMagnet, 'emailsJson' | 'sequenceSettings'>
+): ISequenceSettings {
+  const emailCount = leadMagnet.emailsJson?.emails?.length ?? 0;
+  const stored = leadMagnet.sequenceSettings;
+  const steps: ISequenceStep[] = [];
+
+  for (let emailIndex = 1; emailIndex < emailCount; emailIndex++) {
+    const existing = stored?.steps?.find((step) => step.emailIndex === emailIndex);
+    steps.push({
+      emailIndex,
+      delayDays: existing?.delayDays ?? getDefaultDelayDays(emailIndex),
+      enabled: existing?.enabled ?? true,
+    });
+  }
+
+  return {
+    enabled: stored?.enabled ?? true,
+    steps,
+  };
+}
+
+// ============================================
+// Email Preparation
+// ============================================
+
+/**
+ * Swap stored asset URLs / placeholders in a generated email for signed URLs.
+ * The stored PDF/Infographic URLs may point at the R2 API hostname (requires auth),
+ * so recipients always get time-limited signed links instead.
+ */
+export async function prepareLeadMagnetEmail(
+  leadMagnet: Pick<ILeadMagnet, 'pdfUrl' | 'infographicUrl'>,
+  email: IEmail
+): Promise<{ subject: string; bodyHtml: string; bodyText: string }> {
+  const storedPdfUrl = typeof leadMagnet.pdfUrl === 'string' ? leadMagnet.pdfUrl : '';
+  const signedPdfUrl = storedPdfUrl ? await getSignedPdfUrl(storedPdfUrl, SIGNED_URL_TTL_SECONDS) : '';
+
+  const storedInfographicUrl = typeof leadMagnet.infographicUrl === 'string' ? leadMagnet.infographicUrl : '';
+  const signedInfographicUrl = storedInfographicUrl
+    ? await getSignedImageUrl(storedInfographicUrl, SIGNED_URL_TTL_SECONDS)
+    : '';
+
+  let bodyHtml = email.body_html;
+  let bodyText = email.body_text;
+
+  // Replace PDF URL
+  if (signedPdfUrl) {
+    bodyHtml = bodyHtml.replaceAll('{{PDF_URL}}', signedPdfUrl).replaceAll(storedPdfUrl, signedPdfUrl);
+    bodyText = bodyText.replaceAll('{{PDF_URL}}', signedPdfUrl).replaceAll(storedPdfUrl, signedPdfUrl);
+  }
+
+  // Replace Infographic URL
+  if (signedInfographicUrl) {
+    bodyHtml = bodyHtml.replaceAll('{{INFOGRAPHIC_URL}}', signedInfographicUrl).replaceAll(storedInfographicUrl, signedInfographicUrl);
+    bodyText = bodyText.replaceAll('{{INFOGRAPHIC_URL}}', signedInfographicUrl).replaceAll(storedInfographicUrl, signedInfographicUrl);
+  }
+
+  return { subject: email.subject, bodyHtml, bodyText };
+}
+
+// ============================================
+// Enqueue / Reschedule
+// ============================================
+
+/**
+ * Schedule the follow-up emails (emails[1..n]) for a newly captured lead.
+ * Returns the number of emails scheduled.
+ */
+export async function enqueueSequenceForLead(lead: ILead, leadMagnet: ILeadMagnet): Promise<number> {
+  const settings = getSequenceSettings(leadMagnet);
+  if (!settings.enabled) {
+    return 0;
+  }
+
+  // Double opt-in leads start their sequence when they confirm
+  const subscribedAt = lead.confirmedAt ?? lead.createdAt;
+  const signupAt = subscribedAt ? subscribedAt.getTime() : Date.now();
+  const docs = settings.steps
+    .filter((step) => step.enabled)
+    .map((step) => ({
+      leadId: lead._id,
+      leadMagnetId: leadMagnet._id,
+      email: lead.email,
+      emailIndex: step.emailIndex,
+      scheduledFor: new Date(signupAt + step.delayDays * DAY_MS),
+      status: 'scheduled' as const,
+    }));
+
+  if (docs.length === 0) {
+    return 0;
+  }
+
+  try {
+    await SequenceEmail.insertMany(docs, { ordered: false });
+  } catch (error) {
+    // Duplicate (leadId, emailIndex) means the step is already scheduled
+    if ((error as { code?: number }).code !== 11000) {
+      throw error;
+    }
+  }
+
+  logger.info('Sequence scheduled for lead', {
+    leadId: lead._id,
+    leadMagnetId: leadMagnet._id,
+    steps: docs.length,
+  });
+
+  return docs.length;
+}
+
+/**
+ * Apply a lead magnet's current schedule to emails that have not been sent yet.
+ * Disabled steps are cancelled; re-enabled steps are revived only when their
+ * new send date is still in the future, so old leads are not blasted at once.
+ */
+export async function rescheduleSequence(leadMagnet: ILeadMagnet): Promise<void> {
+  const settings = getSequenceSettings(leadMagnet);
+  const activeSteps = settings.enabled ? settings.steps.filter((step) => step.enabled) : [];
+  const activeIndexes = activeSteps.map((step) => step.emailIndex);
+
+  await SequenceEmail.updateMany(
+    {
+      leadMagnetId: leadMagnet._id,
+      status: 'scheduled',
+      emailIndex: { $nin: activeIndexes },
+    },
+    { $set: { status: 'cancelled' } }
+  );
+
+  if (activeSteps.length === 0) {
+    return;
+  }
+
+  const pending = await SequenceEmail.find({
+    leadMagnetId: leadMagnet._id,
+    status: { $in: ['scheduled', 'cancelled'] },
+    emailIndex: { $in: activeIndexes },
+  }).select('leadId emailIndex status');
+
+  if (pending.length === 0) {
+    return;
+  }
+
+  const leads = await Lead.find({ _id: { $in: pending.map((item) => item.leadId) } })
+    .select('createdAt unsubscribedAt')
+    .lean();
+  const leadById = new Map(leads.map((lead) => [lead._id.toString(), lead]));
+  const delayByIndex = new Map(activeSteps.map((step) => [step.emailIndex, step.delayDays]));
+  const now = Date.now();
+
+  const operations = pending.flatMap((item) => {
+    const lead = leadById.get(item.leadId.toString());
+    const delayDays = delayByIndex.get(item.emailIndex);
+    if (!lead || lead.unsubscribedAt || delayDays === undefined) {
+      return [];
+    }
+
+    const scheduledFor = new Date(new Date(lead.createdAt).getTime() + delayDays * DAY_MS);
+    if (item.status === 'cancelled' && scheduledFor.getTime() <= now) {
+      return [];
+    }
+
+    return [{
+      updateOne: {
+        filter: { _id: item._id, status: item.status },
+        update: { $set: { status: 'scheduled', scheduledFor } },
+      },
+    }];
+  });
+
+  if (operations.length > 0) {
+    await SequenceEmail.bulkWrite(operations);
+  }
+
+  logger.info('Sequence rescheduled', {
+    leadMagnetId: leadMagnet._id,
+    updated: operations.length,
+  });
+}
+
+/**
+ * Cancel every unsent follow-up email for a lead (e.g. after unsubscribe).
+ */
+export async function cancelSequenceForLead(leadId: Types.ObjectId | string): Promise<void> {
+  await SequenceEmail.updateMany(
+    { leadId, status: 'scheduled' },
+    { $set: { status: 'cancelled' } }
+  );
+}
+
+/**
+ * Count sequence emails for a lead magnet, grouped by status.
+ */
+export async function getSequenceStats(
+  leadMagnetId: Types.ObjectId | string
+): Promise<Record<SequenceEmailStatus, number>> {
+  const stats: Record<SequenceEmailStatus, number> = {
+    scheduled: 0,
+    sending: 0,
+    sent: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+
+  const groups = await SequenceEmail.aggregate<{ _id: SequenceEmailStatus; count: number }>([
+    { $match: { leadMagnetId: new mongoose.Types.ObjectId(leadMagnetId.toString()) } },
+    { $group: { _id: '$status', count: { $sum: 1 } } },
+  ]);
+
+  for (const group of groups) {
+    stats[group._id] = group.count;
+  }
+
+  return stats;
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+async function markSequenceEmail(
+  item: ISequenceEmail,
+  update: Partial<Pick<ISequenceEmail, 'status' | 'scheduledFor' | 'lastError' | 'sentAt'>>
+): Promise<void> {
+  await SequenceEmail.updateOne({ _id: item._id }, { $set: update });
+}
+
+async function deliverSequenceEmail(item: ISequenceEmail): Promise<void> {
+  const lead = await Lead.findById(item.leadId).select('unsubscribedAt');
+  if (!lead || lead.unsubscribedAt) {
+    await markSequenceEmail(item, { status: 'cancelled' });
+    return;
+  }
+
+  const leadMagnet = await LeadMagnet.findById(item.leadMagnetId);
+  if (!leadMagnet) {
+    await markSequenceEmail(item, { status: 'cancelled' });
+    return;
+  }
+
+  // The owner may have disabled the step/sequence or regenerated fewer emails
+  const settings = getSequenceSettings(leadMagnet);
+  const step = settings.steps.find((s) => s.emailIndex === item.emailIndex);
+  const email = leadMagnet.emailsJson?.emails?.[item.emailIndex];
+  if (!settings.enabled || !step?.enabled || !email) {
+    await markSequenceEmail(item, { status: 'cancelled' });
+    return;
+  }
+
+  if (await isSuppressed(leadMagnet.userId, item.email)) {
+    await markSequenceEmail(item, { status: 'cancelled' });
+    return;
+  }
+
+  try {
+    const prepared = await prepareLeadMagnetEmail(leadMagnet, email);
+    await sendSequenceEmail({
+      to: item.email,
+      subject: prepared.subject,
+      htmlBody: prepared.bodyHtml,
+      textBody: prepared.bodyText,
+      unsubscribeUrl: getUnsubscribeUrl(leadMagnet.userId, item.email, item.leadId),
+      whiteLabel: await getWhiteLabel(leadMagnet.userId),
+    });
+
+    await SequenceEmail.updateOne(
+      { _id: item._id },
+      { $set: { status: 'sent', sentAt: new Date() }, $unset: { lastError: 1 } }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (item.attempts >= config.sequence.maxAttempts) {
+      logger.error('Sequence email failed permanently', {
+        sequenceEmailId: item._id,
+        leadId: item.leadId,
+        attempts: item.attempts,
+        error: message,
+      });
+      await markSequenceEmail(item, { status: 'failed', lastError: message });
+      return;
+    }
+
+    const retryDelay = RETRY_BASE_DELAY_MS * 2 ** (item.attempts - 1);
+    logger.warn('Sequence email failed, will retry', {
+      sequenceEmailId: item._id,
+      attempts: item.attempts,
+      retryInMs: retryDelay,
+      error: message,
+    });
+    await markSequenceEmail(item, {
+      status: 'scheduled',
+      scheduledFor: new Date(Date.now() + retryDelay),
+      lastError: message,
+    });
+  }
+}
+
+/**
+ * Send every sequence email that is due, up to the configured batch size.
+ * Items are claimed atomically so multiple instances never double-send.
+ */
+export async function processDueSequenceEmails(): Promise<number> {
+  if (!isEmailConfigured()) {
+    return 0;
+  }
+
+  // Reclaim items left in 'sending' by a crashed process
+  await SequenceEmail.updateMany(
+    { status: 'sending', updatedAt: { $lt: new Date(Date.now() - STALE_SENDING_MS) } },
+    { $set: { status: 'scheduled' } }
+  );
+
+  let processed = 0;
+
+  while (processed < config.sequence.batchSize) {
+    const item = await SequenceEmail.findOneAndUpdate(
+      { status: 'scheduled', scheduledFor: { $lte: new Date() } },
+      { $set: { status: 'sending' }, $inc: { attempts: 1 } },
+      { sort: { scheduledFor: 1 }, new: true }
+    );
+
+    if (!item) {
+      break;
+    }
+
+    await deliverSequenceEmail(item);
+    processed++;
+  }
+
+  if (processed > 0) {
+    logger.info('Processed due sequence emails', { processed });
+  }
+
+  return processed;
+}
+
+// ============================================
+// Scheduler
+// ============================================
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+/**
+ * Start polling for due sequence emails (in-process; safe to run on several instances).
+ */
+export function startSequenceScheduler(): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  schedulerTimer = setInterval(() => {
+    if (isProcessing) {
+      return;
+    }
+    isProcessing = true;
+    processDueSequenceEmails()
+      .catch((error: unknown) => {
+        logger.error('Sequence scheduler tick failed', error);
+      })
+      .finally(() => {
+        isProcessing = false;
+      });
+  }, config.sequence.pollIntervalMs);
+
+  logger.info('Sequence scheduler started', { pollIntervalMs: config.sequence.pollIntervalMs });
+}
+
+export function stopSequenceScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -4,6 +4,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/AppError.js';
+import type { IQuiz } from '../types/index.js';
 
 // ============================================
 // S3/R2 Client (only initialized if configured)
@@ -441,6 +442,21 @@ export async function deleteImage(url: string): Promise<void> {
   }
 }
 
+/**
+ * Delete the answer images uploaded for a quiz (stored under quizzes/<quizId>/).
+ * Images linked from elsewhere are left alone.
+ */
+export async function deleteQuizImages(quiz: Pick<IQuiz, '_id' | 'questions'>): Promise<void> {
+  const prefix = `/quizzes/${quiz._id.toString()}/`;
+  for (const question of quiz.questions) {
+    for (const answer of question.answers ?? []) {
+      if (answer.imageUrl?.includes(prefix)) {
+        await deleteImage(answer.imageUrl);
+      }
+    }
+  }
+}
+
 // ============================================
 // Generic File Upload (for user-uploaded media)
 // ============================================
@@ -449,7 +465,7 @@ export interface UploadFileOptions {
   buffer: Buffer;
   mimeType: string;
   originalFilename: string;
-  folder: 'uploads/pdf' | 'uploads/image' | 'uploads/audio';
+  folder: 'uploads/pdf' | 'uploads/image' | 'uploads/audio' | 'exports';
   userId: string;
 }
 
@@ -564,6 +580,34 @@ export async function getSignedFileUrl(
   }
 }
 
+// ============================================
+// Download File (generic)
+// ============================================
+
+/**
+ * Read a stored object back from R2, e.g. to bundle it into an account export.
+ */
+export async function downloadFile(url: string): Promise<Buffer> {
+  if (!isCloudStorageConfigured()) {
+    throw AppError.internal('Cloud storage is not configured. Cannot download file.');
+  }
+
+  const key = getR2ObjectKeyFromUrl(url);
+  if (!key) {
+    throw AppError.badRequest('File is not stored in cloud storage');
+  }
+
+  const response = await getS3Client().send(new GetObjectCommand({
+    Bucket: config.r2.bucketName,
+    Key: key,
+  }));
+  if (!response.Body) {
+    throw AppError.internal('Stored file is empty');
+  }
+
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
 // ============================================
 // Delete File (generic)
 // ============================================
@@ -243,6 +243,23 @@ class StripeService {
     }
   }
 
+  /**
+   * Cancel subscription immediately (account deletion)
+   */
+  async cancelSubscriptionNow(subscriptionId: string): Promise<Stripe.Subscription> {
+    this.ensureStripeConfigured();
+
+    try {
+      const subscription = await stripe!.subscriptions.cancel(subscriptionId);
+
+      logger.info(`Canceled subscription immediately: ${subscriptionId}`);
+      return subscription;
+    } catch (error) {
+      logger.error('Error canceling subscription immediately:', error as Error);
+      throw error;
+    }
+  }
+
   /**
    * Reactivate subscription (undo cancel at period end)
    */
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { Suppression } from '../models/Suppression.js';
+import { Lead } from '../models/Lead.js';
+import { LeadMagnet } from '../models/LeadMagnet.js';
+import { SequenceEmail } from '../models/SequenceEmail.js';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type { ISuppression, SuppressionReason } from '../types/index.js';
+
+interface UnsubscribeTokenPayload {
+  u: string; // owner (user) ID
+  e: string; // recipient email
+  l?: string; // lead ID
+}
+
+// ============================================
+// Signed Unsubscribe Links
+// ============================================
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', config.unsubscribe.secret).update(data).digest('base64url');
+}
+
+/**
+ * Token identifying one recipient of one owner. Stateless and non-expiring,
+ * so links in old emails keep working.
+ */
+export function createUnsubscribeToken(
+  userId: Types.ObjectId | string,
+  email: string,
+  leadId?: Types.ObjectId | string
+): string {
+  const payload: UnsubscribeTokenPayload = { u: userId.toString(), e: email.toLowerCase() };
+  if (leadId) payload.l = leadId.toString();
+
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+export function verifyUnsubscribeToken(token: string): { userId: string; email: string; leadId?: string } | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as UnsubscribeTokenPayload;
+    if (!payload.u || !payload.e) {
+      return null;
+    }
+    return { userId: payload.u, email: payload.e, leadId: payload.l };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Public one-click unsubscribe URL, used for the footer link and the List-Unsubscribe header.
+ */
+export function getUnsubscribeUrl(
+  userId: Types.ObjectId | string,
+  email: string,
+  leadId?: Types.ObjectId | string
+): string {
+  const token = createUnsubscribeToken(userId, email, leadId);
+  return `${config.publicUrl}/public/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+// ============================================
+// Suppression List
+// ============================================
+
+/**
+ * Placeholder an erased address is kept under: only its hash, so it stays suppressed
+ * without the suppression list holding the address itself.
+ */
+function erasedSuppressionEmail(normalizedEmail: string): string {
+  return `${crypto.createHash('sha256').update(normalizedEmail).digest('hex')}@erased.invalid`;
+}
+
+/**
+ * Filter for the suppression entries of an address, including one kept after erasure
+ */
+export function matchSuppressedEmail(email: string): { $in: string[] } {
+  const normalizedEmail = email.toLowerCase();
+  return { $in: [normalizedEmail, erasedSuppressionEmail(normalizedEmail)] };
+}
+
+/**
+ * Whether the owner must not email this address. Checked before every lead email.
+ */
+export async function isSuppressed(userId: Types.ObjectId | string, email: string): Promise<boolean> {
+  const existing = await Suppression.exists({ userId, email: matchSuppressedEmail(email) });
+  return !!existing;
+}
+
+/**
+ * Add the address to the owner's suppression list, mark the owner's leads with that
+ * address as unsubscribed and cancel their scheduled sequence emails. Idempotent.
+ */
+export async function suppressEmail(
+  userId: Types.ObjectId | string,
+  email: string,
+  reason: SuppressionReason,
+  leadId?: Types.ObjectId | string
+): Promise<ISuppression> {
+  const normalizedEmail = email.toLowerCase();
+
+  const suppression = await Suppression.findOneAndUpdate(
+    { userId, email: normalizedEmail },
+    { $setOnInsert: { reason, ...(leadId ? { leadId } : {}) } },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  const leadMagnetIds = await LeadMagnet.find({ userId }).distinct('_id');
+  const leadIds = await Lead.find({ email: normalizedEmail, leadMagnetId: { $in: leadMagnetIds } }).distinct('_id');
+
+  if (leadIds.length > 0) {
+    await Lead.updateMany(
+      { _id: { $in: leadIds }, unsubscribedAt: { $exists: false } },
+      { $set: { unsubscribedAt: new Date() } }
+    );
+    await SequenceEmail.updateMany(
+      { leadId: { $in: leadIds }, status: 'scheduled' },
+      { $set: { status: 'cancelled' } }
+    );
+  }
+
+  logger.info('Email suppressed', { userId, reason, leads: leadIds.length });
+  return suppression;
+}
+
+/**
+ * Unsubscribe the recipient a signed link was issued to.
+ * Returns null for a tampered or malformed token.
+ */
+export async function unsubscribeWithToken(token: string): Promise<{ email: string } | null> {
+  const payload = verifyUnsubscribeToken(token);
+  if (!payload) {
+    return null;
+  }
+
+  await suppressEmail(payload.userId, payload.email, 'unsubscribed', payload.leadId);
+  return { email: payload.email };
+}
+
+export async function listSuppressions(
+  userId: Types.ObjectId,
+  options: { limit: number; email?: string }
+): Promise<ISuppression[]> {
+  const filter: Record<string, unknown> = { userId };
+  if (options.email) filter.email = matchSuppressedEmail(options.email);
+
+  return Suppression.find(filter).sort({ createdAt: -1 }).limit(options.limit);
+}
+
+/**
+ * Keep an erased address on the suppression list under its hash only, so erasing a lead
+ * never lets their address be emailed again. Returns whether the address is suppressed.
+ */
+export async function anonymizeSuppression(userId: Types.ObjectId | string, email: string): Promise<boolean> {
+  const normalizedEmail = email.toLowerCase();
+  const erasedEmail = erasedSuppressionEmail(normalizedEmail);
+
+  const [suppression, erased] = await Promise.all([
+    Suppression.findOne({ userId, email: normalizedEmail }),
+    Suppression.exists({ userId, email: erasedEmail }),
+  ]);
+  if (!suppression) {
+    return !!erased;
+  }
+
+  // Unsubscribed again after an earlier erasure: the hashed entry already covers it
+  if (erased) {
+    await Suppression.deleteOne({ _id: suppression._id });
+  } else {
+    await Suppression.updateOne({ _id: suppression._id }, { $set: { email: erasedEmail }, $unset: { leadId: 1 } });
+  }
+  return true;
+}
+
+/**
+ * Allow emailing the address again. Leads already marked unsubscribed stay that way;
+ * only new signups are delivered to.
+ */
+export async function removeSuppression(userId: Types.ObjectId, suppressionId: string): Promise<void> {
+  const result = await Suppression.deleteOne({ _id: suppressionId, userId });
+  if (result.deletedCount === 0) {
+    throw AppError.notFound('Suppressed address not found');
+  }
+  logger.info('Suppression removed', { userId, suppressionId });
+}
@@ -1,5 +1,6 @@
 import { readFile } from 'fs/promises';
 import { join } from 'path';
+import mongoose from 'mongoose';
 import { logger } from '../utils/logger.js';
 import type { IBrandSettings, ILandingPageCopy, LandingPageTemplate } from '../types/index.js';
 
@@ -43,6 +44,15 @@ interface TemplateVariables {
   formTitle: string;
   formSubtitle: string;
   formAction: string;
+  consentText?: string;
+  showBranding: boolean;
+}
+
+export interface LandingPageRenderOptions {
+  // Consent wording shown under the signup form
+  consentText?: string;
+  // White-labeled accounts: drop the "Powered by MagnetHub" footer link
+  hideBranding?: boolean;
 }
 
 // ============================================
@@ -174,6 +184,7 @@ const INLINE_MINIMAL_TEMPLATE = `<!doctype html>
             <input type="email" name="email" placeholder="you@email.com" required />
             <button type="submit">Get it</button>
           </form>
+          {{#if consentText}}<p style="font-size: 12px; opacity: 0.7;">{{consentText}}</p>{{/if}}
         </div>
       </div>
     </div>
@@ -223,7 +234,8 @@ async function loadTemplate(template: LandingPageTemplate = 'minimal'): Promise<
 function buildVariables(
   brand: IBrandSettings,
   copy: ILandingPageCopy,
-  formAction: string
+  formAction: string,
+  options: LandingPageRenderOptions = {}
 ): TemplateVariables {
   const isDark = brand.theme === 'dark' || getLuminance(brand.backgroundColor) < 0.5;
   
@@ -265,6 +277,8 @@ function buildVariables(
     formTitle: 'Get your free copy',
     formSubtitle: 'Enter your email and we\'ll send it right over.',
     formAction,
+    consentText: options.consentText,
+    showBranding: !options.hideBranding,
   };
 }
 
@@ -326,13 +340,14 @@ function escapeHtml(str: string): string {
 export async function renderLandingPage(
   brand: IBrandSettings | undefined,
   copy: ILandingPageCopy,
-  formAction: string
+  formAction: string,
+  options: LandingPageRenderOptions = {}
 ): Promise<string> {
   try {
     const effectiveBrand = brand || DEFAULT_BRAND_SETTINGS;
     const templateName = effectiveBrand.landingPageTemplate || 'minimal';
     const template = await loadTemplate(templateName);
-    const variables = buildVariables(effectiveBrand, copy, formAction);
+    const variables = buildVariables(effectiveBrand, copy, formAction, options);
     const html = renderTemplate(template, variables);
     
     logger.debug('Landing page rendered', { formAction, template: templateName });
@@ -343,6 +358,22 @@ export async function renderLandingPage(
   }
 }
 
+/**
+ * Brand settings with the template swapped, e.g. for a lead magnet's own template
+ * or an experiment variant. Returns the settings unchanged when no template is given.
+ */
+export function withLandingPageTemplate(
+  brand: IBrandSettings | undefined,
+  template: LandingPageTemplate | undefined
+): IBrandSettings | undefined {
+  if (!template) {
+    return brand;
+  }
+  // Brand settings are usually a mongoose subdocument; spread the plain object instead
+  const base = brand instanceof mongoose.Document ? brand.toObject<IBrandSettings>() : brand;
+  return { ...(base || DEFAULT_BRAND_SETTINGS), landingPageTemplate: template };
+}
+
 /**
  * Clear template cache (useful for development)
  */
@@ -0,0 +1,280 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { User } from '../models/User.js';
+import { isTwoFactorRequiredForUser } from './workspaceService.js';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri } from '../utils/totp.js';
+import type { IUser } from '../types/index.js';
+
+const SECRET_FIELDS = '+password +twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodeHashes';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  // A workspace the user belongs to requires two-factor authentication
+  required: boolean;
+}
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+async function loadUserWithSecrets(userId: Types.ObjectId | string): Promise<IUser> {
+  const user = await User.findById(userId).select(SECRET_FIELDS);
+  if (!user) {
+    throw AppError.notFound('User not found');
+  }
+  return user;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * One-time recovery codes in the form xxxxx-xxxxx; only their hashes are stored
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: config.twoFactor.recoveryCodeCount }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Check an authenticator code or a recovery code. Accepted TOTP steps are recorded
+ * and recovery codes removed in the same update, so neither can be used twice.
+ */
+async function consumeSecondFactor(user: IUser, input: SecondFactorInput): Promise<boolean> {
+  if (!user.twoFactor?.enabled || !user.twoFactor.secret) {
+    return false;
+  }
+
+  if (input.code) {
+    const step = verifyTotp(user.twoFactor.secret, input.code);
+    if (step === null) {
+      return false;
+    }
+
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [{ 'twoFactor.lastUsedStep': { $exists: false } }, { 'twoFactor.lastUsedStep': { $lt: step } }],
+      },
+      { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  if (input.recoveryCode) {
+    const hash = hashRecoveryCode(input.recoveryCode);
+    const result = await User.updateOne(
+      { _id: user._id, 'twoFactor.recoveryCodeHashes': hash },
+      { $pull: { 'twoFactor.recoveryCodeHashes': hash } }
+    );
+    if (result.modifiedCount === 1) {
+      logger.info('Two-factor recovery code used', { userId: user._id });
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check a code against the per-user attempt limit. The attempt is counted with an atomic
+ * increment before the code is checked, so parallel guesses and fresh logins share one
+ * counter; reaching the limit locks the second factor for a while.
+ */
+async function requireSecondFactor(user: IUser, input: SecondFactorInput): Promise<void> {
+  const { maxFailedAttempts, lockoutMinutes } = config.twoFactor;
+  const now = new Date();
+  const lockedError = AppError.tooManyRequests(
+    `Too many incorrect codes. Try again in ${lockoutMinutes} minutes.`,
+    'TWO_FACTOR_LOCKED'
+  );
+  const lock = () =>
+    User.updateOne(
+      { _id: user._id },
+      { $set: { 'twoFactor.failedAttempts': 0, 'twoFactor.lockedUntil': new Date(now.getTime() + lockoutMinutes * 60 * 1000) } }
+    );
+
+  const counted = await User.findOneAndUpdate(
+    { _id: user._id, 'twoFactor.lockedUntil': { $not: { $gt: now } } },
+    { $inc: { 'twoFactor.failedAttempts': 1 } },
+    { new: true }
+  );
+  if (!counted) {
+    throw lockedError;
+  }
+
+  // Guesses sent in parallel past the limit are refused without being checked
+  const attempts = counted.twoFactor?.failedAttempts ?? 0;
+  if (attempts > maxFailedAttempts) {
+    await lock();
+    throw lockedError;
+  }
+
+  if (await consumeSecondFactor(user, input)) {
+    await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.failedAttempts': 0 }, $unset: { 'twoFactor.lockedUntil': 1 } });
+    return;
+  }
+
+  if (attempts >= maxFailedAttempts) {
+    await lock();
+    logger.warn('Two-factor locked after too many incorrect codes', { userId: user._id });
+  }
+
+  throw AppError.unauthorized('Invalid authentication code', 'INVALID_TWO_FACTOR_CODE');
+}
+
+// ============================================
+// Status
+// ============================================
+
+export async function getTwoFactorStatus(userId: Types.ObjectId): Promise<TwoFactorStatus> {
+  const user = await loadUserWithSecrets(userId);
+  return {
+    enabled: !!user.twoFactor?.enabled,
+    enabledAt: user.twoFactor?.enabledAt ?? null,
+    recoveryCodesRemaining: user.twoFactor?.recoveryCodeHashes?.length ?? 0,
+    required: await isTwoFactorRequiredForUser(user._id),
+  };
+}
+
+// ============================================
+// Enrollment
+// ============================================
+
+/**
+ * Start enrollment: a new secret and the otpauth:// URI to show as a QR code.
+ * Nothing changes for logins until the first code is confirmed.
+ */
+export async function beginEnrollment(userId: Types.ObjectId): Promise<{ secret: string; otpauthUri: string }> {
+  const user = await loadUserWithSecrets(userId);
+  if (user.twoFactor?.enabled) {
+    throw AppError.conflict('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const secret = generateTotpSecret();
+  user.set('twoFactor.pendingSecret', secret);
+  await user.save();
+
+  return {
+    secret,
+    otpauthUri: buildOtpAuthUri(config.twoFactor.issuer, user.email, secret),
+  };
+}
+
+/**
+ * Finish enrollment with a code from the authenticator app.
+ * Returns the recovery codes, which are shown only once.
+ */
+export async function confirmEnrollment(userId: Types.ObjectId, code: string): Promise<string[]> {
+  const user = await loadUserWithSecrets(userId);
+  if (user.twoFactor?.enabled) {
+    throw AppError.conflict('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const pendingSecret = user.twoFactor?.pendingSecret;
+  if (!pendingSecret) {
+    throw AppError.badRequest('Start two-factor setup first', 'TWO_FACTOR_SETUP_REQUIRED');
+  }
+
+  const step = verifyTotp(pendingSecret, code);
+  if (step === null) {
+    throw AppError.badRequest('Invalid authentication code', 'INVALID_TWO_FACTOR_CODE');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  user.set('twoFactor', {
+    enabled: true,
+    secret: pendingSecret,
+    recoveryCodeHashes: hashes,
+    lastUsedStep: step,
+    enabledAt: new Date(),
+  });
+  await user.save();
+
+  logger.info('Two-factor authentication enabled', { userId: user._id });
+  return codes;
+}
+
+/**
+ * Turn two-factor authentication off. Requires the password (if the account has one)
+ * and a current code, and is refused while a workspace requires it.
+ */
+export async function disableTwoFactor(
+  userId: Types.ObjectId,
+  input: SecondFactorInput & { password?: string }
+): Promise<void> {
+  const user = await loadUserWithSecrets(userId);
+  if (!user.twoFactor?.enabled) {
+    throw AppError.badRequest('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED');
+  }
+
+  if (await isTwoFactorRequiredForUser(user._id)) {
+    throw AppError.forbidden(
+      'A workspace you belong to requires two-factor authentication',
+      'TWO_FACTOR_ENFORCED'
+    );
+  }
+
+  // Google-only accounts have no password to check
+  if (user.password && !(await user.comparePassword(input.password || ''))) {
+    throw AppError.unauthorized('Incorrect password', 'INVALID_PASSWORD');
+  }
+  await requireSecondFactor(user, input);
+
+  await User.updateOne({ _id: user._id }, { $set: { twoFactor: { enabled: false } } });
+  logger.info('Two-factor authentication disabled', { userId: user._id });
+}
+
+/**
+ * Replace all recovery codes after confirming a current code
+ */
+export async function regenerateRecoveryCodes(userId: Types.ObjectId, code: string): Promise<string[]> {
+  const user = await loadUserWithSecrets(userId);
+  if (!user.twoFactor?.enabled) {
+    throw AppError.badRequest('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED');
+  }
+  await requireSecondFactor(user, { code });
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.recoveryCodeHashes': hashes } });
+
+  logger.info('Two-factor recovery codes regenerated', { userId: user._id });
+  return codes;
+}
+
+// ============================================
+// Login
+// ============================================
+
+/**
+ * Second login step: check the code for a user whose password (or Google sign-in)
+ * was already accepted. Returns the user to log in.
+ */
+export async function verifyLoginSecondFactor(userId: string, input: SecondFactorInput): Promise<IUser> {
+  const user = await loadUserWithSecrets(userId);
+  await requireSecondFactor(user, input);
+
+  const loggedIn = await User.findById(user._id);
+  if (!loggedIn) {
+    throw AppError.notFound('User not found');
+  }
+  return loggedIn;
+}
@@ -0,0 +1,208 @@
+import mongoose, { type PipelineStage } from 'mongoose';
+import { AIUsage } from '../models/AIUsage.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import type { AIProviderName } from '../types/index.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AIUsageEntry {
+  userId?: string;
+  leadMagnetId?: string;
+  jobId?: string;
+  provider: AIProviderName;
+  model: string;
+  step: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  imageCount?: number;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}
+
+export type UsagePeriod = 'day' | 'week' | 'month';
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  from: string;
+  to: string;
+  period: UsagePeriod;
+  totals: UsageTotals;
+  periods: Array<UsageTotals & { period: string }>;
+  bySteps: Array<UsageTotals & { step: string }>;
+  byModels: Array<UsageTotals & { provider: string; model: string }>;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+export function estimateAICost(
+  model: string,
+  usage: { inputTokens?: number; outputTokens?: number; imageCount?: number }
+): number {
+  const pricing = config.aiPricing[model];
+  if (!pricing) {
+    return 0;
+  }
+
+  const cost =
+    ((usage.inputTokens ?? 0) / 1_000_000) * pricing.inputPerMillion +
+    ((usage.outputTokens ?? 0) / 1_000_000) * pricing.outputPerMillion +
+    (usage.imageCount ?? 0) * pricing.perImage;
+
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Write one ledger entry. Never throws: a failed write must not fail the AI call it describes.
+ */
+export async function recordAIUsage(entry: AIUsageEntry): Promise<void> {
+  try {
+    const { model, ...rest } = entry;
+    await AIUsage.create({
+      ...rest,
+      aiModel: model,
+      inputTokens: entry.inputTokens ?? 0,
+      outputTokens: entry.outputTokens ?? 0,
+      imageCount: entry.imageCount ?? 0,
+      latencyMs: Math.round(entry.latencyMs),
+      costUsd: estimateAICost(model, entry),
+      error: entry.error?.slice(0, 1000),
+    });
+  } catch (error) {
+    logger.error('Failed to record AI usage', { step: entry.step, model: entry.model, error });
+  }
+}
+
+// ============================================
+// Aggregates
+// ============================================
+
+const PERIOD_FORMATS: Record<UsagePeriod, string> = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V',
+  month: '%Y-%m',
+};
+
+const totalsGroup = {
+  calls: { $sum: 1 },
+  failedCalls: { $sum: { $cond: ['$success', 0, 1] } },
+  inputTokens: { $sum: '$inputTokens' },
+  outputTokens: { $sum: '$outputTokens' },
+  images: { $sum: '$imageCount' },
+  costUsd: { $sum: '$costUsd' },
+};
+
+// Output of a $group over totalsGroup, keyed by whatever the stage groups on
+type TotalsRow<Id> = UsageTotals & { _id: Id };
+
+interface UsageSummaryFacets {
+  totals: TotalsRow<null>[];
+  periods: TotalsRow<string>[];
+  bySteps: TotalsRow<string>[];
+  byModels: TotalsRow<{ provider: string; model: string }>[];
+}
+
+function toTotals(row: TotalsRow<unknown> | undefined): UsageTotals {
+  return {
+    calls: row?.calls ?? 0,
+    failedCalls: row?.failedCalls ?? 0,
+    inputTokens: row?.inputTokens ?? 0,
+    outputTokens: row?.outputTokens ?? 0,
+    images: row?.images ?? 0,
+    costUsd: Math.round((row?.costUsd ?? 0) * 10000) / 10000,
+  };
+}
+
+/**
+ * Usage of one user between two dates, bucketed by day/week/month and broken down by step and model.
+ */
+export async function getUsageSummary(
+  userId: string,
+  options: { from: Date; to: Date; period: UsagePeriod; timezone?: string }
+): Promise<UsageSummary> {
+  const match: PipelineStage.Match = {
+    $match: {
+      userId: new mongoose.Types.ObjectId(userId),
+      createdAt: { $gte: options.from, $lte: options.to },
+    },
+  };
+
+  const [result] = await AIUsage.aggregate<UsageSummaryFacets>([
+    match,
+    {
+      $facet: {
+        totals: [{ $group: { _id: null, ...totalsGroup } }],
+        periods: [
+          {
+            $group: {
+              _id: {
+                $dateToString: {
+                  format: PERIOD_FORMATS[options.period],
+                  date: '$createdAt',
+                  timezone: options.timezone || 'UTC',
+                },
+              },
+              ...totalsGroup,
+            },
+          },
+          { $sort: { _id: 1 } },
+        ],
+        bySteps: [{ $group: { _id: '$step', ...totalsGroup } }, { $sort: { costUsd: -1 } }],
+        byModels: [
+          { $group: { _id: { provider: '$provider', model: '$aiModel' }, ...totalsGroup } },
+          { $sort: { costUsd: -1 } },
+        ],
+      },
+    },
+  ]);
+
+  return {
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    period: options.period,
+    totals: toTotals(result?.totals[0]),
+    periods: (result?.periods ?? []).map((row) => ({ period: row._id, ...toTotals(row) })),
+    bySteps: (result?.bySteps ?? []).map((row) => ({ step: row._id, ...toTotals(row) })),
+    byModels: (result?.byModels ?? []).map((row) => ({
+      provider: row._id.provider,
+      model: row._id.model,
+      ...toTotals(row),
+    })),
+  };
+}
+
+/**
+ * Per-lead-magnet cost of one user's generations (most expensive first).
+ */
+export async function getLeadMagnetUsage(
+  userId: string,
+  options: { from: Date; to: Date; limit: number }
+): Promise<Array<UsageTotals & { leadMagnetId: string }>> {
+  const rows = await AIUsage.aggregate<TotalsRow<mongoose.Types.ObjectId>>([
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        leadMagnetId: { $exists: true },
+        createdAt: { $gte: options.from, $lte: options.to },
+      },
+    },
+    { $group: { _id: '$leadMagnetId', ...totalsGroup } },
+    { $sort: { costUsd: -1 } },
+    { $limit: options.limit },
+  ]);
+
+  return rows.map((row) => ({ leadMagnetId: row._id.toString(), ...toTotals(row) }));
+}
@@ -0,0 +1,451 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookEndpoint } from '../models/WebhookEndpoint.js';
+import { WebhookDelivery } from '../models/WebhookDelivery.js';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import { createOutbox } from '../utils/outbox.js';
+import { postToPublicHost, resolvePublicAddress } from '../utils/publicHost.js';
+import type {
+  ILead,
+  ILeadMagnet,
+  IQuiz,
+  IQuizResponse,
+  IQuizResult,
+  IWebhookDelivery,
+  IWebhookEndpoint,
+  WebhookEventType,
+} from '../types/index.js';
+
+// ============================================
+// Types
+// ============================================
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = ['lead.created', 'quiz.completed', 'lead_magnet.generated'];
+
+export const SIGNATURE_HEADER = 'X-MagnetHub-Signature';
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType;
+  createdAt: string;
+  test?: boolean;
+  data: Record<string, unknown>;
+}
+
+const STALE_SENDING_MS = 5 * 60 * 1000; // reclaim deliveries stuck in 'sending' after a crash
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+// ============================================
+// Signing
+// ============================================
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * HMAC-SHA256 over "{timestamp}.{body}". Receivers recompute it with their secret and
+ * compare against the v1 value of the X-MagnetHub-Signature header (t={timestamp},v1={hex}).
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// ============================================
+// Endpoint Management
+// ============================================
+
+/**
+ * Webhooks are sent from our servers, so refuse URLs whose host resolves to an internal
+ * address. Deliveries check the address again when they are sent.
+ */
+async function assertWebhookUrl(value: string): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw AppError.badRequest('Enter a valid URL', 'INVALID_WEBHOOK_URL');
+  }
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && !config.isProd)) {
+    throw AppError.badRequest('Webhook URLs must use https', 'INVALID_WEBHOOK_URL');
+  }
+
+  // Local receivers are fine while developing
+  if (config.isProd) {
+    try {
+      await resolvePublicAddress(url.hostname);
+    } catch {
+      throw AppError.badRequest('Webhook URLs must point to a public host', 'INVALID_WEBHOOK_URL');
+    }
+  }
+
+  return url.toString();
+}
+
+export async function listWebhookEndpoints(userId: Types.ObjectId): Promise<IWebhookEndpoint[]> {
+  return WebhookEndpoint.find({ userId }).sort({ createdAt: -1 });
+}
+
+export async function getWebhookEndpoint(userId: Types.ObjectId, id: string): Promise<IWebhookEndpoint> {
+  const endpoint = await WebhookEndpoint.findOne({ _id: id, userId });
+  if (!endpoint) {
+    throw AppError.notFound('Webhook endpoint not found');
+  }
+  return endpoint;
+}
+
+/**
+ * Returns the signing secret alongside the endpoint; it is not shown again.
+ */
+export async function createWebhookEndpoint(
+  userId: Types.ObjectId,
+  input: WebhookEndpointInput
+): Promise<{ endpoint: IWebhookEndpoint; secret: string }> {
+  const count = await WebhookEndpoint.countDocuments({ userId });
+  if (count >= config.webhooks.maxEndpointsPerUser) {
+    throw AppError.forbidden(`You can add up to ${config.webhooks.maxEndpointsPerUser} webhook endpoints`, 'WEBHOOK_LIMIT_REACHED');
+  }
+
+  const secret = generateSecret();
+  const endpoint = await WebhookEndpoint.create({
+    userId,
+    url: await assertWebhookUrl(input.url),
+    events: Array.from(new Set(input.events)),
+    description: input.description,
+    secret,
+  });
+
+  logger.info('Webhook endpoint created', { userId, endpointId: endpoint._id, events: endpoint.events });
+  return { endpoint, secret };
+}
+
+export async function updateWebhookEndpoint(
+  endpoint: IWebhookEndpoint,
+  input: Partial<WebhookEndpointInput> & { isActive?: boolean }
+): Promise<IWebhookEndpoint> {
+  if (input.url !== undefined) endpoint.url = await assertWebhookUrl(input.url);
+  if (input.events !== undefined) endpoint.events = Array.from(new Set(input.events));
+  if (input.description !== undefined) endpoint.description = input.description;
+  if (input.isActive !== undefined) endpoint.isActive = input.isActive;
+
+  await endpoint.save();
+  return endpoint;
+}
+
+export async function rotateWebhookSecret(endpoint: IWebhookEndpoint): Promise<string> {
+  endpoint.secret = generateSecret();
+  await endpoint.save();
+
+  logger.info('Webhook secret rotated', { endpointId: endpoint._id });
+  return endpoint.secret;
+}
+
+export async function deleteWebhookEndpoint(endpoint: IWebhookEndpoint): Promise<void> {
+  await WebhookDelivery.deleteMany({ endpointId: endpoint._id });
+  await endpoint.deleteOne();
+
+  logger.info('Webhook endpoint deleted', { endpointId: endpoint._id });
+}
+
+// ============================================
+// Delivery Log
+// ============================================
+
+export async function listWebhookDeliveries(
+  endpoint: IWebhookEndpoint,
+  options: { limit: number; status?: string }
+): Promise<IWebhookDelivery[]> {
+  const filter: Record<string, unknown> = { endpointId: endpoint._id };
+  if (options.status) {
+    filter.status = options.status;
+  }
+  return WebhookDelivery.find(filter).sort({ createdAt: -1 }).limit(options.limit);
+}
+
+/**
+ * Queue a finished delivery to be sent again with a fresh retry budget.
+ */
+export async function redeliverWebhook(endpoint: IWebhookEndpoint, deliveryId: string): Promise<IWebhookDelivery> {
+  const delivery = await WebhookDelivery.findOneAndUpdate(
+    { _id: deliveryId, endpointId: endpoint._id, status: { $in: ['succeeded', 'failed'] } },
+    { $set: { status: 'pending', attempts: 0, scheduledFor: new Date() } },
+    { new: true }
+  );
+  if (!delivery) {
+    throw AppError.notFound('Delivery not found or still in progress');
+  }
+
+  void deliveryOutbox.sendNow(delivery._id);
+  return delivery;
+}
+
+// ============================================
+// Sending
+// ============================================
+
+const deliveryOutbox = createOutbox<IWebhookDelivery>({
+  name: 'webhook deliveries',
+  model: WebhookDelivery,
+  claimedStatus: 'sending',
+  staleAfterMs: STALE_SENDING_MS,
+  settings: config.webhooks,
+  attempt: attemptDelivery,
+});
+
+async function markDelivery(
+  delivery: IWebhookDelivery,
+  update: Partial<Pick<IWebhookDelivery, 'status' | 'scheduledFor' | 'responseStatus' | 'responseBody' | 'lastError' | 'durationMs' | 'deliveredAt'>>
+): Promise<void> {
+  await deliveryOutbox.mark(delivery, update);
+  await WebhookEndpoint.updateOne(
+    { _id: delivery.endpointId },
+    { $set: { lastDeliveryAt: new Date(), lastDeliveryStatus: delivery.status } }
+  );
+}
+
+/**
+ * POST one claimed delivery. Non-2xx responses and network errors are retried with
+ * exponential backoff until maxAttempts; test events are attempted once.
+ */
+async function attemptDelivery(delivery: IWebhookDelivery): Promise<void> {
+  const endpoint = await WebhookEndpoint.findById(delivery.endpointId);
+  if (!endpoint || (!endpoint.isActive && !delivery.isTest)) {
+    await markDelivery(delivery, { status: 'failed', lastError: 'Endpoint was disabled or deleted' });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  let responseStatus: number | undefined;
+  let responseBody: string | undefined;
+  let error: string | undefined;
+
+  try {
+    // Resolved and checked again on every attempt, since DNS can change after the URL was saved
+    const response = await postToPublicHost(endpoint.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MagnetHub-Webhooks/1.0',
+        'X-MagnetHub-Event': delivery.event,
+        'X-MagnetHub-Delivery': delivery._id.toString(),
+        [SIGNATURE_HEADER]: `t=${timestamp},v1=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+      },
+      body,
+      timeoutMs: config.webhooks.timeoutMs,
+      maxResponseLength: MAX_RESPONSE_BODY_LENGTH,
+      allowPrivate: !config.isProd,
+    });
+
+    responseStatus = response.status;
+    responseBody = response.body;
+    if (response.status < 200 || response.status >= 300) {
+      error = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+  }
+
+  const durationMs = Date.now() - startedAt;
+
+  if (!error) {
+    await markDelivery(delivery, { status: 'succeeded', responseStatus, responseBody, durationMs, deliveredAt: new Date(), lastError: undefined });
+    return;
+  }
+
+  if (delivery.isTest || delivery.attempts >= config.webhooks.maxAttempts) {
+    logger.warn('Webhook delivery failed permanently', {
+      deliveryId: delivery._id,
+      endpointId: endpoint._id,
+      attempts: delivery.attempts,
+      error,
+    });
+    await markDelivery(delivery, { status: 'failed', responseStatus, responseBody, durationMs, lastError: error });
+    return;
+  }
+
+  const retryDelay = deliveryOutbox.getRetryDelay(delivery.attempts);
+  await markDelivery(delivery, {
+    status: 'pending',
+    scheduledFor: new Date(Date.now() + retryDelay),
+    responseStatus,
+    responseBody,
+    durationMs,
+    lastError: error,
+  });
+}
+
+/**
+ * Send every webhook delivery that is due, up to the configured batch size.
+ */
+export function processDueWebhookDeliveries(): Promise<number> {
+  return deliveryOutbox.processDue();
+}
+
+// ============================================
+// Events
+// ============================================
+
+function buildPayload(event: WebhookEventType, data: Record<string, unknown>, test = false): WebhookPayload {
+  return {
+    id: uuidv4(),
+    event,
+    createdAt: new Date().toISOString(),
+    ...(test ? { test: true } : {}),
+    data,
+  };
+}
+
+/**
+ * Queue an event for every active endpoint of the user subscribed to it and attempt
+ * delivery immediately. Never throws, so callers can fire and forget.
+ */
+export async function emitWebhookEvent(
+  userId: Types.ObjectId | string,
+  event: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const endpoints = await WebhookEndpoint.find({ userId, isActive: true, events: event }).select('_id');
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const payload = buildPayload(event, data);
+    const deliveries = await WebhookDelivery.insertMany(
+      endpoints.map((endpoint) => ({
+        endpointId: endpoint._id,
+        userId,
+        event,
+        payload,
+        scheduledFor: new Date(),
+      }))
+    );
+
+    for (const delivery of deliveries) {
+      void deliveryOutbox.sendNow(delivery._id);
+    }
+  } catch (error) {
+    logger.error('Failed to queue webhook event', { userId, event, error });
+  }
+}
+
+export function emitLeadCreated(userId: Types.ObjectId, lead: ILead, leadMagnet: ILeadMagnet): void {
+  void emitWebhookEvent(userId, 'lead.created', {
+    lead: {
+      id: lead._id.toString(),
+      email: lead.email,
+      source: lead.source,
+      medium: lead.medium,
+      campaign: lead.campaign,
+      referrer: lead.referrer,
+      variant: lead.variant,
+      createdAt: lead.createdAt,
+    },
+    leadMagnet: {
+      id: leadMagnet._id.toString(),
+      title: leadMagnet.title,
+      slug: leadMagnet.slug,
+      type: leadMagnet.type,
+    },
+  });
+}
+
+export function emitQuizCompleted(quiz: IQuiz, response: IQuizResponse, result: IQuizResult): void {
+  void emitWebhookEvent(quiz.userId, 'quiz.completed', {
+    response: {
+      id: response._id.toString(),
+      email: response.email,
+      firstName: response.firstName,
+      phone: response.phone,
+      source: response.source,
+      medium: response.medium,
+      campaign: response.campaign,
+      completedAt: response.completedAt,
+    },
+    quiz: {
+      id: quiz._id.toString(),
+      title: quiz.title,
+      slug: quiz.slug,
+    },
+    result: {
+      id: result._id.toString(),
+      name: result.name,
+    },
+  });
+}
+
+export function emitLeadMagnetGenerated(leadMagnet: ILeadMagnet): void {
+  void emitWebhookEvent(leadMagnet.userId, 'lead_magnet.generated', {
+    leadMagnet: {
+      id: leadMagnet._id.toString(),
+      title: leadMagnet.title,
+      slug: leadMagnet.slug,
+      type: leadMagnet.type,
+      isPublished: leadMagnet.isPublished,
+      generationStatus: leadMagnet.generationStatus,
+      createdAt: leadMagnet.createdAt,
+    },
+  });
+}
+
+// Sample data so receivers can test their parsing before real traffic arrives
+const SAMPLE_DATA: Record<WebhookEventType, Record<string, unknown>> = {
+  'lead.created': {
+    lead: { id: 'lead_test', email: 'jane@example.com', source: 'direct', createdAt: new Date(0).toISOString() },
+    leadMagnet: { id: 'lead_magnet_test', title: 'Sample Lead Magnet', slug: 'sample-lead-magnet', type: 'guide' },
+  },
+  'quiz.completed': {
+    response: { id: 'response_test', email: 'jane@example.com', firstName: 'Jane', completedAt: new Date(0).toISOString() },
+    quiz: { id: 'quiz_test', title: 'Sample Quiz', slug: 'sample-quiz' },
+    result: { id: 'result_test', name: 'Sample Result' },
+  },
+  'lead_magnet.generated': {
+    leadMagnet: { id: 'lead_magnet_test', title: 'Sample Lead Magnet', slug: 'sample-lead-magnet', type: 'guide', isPublished: true },
+  },
+};
+
+/**
+ * Send a signed sample event to the endpoint now and return the delivery result.
+ */
+export async function sendTestWebhook(
+  endpoint: IWebhookEndpoint,
+  event: WebhookEventType = endpoint.events[0]
+): Promise<IWebhookDelivery> {
+  const delivery = await WebhookDelivery.create({
+    endpointId: endpoint._id,
+    userId: endpoint.userId,
+    event,
+    payload: buildPayload(event, SAMPLE_DATA[event], true),
+    isTest: true,
+    scheduledFor: new Date(),
+  });
+
+  return (await deliveryOutbox.sendNow(delivery._id)) ?? delivery;
+}
+
+// ============================================
+// Scheduler
+// ============================================
+
+/**
+ * Start polling for due webhook retries (in-process; safe to run on several instances).
+ */
+export function startWebhookScheduler(): void {
+  deliveryOutbox.startScheduler();
+}
+
+export function stopWebhookScheduler(): void {
+  deliveryOutbox.stopScheduler();
+}
@@ -0,0 +1,33 @@
+import type { Types } from 'mongoose';
+import { User } from '../models/User.js';
+import { billingService } from './billingService.js';
+import { config, type PlanType } from '../config/index.js';
+
+export interface WhiteLabel {
+  // Sender name on lead emails instead of "MagnetHub AI"
+  senderName: string;
+}
+
+/**
+ * White-label settings for content owned by a user, or null when MagnetHub branding is shown.
+ * Client sub-accounts follow their agency's setting, which only applies while the agency
+ * is on a paid plan that includes white-labeling.
+ */
+export async function getWhiteLabel(userId: Types.ObjectId | string): Promise<WhiteLabel | null> {
+  const user = await User.findById(userId).select('name agencyOwnerId hideBranding');
+  if (!user) {
+    return null;
+  }
+
+  const agency = user.agencyOwnerId ? await User.findById(user.agencyOwnerId).select('hideBranding') : user;
+  if (!agency?.hideBranding) {
+    return null;
+  }
+
+  const subscription = await billingService.getOrCreateSubscription(agency._id.toString());
+  if (!subscription.isPaid() || !config.planLimits[subscription.plan as PlanType].whiteLabel) {
+    return null;
+  }
+
+  return { senderName: user.name };
+}
@@ -0,0 +1,376 @@
+import crypto from 'crypto';
+import type { Types } from 'mongoose';
+import { Workspace } from '../models/Workspace.js';
+import { WorkspaceMember } from '../models/WorkspaceMember.js';
+import { WorkspaceInvite } from '../models/WorkspaceInvite.js';
+import { User } from '../models/User.js';
+import { sendWorkspaceInviteEmail } from './emailService.js';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/AppError.js';
+import { logger } from '../utils/logger.js';
+import type { IUser, IWorkspace, IWorkspaceInvite, IWorkspaceMember, WorkspaceRole } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type InviteRole = Exclude<WorkspaceRole, 'owner'>;
+
+export interface WorkspaceMembership {
+  workspace: IWorkspace;
+  role: WorkspaceRole;
+  // Two-factor authentication is required in this workspace, for everyone or for this member
+  twoFactorRequired: boolean;
+}
+
+export interface WorkspaceMemberDetails {
+  id: string;
+  userId: string;
+  name: string;
+  email: string;
+  role: WorkspaceRole;
+  requireTwoFactor: boolean;
+  twoFactorEnabled: boolean;
+  joinedAt: Date;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// ============================================
+// Resolve
+// ============================================
+
+/**
+ * The workspace owned by the user, created on first use.
+ */
+export async function ensurePersonalWorkspace(user: IUser): Promise<IWorkspace> {
+  const existing = await Workspace.findOne({ ownerId: user._id });
+  if (existing) {
+    return existing;
+  }
+
+  let workspace: IWorkspace;
+  try {
+    workspace = await Workspace.create({ name: `${user.name}'s Workspace`, ownerId: user._id });
+  } catch (error: any) {
+    // Created by a concurrent request
+    if (error?.code === 11000) {
+      return (await Workspace.findOne({ ownerId: user._id }))!;
+    }
+    throw error;
+  }
+
+  await WorkspaceMember.updateOne(
+    { workspaceId: workspace._id, userId: user._id },
+    { $setOnInsert: { role: 'owner' } },
+    { upsert: true }
+  );
+
+  logger.info('Workspace created', { workspaceId: workspace._id, ownerId: user._id });
+  return workspace;
+}
+
+/**
+ * Workspace of an agency client sub-account. The sub-account never logs in, so the
+ * agency joins it as owner; client logins are invited as editors or viewers.
+ */
+export async function createClientWorkspace(client: IUser, agencyId: Types.ObjectId): Promise<IWorkspace> {
+  const workspace = await Workspace.create({ name: client.name, ownerId: client._id });
+  await WorkspaceMember.create({ workspaceId: workspace._id, userId: agencyId, role: 'owner' });
+
+  logger.info('Client workspace created', { workspaceId: workspace._id, clientId: client._id, agencyId });
+  return workspace;
+}
+
+/**
+ * The workspace a request acts in and the user's role there.
+ * Without a workspace ID the user's own workspace is used.
+ */
+export async function resolveWorkspace(user: IUser, workspaceId?: string): Promise<WorkspaceMembership> {
+  if (!workspaceId) {
+    const workspace = await ensurePersonalWorkspace(user);
+    return { workspace, role: 'owner', twoFactorRequired: !!workspace.requireTwoFactor };
+  }
+
+  return getMembership(user._id, workspaceId);
+}
+
+/**
+ * Look up the user's membership of a workspace, optionally requiring one of the given roles.
+ */
+export async function getMembership(
+  userId: Types.ObjectId,
+  workspaceId: string,
+  roles?: WorkspaceRole[]
+): Promise<WorkspaceMembership> {
+  const [workspace, member] = await Promise.all([
+    Workspace.findById(workspaceId),
+    WorkspaceMember.findOne({ workspaceId, userId }),
+  ]);
+  if (!workspace || !member) {
+    throw AppError.forbidden('You are not a member of this workspace', 'WORKSPACE_ACCESS_DENIED');
+  }
+  if (roles && !roles.includes(member.role)) {
+    throw AppError.forbidden('Your role in this workspace does not allow this action', 'INSUFFICIENT_ROLE');
+  }
+
+  return { workspace, role: member.role, twoFactorRequired: !!(workspace.requireTwoFactor || member.requireTwoFactor) };
+}
+
+/**
+ * Every workspace the user can switch to, their own first.
+ */
+export async function listUserWorkspaces(user: IUser): Promise<WorkspaceMembership[]> {
+  await ensurePersonalWorkspace(user);
+
+  const memberships = await WorkspaceMember.find({ userId: user._id }).sort({ createdAt: 1 });
+  const workspaces = await Workspace.find({ _id: { $in: memberships.map((m) => m.workspaceId) } });
+  const byId = new Map(workspaces.map((w) => [w._id.toString(), w]));
+
+  return memberships
+    .filter((m) => byId.has(m.workspaceId.toString()))
+    .map((m) => {
+      const workspace = byId.get(m.workspaceId.toString())!;
+      return { workspace, role: m.role, twoFactorRequired: !!(workspace.requireTwoFactor || m.requireTwoFactor) };
+    })
+    .sort((a, b) => Number(b.workspace.ownerId.equals(user._id)) - Number(a.workspace.ownerId.equals(user._id)));
+}
+
+/**
+ * Rename the workspace or change its two-factor requirement. Owners must use
+ * two-factor authentication themselves before requiring it from everyone.
+ */
+export async function updateWorkspace(
+  workspace: IWorkspace,
+  owner: IUser,
+  input: { name?: string; requireTwoFactor?: boolean }
+): Promise<IWorkspace> {
+  if (input.requireTwoFactor && !owner.twoFactor?.enabled) {
+    throw AppError.badRequest(
+      'Turn on two-factor authentication for your own account before requiring it',
+      'TWO_FACTOR_NOT_ENABLED'
+    );
+  }
+
+  if (input.name !== undefined) workspace.name = input.name;
+  if (input.requireTwoFactor !== undefined) workspace.requireTwoFactor = input.requireTwoFactor;
+  await workspace.save();
+
+  if (input.requireTwoFactor !== undefined) {
+    logger.info('Workspace two-factor requirement changed', { workspaceId: workspace._id, requireTwoFactor: input.requireTwoFactor });
+  }
+  return workspace;
+}
+
+// ============================================
+// Members
+// ============================================
+
+export async function listMembers(workspace: IWorkspace): Promise<WorkspaceMemberDetails[]> {
+  const members = await WorkspaceMember.find({ workspaceId: workspace._id }).sort({ createdAt: 1 });
+  const users = await User.find({ _id: { $in: members.map((m) => m.userId) } }).select('name email twoFactor.enabled');
+  const byId = new Map(users.map((u) => [u._id.toString(), u]));
+
+  return members
+    .filter((m) => byId.has(m.userId.toString()))
+    .map((m) => {
+      const user = byId.get(m.userId.toString())!;
+      return {
+        id: m._id.toString(),
+        userId: m.userId.toString(),
+        name: user.name,
+        email: user.email,
+        role: m.role,
+        requireTwoFactor: !!m.requireTwoFactor,
+        twoFactorEnabled: !!user.twoFactor?.enabled,
+        joinedAt: m.createdAt,
+      };
+    });
+}
+
+async function getMember(workspace: IWorkspace, memberId: string): Promise<IWorkspaceMember> {
+  const member = await WorkspaceMember.findOne({ _id: memberId, workspaceId: workspace._id });
+  if (!member) {
+    throw AppError.notFound('Member not found');
+  }
+  return member;
+}
+
+/**
+ * Change a member's role, or require two-factor authentication from that member only
+ */
+export async function updateMember(
+  workspace: IWorkspace,
+  memberId: string,
+  input: { role?: InviteRole; requireTwoFactor?: boolean }
+): Promise<IWorkspaceMember> {
+  const member = await getMember(workspace, memberId);
+  if (input.role !== undefined && member.role === 'owner') {
+    throw AppError.badRequest('The owner\'s role cannot be changed', 'OWNER_ROLE_FIXED');
+  }
+
+  if (input.role !== undefined) member.role = input.role;
+  if (input.requireTwoFactor !== undefined) member.requireTwoFactor = input.requireTwoFactor;
+  await member.save();
+
+  logger.info('Workspace member updated', { workspaceId: workspace._id, memberId, ...input });
+  return member;
+}
+
+/**
+ * Owners can remove anyone but themselves; other members can only leave.
+ */
+export async function removeMember(workspace: IWorkspace, memberId: string, actor: WorkspaceMembership & { userId: Types.ObjectId }): Promise<void> {
+  const member = await getMember(workspace, memberId);
+  if (member.role === 'owner') {
+    throw AppError.badRequest('The owner cannot be removed from their workspace', 'OWNER_NOT_REMOVABLE');
+  }
+  if (actor.role !== 'owner' && !member.userId.equals(actor.userId)) {
+    throw AppError.forbidden('Only the owner can remove other members', 'INSUFFICIENT_ROLE');
+  }
+
+  await member.deleteOne();
+  logger.info('Workspace member removed', { workspaceId: workspace._id, userId: member.userId });
+}
+
+// ============================================
+// Invitations
+// ============================================
+
+export async function listPendingInvites(workspace: IWorkspace): Promise<IWorkspaceInvite[]> {
+  return WorkspaceInvite.find({
+    workspaceId: workspace._id,
+    acceptedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  }).sort({ createdAt: -1 });
+}
+
+/**
+ * Invite someone by email. Inviting the same address again replaces the previous invitation.
+ */
+export async function createInvite(
+  workspace: IWorkspace,
+  inviter: IUser,
+  input: { email: string; role: InviteRole }
+): Promise<IWorkspaceInvite> {
+  const email = input.email.toLowerCase();
+
+  const existingUser = await User.findOne({ email }).select('_id');
+  if (existingUser && (await WorkspaceMember.exists({ workspaceId: workspace._id, userId: existingUser._id }))) {
+    throw AppError.conflict('This person is already a member of the workspace', 'ALREADY_MEMBER');
+  }
+
+  await WorkspaceInvite.deleteMany({ workspaceId: workspace._id, email, acceptedAt: { $exists: false } });
+
+  const [memberCount, pendingCount] = await Promise.all([
+    WorkspaceMember.countDocuments({ workspaceId: workspace._id }),
+    WorkspaceInvite.countDocuments({ workspaceId: workspace._id, acceptedAt: { $exists: false }, expiresAt: { $gt: new Date() } }),
+  ]);
+  if (memberCount + pendingCount >= config.workspaces.maxMembers) {
+    throw AppError.badRequest(`A workspace can have up to ${config.workspaces.maxMembers} members`, 'MEMBER_LIMIT');
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const invite = await WorkspaceInvite.create({
+    workspaceId: workspace._id,
+    email,
+    role: input.role,
+    tokenHash: hashToken(token),
+    invitedBy: inviter._id,
+    expiresAt: new Date(Date.now() + config.workspaces.inviteTtlDays * DAY_MS),
+  });
+
+  sendWorkspaceInviteEmail({
+    to: email,
+    inviterName: inviter.name,
+    workspaceName: workspace.name,
+    role: input.role,
+    acceptUrl: `${config.clientUrl}/invite?token=${encodeURIComponent(token)}`,
+    expiresInDays: config.workspaces.inviteTtlDays,
+  }).catch((error: unknown) => {
+    logger.error('Failed to send workspace invite email', { inviteId: invite._id, error });
+  });
+
+  logger.info('Workspace invite created', { workspaceId: workspace._id, inviteId: invite._id, role: input.role });
+  return invite;
+}
+
+export async function revokeInvite(workspace: IWorkspace, inviteId: string): Promise<void> {
+  const result = await WorkspaceInvite.deleteOne({ _id: inviteId, workspaceId: workspace._id, acceptedAt: { $exists: false } });
+  if (result.deletedCount === 0) {
+    throw AppError.notFound('Invitation not found');
+  }
+}
+
+/**
+ * Join the workspace an invitation was sent for. The invitation must have been sent
+ * to the email address of the account accepting it.
+ */
+export async function acceptInvite(user: IUser, token: string): Promise<WorkspaceMembership> {
+  const invite = await WorkspaceInvite.findOne({ tokenHash: hashToken(token), acceptedAt: { $exists: false } });
+  if (!invite) {
+    throw AppError.notFound('This invitation is invalid or has already been used', 'INVITE_INVALID');
+  }
+  if (invite.expiresAt.getTime() <= Date.now()) {
+    throw AppError.badRequest('This invitation has expired', 'INVITE_EXPIRED');
+  }
+  if (invite.email !== user.email.toLowerCase()) {
+    throw AppError.forbidden(`This invitation was sent to ${invite.email}`, 'INVITE_EMAIL_MISMATCH');
+  }
+
+  const workspace = await Workspace.findById(invite.workspaceId);
+  if (!workspace) {
+    throw AppError.notFound('This workspace no longer exists', 'INVITE_INVALID');
+  }
+
+  const claimed = await WorkspaceInvite.updateOne(
+    { _id: invite._id, acceptedAt: { $exists: false } },
+    { $set: { acceptedAt: new Date(), acceptedBy: user._id } }
+  );
+  if (claimed.modifiedCount === 0) {
+    throw AppError.notFound('This invitation is invalid or has already been used', 'INVITE_INVALID');
+  }
+
+  const member = await WorkspaceMember.findOneAndUpdate(
+    { workspaceId: workspace._id, userId: user._id },
+    { $setOnInsert: { role: invite.role, invitedBy: invite.invitedBy } },
+    { upsert: true, new: true }
+  );
+
+  logger.info('Workspace invite accepted', { workspaceId: workspace._id, userId: user._id, role: member.role });
+  return { workspace, role: member.role, twoFactorRequired: !!(workspace.requireTwoFactor || member.requireTwoFactor) };
+}
+
+/**
+ * Whether any workspace the user belongs to requires two-factor authentication from them
+ */
+export async function isTwoFactorRequiredForUser(userId: Types.ObjectId): Promise<boolean> {
+  const memberships = await WorkspaceMember.find({ userId }).select('workspaceId requireTwoFactor');
+  if (memberships.some((m) => m.requireTwoFactor)) {
+    return true;
+  }
+
+  const enforcing = await Workspace.exists({
+    _id: { $in: memberships.map((m) => m.workspaceId) },
+    requireTwoFactor: true,
+  });
+  return !!enforcing;
+}
+
+// ============================================
+// Cleanup
+// ============================================
+
+/**
+ * Remove the user's own workspace (with its members and invitations) and their other memberships.
+ */
+export async function deleteWorkspacesOfUser(userId: Types.ObjectId): Promise<void> {
+  const owned = await Workspace.find({ ownerId: userId }).select('_id');
+  const ownedIds = owned.map((w) => w._id);
+
+  await Promise.all([
+    WorkspaceMember.deleteMany({ $or: [{ workspaceId: { $in: ownedIds } }, { userId }] }),
+    WorkspaceInvite.deleteMany({ workspaceId: { $in: ownedIds } }),
+    Workspace.deleteMany({ _id: { $in: ownedIds } }),
+  ]);
+}
@@ -74,6 +74,22 @@ export interface IBrandSettings {
   landingPageTemplate?: LandingPageTemplate;
 }
 
+export interface IUserTwoFactor {
+  enabled: boolean;
+  // Base32 TOTP secret (not selected by default)
+  secret?: string;
+  // Secret shown during enrollment until the first code confirms it
+  pendingSecret?: string;
+  // SHA-256 hashes of the unused recovery codes
+  recoveryCodeHashes?: string[];
+  // Last accepted TOTP time step, so a code cannot be replayed
+  lastUsedStep?: number;
+  enabledAt?: Date;
+  // Wrong codes since the last success, and the lock they cause (kept per user, not per session)
+  failedAttempts?: number;
+  lockedUntil?: Date;
+}
+
 export interface IUser extends Document {
   _id: Types.ObjectId;
   email: string;
@@ -89,6 +105,13 @@ export interface IUser extends Document {
   currentSubscriptionId?: Types.ObjectId;
   // Privacy settings
   defaultLeadMagnetPrivacy?: LeadMagnetPrivacy;
+  // Agency client sub-account: the agency account that manages and pays for it.
+  // Sub-accounts have no login of their own; the agency and invited clients reach them as workspace members.
+  agencyOwnerId?: Types.ObjectId;
+  // White-label: hide MagnetHub branding from landing pages, PDFs and lead emails (set on the agency)
+  hideBranding?: boolean;
+  // TOTP second factor, asked for after the password or Google sign-in
+  twoFactor?: IUserTwoFactor;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -101,6 +124,8 @@ export interface IUserPublic {
   username: string;
   brandSettings?: IBrandSettings;
   hasCompletedOnboarding?: boolean;
+  hideBranding?: boolean;
+  twoFactorEnabled?: boolean;
   plan?: PlanType;
   createdAt: Date;
 }
@@ -111,6 +136,51 @@ export interface IUserPublic {
 
 export type SourceType = 'website' | 'instagram' | 'youtube';
 
+// ============================================
+// Workspace Types
+// ============================================
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+// Every account owns one workspace. Its brands, lead magnets, quizzes, leads and subscription
+// stay keyed by the owner's user ID (`userId` on those documents); members act on them.
+export interface IWorkspace extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  ownerId: Types.ObjectId;
+  // Every member must use two-factor authentication
+  requireTwoFactor?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IWorkspaceMember extends Document {
+  _id: Types.ObjectId;
+  workspaceId: Types.ObjectId;
+  userId: Types.ObjectId;
+  role: WorkspaceRole;
+  invitedBy?: Types.ObjectId;
+  // This member must use two-factor authentication
+  requireTwoFactor?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IWorkspaceInvite extends Document {
+  _id: Types.ObjectId;
+  workspaceId: Types.ObjectId;
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  // SHA-256 of the token in the invitation link
+  tokenHash: string;
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // ============================================
 // Brand Types
 // ============================================
@@ -157,7 +227,7 @@ export type UploadedFileType = 'pdf' | 'image' | 'audio';
 export type InfographicStyle = 'minimal' | 'modern' | 'bold' | 'professional';
 export type InfographicOrientation = 'square' | 'portrait' | 'landscape';
 
-export type LeadMagnetGenerationStatus = 'pdf_ready' | 'complete' | 'needs_attention';
+export type LeadMagnetGenerationStatus = 'queued' | 'generating' | 'pdf_ready' | 'complete' | 'needs_attention' | 'failed';
 export type LeadMagnetAssetStatus = 'pending' | 'ready' | 'failed';
 
 export interface ILeadMagnet extends Document {
@@ -198,6 +268,247 @@ export interface ILeadMagnet extends Document {
   uploadedFileMimeType?: string;
   uploadedFileSize?: number; // bytes
   description?: string;
+  sequenceSettings?: ISequenceSettings;
+  generationJobId?: Types.ObjectId;
+  currentRevision?: number; // Version of the revision the lead magnet currently reflects
+  landingPageTemplate?: LandingPageTemplate; // Overrides the brand's template (set by a winning experiment variant)
+  // Leads must click a confirmation link before the asset is delivered
+  doubleOptIn?: boolean;
+  // Shown under the signup form and stored on each lead as consent evidence
+  consentText?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Why a revision was captured. 'initial' snapshots content that predates revision tracking.
+export type LeadMagnetRevisionReason = 'initial' | 'generated' | 'updated' | 'edited' | 'pdf_regenerated';
+
+// Immutable snapshot of a lead magnet's editable content
+export interface ILeadMagnetRevision extends Document {
+  _id: Types.ObjectId;
+  leadMagnetId: Types.ObjectId;
+  userId: Types.ObjectId;
+  version: number;
+  reason: LeadMagnetRevisionReason;
+  title?: string;
+  outlineJson?: IOutline;
+  contentJson?: ILeadMagnetContent;
+  landingPageCopyJson?: ILandingPageCopy;
+  landingPageHtml?: string;
+  emailsJson?: IEmailSequence;
+  pdfUrl?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Landing Page Experiment Types
+// ============================================
+
+export type LandingExperimentStatus = 'running' | 'completed' | 'stopped';
+
+// Overrides applied on top of the lead magnet's landing copy. The 'control' variant has none.
+export interface ILandingVariant {
+  key: string;
+  name: string;
+  weight: number;
+  headline?: string;
+  subheadline?: string;
+  cta?: string;
+  landingPageTemplate?: LandingPageTemplate;
+}
+
+export interface ILandingExperimentAutoPromote {
+  enabled: boolean;
+  minViewsPerVariant: number;
+  confidence: number; // 0-1, e.g. 0.95
+}
+
+export interface ILandingExperiment extends Document {
+  _id: Types.ObjectId;
+  leadMagnetId: Types.ObjectId;
+  userId: Types.ObjectId;
+  name: string;
+  status: LandingExperimentStatus;
+  variants: ILandingVariant[];
+  autoPromote: ILandingExperimentAutoPromote;
+  winnerKey?: string;
+  startedAt: Date;
+  endedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Background Job Types
+// ============================================
+
+export type JobType = 'lead_magnet.generate' | 'lead_magnet.generate_unified' | 'account.export';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IJobProgress {
+  step: string;
+  percent: number;
+  message?: string;
+  updatedAt?: Date;
+}
+
+export interface IJob extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  progress: IJobProgress;
+  leadMagnetId?: Types.ObjectId;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Email Sequence Types
+// ============================================
+
+// Schedule for the follow-up emails of a lead magnet. emails[0] is the delivery
+// email sent on signup, so steps reference emailsJson indexes starting at 1.
+export interface ISequenceStep {
+  emailIndex: number;
+  delayDays: number;
+  enabled: boolean;
+}
+
+export interface ISequenceSettings {
+  enabled: boolean;
+  steps: ISequenceStep[];
+}
+
+export type SequenceEmailStatus = 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface ISequenceEmail extends Document {
+  _id: Types.ObjectId;
+  leadId: Types.ObjectId;
+  leadMagnetId: Types.ObjectId;
+  email: string;
+  emailIndex: number;
+  scheduledFor: Date;
+  status: SequenceEmailStatus;
+  attempts: number;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Webhook Types
+// ============================================
+
+export type WebhookEventType = 'lead.created' | 'quiz.completed' | 'lead_magnet.generated';
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'succeeded' | 'failed';
+
+export interface IWebhookEndpoint extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  // Shared secret for the HMAC signature; never included in JSON output
+  secret: string;
+  isActive: boolean;
+  lastDeliveryAt?: Date;
+  lastDeliveryStatus?: WebhookDeliveryStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One event sent to one endpoint, including its retry state (the delivery log)
+export interface IWebhookDelivery extends Document {
+  _id: Types.ObjectId;
+  endpointId: Types.ObjectId;
+  userId: Types.ObjectId;
+  event: WebhookEventType;
+  payload: Record<string, unknown>;
+  isTest: boolean;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  scheduledFor: Date;
+  responseStatus?: number;
+  responseBody?: string;
+  lastError?: string;
+  durationMs?: number;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// CRM Connector Types
+// ============================================
+
+export type CrmProvider = 'brevo' | 'mailchimp' | 'convertkit';
+export type CrmSyncStatus = 'pending' | 'syncing' | 'synced' | 'failed';
+
+// Provider field / attribute / merge tag that each MagnetHub field is written to.
+// Email is always sent as the contact identifier; empty or missing fields are not sent.
+export interface ICrmFieldMapping {
+  firstName?: string;
+  phone?: string;
+  quizResult?: string;
+  utmSource?: string;
+}
+
+export interface ICrmConnection extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  provider: CrmProvider;
+  name: string;
+  apiKey: string;
+  // Last characters of the API key, so the dashboard can show which key is connected
+  apiKeyHint: string;
+  // Brevo list ID, Mailchimp audience ID or ConvertKit form ID
+  listId: string;
+  listName?: string;
+  fieldMapping: ICrmFieldMapping;
+  syncLeads: boolean;
+  syncQuizResponses: boolean;
+  isActive: boolean;
+  lastSyncAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ICrmContactFields {
+  email: string;
+  firstName?: string;
+  phone?: string;
+  quizResult?: string;
+  utmSource?: string;
+}
+
+export interface ICrmSync extends Document {
+  _id: Types.ObjectId;
+  connectionId: Types.ObjectId;
+  userId: Types.ObjectId;
+  provider: CrmProvider;
+  leadId?: Types.ObjectId;
+  quizResponseId?: Types.ObjectId;
+  // Snapshot of the contact at capture time; mapped to provider fields when sent
+  contact: ICrmContactFields;
+  status: CrmSyncStatus;
+  attempts: number;
+  scheduledFor: Date;
+  externalId?: string;
+  lastError?: string;
+  syncedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -207,6 +518,15 @@ export interface ILeadMagnet extends Document {
 // ============================================
 
 export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+export type LeadOptInStatus = 'pending' | 'confirmed';
+
+// Evidence of what the lead agreed to and when, recorded at capture
+export interface ILeadConsent {
+  text?: string;
+  givenAt: Date;
+  ipAddress?: string;
+  userAgent?: string;
+}
 
 export interface ILead extends Document {
   _id: Types.ObjectId;
@@ -218,7 +538,71 @@ export interface ILead extends Document {
   source?: string;
   medium?: string;
   campaign?: string;
+  // Landing page experiment the lead converted in
+  experimentId?: Types.ObjectId;
+  variant?: string;
+  consent?: ILeadConsent;
+  // Double opt-in (only set when the lead magnet requires confirmation)
+  optInStatus?: LeadOptInStatus;
+  confirmationTokenHash?: string;
+  confirmationExpiresAt?: Date;
+  confirmedAt?: Date;
+  unsubscribedAt?: Date;
+  createdAt: Date;
+}
+
+// ============================================
+// Suppression Types
+// ============================================
+
+export type SuppressionReason = 'unsubscribed' | 'manual';
+
+// An address the owner must not email again (unsubscribe link or added by hand)
+export interface ISuppression extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  email: string;
+  reason: SuppressionReason;
+  // Lead whose email carried the unsubscribe link, if any
+  leadId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Data Subject Request Types
+// ============================================
+
+export type DataRequestType = 'access' | 'export' | 'erasure';
+// 'delete' removes the records; 'anonymize' strips personal fields but keeps them for analytics
+export type DataErasureMode = 'delete' | 'anonymize';
+
+// Records found (or erased) for the email, per collection
+export interface IDataRequestCounts {
+  leads: number;
+  quizResponses: number;
+  pageViews: number;
+  sequenceEmails: number;
+  crmSyncs: number;
+  webhookDeliveries: number;
+  suppressions: number;
+}
+
+// Audit trail of access / export / erasure requests handled for an owner's leads
+export interface IDataRequest extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  type: DataRequestType;
+  // SHA-256 of the lowercased email, so the log itself keeps no personal data
+  emailHash: string;
+  mode?: DataErasureMode;
+  // Owner's own reference, e.g. a support ticket
+  note?: string;
+  // Erasure only: the address stayed on the suppression list, stored as its hash
+  suppressionRetained?: boolean;
+  counts: IDataRequestCounts;
   createdAt: Date;
+  updatedAt: Date;
 }
 
 // ============================================
@@ -232,6 +616,8 @@ export interface IPageView extends Document {
   source: string;
   medium?: string;
   campaign?: string;
+  experimentId?: Types.ObjectId;
+  variant?: string;
   userAgent?: string;
   ip?: string;
   country?: string;
@@ -247,18 +633,56 @@ export type EmailCapturePoint = 'before_results' | 'after_results';
 export type QuizTheme = 'dark' | 'light' | 'colorful';
 export type QuizFontStyle = 'modern' | 'classic' | 'playful';
 export type QuizEmailDeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+// personality: one result per answer, most picked wins
+// weighted: answers give points to several results, highest total wins
+// points: answer points are summed and the total falls in a result's score range
+// knowledge: a graded test; the percentage of correct answers falls in a result's score band
+export type QuizScoringMode = 'personality' | 'weighted' | 'points' | 'knowledge';
+export type QuizQuestionType = 'single_choice' | 'multi_select' | 'image_choice' | 'rating' | 'free_text';
+
+export interface IQuizAnswerWeight {
+  resultId: Types.ObjectId;
+  points: number;
+}
 
 export interface IQuizAnswer {
   _id: Types.ObjectId;
   answerText: string;
+  imageUrl?: string; // image_choice questions: the picture shown for this answer
   resultMapping?: Types.ObjectId; // Maps to which result this points to
+  resultWeights?: IQuizAnswerWeight[]; // weighted mode: points toward several results
+  points?: number; // points mode: added to the total score
+  isCorrect?: boolean; // knowledge mode: a correct answer to the question
+  // Branching: go to this question next instead of the following one
+  nextQuestionId?: Types.ObjectId;
+  // Branching: finish the quiz after this answer
+  endsQuiz?: boolean;
+}
+
+export interface IQuizRatingScale {
+  min: number;
+  max: number;
+  minLabel?: string;
+  maxLabel?: string;
 }
 
 export interface IQuizQuestion {
   _id: Types.ObjectId;
   questionText: string;
+  type?: QuizQuestionType; // default single_choice
   order: number;
-  answers: IQuizAnswer[];
+  // Multiplier for everything the question's answers score (default 1)
+  weight?: number;
+  answers: IQuizAnswer[]; // choice questions only
+  // multi_select: most answers a taker may pick (default: all)
+  maxSelections?: number;
+  // rating: the scale, and the results a high rating points toward (scaled by the rating)
+  ratingScale?: IQuizRatingScale;
+  resultWeights?: IQuizAnswerWeight[];
+  // free_text: takers may skip the question
+  isOptional?: boolean;
+  // knowledge mode: shown after submission to explain the correct answer
+  explanation?: string;
 }
 
 export interface IQuizResult {
@@ -271,6 +695,25 @@ export interface IQuizResult {
   ctaText?: string;
   ctaUrl?: string;
   imageUrl?: string;
+  // points mode: inclusive total score range for this result, e.g. 0-10 = Beginner
+  // knowledge mode: inclusive percentage band instead, e.g. 80-100 = Expert
+  minScore?: number;
+  maxScore?: number;
+}
+
+// Share of the taker's points that went to each result
+export interface IQuizResultScore {
+  resultId: Types.ObjectId;
+  score: number;
+  percentage: number;
+}
+
+// Knowledge mode: how a taker did on one graded question, returned after submission
+export interface IQuizQuestionFeedback {
+  questionId: Types.ObjectId;
+  isCorrect: boolean;
+  correctAnswerIds: Types.ObjectId[];
+  explanation?: string;
 }
 
 export interface IQuizEmailFields {
@@ -305,6 +748,11 @@ export interface IQuiz extends Document {
   questions: IQuizQuestion[];
   results: IQuizResult[];
 
+  // Scoring
+  scoringMode: QuizScoringMode;
+  // Return each result's percentage of the taker's points with their result
+  showResultBreakdown: boolean;
+
   // Styling
   theme: QuizTheme;
   primaryColor: string;
@@ -329,10 +777,26 @@ export interface IQuiz extends Document {
 
 export interface IQuizResponseAnswer {
   questionId: Types.ObjectId;
-  answerId: Types.ObjectId;
+  answerId?: Types.ObjectId; // single_choice / image_choice
+  answerIds?: Types.ObjectId[]; // multi_select
+  value?: number; // rating
+  text?: string; // free_text
   timestamp: Date;
 }
 
+// Recorded from the public quiz as the taker moves through it, for drop-off analytics
+export type QuizProgressEventType = 'viewed' | 'answered';
+
+export interface IQuizProgressEvent {
+  questionId: Types.ObjectId;
+  event: QuizProgressEventType;
+  // answered: the choice(s) or rating (free text is only stored on submit)
+  answerId?: Types.ObjectId;
+  answerIds?: Types.ObjectId[];
+  value?: number;
+  at: Date;
+}
+
 export interface IQuizResponse extends Document {
   _id: Types.ObjectId;
   quizId: Types.ObjectId;
@@ -345,6 +809,9 @@ export interface IQuizResponse extends Document {
   // Quiz data
   answers: IQuizResponseAnswer[];
   resultId?: Types.ObjectId;
+  score?: number;
+  resultBreakdown?: IQuizResultScore[];
+  progress?: IQuizProgressEvent[];
 
   // Timestamps
   startedAt?: Date;
@@ -418,6 +885,78 @@ export interface IYouTubeChannel {
   recentVideos: IYouTubeVideo[];
 }
 
+// ============================================
+// AI Usage Types
+// ============================================
+
+export type AIProviderName = 'openai' | 'gemini' | 'local' | 'fake';
+
+// One ledger entry per provider call (retries are separate entries)
+export interface IAIUsage extends Document {
+  _id: Types.ObjectId;
+  userId?: Types.ObjectId;
+  leadMagnetId?: Types.ObjectId;
+  jobId?: Types.ObjectId;
+  provider: AIProviderName;
+  // Named aiModel because Document already defines model()
+  aiModel: string;
+  step: string;
+  inputTokens: number;
+  outputTokens: number;
+  imageCount: number;
+  latencyMs: number;
+  costUsd: number;
+  success: boolean;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Custom Domain Types
+// ============================================
+
+export type CustomDomainStatus = 'pending' | 'verified' | 'failed';
+
+export interface ICustomDomain extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  // When set, the domain only serves this brand's lead magnets and quizzes
+  brandId?: Types.ObjectId;
+  hostname: string;
+  verificationToken: string;
+  status: CustomDomainStatus;
+  verifiedAt?: Date;
+  lastCheckedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// API Key Types
+// ============================================
+
+export type ApiKeyScope = 'leads:read' | 'lead_magnets:read' | 'lead_magnets:write' | 'quizzes:manage';
+
+export interface IApiKey extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  name: string;
+  // First characters of the key, shown in the dashboard so users can tell keys apart
+  prefix: string;
+  // SHA-256 of the full key; the key itself is only returned once, on creation
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // ============================================
 // AI Pipeline Types
 // ============================================
@@ -488,6 +1027,21 @@ export interface IEmailSequence {
 
 export interface AuthenticatedRequest extends Request {
   user?: IUser;
+  // Set when the request was authenticated with a personal API key instead of the session
+  apiKey?: IApiKey;
+  // Workspace the request acts in (X-Workspace-Id header, or the user's own workspace)
+  workspace?: IWorkspace;
+  workspaceRole?: WorkspaceRole;
+}
+
+// Password accepted, second factor still to be entered (POST /api/auth/2fa/verify)
+declare module 'express-session' {
+  interface SessionData {
+    pendingTwoFactor?: {
+      userId: string;
+      expiresAt: number;
+    };
+  }
 }
 
 // ============================================
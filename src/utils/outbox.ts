@@ -0,0 +1,149 @@
+import type { FilterQuery, Model, Types, UpdateQuery } from 'mongoose';
+import { logger } from './logger.js';
+
+// ============================================
+// Types
+// ============================================
+
+// A queued outgoing call (webhook delivery, CRM sync) stored with its retry state
+export interface OutboxItem {
+  _id: Types.ObjectId;
+  status: string;
+  attempts: number;
+  scheduledFor: Date;
+  set(update: object): unknown;
+}
+
+export interface OutboxOptions<T extends OutboxItem> {
+  // Plural, for logs: "webhook deliveries"
+  name: string;
+  model: Model<T>;
+  // Status of an item while one instance is sending it
+  claimedStatus: string;
+  // Items claimed longer ago than this were left behind by a crash and are sent again
+  staleAfterMs: number;
+  settings: {
+    pollIntervalMs: number;
+    batchSize: number;
+    retryBaseDelayMs: number;
+    maxRetryDelayMs: number;
+  };
+  // Send one claimed item and mark it (succeeded, failed or pending with a retry time)
+  attempt(item: T): Promise<void>;
+}
+
+export interface Outbox<T extends OutboxItem> {
+  getRetryDelay(attempts: number): number;
+  mark(item: T, update: Record<string, unknown>): Promise<void>;
+  sendNow(id: Types.ObjectId): Promise<T | null>;
+  processDue(): Promise<number>;
+  startScheduler(): void;
+  stopScheduler(): void;
+}
+
+// ============================================
+// Outbox
+// ============================================
+
+/**
+ * Claiming, retry backoff and the polling scheduler shared by the outgoing queues.
+ * Items are claimed atomically (status + attempts), so several instances can poll the
+ * same collection without sending an item twice.
+ */
+export function createOutbox<T extends OutboxItem>(options: OutboxOptions<T>): Outbox<T> {
+  const { model, claimedStatus, settings } = options;
+  const claim: UpdateQuery<T> = { $set: { status: claimedStatus }, $inc: { attempts: 1 } };
+
+  let schedulerTimer: NodeJS.Timeout | null = null;
+  let isProcessing = false;
+
+  const getRetryDelay = (attempts: number): number =>
+    Math.min(settings.retryBaseDelayMs * 2 ** (attempts - 1), settings.maxRetryDelayMs);
+
+  const mark = async (item: T, update: Record<string, unknown>): Promise<void> => {
+    item.set(update);
+    // Undefined values clear the field (e.g. lastError after a successful retry)
+    const unset = Object.fromEntries(Object.entries(update).filter(([, value]) => value === undefined).map(([key]) => [key, 1]));
+    await model.updateOne({ _id: item._id }, { $set: update, $unset: unset } as UpdateQuery<T>);
+  };
+
+  /**
+   * Claim and send an item right away instead of waiting for the scheduler.
+   */
+  const sendNow = async (id: Types.ObjectId): Promise<T | null> => {
+    try {
+      const item = await model.findOneAndUpdate({ _id: id, status: 'pending' } as FilterQuery<T>, claim, { new: true });
+      if (item) {
+        await options.attempt(item);
+      }
+      return item;
+    } catch (error) {
+      logger.error('Outbox send failed', { outbox: options.name, id, error });
+      return null;
+    }
+  };
+
+  /**
+   * Send every item that is due, up to the batch size.
+   */
+  const processDue = async (): Promise<number> => {
+    await model.updateMany(
+      { status: claimedStatus, updatedAt: { $lt: new Date(Date.now() - options.staleAfterMs) } } as FilterQuery<T>,
+      { $set: { status: 'pending' } }
+    );
+
+    let processed = 0;
+
+    while (processed < settings.batchSize) {
+      const item = await model.findOneAndUpdate(
+        { status: 'pending', scheduledFor: { $lte: new Date() } } as FilterQuery<T>,
+        claim,
+        { sort: { scheduledFor: 1 }, new: true }
+      );
+
+      if (!item) {
+        break;
+      }
+
+      await options.attempt(item);
+      processed++;
+    }
+
+    if (processed > 0) {
+      logger.info(`Processed due ${options.name}`, { processed });
+    }
+
+    return processed;
+  };
+
+  const startScheduler = (): void => {
+    if (schedulerTimer) {
+      return;
+    }
+
+    schedulerTimer = setInterval(() => {
+      if (isProcessing) {
+        return;
+      }
+      isProcessing = true;
+      processDue()
+        .catch((error: unknown) => {
+          logger.error('Outbox scheduler tick failed', { outbox: options.name, error });
+        })
+        .finally(() => {
+          isProcessing = false;
+        });
+    }, settings.pollIntervalMs);
+
+    logger.info('Outbox scheduler started', { outbox: options.name, pollIntervalMs: settings.pollIntervalMs });
+  };
+
+  const stopScheduler = (): void => {
+    if (schedulerTimer) {
+      clearInterval(schedulerTimer);
+      schedulerTimer = null;
+    }
+  };
+
+  return { getRetryDelay, mark, sendNow, processDue, startScheduler, stopScheduler };
+}
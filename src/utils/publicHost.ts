@@ -0,0 +1,136 @@
+import dns from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+// ============================================
+// Address Checks
+// ============================================
+
+// Ranges a request from our servers must never reach: private networks, loopback,
+// link-local (cloud metadata), CGNAT, benchmarking, documentation and multicast
+const blockedAddresses = new BlockList();
+blockedAddresses.addSubnet('0.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('100.64.0.0', 10, 'ipv4');
+blockedAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('169.254.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+blockedAddresses.addSubnet('192.0.0.0', 24, 'ipv4');
+blockedAddresses.addSubnet('192.0.2.0', 24, 'ipv4');
+blockedAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('198.18.0.0', 15, 'ipv4');
+blockedAddresses.addSubnet('198.51.100.0', 24, 'ipv4');
+blockedAddresses.addSubnet('203.0.113.0', 24, 'ipv4');
+blockedAddresses.addSubnet('224.0.0.0', 3, 'ipv4');
+blockedAddresses.addAddress('::', 'ipv6');
+blockedAddresses.addAddress('::1', 'ipv6');
+blockedAddresses.addSubnet('64:ff9b::', 96, 'ipv6');
+blockedAddresses.addSubnet('2001:db8::', 32, 'ipv6');
+blockedAddresses.addSubnet('fc00::', 7, 'ipv6');
+blockedAddresses.addSubnet('fe80::', 10, 'ipv6');
+blockedAddresses.addSubnet('ff00::', 8, 'ipv6');
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it carries
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve a hostname and check every address it has, so a public name pointing at an
+ * internal host is refused.
+ *
+ * @returns The first address, to connect to
+ */
+export async function resolvePublicAddress(hostname: string): Promise<{ address: string; family: number }> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await dns.lookup(host, { all: true, verbatim: true });
+
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${host}`);
+  }
+  if (addresses.some((a) => !isPublicAddress(a.address))) {
+    throw new Error(`${host} resolves to a private or internal address`);
+  }
+  return addresses[0];
+}
+
+// ============================================
+// Requests
+// ============================================
+
+export interface PublicHostResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * POST to a URL on a public host. The hostname is resolved and checked on every call and
+ * the connection is pinned to the checked address, so DNS rebinding cannot swap it for an
+ * internal one between the check and the request. Redirects are not followed.
+ */
+export async function postToPublicHost(
+  url: string,
+  options: {
+    headers: Record<string, string>;
+    body: string;
+    timeoutMs: number;
+    maxResponseLength: number;
+    // Development only: allow receivers on localhost and private networks
+    allowPrivate?: boolean;
+  }
+): Promise<PublicHostResponse> {
+  const target = new URL(url);
+  const resolved = options.allowPrivate ? null : await resolvePublicAddress(target.hostname);
+
+  const lookup: LookupFunction | undefined = resolved
+    ? (_hostname, lookupOptions, callback) => {
+        if (lookupOptions.all) {
+          (callback as (err: null, addresses: Array<{ address: string; family: number }>) => void)(null, [resolved]);
+        } else {
+          callback(null, resolved.address, resolved.family);
+        }
+      }
+    : undefined;
+
+  const client = target.protocol === 'https:' ? https : http;
+
+  return new Promise<PublicHostResponse>((resolve, reject) => {
+    const request = client.request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...options.headers, 'Content-Length': Buffer.byteLength(options.body).toString() },
+        lookup,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      },
+      (response) => {
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          if (body.length < options.maxResponseLength) {
+            body += chunk;
+          }
+        });
+        response.on('end', () => {
+          resolve({ status: response.statusCode ?? 0, body: body.slice(0, options.maxResponseLength) });
+        });
+        response.on('error', reject);
+      }
+    );
+
+    request.on('error', reject);
+    request.end(options.body);
+  });
+}
@@ -1,29 +1,273 @@
-import type { IQuiz, IQuizResult } from '../types/index.js';
+import type {
+  IQuiz,
+  IQuizAnswer,
+  IQuizQuestion,
+  IQuizQuestionFeedback,
+  IQuizResult,
+  IQuizResultScore,
+  QuizProgressEventType,
+  QuizQuestionType,
+  QuizScoringMode,
+} from '../types/index.js';
 import { logger } from './logger.js';
+import {
+  getOrderedQuestions,
+  getNextQuestion,
+  getQuestionType,
+  getRatingScale,
+  getSelectedAnswers,
+  isQuestionAnswered,
+  resolveQuizPath,
+  type QuizAnswerInput,
+} from './quizFlow.js';
 
-// Interface for answer input (can be string or ObjectId-like)
-interface AnswerInput {
-  questionId: string | { toString(): string };
-  answerId: string | { toString(): string };
+export interface QuizScore {
+  result: IQuizResult;
+  // points mode: the taker's total and the highest total possible;
+  // knowledge mode: the percentage of correct answers, out of 100
+  score?: number;
+  maxScore?: number;
+  // personality / weighted modes: each result's share of the taker's points
+  breakdown: IQuizResultScore[];
+  // knowledge mode: how the taker did on each graded question
+  feedback?: IQuizQuestionFeedback[];
+}
+
+export interface QuizGrade {
+  correctCount: number;
+  gradedCount: number;
+  percentage: number;
+  feedback: IQuizQuestionFeedback[];
+}
+
+function findQuestion(response: QuizAnswerInput, quiz: IQuiz): IQuizQuestion | null {
+  const question = quiz.questions.find(
+    (q) => q._id.toString() === response.questionId.toString()
+  );
+
+  if (!question) {
+    logger.warn('Question not found for response', {
+      quizId: quiz._id,
+      questionId: response.questionId,
+    });
+    return null;
+  }
+
+  if (!isQuestionAnswered(question, response)) {
+    logger.warn('Invalid answer for question', {
+      quizId: quiz._id,
+      questionId: response.questionId,
+      questionType: getQuestionType(question),
+    });
+    return null;
+  }
+
+  return question;
+}
+
+/**
+ * Points an answer gives each result. Weighted quizzes use the answer's result weights;
+ * a single result mapping counts as one point (the personality scoring).
+ */
+function getAnswerWeights(answer: IQuizAnswer, mode: QuizScoringMode): Array<{ resultId: string; points: number }> {
+  if (mode === 'weighted' && answer.resultWeights && answer.resultWeights.length > 0) {
+    return answer.resultWeights.map((w) => ({ resultId: w.resultId.toString(), points: w.points }));
+  }
+  return answer.resultMapping ? [{ resultId: answer.resultMapping.toString(), points: 1 }] : [];
+}
+
+/**
+ * How far up its scale a rating is, from 0 (lowest) to 1 (highest)
+ */
+function getRatingFraction(question: IQuizQuestion, value: number): number {
+  const { min, max } = getRatingScale(question);
+  return max > min ? (value - min) / (max - min) : 0;
+}
+
+/**
+ * Points a response gives each result, before the question weight. Choices score as
+ * answers do; a rating gives the question's result weights scaled by how high it is;
+ * free text does not score.
+ */
+function getResponseWeights(
+  question: IQuizQuestion,
+  response: QuizAnswerInput,
+  mode: QuizScoringMode
+): Array<{ resultId: string; points: number }> {
+  const type = getQuestionType(question);
+
+  if (type === 'free_text') {
+    return [];
+  }
+  if (type === 'rating') {
+    const fraction = getRatingFraction(question, response.value!);
+    return (question.resultWeights ?? []).map((w) => ({ resultId: w.resultId.toString(), points: w.points * fraction }));
+  }
+  return getSelectedAnswers(question, response).flatMap((answer) => getAnswerWeights(answer, mode));
+}
+
+/**
+ * Points a response adds to the total in points mode, before the question weight:
+ * the points of the chosen answers, or the rating itself
+ */
+function getResponsePoints(question: IQuizQuestion, response: QuizAnswerInput): number {
+  const type = getQuestionType(question);
+
+  if (type === 'free_text') {
+    return 0;
+  }
+  if (type === 'rating') {
+    return response.value!;
+  }
+  return getSelectedAnswers(question, response).reduce((total, answer) => total + (answer.points ?? 0), 0);
+}
+
+/**
+ * Most points a question can add in points mode, before the question weight
+ */
+function getMaxQuestionPoints(question: IQuizQuestion): number {
+  const type = getQuestionType(question);
+
+  if (type === 'rating') {
+    return getRatingScale(question).max;
+  }
+  if (type === 'multi_select') {
+    const positive = question.answers.map((a) => a.points ?? 0).filter((p) => p > 0).sort((a, b) => b - a);
+    return positive.slice(0, question.maxSelections ?? positive.length).reduce((total, p) => total + p, 0);
+  }
+  return 0;
+}
+
+/**
+ * Highest total a taker can reach in a points quiz, over every path through its branches
+ */
+export function getMaxQuizScore(quiz: IQuiz): number {
+  const ordered = getOrderedQuestions(quiz);
+  const best = new Map<string, number>();
+  const rest = (next: IQuizQuestion | null) => (next ? best.get(next._id.toString()) ?? 0 : 0);
+
+  // Jumps only go forward, so work backwards from the last question
+  for (const question of [...ordered].reverse()) {
+    const weight = question.weight ?? 1;
+    const type = getQuestionType(question);
+
+    // Single and image choices may branch, so each answer leads its own way
+    const totals = type === 'single_choice' || type === 'image_choice'
+      ? question.answers.map((answer) => (answer.points ?? 0) * weight + rest(getNextQuestion(ordered, question, answer)))
+      : [getMaxQuestionPoints(question) * weight + rest(getNextQuestion(ordered, question))];
+    best.set(question._id.toString(), Math.max(0, ...totals));
+  }
+
+  return ordered.length > 0 ? best.get(ordered[0]._id.toString()) ?? 0 : 0;
+}
+
+/**
+ * Whether a knowledge test grades the question: a choice question with a correct answer
+ */
+function isGradedQuestion(question: IQuizQuestion): boolean {
+  const type = getQuestionType(question);
+  return type !== 'rating' && type !== 'free_text' && question.answers.some((a) => a.isCorrect);
+}
+
+/**
+ * Grades the answers to a knowledge test. A single or image choice is correct when the
+ * chosen answer is marked correct; a multi-select only when it picks exactly the correct
+ * answers. Ratings, free text and questions without a correct answer are not graded.
+ *
+ * @param responses - The taker's answers on their path through the quiz
+ * @param quiz - The quiz document
+ * @returns Correct and graded counts, the percentage correct (weighted by question weight)
+ * and feedback for each graded question
+ */
+export function gradeQuizResponses(responses: QuizAnswerInput[], quiz: IQuiz): QuizGrade {
+  const feedback: IQuizQuestionFeedback[] = [];
+  let correctWeight = 0;
+  let totalWeight = 0;
+
+  for (const response of responses) {
+    const question = findQuestion(response, quiz);
+    if (!question || !isGradedQuestion(question)) {
+      continue;
+    }
+
+    const correctAnswerIds = question.answers.filter((a) => a.isCorrect).map((a) => a._id);
+    const selected = getSelectedAnswers(question, response);
+    const isCorrect = getQuestionType(question) === 'multi_select'
+      ? selected.length === correctAnswerIds.length && selected.every((a) => a.isCorrect)
+      : selected.length === 1 && !!selected[0].isCorrect;
+
+    const weight = question.weight ?? 1;
+    totalWeight += weight;
+    if (isCorrect) {
+      correctWeight += weight;
+    }
+
+    feedback.push({
+      questionId: question._id,
+      isCorrect,
+      correctAnswerIds,
+      ...(question.explanation && { explanation: question.explanation }),
+    });
+  }
+
+  return {
+    correctCount: feedback.filter((f) => f.isCorrect).length,
+    gradedCount: feedback.length,
+    percentage: totalWeight > 0 ? Math.round((correctWeight / totalWeight) * 100) : 0,
+    feedback,
+  };
+}
+
+/**
+ * The result whose score range contains the total. Totals outside every range
+ * get the result with the nearest range.
+ */
+function findResultForScore(quiz: IQuiz, score: number): IQuizResult | null {
+  let nearest: IQuizResult | null = null;
+  let nearestDistance = Infinity;
+
+  for (const result of quiz.results) {
+    const min = result.minScore ?? -Infinity;
+    const max = result.maxScore ?? Infinity;
+    if (score >= min && score <= max) {
+      return result;
+    }
+
+    const distance = score < min ? min - score : score - max;
+    if (distance < nearestDistance) {
+      nearest = result;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
 }
 
 /**
  * Calculates which quiz result a user should receive based on their answers.
- * 
- * Algorithm:
- * 1. For each answer the user gave, look up which result it maps to
- * 2. Tally up the count for each result
- * 3. Return the result with the highest count
- * 4. In case of a tie, return the first result (by order in the results array)
- * 
- * @param responses - Array of user's answers (questionId + answerId pairs)
+ *
+ * Algorithm, by the quiz's scoring mode (question weights multiply everything an answer scores):
+ * - personality: each answer gives one point to the result it maps to
+ * - weighted: each answer gives its points to every result it is weighted toward
+ * - points: answer points are summed, and the result whose score range contains the total wins
+ * - knowledge: answers are graded (see gradeQuizResponses), and the result whose score band
+ *   contains the percentage correct wins
+ *
+ * Every selected answer of a multi-select question scores. A rating adds its value in points
+ * mode, and otherwise gives the question's result weights in proportion to how high it is on
+ * the scale. Free-text answers are collected but never scored.
+ *
+ * In the personality and weighted modes the result with the most points wins. Ties go to
+ * the result more answers contributed to, then to the first result in the results array.
+ *
+ * @param responses - Array of user's answers (questionId with the choice, rating or text)
  * @param quiz - The quiz document with questions and results
- * @returns The winning result, or null if no valid result found
+ * @returns The winning result with the score breakdown, or null if no valid result found
  */
 export function calculateQuizResult(
-  responses: AnswerInput[],
+  responses: QuizAnswerInput[],
   quiz: IQuiz
-): IQuizResult | null {
+): QuizScore | null {
   if (!quiz.results || quiz.results.length === 0) {
     logger.warn('Quiz has no results defined', { quizId: quiz._id });
     return null;
@@ -34,48 +278,72 @@ export function calculateQuizResult(
     return null;
   }
 
-  // Count which result each answer points to
+  const mode = quiz.scoringMode || 'personality';
+
+  if (mode === 'knowledge') {
+    const grade = gradeQuizResponses(responses, quiz);
+    const result = findResultForScore(quiz, grade.percentage);
+    if (!result) {
+      return null;
+    }
+
+    logger.info('Quiz result calculated', {
+      quizId: quiz._id,
+      scoringMode: mode,
+      winningResultId: result._id,
+      winningResultName: result.name,
+      score: grade.percentage,
+      correctCount: grade.correctCount,
+      gradedCount: grade.gradedCount,
+    });
+
+    return { result, score: grade.percentage, maxScore: 100, breakdown: [], feedback: grade.feedback };
+  }
+
+  if (mode === 'points') {
+    const score = responses.reduce((total, response) => {
+      const question = findQuestion(response, quiz);
+      return question ? total + getResponsePoints(question, response) * (question.weight ?? 1) : total;
+    }, 0);
+
+    const result = findResultForScore(quiz, score);
+    if (!result) {
+      return null;
+    }
+
+    logger.info('Quiz result calculated', {
+      quizId: quiz._id,
+      scoringMode: mode,
+      winningResultId: result._id,
+      winningResultName: result.name,
+      score,
+    });
+
+    return { result, score, maxScore: getMaxQuizScore(quiz), breakdown: [] };
+  }
+
+  // Points and contributing answers per result
   const resultScores: Record<string, number> = {};
+  const contributions: Record<string, number> = {};
 
   // Initialize all results with 0
   quiz.results.forEach((result) => {
     resultScores[result._id.toString()] = 0;
+    contributions[result._id.toString()] = 0;
   });
 
   // Tally up scores based on answers
   responses.forEach((response) => {
-    // Find the question
-    const question = quiz.questions.find(
-      (q) => q._id.toString() === response.questionId.toString()
-    );
-
+    const question = findQuestion(response, quiz);
     if (!question) {
-      logger.warn('Question not found for response', {
-        quizId: quiz._id,
-        questionId: response.questionId,
-      });
       return;
     }
 
-    // Find the answer
-    const answer = question.answers.find(
-      (a) => a._id.toString() === response.answerId.toString()
-    );
-
-    if (!answer) {
-      logger.warn('Answer not found for response', {
-        quizId: quiz._id,
-        questionId: response.questionId,
-        answerId: response.answerId,
-      });
-      return;
-    }
-
-    // Increment the score for the mapped result
-    if (answer.resultMapping) {
-      const resultId = answer.resultMapping.toString();
-      if (resultScores[resultId] !== undefined) {
-        resultScores[resultId]++;
+    const questionWeight = question.weight ?? 1;
+    for (const { resultId, points } of getResponseWeights(question, response, mode)) {
+      if (resultScores[resultId] !== undefined && points !== 0) {
+        resultScores[resultId] += points * questionWeight;
+        contributions[resultId]++;
       }
     }
   });
@@ -86,91 +354,171 @@ export function calculateQuizResult(
     responseCount: responses.length,
   });
 
-  // Find the winning result
-  let winningResultId: string | null = null;
-  let highestScore = -1;
+  // Find the winning result, iterating in order of the results array
+  let result = quiz.results[0];
+  let highestScore = resultScores[result._id.toString()];
 
-  // Iterate in order of results array (for deterministic tie-breaking)
-  quiz.results.forEach((result) => {
-    const resultId = result._id.toString();
-    const score = resultScores[resultId] || 0;
+  for (const candidate of quiz.results.slice(1)) {
+    const candidateId = candidate._id.toString();
+    const score = resultScores[candidateId];
 
-    if (score > highestScore) {
+    if (
+      score > highestScore ||
+      (score === highestScore && contributions[candidateId] > contributions[result._id.toString()])
+    ) {
       highestScore = score;
-      winningResultId = resultId;
+      result = candidate;
     }
-  });
-
-  if (!winningResultId) {
-    // Fallback to first result if no scores (shouldn't happen normally)
-    logger.warn('No winning result found, falling back to first result', {
-      quizId: quiz._id,
-    });
-    return quiz.results[0] || null;
   }
 
-  const winningResult = quiz.results.find(
-    (r) => r._id.toString() === winningResultId
-  );
+  // Share of the points each result received; negative totals count as none
+  const positiveTotal = quiz.results.reduce((sum, r) => sum + Math.max(0, resultScores[r._id.toString()]), 0);
+  const breakdown: IQuizResultScore[] = quiz.results.map((r) => {
+    const score = resultScores[r._id.toString()];
+    return {
+      resultId: r._id,
+      score,
+      percentage: positiveTotal > 0 ? Math.round((Math.max(0, score) / positiveTotal) * 100) : 0,
+    };
+  });
 
   logger.info('Quiz result calculated', {
     quizId: quiz._id,
-    winningResultId,
-    winningResultName: winningResult?.name,
+    scoringMode: mode,
+    winningResultId: result._id,
+    winningResultName: result.name,
     score: highestScore,
     totalQuestions: responses.length,
   });
 
-  return winningResult || null;
+  return { result, breakdown };
+}
+
+/**
+ * Checks that a quiz can be scored in its scoring mode before it is published.
+ *
+ * @param quiz - The quiz document
+ * @returns A message describing the first problem, or null if the quiz can be scored
+ */
+export function validateQuizScoring(quiz: IQuiz): string | null {
+  const mode = quiz.scoringMode || 'personality';
+  const resultIds = new Set(quiz.results.map((r) => r._id.toString()));
+  const answers = quiz.questions.flatMap((q) => q.answers);
+
+  // Ratings score toward results through the question's weights
+  const ratingWeights = quiz.questions.flatMap((q) => (getQuestionType(q) === 'rating' ? q.resultWeights ?? [] : []));
+  if ((mode === 'personality' || mode === 'weighted') && ratingWeights.some((w) => !resultIds.has(w.resultId.toString()))) {
+    return 'Rating weights must refer to results of this quiz';
+  }
+
+  if (mode === 'personality') {
+    if (answers.some((a) => !a.resultMapping)) {
+      return 'All answers must be mapped to results before publishing';
+    }
+    return null;
+  }
+
+  if (mode === 'weighted') {
+    if (answers.some((a) => !a.resultMapping && !a.resultWeights?.length)) {
+      return 'Every answer must give points to at least one result before publishing';
+    }
+    const unknown = answers.some((a) => a.resultWeights?.some((w) => !resultIds.has(w.resultId.toString())));
+    if (unknown) {
+      return 'Answer weights must refer to results of this quiz';
+    }
+    return null;
+  }
+
+  if (mode === 'knowledge') {
+    for (const question of quiz.questions) {
+      const type = getQuestionType(question);
+      const correctCount = question.answers.filter((a) => a.isCorrect).length;
+
+      if ((type === 'single_choice' || type === 'image_choice') && correctCount !== 1) {
+        return `"${question.questionText}" needs exactly one correct answer`;
+      }
+      if (type === 'multi_select' && correctCount === 0) {
+        return `"${question.questionText}" needs at least one correct answer`;
+      }
+      if (type === 'multi_select' && question.maxSelections && correctCount > question.maxSelections) {
+        return `"${question.questionText}" has more correct answers than takers can select`;
+      }
+    }
+    if (!quiz.questions.some(isGradedQuestion)) {
+      return 'A knowledge test needs at least one question with a correct answer';
+    }
+    if (quiz.results.some((r) => (r.minScore ?? 0) < 0 || (r.maxScore ?? 0) > 100)) {
+      return 'Score bands of a knowledge test must fall between 0 and 100 percent';
+    }
+  }
+
+  // points / knowledge
+  if (quiz.results.some((r) => r.minScore === undefined || r.maxScore === undefined)) {
+    return 'Every result needs a score range before publishing';
+  }
+  if (quiz.results.some((r) => r.minScore! > r.maxScore!)) {
+    return 'A result\'s minimum score cannot be higher than its maximum';
+  }
+
+  const ranges = [...quiz.results].sort((a, b) => a.minScore! - b.minScore!);
+  for (let i = 1; i < ranges.length; i++) {
+    if (ranges[i].minScore! <= ranges[i - 1].maxScore!) {
+      return `Score ranges of "${ranges[i - 1].name}" and "${ranges[i].name}" overlap`;
+    }
+  }
+  return null;
 }
 
 /**
- * Validates that the user has answered all required questions.
+ * Validates that the user has answered every question on their path through the quiz.
+ * Branching rules decide the path; answers to questions off the path are left out of it.
  * 
  * @param responses - Array of user's answers
  * @param quiz - The quiz document
- * @returns Object with isValid flag and any missing question IDs
+ * @returns Object with isValid flag, any missing question IDs and the answered path
  */
 export function validateQuizResponses(
-  responses: AnswerInput[],
+  responses: QuizAnswerInput[],
   quiz: IQuiz
-): { isValid: boolean; missingQuestions: string[] } {
-  const answeredQuestionIds = new Set(
-    responses.map((r) => r.questionId.toString())
-  );
-
-  const missingQuestions: string[] = [];
-
-  quiz.questions.forEach((question) => {
-    if (!answeredQuestionIds.has(question._id.toString())) {
-      missingQuestions.push(question._id.toString());
-    }
-  });
+): { isValid: boolean; missingQuestions: string[]; path: string[] } {
+  const { path, missingQuestions } = resolveQuizPath(responses, quiz);
 
   return {
     isValid: missingQuestions.length === 0,
     missingQuestions,
+    path,
   };
 }
 
+export interface ResultDistributionEntry {
+  resultId: string;
+  resultName: string;
+  count: number;
+  percentage: number;
+  // points / knowledge modes: average score of the takers who got this result
+  averageScore?: number;
+  // personality / weighted modes: average share of takers' points this result received
+  averageShare?: number;
+}
+
 /**
  * Gets the distribution of results across all responses.
  * Useful for analytics to show "most common result".
- * 
- * @param resultIds - Array of result IDs from quiz responses
+ *
+ * @param responses - Result, score and breakdown of each completed quiz response
  * @param quiz - The quiz document
  * @returns Array of results with their counts and percentages
  */
 export function getResultDistribution(
-  resultIds: string[],
+  responses: Array<{
+    resultId: string;
+    score?: number;
+    resultBreakdown?: Array<{ resultId: { toString(): string }; percentage: number }>;
+  }>,
   quiz: IQuiz
-): Array<{
-  resultId: string;
-  resultName: string;
-  count: number;
-  percentage: number;
-}> {
-  const totalResponses = resultIds.length;
+): ResultDistributionEntry[] {
+  const totalResponses = responses.length;
+  const hasScores = quiz.scoringMode === 'points' || quiz.scoringMode === 'knowledge';
 
   if (totalResponses === 0) {
     return quiz.results.map((result) => ({
@@ -181,10 +529,23 @@ export function getResultDistribution(
     }));
   }
 
-  // Count occurrences of each result
+  // Count occurrences of each result, and sum scores and shares
   const counts: Record<string, number> = {};
-  resultIds.forEach((id) => {
-    counts[id] = (counts[id] || 0) + 1;
+  const scoreTotals: Record<string, number> = {};
+  const shareTotals: Record<string, number> = {};
+  let responsesWithBreakdown = 0;
+
+  responses.forEach((response) => {
+    counts[response.resultId] = (counts[response.resultId] || 0) + 1;
+    scoreTotals[response.resultId] = (scoreTotals[response.resultId] || 0) + (response.score ?? 0);
+
+    if (response.resultBreakdown && response.resultBreakdown.length > 0) {
+      responsesWithBreakdown++;
+      response.resultBreakdown.forEach((entry) => {
+        const id = entry.resultId.toString();
+        shareTotals[id] = (shareTotals[id] || 0) + entry.percentage;
+      });
+    }
   });
 
   return quiz.results.map((result) => {
@@ -197,7 +558,204 @@ export function getResultDistribution(
       resultName: result.name,
       count,
       percentage,
+      ...(hasScores && {
+        averageScore: count > 0 ? Math.round((scoreTotals[resultId] / count) * 10) / 10 : 0,
+      }),
+      ...(!hasScores && responsesWithBreakdown > 0 && {
+        averageShare: Math.round((shareTotals[resultId] || 0) / responsesWithBreakdown),
+      }),
     };
   });
 }
 
+export interface AnswerChoiceCount {
+  answerId?: string; // choice questions
+  value?: number; // rating questions
+  label: string;
+  count: number;
+  // Share of the takers who answered the question (multi-select can total over 100)
+  percentage: number;
+}
+
+export interface QuestionFunnelEntry {
+  questionId: string;
+  questionText: string;
+  type: QuizQuestionType;
+  reached: number;
+  answered: number;
+  // Sessions that reached the question and left the quiz there
+  abandoned: number;
+  reachRate: number;
+  abandonRate: number;
+  averageTimeSeconds: number | null;
+  answerDistribution: AnswerChoiceCount[];
+}
+
+export interface QuizFunnel {
+  sessions: number;
+  completed: number;
+  // Answered every question on their path but never submitted (e.g. left at the email form)
+  abandonedBeforeSubmit: number;
+  questions: QuestionFunnelEntry[];
+}
+
+// Longer gaps are a taker who left the tab open, not time spent on the question
+const MAX_QUESTION_SECONDS = 30 * 60;
+
+/**
+ * Per-question funnel across quiz sessions: how many takers reached each question, how many
+ * left there, how long they took to answer it and which answers they chose.
+ *
+ * A session's progress events decide what it reached. An unfinished session left at the
+ * question of its last event, or at the question after it when that one was answered.
+ * Completed sessions count their submitted answers, so sessions without progress events
+ * (older clients) still show in the answer distribution.
+ *
+ * @param sessions - Started quiz sessions with their submitted answers and progress events
+ * @param quiz - The quiz document
+ * @returns Session totals and an entry per question, in question order
+ */
+export function getQuestionFunnel(
+  sessions: Array<{
+    startedAt?: Date;
+    completedAt?: Date;
+    answers: QuizAnswerInput[];
+    progress?: Array<QuizAnswerInput & { event: QuizProgressEventType; at: Date }>;
+  }>,
+  quiz: IQuiz
+): QuizFunnel {
+  const ordered = getOrderedQuestions(quiz);
+  const byId = new Map(ordered.map((q) => [q._id.toString(), q]));
+  const reached: Record<string, number> = {};
+  const abandoned: Record<string, number> = {};
+  const times: Record<string, number[]> = {};
+  const answersByQuestion: Record<string, QuizAnswerInput[]> = {};
+  let completed = 0;
+  let abandonedBeforeSubmit = 0;
+
+  for (const session of sessions) {
+    const events = session.progress ?? [];
+    const answered = new Map<string, QuizAnswerInput>();
+    const seen = new Set<string>();
+    const viewedAt = new Map<string, number>();
+    const timed = new Set<string>();
+    let previousAt = session.startedAt?.getTime();
+
+    for (const event of events) {
+      const questionId = event.questionId.toString();
+      const at = new Date(event.at).getTime();
+      seen.add(questionId);
+
+      if (event.event === 'viewed') {
+        if (!viewedAt.has(questionId)) {
+          viewedAt.set(questionId, at);
+        }
+      } else {
+        answered.set(questionId, event);
+
+        // Time from seeing the question (or the previous event) to the first answer
+        const from = viewedAt.get(questionId) ?? previousAt;
+        const seconds = from !== undefined ? (at - from) / 1000 : -1;
+        if (!timed.has(questionId) && seconds >= 0 && seconds <= MAX_QUESTION_SECONDS) {
+          if (!times[questionId]) {
+            times[questionId] = [];
+          }
+          times[questionId].push(seconds);
+        }
+        timed.add(questionId);
+      }
+      previousAt = at;
+    }
+
+    if (session.completedAt) {
+      completed++;
+      // The submitted answers are the final ones
+      for (const answer of session.answers) {
+        answered.set(answer.questionId.toString(), answer);
+        seen.add(answer.questionId.toString());
+      }
+    } else {
+      // Where the taker left: the last question they were on, or the one after it if answered
+      const last = events.length > 0 ? byId.get(events[events.length - 1].questionId.toString()) : ordered[0];
+      const lastAnswer = last ? answered.get(last._id.toString()) : undefined;
+      const [choice] = last && lastAnswer ? getSelectedAnswers(last, lastAnswer) : [];
+      const leftAt = last && lastAnswer ? getNextQuestion(ordered, last, choice) : last;
+
+      if (leftAt) {
+        seen.add(leftAt._id.toString());
+        abandoned[leftAt._id.toString()] = (abandoned[leftAt._id.toString()] || 0) + 1;
+      } else if (last) {
+        abandonedBeforeSubmit++;
+      }
+    }
+
+    for (const questionId of seen) {
+      reached[questionId] = (reached[questionId] || 0) + 1;
+    }
+    for (const [questionId, answer] of answered) {
+      if (!answersByQuestion[questionId]) {
+        answersByQuestion[questionId] = [];
+      }
+      answersByQuestion[questionId].push(answer);
+    }
+  }
+
+  const questions = ordered.map((question): QuestionFunnelEntry => {
+    const questionId = question._id.toString();
+    const type = getQuestionType(question);
+    const questionReached = reached[questionId] || 0;
+    const questionAbandoned = abandoned[questionId] || 0;
+    const answers = (answersByQuestion[questionId] ?? []).filter((a) => isQuestionAnswered(question, a));
+    const questionTimes = times[questionId] ?? [];
+
+    return {
+      questionId,
+      questionText: question.questionText,
+      type,
+      reached: questionReached,
+      answered: answers.length,
+      abandoned: questionAbandoned,
+      reachRate: sessions.length > 0 ? Math.round((questionReached / sessions.length) * 100) : 0,
+      abandonRate: questionReached > 0 ? Math.round((questionAbandoned / questionReached) * 100) : 0,
+      averageTimeSeconds: questionTimes.length > 0
+        ? Math.round((questionTimes.reduce((sum, t) => sum + t, 0) / questionTimes.length) * 10) / 10
+        : null,
+      answerDistribution: getAnswerDistribution(question, answers),
+    };
+  });
+
+  return { sessions: sessions.length, completed, abandonedBeforeSubmit, questions };
+}
+
+/**
+ * How often each choice (or each rating value) was picked; free text has no distribution
+ */
+function getAnswerDistribution(question: IQuizQuestion, answers: QuizAnswerInput[]): AnswerChoiceCount[] {
+  const type = getQuestionType(question);
+  const percentage = (count: number) => (answers.length > 0 ? Math.round((count / answers.length) * 100) : 0);
+
+  if (type === 'free_text') {
+    return [];
+  }
+
+  if (type === 'rating') {
+    const { min, max } = getRatingScale(question);
+    const values = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+    return values.map((value) => {
+      const count = answers.filter((a) => a.value === value).length;
+      return { value, label: String(value), count, percentage: percentage(count) };
+    });
+  }
+
+  const counts: Record<string, number> = {};
+  for (const answer of answers) {
+    for (const choice of getSelectedAnswers(question, answer)) {
+      counts[choice._id.toString()] = (counts[choice._id.toString()] || 0) + 1;
+    }
+  }
+
+  return question.answers.map((choice) => {
+    const count = counts[choice._id.toString()] || 0;
+    return { answerId: choice._id.toString(), label: choice.answerText, count, percentage: percentage(count) };
+  });
+}
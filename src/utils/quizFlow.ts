@@ -0,0 +1,252 @@
+import type { IQuiz, IQuizAnswer, IQuizQuestion, IQuizRatingScale, QuizQuestionType } from '../types/index.js';
+
+type IdLike = string | { toString(): string };
+
+// A taker's answer to one question (IDs can be strings or ObjectId-like); which field
+// is set depends on the question type
+export interface QuizAnswerInput {
+  questionId: IdLike;
+  answerId?: IdLike;
+  answerIds?: IdLike[];
+  value?: number;
+  text?: string;
+}
+
+// Question types whose answers can carry branching rules
+const BRANCHING_QUESTION_TYPES: QuizQuestionType[] = ['single_choice', 'image_choice'];
+
+const DEFAULT_RATING_SCALE: IQuizRatingScale = { min: 1, max: 5 };
+
+// A null next question means the quiz ends there
+export interface QuizFlowAnswer {
+  answerId: string;
+  nextQuestionId: string | null;
+}
+
+export interface QuizFlowQuestion {
+  questionId: string;
+  // Where answers without a rule lead: the following question by order
+  defaultNextQuestionId: string | null;
+  answers: QuizFlowAnswer[];
+}
+
+export interface QuizFlow {
+  firstQuestionId: string | null;
+  // Some answer jumps ahead or ends the quiz, so takers may see different questions
+  isBranching: boolean;
+  questions: QuizFlowQuestion[];
+}
+
+/**
+ * Questions in the order takers see them when no answer branches
+ */
+export function getOrderedQuestions(quiz: IQuiz): IQuizQuestion[] {
+  return [...quiz.questions].sort((a, b) => a.order - b.order);
+}
+
+export function getQuestionType(question: IQuizQuestion): QuizQuestionType {
+  return question.type || 'single_choice';
+}
+
+export function getRatingScale(question: IQuizQuestion): IQuizRatingScale {
+  return question.ratingScale ?? DEFAULT_RATING_SCALE;
+}
+
+function hasRule(answer: IQuizAnswer): boolean {
+  return !!answer.endsQuiz || !!answer.nextQuestionId;
+}
+
+/**
+ * The choices a response selected, in the question's order. Empty unless the response
+ * picks valid choices: exactly one, or for multi-select up to the question's limit.
+ */
+export function getSelectedAnswers(question: IQuizQuestion, input: QuizAnswerInput): IQuizAnswer[] {
+  const type = getQuestionType(question);
+  if (type === 'rating' || type === 'free_text') {
+    return [];
+  }
+
+  const ids = type === 'multi_select'
+    ? (input.answerIds ?? []).map(String)
+    : input.answerId ? [String(input.answerId)] : [];
+
+  const selected = question.answers.filter((a) => ids.includes(a._id.toString()));
+  if (selected.length === 0 || selected.length !== new Set(ids).size) {
+    return [];
+  }
+  if (type === 'multi_select' && question.maxSelections && selected.length > question.maxSelections) {
+    return [];
+  }
+  return selected;
+}
+
+/**
+ * Whether a response answers the question: valid choices, a whole number on the rating
+ * scale, or text (optional free-text questions count as answered without it)
+ */
+export function isQuestionAnswered(question: IQuizQuestion, input: QuizAnswerInput | undefined): boolean {
+  const type = getQuestionType(question);
+
+  if (type === 'free_text') {
+    return !!question.isOptional || !!input?.text?.trim();
+  }
+  if (!input) {
+    return false;
+  }
+  if (type === 'rating') {
+    const { min, max } = getRatingScale(question);
+    return typeof input.value === 'number' && Number.isInteger(input.value) && input.value >= min && input.value <= max;
+  }
+  return getSelectedAnswers(question, input).length > 0;
+}
+
+/**
+ * The question that follows an answer: its jump target, nothing if it ends the quiz,
+ * otherwise the next question by order. Only single and image choices branch.
+ */
+export function getNextQuestion(
+  ordered: IQuizQuestion[],
+  question: IQuizQuestion,
+  answer?: IQuizAnswer
+): IQuizQuestion | null {
+  const branches = answer && BRANCHING_QUESTION_TYPES.includes(getQuestionType(question));
+  if (branches && answer.endsQuiz) {
+    return null;
+  }
+  if (branches && answer.nextQuestionId) {
+    const target = answer.nextQuestionId.toString();
+    return ordered.find((q) => q._id.toString() === target) ?? null;
+  }
+
+  const index = ordered.findIndex((q) => q._id.toString() === question._id.toString());
+  return ordered[index + 1] ?? null;
+}
+
+/**
+ * The rule graph for rendering adaptive quizzes: where each answer leads
+ */
+export function getQuizFlow(quiz: IQuiz): QuizFlow {
+  const ordered = getOrderedQuestions(quiz);
+
+  return {
+    firstQuestionId: ordered[0]?._id.toString() ?? null,
+    isBranching: ordered.some((q) => BRANCHING_QUESTION_TYPES.includes(getQuestionType(q)) && q.answers.some(hasRule)),
+    questions: ordered.map((question, index) => ({
+      questionId: question._id.toString(),
+      defaultNextQuestionId: ordered[index + 1]?._id.toString() ?? null,
+      answers: question.answers.map((answer) => ({
+        answerId: answer._id.toString(),
+        nextQuestionId: getNextQuestion(ordered, question, answer)?._id.toString() ?? null,
+      })),
+    })),
+  };
+}
+
+/**
+ * Follow the taker's answers from the first question to find the questions on their path.
+ * An unanswered question is reported missing; the walk continues past it only when all of
+ * its answers lead to the same question.
+ *
+ * @returns The answered questions on the path, in order, and the missing ones
+ */
+export function resolveQuizPath(
+  responses: QuizAnswerInput[],
+  quiz: IQuiz
+): { path: string[]; missingQuestions: string[] } {
+  const ordered = getOrderedQuestions(quiz);
+  const inputs = new Map(responses.map((r) => [r.questionId.toString(), r]));
+  const path: string[] = [];
+  const missingQuestions: string[] = [];
+  const visited = new Set<string>();
+
+  let current: IQuizQuestion | null = ordered[0] ?? null;
+  while (current && !visited.has(current._id.toString())) {
+    const questionId = current._id.toString();
+    visited.add(questionId);
+
+    const input = inputs.get(questionId);
+    if (isQuestionAnswered(current, input)) {
+      path.push(questionId);
+      const [answer] = input ? getSelectedAnswers(current, input) : [];
+      current = getNextQuestion(ordered, current, answer);
+      continue;
+    }
+
+    missingQuestions.push(questionId);
+    const question: IQuizQuestion = current;
+    const destinations = new Set(
+      (current.answers.length > 0 ? current.answers : [undefined]).map(
+        (a) => getNextQuestion(ordered, question, a)?._id.toString() ?? null
+      )
+    );
+    if (destinations.size !== 1) {
+      break;
+    }
+    const [destination] = destinations;
+    current = destination ? ordered.find((q) => q._id.toString() === destination) ?? null : null;
+  }
+
+  return { path, missingQuestions };
+}
+
+/**
+ * Checks the branching rules before a quiz is published. Jumps may only go to a later
+ * question, so every path ends and no taker can loop.
+ *
+ * @returns A message describing the first problem, or null if the rules are valid
+ */
+export function validateQuizBranching(quiz: IQuiz): string | null {
+  const ordered = getOrderedQuestions(quiz);
+
+  for (const [index, question] of ordered.entries()) {
+    const branches = BRANCHING_QUESTION_TYPES.includes(getQuestionType(question));
+
+    for (const answer of question.answers) {
+      if (!branches && hasRule(answer)) {
+        return `Only single and image choice questions can branch ("${question.questionText}")`;
+      }
+      if (answer.endsQuiz && answer.nextQuestionId) {
+        return `An answer to "${question.questionText}" cannot both jump to a question and end the quiz`;
+      }
+      if (!answer.nextQuestionId) {
+        continue;
+      }
+
+      const targetIndex = ordered.findIndex((q) => q._id.toString() === answer.nextQuestionId!.toString());
+      if (targetIndex === -1) {
+        return `An answer to "${question.questionText}" jumps to a question that does not exist`;
+      }
+      if (targetIndex <= index) {
+        return `Answers to "${question.questionText}" can only jump to a later question`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks each question's settings for its type before a quiz is published
+ *
+ * @returns A message describing the first problem, or null if every question can be answered
+ */
+export function validateQuizQuestions(quiz: IQuiz): string | null {
+  for (const question of quiz.questions) {
+    const type = getQuestionType(question);
+
+    if (type === 'image_choice' && question.answers.some((a) => !a.imageUrl)) {
+      return `Every answer to "${question.questionText}" needs an image`;
+    }
+    if (type === 'multi_select' && question.maxSelections && question.maxSelections > question.answers.length) {
+      return `"${question.questionText}" allows more selections than it has answers`;
+    }
+    if (type === 'rating') {
+      const { min, max } = getRatingScale(question);
+      if (!Number.isInteger(min) || !Number.isInteger(max) || min >= max || max - min > 10) {
+        return `The rating scale of "${question.questionText}" must run between whole numbers, at most 10 steps apart`;
+      }
+    }
+  }
+
+  return null;
+}